@@ -0,0 +1,232 @@
+import type {
+  Database,
+  GeneratedApiDB,
+  GeneratedApiEvaluationDB,
+  NewGeneratedApiEvaluationDB,
+} from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiEvaluationService } from "../services/api-evaluation-service";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiOperations: vi.fn(),
+  GeneratedApiEvaluationOperations: vi.fn(),
+}));
+
+const authorId = "123e4567-e89b-12d3-a456-426614174000";
+const reviewerId = "223e4567-e89b-12d3-a456-426614174000";
+
+// 評価テーブルのインメモリ実装（APIとユーザーの組で一意）
+class InMemoryEvaluationStore {
+  rows: GeneratedApiEvaluationDB[] = [];
+
+  upsert = vi.fn(async (data: NewGeneratedApiEvaluationDB) => {
+    const existing = this.rows.findIndex(
+      (row) => row.apiId === data.apiId && row.userId === data.userId,
+    );
+    const row: GeneratedApiEvaluationDB = {
+      id: `evaluation-${this.rows.length + 1}`,
+      feedback: null,
+      improvementSuggestions: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...data,
+    };
+    if (existing >= 0) {
+      this.rows[existing] = row;
+    } else {
+      this.rows.push(row);
+    }
+    return { success: true, data: row };
+  });
+
+  listByApi = vi.fn(async (apiId: string) => ({
+    success: true,
+    data: this.rows.filter((row) => row.apiId === apiId),
+  }));
+
+  delete = vi.fn(async (apiId: string, userId: string) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(
+      (row) => !(row.apiId === apiId && row.userId === userId),
+    );
+    return { success: true, data: this.rows.length < before };
+  });
+
+  summarizeByApi = vi.fn(async (apiId: string) => {
+    const rows = this.rows.filter((row) => row.apiId === apiId);
+    const average = (values: number[]) =>
+      values.length === 0
+        ? 0
+        : values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      success: true,
+      data: {
+        evaluationCount: rows.length,
+        averageRating: average(rows.map((row) => row.rating)),
+        workingRate: average(rows.map((row) => (row.isWorking ? 1 : 0))),
+      },
+    };
+  });
+
+  getQualityStats = vi.fn(async (dimension: string) => ({
+    success: true,
+    data:
+      dimension === "llmProvider"
+        ? [
+            {
+              key: "gemini-pro",
+              apiCount: 2,
+              evaluationCount: 4,
+              averageRating: 5,
+              workingRate: 1,
+            },
+            {
+              key: "gpt-4",
+              apiCount: 1,
+              evaluationCount: 1,
+              averageRating: 1,
+              workingRate: 0,
+            },
+          ]
+        : [],
+  }));
+}
+
+describe("ApiEvaluationService", () => {
+  let api: GeneratedApiDB;
+  let store: InMemoryEvaluationStore;
+  let update: ReturnType<typeof vi.fn>;
+  let evaluationService: ApiEvaluationService;
+
+  const evaluation = (userId: string, rating: number, isWorking: boolean) => ({
+    codeId: api.id,
+    userId,
+    rating,
+    isWorking,
+    improvementSuggestions: [],
+    createdAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    api = {
+      id: "api-123",
+      name: "Weather API",
+      description: "Returns the current weather",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      currency: "USDC",
+      generatedCode: "export default app",
+      testCode: null,
+      currentRevision: 3,
+      qualityScore: null,
+      documentation: "# Weather API",
+      status: "active",
+      userId: authorId,
+      organizationId: null,
+      metadata: { llmProvider: "gemini-pro", category: "data" },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    store = new InMemoryEvaluationStore();
+    update = vi.fn(async (_id: string, data: Partial<GeneratedApiDB>) => ({
+      success: true,
+      data: { ...api, ...data },
+    }));
+    const { GeneratedApiOperations, GeneratedApiEvaluationOperations } =
+      await import("@repo/db");
+    (
+      GeneratedApiOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ update }));
+    (
+      GeneratedApiEvaluationOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => store);
+
+    evaluationService = new ApiEvaluationService({} as Database);
+  });
+
+  it("平均評価と動作率から0〜100の品質スコアを求める", () => {
+    // Act & Assert
+    const score = (averageRating: number, workingRate: number) =>
+      ApiEvaluationService.qualityScore({
+        evaluationCount: 1,
+        averageRating,
+        workingRate,
+      });
+    expect(score(5, 1)).toBe(100);
+    expect(score(1, 0)).toBe(0);
+    expect(score(3, 1)).toBe(65);
+    expect(
+      ApiEvaluationService.qualityScore({
+        evaluationCount: 0,
+        averageRating: 0,
+        workingRate: 0,
+      }),
+    ).toBeNull();
+  });
+
+  it("評価を現在のリビジョンで保存し、APIの品質スコアを更新する", async () => {
+    // Act
+    await evaluationService.evaluate(api, evaluation(authorId, 5, true));
+    const result = await evaluationService.evaluate(
+      api,
+      evaluation(reviewerId, 3, false),
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data?.evaluation).toMatchObject({
+      apiId: api.id,
+      userId: reviewerId,
+      revision: 3,
+      rating: 3,
+    });
+    // 平均評価4（0.75）と動作率0.5 → 0.75 * 70 + 0.5 * 30
+    expect(result.data?.qualityScore).toBe(68);
+    expect(update).toHaveBeenLastCalledWith(api.id, { qualityScore: 68 });
+  });
+
+  it("同じユーザーの再評価は上書きする", async () => {
+    // Act
+    await evaluationService.evaluate(api, evaluation(reviewerId, 1, false));
+    const result = await evaluationService.evaluate(
+      api,
+      evaluation(reviewerId, 5, true),
+    );
+
+    // Assert
+    expect(store.rows).toHaveLength(1);
+    expect(result.data?.qualityScore).toBe(100);
+  });
+
+  it("評価を取り消すと品質スコアを再計算し、評価がなければnullに戻す", async () => {
+    // Arrange
+    await evaluationService.evaluate(api, evaluation(reviewerId, 4, true));
+
+    // Act
+    const removed = await evaluationService.remove(api.id, reviewerId);
+    const missing = await evaluationService.remove(api.id, reviewerId);
+
+    // Assert
+    expect(removed).toEqual({ success: true, data: { qualityScore: null } });
+    expect(update).toHaveBeenLastCalledWith(api.id, { qualityScore: null });
+    expect(missing.error).toBe("Evaluation not found");
+  });
+
+  it("プロバイダー・カテゴリごとの統計に品質スコアを付けて返す", async () => {
+    // Act
+    const result = await evaluationService.qualityStats();
+
+    // Assert
+    expect(store.getQualityStats).toHaveBeenCalledWith("llmProvider");
+    expect(store.getQualityStats).toHaveBeenCalledWith("category");
+    expect(result.data?.providers).toEqual([
+      expect.objectContaining({ key: "gemini-pro", qualityScore: 100 }),
+      expect.objectContaining({ key: "gpt-4", qualityScore: 0 }),
+    ]);
+    expect(result.data?.categories).toEqual([]);
+  });
+});
@@ -0,0 +1,321 @@
+import type { Database } from "@repo/db";
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { apiKeyRoutes } from "../routes/api-keys";
+import { ApiKeyService } from "../services/api-key-service";
+import { ApiKeyUtils } from "../utils/api-key";
+
+// Mock types for test interfaces
+interface MockApiKeyOperations {
+  create: ReturnType<typeof vi.fn>;
+  findById: ReturnType<typeof vi.fn>;
+  findByKeyHash: ReturnType<typeof vi.fn>;
+  findByUser: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateLastUsed: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+}
+
+interface MockUserOperations {
+  findById: ReturnType<typeof vi.fn>;
+}
+
+vi.mock("@repo/db", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    db: {},
+    sql: {},
+    poolManager: {},
+    healthChecker: {},
+  }),
+  ApiKeyOperations: vi.fn(),
+  UserOperations: vi.fn(),
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+const otherUserId = "223e4567-e89b-12d3-a456-426614174000";
+const keyId = "333e4567-e89b-12d3-a456-426614174000";
+
+function createMockApiKey(overrides: Record<string, unknown> = {}) {
+  return {
+    id: keyId,
+    name: "CI key",
+    description: null,
+    keyHash: "stored-hash",
+    keyPrefix: "x402_abcde",
+    scopes: ["generator:read", "generator:create"],
+    userId,
+    organizationId: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("APIキー管理API", () => {
+  let app: Hono;
+  let mockApiKeyOperations: MockApiKeyOperations;
+  let mockUserOperations: MockUserOperations;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockApiKeyOperations = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByKeyHash: vi.fn(),
+      findByUser: vi.fn(),
+      update: vi.fn(),
+      updateLastUsed: vi.fn().mockResolvedValue({ success: true }),
+      delete: vi.fn(),
+    };
+    mockUserOperations = {
+      findById: vi.fn(),
+    };
+
+    const { ApiKeyOperations, UserOperations } = await import("@repo/db");
+    (
+      ApiKeyOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => mockApiKeyOperations);
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => mockUserOperations,
+    );
+
+    app = new Hono();
+    app.use("*", (c, next) => {
+      c.set("user", {
+        userId,
+        email: "test@example.com",
+        organizationId: null,
+        iat: Date.now(),
+        exp: Date.now() + 3600000,
+      });
+      return next();
+    });
+    app.route("/internal/api-keys", apiKeyRoutes);
+  });
+
+  describe("POST /internal/api-keys", () => {
+    it("平文キーを一度だけ返し、DBにはハッシュのみ保存する", async () => {
+      // Arrange
+      mockApiKeyOperations.create.mockImplementation(async (data) => ({
+        success: true,
+        data: createMockApiKey(data),
+      }));
+
+      // Act
+      const res = await app.request("/internal/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "CI key" }),
+      });
+
+      // Assert
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as {
+        data: { key: string; apiKey: Record<string, unknown> };
+      };
+      expect(body.data.key).toMatch(/^x402_[0-9a-f]{64}$/);
+      expect(body.data.apiKey.keyHash).toBeUndefined();
+      expect(body.data.apiKey.keyPrefix).toBe(body.data.key.slice(0, 10));
+
+      const saved = mockApiKeyOperations.create.mock.calls[0][0];
+      expect(saved.keyHash).toBe(await new ApiKeyUtils().hash(body.data.key));
+      expect(Object.values(saved)).not.toContain(body.data.key);
+      // スコープ省略時は全スコープを付与
+      expect(saved.scopes).toContain("generator:deploy");
+      expect(saved.scopes).toContain("billing:read");
+    });
+
+    it("指定したスコープのみを持つキーを発行できる", async () => {
+      // Arrange
+      mockApiKeyOperations.create.mockImplementation(async (data) => ({
+        success: true,
+        data: createMockApiKey(data),
+      }));
+
+      // Act
+      const res = await app.request("/internal/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Dashboard",
+          scopes: ["generator:read", "analytics:read"],
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as {
+        data: { apiKey: { scopes: string[] } };
+      };
+      expect(body.data.apiKey.scopes).toEqual([
+        "generator:read",
+        "analytics:read",
+      ]);
+    });
+
+    it("未知のスコープは400を返す", async () => {
+      // Act
+      const res = await app.request("/internal/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "CI key", scopes: ["admin:all"] }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+      expect(mockApiKeyOperations.create).not.toHaveBeenCalled();
+    });
+
+    it("過去の有効期限は400を返す", async () => {
+      // Act
+      const res = await app.request("/internal/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "CI key",
+          expiresAt: new Date(Date.now() - 1000).toISOString(),
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+      expect(mockApiKeyOperations.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /internal/api-keys", () => {
+    it("ハッシュを含まない一覧を返す", async () => {
+      // Arrange
+      mockApiKeyOperations.findByUser.mockResolvedValue({
+        success: true,
+        data: [createMockApiKey()],
+      });
+
+      // Act
+      const res = await app.request("/internal/api-keys");
+
+      // Assert
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { data: Record<string, unknown>[] };
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].keyHash).toBeUndefined();
+      expect(mockApiKeyOperations.findByUser).toHaveBeenCalledWith(userId);
+    });
+  });
+
+  describe("POST /internal/api-keys/:id/rotate", () => {
+    it("新しいキーを発行しハッシュを差し替える", async () => {
+      // Arrange
+      mockApiKeyOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockApiKey(),
+      });
+      mockApiKeyOperations.update.mockImplementation(async (_id, data) => ({
+        success: true,
+        data: createMockApiKey(data),
+      }));
+
+      // Act
+      const res = await app.request(`/internal/api-keys/${keyId}/rotate`, {
+        method: "POST",
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { data: { key: string } };
+      const [, updateData] = mockApiKeyOperations.update.mock.calls[0];
+      expect(updateData.keyHash).toBe(
+        await new ApiKeyUtils().hash(body.data.key),
+      );
+      expect(updateData.keyHash).not.toBe("stored-hash");
+    });
+
+    it("他ユーザーのキーは404を返す", async () => {
+      // Arrange
+      mockApiKeyOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockApiKey({ userId: otherUserId }),
+      });
+
+      // Act
+      const res = await app.request(`/internal/api-keys/${keyId}/rotate`, {
+        method: "POST",
+      });
+
+      // Assert
+      expect(res.status).toBe(404);
+      expect(mockApiKeyOperations.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /internal/api-keys/:id", () => {
+    it("自分のキーを失効できる", async () => {
+      // Arrange
+      mockApiKeyOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockApiKey(),
+      });
+      mockApiKeyOperations.delete.mockResolvedValue({
+        success: true,
+        data: true,
+      });
+
+      // Act
+      const res = await app.request(`/internal/api-keys/${keyId}`, {
+        method: "DELETE",
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(mockApiKeyOperations.delete).toHaveBeenCalledWith(keyId);
+    });
+  });
+
+  describe("ApiKeyService.authenticate", () => {
+    it("有効なキーでキー所有者の情報を返し最終利用日時を更新する", async () => {
+      // Arrange
+      const { key, keyHash } = await new ApiKeyUtils().generate();
+      mockApiKeyOperations.findByKeyHash.mockResolvedValue({
+        success: true,
+        data: createMockApiKey({ keyHash }),
+      });
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: { id: userId, email: "test@example.com" },
+      });
+
+      // Act
+      const result = await new ApiKeyService({} as Database).authenticate(key);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.user.userId).toBe(userId);
+      expect(result.data?.user.scopes).toEqual([
+        "generator:read",
+        "generator:create",
+      ]);
+      expect(mockApiKeyOperations.findByKeyHash).toHaveBeenCalledWith(keyHash);
+      expect(mockApiKeyOperations.updateLastUsed).toHaveBeenCalledWith(keyId);
+    });
+
+    it("期限切れのキーは拒否する", async () => {
+      // Arrange
+      const { key } = await new ApiKeyUtils().generate();
+      mockApiKeyOperations.findByKeyHash.mockResolvedValue({
+        success: true,
+        data: createMockApiKey({ expiresAt: new Date(Date.now() - 1000) }),
+      });
+
+      // Act
+      const result = await new ApiKeyService({} as Database).authenticate(key);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("API key has expired");
+      expect(mockApiKeyOperations.updateLastUsed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import type {
+  Database,
+  GeneratedApiDB,
+  GeneratedApiEndpointDB,
+  GeneratedApiRevisionDB,
+  NewGeneratedApiRevisionDB,
+} from "@repo/db";
+import type { CodeImprovementRequest } from "@repo/shared/api";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConflictError } from "../middleware/error-handler";
+import { ApiRevisionService } from "../services/api-revision-service";
+import type { DynamicDeploymentService } from "../services/dynamic-deployment-service";
+import { LLMService } from "../services/llm-service";
+import { RecordedLLMClient } from "../utils/recorded-llm-client";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiOperations: vi.fn(),
+  GeneratedApiEndpointOperations: vi.fn(),
+  GeneratedApiRevisionOperations: vi.fn(),
+  GeneratedApiTestRunOperations: vi.fn(),
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+
+const originalCode = [
+  "import { Hono } from 'hono'",
+  "const app = new Hono()",
+  "app.get('/api/weather', (c) => c.json({ weather: 'sunny' }))",
+  "export default app",
+].join("\n");
+
+const improvedCode = [
+  "import { Hono } from 'hono'",
+  "const app = new Hono()",
+  "app.get('/api/weather', (c) => {",
+  "  const city = c.req.query('city') ?? 'Tokyo'",
+  "  return c.json({ city, weather: 'sunny' })",
+  "})",
+  "export default app",
+].join("\n");
+
+const request: CodeImprovementRequest = {
+  originalCodeId: "api-123",
+  improvementPrompt: "都市名をクエリパラメーターで指定できるようにしてください",
+  focusAreas: ["readability"],
+};
+
+// リビジョンテーブルのインメモリ実装
+class InMemoryRevisionStore {
+  rows: GeneratedApiRevisionDB[] = [];
+
+  create = vi.fn(async (data: NewGeneratedApiRevisionDB) => {
+    const row: GeneratedApiRevisionDB = {
+      id: `revision-${this.rows.length + 1}`,
+      baseRevision: null,
+      prompt: null,
+      summary: null,
+      diff: null,
+      metadata: null,
+      authorId: null,
+      createdAt: new Date(),
+      ...data,
+    };
+    this.rows.push(row);
+    return { success: true, data: row };
+  });
+
+  listByApi = vi.fn(async (apiId: string) => ({
+    success: true,
+    data: this.rows
+      .filter((row) => row.apiId === apiId)
+      .sort((a, b) => b.revision - a.revision),
+  }));
+
+  findByRevision = vi.fn(async (apiId: string, revision: number) => ({
+    success: true,
+    data:
+      this.rows.find(
+        (row) => row.apiId === apiId && row.revision === revision,
+      ) ?? null,
+  }));
+
+  findLatest = vi.fn(async (apiId: string) => ({
+    success: true,
+    data: (await this.listByApi(apiId)).data[0] ?? null,
+  }));
+}
+
+describe("ApiRevisionService", () => {
+  let api: GeneratedApiDB;
+  let recorded: RecordedLLMClient;
+  let llmService: LLMService;
+  let update: ReturnType<typeof vi.fn>;
+  let findByEndpoint: ReturnType<typeof vi.fn>;
+  let revisionStore: InMemoryRevisionStore;
+  let createTestRun: ReturnType<typeof vi.fn>;
+  let endpointRows: GeneratedApiEndpointDB[];
+  let revisionService: ApiRevisionService;
+
+  // 改善依頼に対するLLMの応答を記録する
+  const recordImprovement = async (response: unknown) => {
+    await recorded.record(
+      llmService.buildImprovementPrompt({
+        name: api.name,
+        description: api.description,
+        generatedCode: api.generatedCode,
+        documentation: api.documentation,
+        improvementPrompt: request.improvementPrompt,
+        focusAreas: request.focusAreas,
+      }),
+      JSON.stringify(response),
+    );
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    api = {
+      id: "api-123",
+      name: "Weather API",
+      description: "Returns the current weather",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      currency: "USDC",
+      generatedCode: originalCode,
+      testCode: null,
+      currentRevision: 1,
+      qualityScore: null,
+      documentation: "# Weather API",
+      status: "active",
+      userId,
+      organizationId: null,
+      metadata: { llmProvider: "recorded", llmModel: "recorded" },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    update = vi.fn(async (_id: string, data: Partial<GeneratedApiDB>) => ({
+      success: true,
+      data: { ...api, ...data },
+    }));
+    findByEndpoint = vi.fn(async () => ({ success: true, data: api }));
+    revisionStore = new InMemoryRevisionStore();
+    createTestRun = vi.fn(async (data: unknown) => ({ success: true, data }));
+    endpointRows = [];
+    const {
+      GeneratedApiOperations,
+      GeneratedApiEndpointOperations,
+      GeneratedApiRevisionOperations,
+      GeneratedApiTestRunOperations,
+    } = await import("@repo/db");
+    (
+      GeneratedApiOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ update, findByEndpoint }));
+    (
+      GeneratedApiEndpointOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      listByApi: vi.fn(async () => ({ success: true, data: endpointRows })),
+    }));
+    (
+      GeneratedApiRevisionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => revisionStore);
+    (
+      GeneratedApiTestRunOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ create: createTestRun }));
+
+    recorded = new RecordedLLMClient();
+    llmService = new LLMService({ recorded }, "recorded");
+    revisionService = new ApiRevisionService({} as Database, llmService);
+    await revisionService.recordInitial(api, "天気APIを作成", userId);
+  });
+
+  it("生成したAPIを最初のリビジョンとして記録する", () => {
+    // Assert
+    expect(revisionStore.rows).toHaveLength(1);
+    expect(revisionStore.rows[0]).toMatchObject({
+      apiId: "api-123",
+      revision: 1,
+      source: "generated",
+      generatedCode: originalCode,
+      prompt: "天気APIを作成",
+      authorId: userId,
+    });
+  });
+
+  it("改善結果を新しいリビジョンとして追加し、現在のコードとの差分を返す", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: "# Weather API\n\n`city` で都市を指定できます",
+      summary: "cityクエリパラメーターを追加",
+    });
+
+    // Act
+    const result = await revisionService.improve(api, request, userId);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data?.revision).toMatchObject({
+      revision: 2,
+      baseRevision: 1,
+      source: "improved",
+      generatedCode: improvedCode,
+      prompt: request.improvementPrompt,
+      summary: "cityクエリパラメーターを追加",
+      metadata: { focusAreas: ["readability"], llmProvider: "recorded" },
+      authorId: userId,
+    });
+    expect(result.data?.diff).toContain("--- a/revision-1/index.ts");
+    expect(result.data?.diff).toContain("+++ b/revision-2/index.ts");
+    expect(result.data?.diff).toContain(
+      "-app.get('/api/weather', (c) => c.json({ weather: 'sunny' }))",
+    );
+    expect(result.data?.diff).toContain("+++ b/revision-2/README.md");
+    expect(result.data?.revision.diff).toBe(result.data?.diff);
+    // 現在のコードは上書きしない
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("既存のリビジョンがあれば続きの番号を付ける", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+
+    // Act
+    const result = await revisionService.improve(api, request, userId);
+
+    // Assert
+    expect(result.data?.revision).toMatchObject({
+      revision: 3,
+      baseRevision: 1,
+      summary: "",
+    });
+    expect(result.data?.diff).not.toContain("README.md");
+  });
+
+  it("変更がなければ保存せずエラーを返す", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: originalCode,
+      documentation: api.documentation,
+    });
+
+    // Act
+    const result = await revisionService.improve(api, request, userId);
+
+    // Assert
+    expect(result).toEqual({ success: false, error: "No changes generated" });
+    expect(revisionStore.rows).toHaveLength(1);
+  });
+
+  it("危険なコードが生成された場合は保存しない", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: `${originalCode}\neval(c.req.query('code'))`,
+      documentation: api.documentation,
+    });
+
+    // Act
+    const result = await revisionService.improve(api, request, userId);
+
+    // Assert
+    expect(result).toEqual({ success: false, error: "Unsafe code generated" });
+    expect(revisionStore.rows).toHaveLength(1);
+  });
+
+  it("コードを含まない応答は不正な改善として扱う", async () => {
+    // Arrange
+    await recordImprovement({ summary: "nothing" });
+
+    // Act
+    const result = await revisionService.improve(api, request, userId);
+
+    // Assert
+    expect(result.error).toBe("Invalid improvement generated");
+  });
+
+  it("一覧は新しい順でコードを含まない", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+
+    // Act
+    const result = await revisionService.list(api.id);
+
+    // Assert
+    expect(result.data?.map((revision) => revision.revision)).toEqual([2, 1]);
+    expect(result.data?.[0]).not.toHaveProperty("generatedCode");
+    expect(result.data?.[0]).not.toHaveProperty("diff");
+  });
+
+  it("任意の2つのリビジョンを比較できる", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+
+    // Act
+    const forward = await revisionService.compare(api.id, 1, 2);
+    const backward = await revisionService.compare(api.id, 2, 1);
+    const missing = await revisionService.compare(api.id, 1, 9);
+
+    // Assert
+    expect(forward.data?.diff).toContain("+  const city");
+    expect(backward.data?.diff).toContain("--- a/revision-2/index.ts");
+    expect(backward.data?.diff).toContain("-  const city");
+    expect(missing.error).toBe("Revision not found");
+  });
+
+  it("指定したリビジョンをデプロイし、現在のコードを切り替える", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+    const deployGeneratedApi = vi.fn().mockResolvedValue({
+      success: true,
+      data: { apiId: api.id, version: 2 },
+    });
+    const deploymentService = {
+      deployGeneratedApi,
+    } as unknown as DynamicDeploymentService;
+
+    // Act
+    const result = await revisionService.deployRevision(
+      api,
+      2,
+      deploymentService,
+      userId,
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(deployGeneratedApi).toHaveBeenCalledWith(
+      expect.objectContaining({ generatedCode: improvedCode, testCases: [] }),
+      userId,
+      api.id,
+      { revision: 2 },
+    );
+    expect(update).toHaveBeenCalledWith(
+      api.id,
+      expect.objectContaining({
+        generatedCode: improvedCode,
+        currentRevision: 2,
+        status: "active",
+      }),
+    );
+    expect(result.data?.api.currentRevision).toBe(2);
+  });
+
+  it("複数ルートのAPIは保存されたルートをデプロイする仕様に含める", async () => {
+    // Arrange
+    endpointRows = [
+      {
+        id: "endpoint-1",
+        apiId: api.id,
+        method: "GET",
+        path: "/",
+        price: "0.01",
+        description: "List cities",
+        position: 0,
+        createdAt: new Date(),
+      },
+      {
+        id: "endpoint-2",
+        apiId: api.id,
+        method: "GET",
+        path: "/:city",
+        price: "0.02",
+        description: null,
+        position: 1,
+        createdAt: new Date(),
+      },
+    ];
+    const deployGeneratedApi = vi.fn().mockResolvedValue({
+      success: true,
+      data: { apiId: api.id, version: 1 },
+    });
+
+    // Act
+    await revisionService.deployRevision(
+      api,
+      1,
+      { deployGeneratedApi } as unknown as DynamicDeploymentService,
+      userId,
+    );
+
+    // Assert
+    expect(deployGeneratedApi).toHaveBeenCalledWith(
+      expect.objectContaining({
+        endpoints: [
+          {
+            method: "GET",
+            path: "/",
+            price: "0.01",
+            description: "List cities",
+          },
+          { method: "GET", path: "/:city", price: "0.02" },
+        ],
+      }),
+      userId,
+      api.id,
+      { revision: 1 },
+    );
+  });
+
+  it("存在しないリビジョンやデプロイ失敗ではAPIを更新しない", async () => {
+    // Arrange
+    const deploymentService = {
+      deployGeneratedApi: vi
+        .fn()
+        .mockResolvedValue({ success: false, error: "Deployment failed" }),
+    } as unknown as DynamicDeploymentService;
+
+    // Act
+    const missing = await revisionService.deployRevision(
+      api,
+      5,
+      deploymentService,
+      userId,
+    );
+    const failed = await revisionService.deployRevision(
+      api,
+      1,
+      deploymentService,
+      userId,
+    );
+
+    // Assert
+    expect(missing.error).toBe("Revision not found");
+    expect(failed.error).toBe("Deployment failed");
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("リビジョンのマウント先が他のAPIに使われている場合はConflictErrorを投げ、デプロイしない", async () => {
+    // Arrange
+    findByEndpoint.mockResolvedValue({
+      success: true,
+      data: { ...api, id: "api-other" },
+    });
+    const deployGeneratedApi = vi.fn();
+
+    // Act & Assert
+    await expect(
+      revisionService.deployRevision(
+        api,
+        1,
+        { deployGeneratedApi } as unknown as DynamicDeploymentService,
+        userId,
+      ),
+    ).rejects.toThrow(ConflictError);
+    expect(findByEndpoint).toHaveBeenCalledWith("/api/weather");
+    expect(deployGeneratedApi).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("リビジョンのカナリアリリースでは現在のコードを切り替えない", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+    const startCanary = vi.fn().mockResolvedValue({
+      success: true,
+      data: { status: "canary", version: 2 },
+    });
+
+    // Act
+    const result = await revisionService.deployCanary(
+      api,
+      2,
+      { startCanary } as unknown as DynamicDeploymentService,
+      userId,
+      { percentage: 20 },
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(startCanary).toHaveBeenCalledWith(
+      expect.objectContaining({ generatedCode: improvedCode }),
+      userId,
+      api.id,
+      { percentage: 20, revision: 2 },
+    );
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("昇格したカナリアのリビジョンを現在のコードにし、ロールバックでは更新しない", async () => {
+    // Arrange
+    await recordImprovement({
+      generatedCode: improvedCode,
+      documentation: api.documentation,
+    });
+    await revisionService.improve(api, request, userId);
+    const config = {
+      userId,
+      apiId: api.id,
+      stableVersion: 1,
+      canaryVersion: 2,
+      percentage: 20,
+      thresholds: {
+        minRequests: 100,
+        maxErrorRateIncrease: 0.02,
+        maxLatencyRatio: 1.5,
+      },
+      revision: 2,
+      startedAt: new Date().toISOString(),
+    };
+
+    // Act
+    const rolledBack = await revisionService.applyCanaryCompletion({
+      config,
+      decision: "rollback",
+    });
+    const promoted = await revisionService.applyCanaryCompletion({
+      config,
+      decision: "promote",
+    });
+
+    // Assert
+    expect(rolledBack).toEqual({ success: true, data: null });
+    expect(promoted.data?.currentRevision).toBe(2);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith(
+      api.id,
+      expect.objectContaining({
+        generatedCode: improvedCode,
+        currentRevision: 2,
+        status: "active",
+      }),
+    );
+  });
+
+  it("保存されたテストケースをリビジョンのコードに対して実行し、結果を記録する", async () => {
+    // Arrange
+    const testCases = [
+      {
+        name: "天気を返す",
+        request: { method: "GET" as const, path: "/api/weather" },
+        expect: { status: 200, jsonKeys: ["weather"] },
+      },
+    ];
+    api.testCode = JSON.stringify(testCases);
+    const testRun = {
+      passed: false,
+      total: 1,
+      failed: 1,
+      results: [
+        {
+          name: "天気を返す",
+          passed: false,
+          status: 500,
+          durationMs: 3,
+          failures: ["Expected status 200 but got 500"],
+        },
+      ],
+    };
+    const deploymentService = {
+      deployGeneratedApi: vi.fn().mockResolvedValue({
+        success: false,
+        error: "Tests failed: 1 of 1 test cases failed",
+        testRun,
+      }),
+    } as unknown as DynamicDeploymentService;
+
+    // Act
+    const result = await revisionService.deployRevision(
+      api,
+      1,
+      deploymentService,
+      userId,
+    );
+
+    // Assert
+    expect(deploymentService.deployGeneratedApi).toHaveBeenCalledWith(
+      expect.objectContaining({ testCases }),
+      userId,
+      api.id,
+      { revision: 1 },
+    );
+    expect(result).toMatchObject({ success: false, testRun });
+    expect(createTestRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        apiId: api.id,
+        revision: 1,
+        passed: false,
+        overridden: false,
+        triggeredBy: userId,
+      }),
+    );
+    expect(update).not.toHaveBeenCalled();
+  });
+});
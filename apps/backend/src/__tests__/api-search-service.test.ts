@@ -0,0 +1,115 @@
+import type { Database } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiSearchService } from "../services/api-search-service";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiOperations: vi.fn(),
+  SEARCH_HIGHLIGHT_START: "\u0002",
+  SEARCH_HIGHLIGHT_END: "\u0003",
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+
+describe("ApiSearchService", () => {
+  let search: ReturnType<typeof vi.fn>;
+  let searchService: ApiSearchService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    search = vi.fn().mockResolvedValue({
+      success: true,
+      data: { items: [], total: 0, facets: { category: [], status: [] } },
+    });
+    const { GeneratedApiOperations } = await import("@repo/db");
+    (
+      GeneratedApiOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ search }));
+
+    searchService = new ApiSearchService({} as Database);
+  });
+
+  it("抜粋の本文をエスケープし、一致箇所だけを<mark>で囲む", () => {
+    // Act & Assert
+    expect(
+      ApiSearchService.highlight(
+        `app.get("/\u0002weather\u0003", (c) => c.json({ a: 1 < 2 && 'ok' }))`,
+      ),
+    ).toBe(
+      "app.get(&quot;/<mark>weather</mark>&quot;, (c) =&gt; c.json({ a: 1 &lt; 2 &amp;&amp; &#39;ok&#39; }))",
+    );
+  });
+
+  it("生成APIに存在しない言語・フレームワーク・生成ステータスは検索せずに空で返す", async () => {
+    // Act
+    const results = await Promise.all([
+      searchService.search(
+        { language: "python", limit: 10, offset: 0 },
+        { userId },
+      ),
+      searchService.search(
+        { framework: "express", limit: 10, offset: 0 },
+        { userId },
+      ),
+      searchService.search(
+        { status: "failed", limit: 10, offset: 0 },
+        { userId },
+      ),
+    ]);
+
+    // Assert
+    for (const result of results) {
+      expect(result.data).toEqual({
+        items: [],
+        total: 0,
+        facets: { category: [], status: [] },
+      });
+    }
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it("TypeScript/Honoの完了済みを指定した場合は条件として渡さずに検索する", async () => {
+    // Act
+    await searchService.search(
+      {
+        query: "",
+        language: "typescript",
+        framework: "hono",
+        status: "completed",
+        category: "data",
+        apiStatus: "draft",
+        limit: 20,
+        offset: 40,
+      },
+      { userId, organizationId: null },
+    );
+
+    // Assert
+    expect(search).toHaveBeenCalledWith({
+      query: undefined,
+      visibleTo: { userId, organizationId: null },
+      llmProvider: undefined,
+      category: "data",
+      status: "draft",
+      minQualityScore: undefined,
+      dateFrom: undefined,
+      dateTo: undefined,
+      limit: 20,
+      offset: 40,
+    });
+  });
+
+  it("検索に失敗した場合はエラーを返す", async () => {
+    // Arrange
+    search.mockResolvedValue({ success: false, error: new Error("db down") });
+
+    // Act
+    const result = await searchService.search(
+      { query: "weather", limit: 10, offset: 0 },
+      { userId },
+    );
+
+    // Assert
+    expect(result).toEqual({ success: false, error: "Failed to search APIs" });
+  });
+});
@@ -0,0 +1,105 @@
+import type { ApiTestCase } from "@repo/shared/api";
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it } from "vitest";
+import { ApiTestRunner } from "../services/api-test-runner";
+
+describe("ApiTestRunner", () => {
+  let app: Hono;
+  let runner: ApiTestRunner;
+
+  beforeEach(() => {
+    app = new Hono();
+    app.get("/api/weather", (c) =>
+      c.json({ city: c.req.query("city") ?? "Tokyo", temperature: 25 }),
+    );
+    app.post("/api/echo", async (c) => c.json(await c.req.json(), 201));
+    app.get("/api/slow", () => new Promise<Response>(() => {}));
+    runner = new ApiTestRunner(50);
+  });
+
+  it("期待したステータス・キー・本文を満たすケースを成功とする", async () => {
+    // Arrange
+    const testCases: ApiTestCase[] = [
+      {
+        name: "都市を指定して天気を取得",
+        request: {
+          method: "GET",
+          path: "/api/weather",
+          query: { city: "Osaka" },
+        },
+        expect: {
+          status: 200,
+          contentType: "application/json",
+          bodyContains: ["Osaka"],
+          jsonKeys: ["city", "temperature"],
+        },
+      },
+      {
+        name: "JSONボディを送信",
+        request: { method: "POST", path: "/api/echo", body: { text: "hi" } },
+        expect: { status: 201, jsonKeys: ["text"] },
+      },
+    ];
+
+    // Act
+    const result = await runner.run(app, testCases);
+
+    // Assert
+    expect(result).toMatchObject({ passed: true, total: 2, failed: 0 });
+    expect(result.results.map((r) => r.status)).toEqual([200, 201]);
+  });
+
+  it("期待と異なるレスポンスは失敗理由とともに記録する", async () => {
+    // Arrange
+    const testCases: ApiTestCase[] = [
+      {
+        name: "存在しないパス",
+        request: { method: "GET", path: "/api/unknown" },
+        expect: { status: 200, jsonKeys: ["city"] },
+      },
+    ];
+
+    // Act
+    const result = await runner.run(app, testCases);
+
+    // Assert
+    expect(result).toMatchObject({ passed: false, total: 1, failed: 1 });
+    expect(result.results[0].failures).toEqual([
+      "Expected status 200 but got 404",
+      "Response body is not JSON",
+    ]);
+  });
+
+  it("応答しないケースはタイムアウトとして失敗させ、残りのケースを続行する", async () => {
+    // Arrange
+    const testCases: ApiTestCase[] = [
+      {
+        name: "応答しない",
+        request: { method: "GET", path: "/api/slow" },
+        expect: { status: 200 },
+      },
+      {
+        name: "天気を取得",
+        request: { method: "GET", path: "/api/weather" },
+        expect: { status: 200 },
+      },
+    ];
+
+    // Act
+    const result = await runner.run(app, testCases);
+
+    // Assert
+    expect(result.failed).toBe(1);
+    expect(result.results[0].failures).toEqual([
+      "Request failed: Timed out after 50ms",
+    ]);
+    expect(result.results[1].passed).toBe(true);
+  });
+
+  it("fetchを持たないオブジェクトはエラーにする", async () => {
+    // Act & Assert
+    await expect(runner.run({}, [])).rejects.toThrow(
+      "Compiled application has no fetch handler",
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import type { Database } from "@repo/db";
+import type { ApiTestCase } from "@repo/shared/api";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiTestService } from "../services/api-test-service";
+import { type GeneratedApiSpec, LLMService } from "../services/llm-service";
+import type { ApiTestRunResult } from "../types/dynamic-routes";
+import { RecordedLLMClient } from "../utils/recorded-llm-client";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiTestRunOperations: vi.fn(),
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+
+const spec: GeneratedApiSpec = {
+  name: "Weather API",
+  description: "Returns the current weather",
+  endpoint: "/api/weather",
+  method: "GET",
+  price: "0.01",
+  generatedCode: [
+    "import { Hono } from 'hono'",
+    "const app = new Hono()",
+    "app.get('/api/weather', (c) => c.json({ city: 'Tokyo', weather: 'sunny' }))",
+    "app.post('/api/weather/report', (c) => c.json({ ok: true }, 201))",
+    "export default app",
+  ].join("\n"),
+  documentation: "# Weather API",
+};
+
+const testCases: ApiTestCase[] = [
+  {
+    name: "天気を返す",
+    request: { method: "GET", path: "/api/weather" },
+    expect: { status: 200, jsonKeys: ["city", "weather"] },
+  },
+  {
+    name: "レポートを受け付ける",
+    request: { method: "POST", path: "/api/weather/report", body: {} },
+    expect: { status: 201 },
+  },
+];
+
+const failedRun: ApiTestRunResult = {
+  passed: false,
+  total: 1,
+  failed: 1,
+  results: [
+    {
+      name: "天気を返す",
+      passed: false,
+      status: 500,
+      durationMs: 2,
+      failures: ["Expected status 200 but got 500"],
+    },
+  ],
+};
+
+describe("ApiTestService", () => {
+  let recorded: RecordedLLMClient;
+  let llmService: LLMService;
+  let createTestRun: ReturnType<typeof vi.fn>;
+  let testService: ApiTestService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    createTestRun = vi.fn(async (data: unknown) => ({ success: true, data }));
+    const { GeneratedApiTestRunOperations } = await import("@repo/db");
+    (
+      GeneratedApiTestRunOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ create: createTestRun }));
+
+    recorded = new RecordedLLMClient();
+    llmService = new LLMService({ recorded }, "recorded");
+    testService = new ApiTestService({} as Database, llmService);
+  });
+
+  it("コードから抽出したエンドポイントごとのテストケースを生成する", async () => {
+    // Arrange
+    await recorded.record(
+      llmService.buildTestGenerationPrompt(spec, [
+        { method: "GET", path: "/api/weather" },
+        { method: "POST", path: "/api/weather/report" },
+      ]),
+      JSON.stringify({ testCases }),
+    );
+
+    // Act
+    const result = await testService.generate(spec);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(testCases);
+  });
+
+  it("ルートが登録されていないコードではテストを生成しない", async () => {
+    // Act
+    const result = await testService.generate({
+      ...spec,
+      generatedCode: "export default {}",
+    });
+
+    // Assert
+    expect(result).toEqual({ success: false, error: "No endpoints to test" });
+  });
+
+  it("保存されたテストケースを読み込み、不正な内容は空として扱う", () => {
+    // Act & Assert
+    expect(
+      ApiTestService.parseTestCases(
+        ApiTestService.serializeTestCases(testCases),
+      ),
+    ).toEqual(testCases);
+    expect(ApiTestService.serializeTestCases([])).toBeNull();
+    expect(ApiTestService.parseTestCases(null)).toEqual([]);
+    expect(ApiTestService.parseTestCases("not json")).toEqual([]);
+    expect(ApiTestService.parseTestCases('[{"name":"x"}]')).toEqual([]);
+  });
+
+  it("失敗したテストを許可してデプロイした場合はoverriddenとして記録する", async () => {
+    // Act
+    await testService.recordDeployment(
+      "api-123",
+      2,
+      {
+        success: true,
+        data: {
+          deploymentId: "deployment-1",
+          status: "deployed",
+          endpoint: "/api/weather",
+          version: 2,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+        testRun: failedRun,
+      },
+      userId,
+    );
+    await testService.recordDeployment(
+      "api-123",
+      2,
+      { success: false, error: "Tests failed", testRun: failedRun },
+      userId,
+    );
+
+    // Assert
+    expect(createTestRun).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        apiId: "api-123",
+        revision: 2,
+        passed: false,
+        overridden: true,
+        triggeredBy: userId,
+      }),
+    );
+    expect(createTestRun).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ overridden: false }),
+    );
+  });
+
+  it("テストを実行していないデプロイは記録しない", async () => {
+    // Act
+    await testService.recordDeployment(
+      "api-123",
+      1,
+      { success: false, error: "Deployment failed" },
+      userId,
+    );
+
+    // Assert
+    expect(createTestRun).not.toHaveBeenCalled();
+  });
+});
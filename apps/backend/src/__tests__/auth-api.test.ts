@@ -8,12 +8,21 @@ interface MockUserOperations {
   create: ReturnType<typeof vi.fn>;
   findById: ReturnType<typeof vi.fn>;
   update: ReturnType<typeof vi.fn>;
+  incrementFailedLoginAttempts: ReturnType<typeof vi.fn>;
+  lockUntil: ReturnType<typeof vi.fn>;
+  resetFailedLoginAttempts: ReturnType<typeof vi.fn>;
 }
 
 interface MockOrganizationOperations {
   create: ReturnType<typeof vi.fn>;
 }
 
+interface MockPasswordResetTokenOperations {
+  create: ReturnType<typeof vi.fn>;
+  findActiveByEmail: ReturnType<typeof vi.fn>;
+  invalidateAllByEmail: ReturnType<typeof vi.fn>;
+}
+
 type MockCreateClient = ReturnType<typeof vi.fn>;
 
 // createClientをモック化
@@ -21,6 +30,13 @@ vi.mock("@repo/db", () => ({
   createClient: vi.fn(),
   UserOperations: vi.fn(),
   OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  PasswordResetTokenOperations: vi.fn(),
+  TwoFactorCredentialOperations: vi.fn(),
+  TwoFactorRecoveryCodeOperations: vi.fn(),
+  WalletLinkOperations: vi.fn(),
+  LoginHistoryOperations: vi.fn(),
 }));
 
 // パスワードユーティリティをモック化
@@ -53,6 +69,7 @@ describe("ユーザー管理API", () => {
   let app: Hono;
   let mockUserOperations: MockUserOperations;
   let mockOrganizationOperations: MockOrganizationOperations;
+  let mockPasswordResetTokenOperations: MockPasswordResetTokenOperations;
   let mockCreateClient: MockCreateClient;
 
   beforeEach(async () => {
@@ -67,6 +84,13 @@ describe("ユーザー管理API", () => {
       create: vi.fn(),
       findById: vi.fn(),
       update: vi.fn(),
+      incrementFailedLoginAttempts: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: 1 }),
+      lockUntil: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      resetFailedLoginAttempts: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: {} }),
     };
 
     // OrganizationOperationsのモック設定
@@ -74,6 +98,15 @@ describe("ユーザー管理API", () => {
       create: vi.fn(),
     };
 
+    // PasswordResetTokenOperationsのモック設定（既定では有効なトークンなし）
+    mockPasswordResetTokenOperations = {
+      create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      findActiveByEmail: vi.fn().mockResolvedValue({ success: true, data: [] }),
+      invalidateAllByEmail: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: 0 }),
+    };
+
     // createClientのモック設定 - 適切な構造を返すように設定
     mockCreateClient = vi.fn().mockResolvedValue({
       db: {}, // データベースオブジェクト
@@ -83,8 +116,16 @@ describe("ユーザー管理API", () => {
     });
 
     // モジュールのモック設定を更新
-    const { createClient, UserOperations, OrganizationOperations } =
-      await import("@repo/db");
+    const {
+      createClient,
+      UserOperations,
+      OrganizationOperations,
+      OrganizationMemberOperations,
+      SessionOperations,
+      PasswordResetTokenOperations,
+      TwoFactorCredentialOperations,
+      LoginHistoryOperations,
+    } = await import("@repo/db");
     (createClient as MockCreateClient).mockImplementation(mockCreateClient);
     (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
       () => mockUserOperations,
@@ -92,6 +133,48 @@ describe("ユーザー管理API", () => {
     (
       OrganizationOperations as unknown as ReturnType<typeof vi.fn>
     ).mockImplementation(() => mockOrganizationOperations);
+    (
+      PasswordResetTokenOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => mockPasswordResetTokenOperations);
+    // メンバー登録は常に成功させ、所属組織なしとして扱う
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, createdAt: new Date(), updatedAt: new Date() },
+      })),
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+    // セッション作成は常に成功させる
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, lastUsedAt: null, createdAt: new Date() },
+      })),
+    }));
+    // 二要素認証は未登録として扱う
+    (
+      TwoFactorCredentialOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findByUser: vi.fn().mockResolvedValue({ success: true, data: null }),
+    }));
+    // ログイン履歴の記録は常に成功させ、過去の履歴なしとして扱う
+    (
+      LoginHistoryOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      hasSuccessfulLogin: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+      hasSuccessfulLoginFromIp: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+    }));
 
     // 認証ルートを設定
     app.route("/internal/auth", authRoutes);
@@ -122,7 +205,6 @@ describe("ユーザー管理API", () => {
           id: "123e4567-e89b-12d3-a456-426614174000",
           email: "test@example.com",
           name: "Test User",
-          organizationId: "987e6543-e21b-34d5-a678-426614174999",
           emailVerified: false,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -255,7 +337,6 @@ describe("ユーザー管理API", () => {
         name: "Test User",
         passwordHash:
           "100000$YWFhYWFhYWFhYWFhYWFhYQ==$dGVzdGhhc2hhc2hhc2hhc2hhc2hhc2hhc2hhc2g=",
-        organizationId: "987e6543-e21b-34d5-a678-426614174999",
         emailVerified: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -316,7 +397,6 @@ describe("ユーザー管理API", () => {
         id: "123e4567-e89b-12d3-a456-426614174000",
         email: "test@example.com",
         passwordHash: "different-hash",
-        organizationId: null,
       };
 
       mockUserOperations.findByEmail.mockResolvedValue({
@@ -350,7 +430,6 @@ describe("ユーザー管理API", () => {
         email: "test@example.com",
         name: "Test User",
         passwordHash: "hashed-password",
-        organizationId: null,
         emailVerified: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -427,15 +506,15 @@ describe("ユーザー管理API", () => {
   describe("POST /internal/auth/password-reset/confirm - パスワードリセット実行", () => {
 
     it("パスワードリセット確認エンドポイントが正しく動作する", async () => {
-      // 統合テストでは、AuthServiceのresetTokensが各リクエストで新しく作成されるため
-      // リセット要求とリセット実行の間でトークンが保持されない
-      // そのため、このテストはエンドポイントの基本動作をテストする
+      // リセットトークンはDBに保存されるため、ここでは有効なトークンが
+      // 存在しない状態（モック）でエンドポイントの基本動作をテストする
       
       // Act - 無効なトークンでテスト（統合テストの制限による期待される動作）
       const res = await app.request("/internal/auth/password-reset/confirm", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          email: "test@example.com",
           token: "invalid-token",
           password: "NewPassword123!",
         }),
@@ -447,9 +526,43 @@ describe("ユーザー管理API", () => {
       expect(data.error).toBe("Invalid or expired reset token");
     });
 
+    it("試行回数の上限に達している場合は429エラーを返す", async () => {
+      // Arrange
+      mockPasswordResetTokenOperations.findActiveByEmail.mockResolvedValue({
+        success: true,
+        data: [
+          {
+            email: "test@example.com",
+            tokenHash: "stored-hash",
+            attempts: 5,
+            expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+            usedAt: null,
+          },
+        ],
+      });
+
+      // Act
+      const res = await app.request("/internal/auth/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email: "test@example.com",
+          token: "123456",
+          password: "NewPassword123!",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(429);
+      expect(
+        mockPasswordResetTokenOperations.invalidateAllByEmail,
+      ).toHaveBeenCalledWith("test@example.com");
+    });
+
     it("無効なトークンで400エラーを返す", async () => {
       // Arrange
       const invalidTokenData = {
+        email: "test@example.com",
         token: "invalid-token",
         password: "NewPassword123!",
       };
@@ -470,6 +583,7 @@ describe("ユーザー管理API", () => {
     it("弱いパスワードで400エラーを返す", async () => {
       // Arrange
       const weakPasswordData = {
+        email: "test@example.com",
         token: "123456",
         password: "weak",
       };
@@ -1,6 +1,8 @@
 import type { Database } from "@repo/db";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { AuthService } from "../services/auth-service";
+import { InMemoryMailTransport } from "../services/mail-service";
+import { EmailVerificationUtils } from "../utils/email-verification";
 
 // Mock types for test interfaces
 interface MockUserOperations {
@@ -8,6 +10,9 @@ interface MockUserOperations {
   create: ReturnType<typeof vi.fn>;
   findById: ReturnType<typeof vi.fn>;
   update: ReturnType<typeof vi.fn>;
+  incrementFailedLoginAttempts: ReturnType<typeof vi.fn>;
+  lockUntil: ReturnType<typeof vi.fn>;
+  resetFailedLoginAttempts: ReturnType<typeof vi.fn>;
 }
 
 interface MockOrganizationOperations {
@@ -18,8 +23,66 @@ interface MockOrganizationOperations {
 vi.mock("@repo/db", () => ({
   UserOperations: vi.fn(),
   OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  PasswordResetTokenOperations: vi.fn(),
+  TwoFactorCredentialOperations: vi.fn(),
+  TwoFactorRecoveryCodeOperations: vi.fn(),
+  WalletLinkOperations: vi.fn(),
+  LoginHistoryOperations: vi.fn(),
 }));
 
+interface ResetTokenRow {
+  userId: string;
+  email: string;
+  tokenHash: string;
+  attempts: number;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+// パスワードリセットトークンテーブルのインメモリ実装
+class InMemoryResetTokenStore {
+  rows: ResetTokenRow[] = [];
+
+  private active(email: string) {
+    return this.rows.filter(
+      (row) =>
+        row.email === email && !row.usedAt && row.expiresAt > new Date(),
+    );
+  }
+
+  create = vi.fn(async (data: Omit<ResetTokenRow, "attempts" | "usedAt">) => {
+    const row = { ...data, attempts: 0, usedAt: null };
+    this.rows.push(row);
+    return { success: true, data: row };
+  });
+
+  findActiveByEmail = vi.fn(async (email: string) => ({
+    success: true,
+    data: this.active(email),
+  }));
+
+  incrementAttempts = vi.fn(async (email: string) => {
+    const rows = this.active(email);
+    for (const row of rows) {
+      row.attempts += 1;
+    }
+    return {
+      success: true,
+      data: Math.max(0, ...rows.map((row) => row.attempts)),
+    };
+  });
+
+  invalidateAllByEmail = vi.fn(async (email: string) => {
+    const rows = this.rows.filter((row) => row.email === email && !row.usedAt);
+    for (const row of rows) {
+      row.usedAt = new Date();
+    }
+    return { success: true, data: rows.length };
+  });
+}
+
 // Mock password utilities
 vi.mock("../utils/password", () => ({
   PasswordUtils: vi.fn().mockImplementation(() => ({
@@ -39,6 +102,9 @@ describe("AuthService", () => {
   let authService: AuthService;
   let mockUserOperations: MockUserOperations;
   let mockOrganizationOperations: MockOrganizationOperations;
+  let resetTokenStore: InMemoryResetTokenStore;
+  let mailTransport: InMemoryMailTransport;
+  let revokeAllSessionsByUser: ReturnType<typeof vi.fn>;
   const mockDatabase = {} as Database;
   const jwtSecret = "test-secret";
 
@@ -51,6 +117,13 @@ describe("AuthService", () => {
       create: vi.fn(),
       findById: vi.fn(),
       update: vi.fn(),
+      incrementFailedLoginAttempts: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: 1 }),
+      lockUntil: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      resetFailedLoginAttempts: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: {} }),
     };
 
     mockOrganizationOperations = {
@@ -58,18 +131,91 @@ describe("AuthService", () => {
     };
 
     // Mock constructors
-    const { UserOperations, OrganizationOperations } = await import("@repo/db");
+    resetTokenStore = new InMemoryResetTokenStore();
+    mailTransport = new InMemoryMailTransport();
+
+    const {
+      UserOperations,
+      OrganizationOperations,
+      OrganizationMemberOperations,
+      SessionOperations,
+      PasswordResetTokenOperations,
+      TwoFactorCredentialOperations,
+      LoginHistoryOperations,
+    } = await import("@repo/db");
     (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
       () => mockUserOperations,
     );
     (
       OrganizationOperations as unknown as ReturnType<typeof vi.fn>
     ).mockImplementation(() => mockOrganizationOperations);
+    // メンバー登録は常に成功させ、所属組織なしとして扱う
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, createdAt: new Date(), updatedAt: new Date() },
+      })),
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+    // セッション作成・失効は常に成功させる
+    revokeAllSessionsByUser = vi.fn().mockResolvedValue({
+      success: true,
+      data: [{ accessTokenJti: "existing-jti" }],
+    });
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, lastUsedAt: null, createdAt: new Date() },
+      })),
+      revokeAllByUser: revokeAllSessionsByUser,
+    }));
+    // 二要素認証は未登録として扱う
+    (
+      TwoFactorCredentialOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findByUser: vi.fn().mockResolvedValue({ success: true, data: null }),
+    }));
+    // ログイン履歴の記録は常に成功させ、過去の履歴なしとして扱う
+    (
+      LoginHistoryOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      hasSuccessfulLogin: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+      hasSuccessfulLoginFromIp: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+    }));
 
-    authService = new AuthService(mockDatabase, jwtSecret);
+    (
+      PasswordResetTokenOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => resetTokenStore);
+
+    authService = new AuthService(mockDatabase, jwtSecret, mailTransport);
   });
 
   describe("パスワードリセット機能", () => {
+    const mockUser = {
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      email: "test@example.com",
+      name: "Test User",
+      passwordHash: "old-hash",
+      emailVerified: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // 直近に送信されたリセットメールからコードを取り出す
+    const lastResetCode = (email: string) =>
+      mailTransport.lastMessageTo(email)?.text.match(/\d{6}/)?.[0] ?? "";
+
     describe("requestPasswordReset", () => {
       const validRequestInput = {
         email: "test@example.com",
@@ -77,17 +223,6 @@ describe("AuthService", () => {
 
       it("有効なメールアドレスでリセット要求が成功する", async () => {
         // Arrange
-        const mockUser = {
-          id: "123e4567-e89b-12d3-a456-426614174000",
-          email: "test@example.com",
-          name: "Test User",
-          passwordHash: "hashed-password",
-          organizationId: null,
-          emailVerified: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
         mockUserOperations.findByEmail.mockResolvedValue({
           success: true,
           data: mockUser,
@@ -102,6 +237,24 @@ describe("AuthService", () => {
         expect(mockUserOperations.findByEmail).toHaveBeenCalledWith("test@example.com");
       });
 
+      it("リセットコードはメールで送信し、DBにはハッシュのみ保存する", async () => {
+        // Arrange
+        mockUserOperations.findByEmail.mockResolvedValue({
+          success: true,
+          data: mockUser,
+        });
+
+        // Act
+        await authService.requestPasswordReset(validRequestInput);
+
+        // Assert
+        const code = lastResetCode("test@example.com");
+        expect(code).toMatch(/^\d{6}$/);
+        expect(resetTokenStore.rows).toHaveLength(1);
+        expect(resetTokenStore.rows[0].tokenHash).not.toContain(code);
+        expect(resetTokenStore.rows[0].userId).toBe(mockUser.id);
+      });
+
       it("存在しないメールアドレスでも成功レスポンスを返す（セキュリティ）", async () => {
         // Arrange
         mockUserOperations.findByEmail.mockResolvedValue({
@@ -115,6 +268,8 @@ describe("AuthService", () => {
         // Assert
         expect(result.success).toBe(true);
         expect(result.data?.message).toBe("Password reset instructions have been sent to your email");
+        expect(mailTransport.outbox).toHaveLength(0);
+        expect(resetTokenStore.rows).toHaveLength(0);
       });
 
       it("無効なメールアドレスでバリデーションエラーを返す", async () => {
@@ -146,46 +301,25 @@ describe("AuthService", () => {
     });
 
     describe("resetPassword", () => {
-      const validResetInput = {
-        token: "123456",
-        password: "NewPassword123!",
-      };
-
-      it("有効なトークンでパスワードリセットが成功する", async () => {
-        // Arrange
-        const mockUser = {
-          id: "123e4567-e89b-12d3-a456-426614174000",
-          email: "test@example.com",
-          name: "Test User",
-          passwordHash: "old-hash",
-          organizationId: null,
-          emailVerified: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
+      beforeEach(() => {
         mockUserOperations.findByEmail.mockResolvedValue({
           success: true,
           data: mockUser,
         });
+      });
 
-        // パスワード更新のモック
+      it("有効なトークンでパスワードリセットが成功する", async () => {
+        // Arrange
         mockUserOperations.update.mockResolvedValue({
           success: true,
           data: { ...mockUser, passwordHash: "new-hash" },
         });
+        await authService.requestPasswordReset({ email: "test@example.com" });
 
-        // resetTokensMapに直接トークンを設定
-        const validToken = "123456";
-        const resetTokens = (authService as unknown as { resetTokens: Map<string, { email: string; expires: Date }> }).resetTokens;
-        resetTokens.set(validToken, {
-          email: "test@example.com",
-          expires: new Date(Date.now() + 10 * 60 * 1000), // 10分後
-        });
-        
         // Act
         const result = await authService.resetPassword({
-          token: validToken,
+          email: "test@example.com",
+          token: lastResetCode("test@example.com"),
           password: "NewPassword123!",
         });
 
@@ -198,9 +332,30 @@ describe("AuthService", () => {
         );
       });
 
+      it("リセット後は既存のセッションをすべて失効させる", async () => {
+        // Arrange
+        mockUserOperations.update.mockResolvedValue({
+          success: true,
+          data: { ...mockUser, passwordHash: "new-hash" },
+        });
+        await authService.requestPasswordReset({ email: "test@example.com" });
+
+        // Act
+        const result = await authService.resetPassword({
+          email: "test@example.com",
+          token: lastResetCode("test@example.com"),
+          password: "NewPassword123!",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+        expect(revokeAllSessionsByUser).toHaveBeenCalledWith(mockUser.id);
+      });
+
       it("無効なトークンでエラーを返す", async () => {
         // Arrange
         const invalidTokenInput = {
+          email: "test@example.com",
           token: "invalid-token",
           password: "NewPassword123!",
         };
@@ -216,6 +371,7 @@ describe("AuthService", () => {
       it("弱いパスワードでバリデーションエラーを返す", async () => {
         // Arrange
         const weakPasswordInput = {
+          email: "test@example.com",
           token: "123456",
           password: "weak",
         };
@@ -230,31 +386,19 @@ describe("AuthService", () => {
 
       it("期限切れトークンでエラーを返す", async () => {
         // Arrange
-        const mockUser = {
-          id: "123e4567-e89b-12d3-a456-426614174000",
-          email: "test@example.com",
-          name: "Test User",
-          passwordHash: "old-hash",
-          organizationId: null,
-          emailVerified: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        mockUserOperations.findByEmail.mockResolvedValue({
-          success: true,
-          data: mockUser,
-        });
-
-        // リセット要求を実行してトークンを生成
+        vi.useFakeTimers();
         await authService.requestPasswordReset({ email: "test@example.com" });
+        const code = lastResetCode("test@example.com");
 
         // 時間を進めてトークンを期限切れにする
-        vi.useFakeTimers();
         vi.advanceTimersByTime(16 * 60 * 1000); // 16分進める
 
         // Act
-        const result = await authService.resetPassword(validResetInput);
+        const result = await authService.resetPassword({
+          email: "test@example.com",
+          token: code,
+          password: "NewPassword123!",
+        });
 
         // Assert
         expect(result.success).toBe(false);
@@ -265,39 +409,16 @@ describe("AuthService", () => {
 
       it("パスワード更新に失敗した場合エラーを返す", async () => {
         // Arrange
-        const mockUser = {
-          id: "123e4567-e89b-12d3-a456-426614174000",
-          email: "test@example.com",
-          name: "Test User",
-          passwordHash: "old-hash",
-          organizationId: null,
-          emailVerified: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        mockUserOperations.findByEmail.mockResolvedValue({
-          success: true,
-          data: mockUser,
-        });
-
-        // パスワード更新失敗のモック
         mockUserOperations.update.mockResolvedValue({
           success: false,
           error: "Update failed",
         });
-
-        // resetTokensMapに直接トークンを設定
-        const validToken = "789012";
-        const resetTokens = (authService as unknown as { resetTokens: Map<string, { email: string; expires: Date }> }).resetTokens;
-        resetTokens.set(validToken, {
-          email: "test@example.com",
-          expires: new Date(Date.now() + 10 * 60 * 1000), // 10分後
-        });
+        await authService.requestPasswordReset({ email: "test@example.com" });
 
         // Act
         const result = await authService.resetPassword({
-          token: validToken,
+          email: "test@example.com",
+          token: lastResetCode("test@example.com"),
           password: "NewPassword123!",
         });
 
@@ -308,46 +429,246 @@ describe("AuthService", () => {
     });
 
     describe("トークン管理", () => {
-      it("期限切れトークンを自動的にクリーンアップする", async () => {
-        // Arrange
-        const mockUser = {
-          id: "123e4567-e89b-12d3-a456-426614174000",
-          email: "test@example.com",
-          name: "Test User",
-          passwordHash: "hash",
-          organizationId: null,
-          emailVerified: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
+      beforeEach(() => {
         mockUserOperations.findByEmail.mockResolvedValue({
           success: true,
           data: mockUser,
         });
+        mockUserOperations.update.mockResolvedValue({
+          success: true,
+          data: mockUser,
+        });
+      });
 
-        // 複数のリセット要求を実行
+      it("トークン使用後は未使用のトークンもすべて無効化する", async () => {
+        // Arrange
+        await authService.requestPasswordReset({ email: "test@example.com" });
+        const firstCode = lastResetCode("test@example.com");
         await authService.requestPasswordReset({ email: "test@example.com" });
-        await authService.requestPasswordReset({ email: "test2@example.com" });
+        const secondCode = lastResetCode("test@example.com");
 
-        vi.useFakeTimers();
-        vi.advanceTimersByTime(16 * 60 * 1000); // 16分進める
+        // Act
+        const firstResult = await authService.resetPassword({
+          email: "test@example.com",
+          token: secondCode,
+          password: "NewPassword123!",
+        });
+        const secondResult = await authService.resetPassword({
+          email: "test@example.com",
+          token: firstCode,
+          password: "NewPassword123!",
+        });
 
-        // 新しいリセット要求を実行（クリーンアップがトリガーされる）
-        await authService.requestPasswordReset({ email: "test3@example.com" });
+        // Assert
+        expect(firstResult.success).toBe(true);
+        expect(secondResult.success).toBe(false);
+        expect(secondResult.error).toBe("Invalid or expired reset token");
+      });
+
+      it("新しいコードを要求すると以前のコードは無効になる", async () => {
+        // Arrange
+        await authService.requestPasswordReset({ email: "test@example.com" });
+        const firstCode = lastResetCode("test@example.com");
+        await authService.requestPasswordReset({ email: "test@example.com" });
+        const secondCode = lastResetCode("test@example.com");
 
-        // 期限切れトークンでリセットを試行
+        // Act
         const result = await authService.resetPassword({
-          token: "123456", // 期限切れになったトークン
+          email: "test@example.com",
+          token: firstCode,
+          password: "NewPassword123!",
+        });
+
+        // Assert
+        const active = await resetTokenStore.findActiveByEmail(
+          "test@example.com",
+        );
+        expect(active.data).toHaveLength(1);
+        expect(result.success).toBe(firstCode === secondCode);
+        expect(mockUserOperations.update).toHaveBeenCalledTimes(
+          firstCode === secondCode ? 1 : 0,
+        );
+      });
+
+      it("試行回数の上限に達すると正しいトークンも拒否する", async () => {
+        // Arrange
+        await authService.requestPasswordReset({ email: "test@example.com" });
+        const code = lastResetCode("test@example.com");
+        const wrongCode = code === "000000" ? "111111" : "000000";
+        for (let i = 0; i < 5; i++) {
+          await authService.resetPassword({
+            email: "test@example.com",
+            token: wrongCode,
+            password: "NewPassword123!",
+          });
+        }
+
+        // Act
+        const result = await authService.resetPassword({
+          email: "test@example.com",
+          token: code,
           password: "NewPassword123!",
         });
 
         // Assert
         expect(result.success).toBe(false);
-        expect(result.error).toBe("Invalid or expired reset token");
+        expect(mockUserOperations.update).not.toHaveBeenCalled();
+      });
 
-        vi.useRealTimers();
+      it("試行回数はメールアドレス単位で数える", async () => {
+        // Arrange
+        await authService.requestPasswordReset({ email: "test@example.com" });
+        await authService.requestPasswordReset({ email: "other@example.com" });
+        const code = lastResetCode("test@example.com");
+        const wrongCode = code === "000000" ? "111111" : "000000";
+        for (let i = 0; i < 5; i++) {
+          await authService.resetPassword({
+            email: "other@example.com",
+            token: wrongCode,
+            password: "NewPassword123!",
+          });
+        }
+
+        // Act
+        const result = await authService.resetPassword({
+          email: "test@example.com",
+          token: code,
+          password: "NewPassword123!",
+        });
+
+        // Assert
+        expect(result.success).toBe(true);
+      });
+    });
+  });
+
+  describe("メールアドレス確認機能", () => {
+    const mockUser = {
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      email: "test@example.com",
+      name: "Test User",
+      passwordHash: "hash",
+      emailVerified: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const verifyUrl = "http://localhost:3000/verify-email";
+
+    // 直近に送信された確認メールのリンクからトークンを取り出す
+    const lastVerificationToken = (email: string) => {
+      const text = mailTransport.lastMessageTo(email)?.text ?? "";
+      const link = text.match(/\S+\?token=\S+/)?.[0];
+      return link ? (new URL(link).searchParams.get("token") ?? "") : "";
+    };
+
+    it("確認リンクをメールで送信し、トークンで確認を完了できる", async () => {
+      // Arrange
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: mockUser,
+      });
+      mockUserOperations.update.mockResolvedValue({
+        success: true,
+        data: { ...mockUser, emailVerified: true },
+      });
+
+      // Act
+      const requestResult = await authService.requestEmailVerification(
+        mockUser.id,
+        verifyUrl,
+      );
+      const token = lastVerificationToken(mockUser.email);
+      const confirmResult = await authService.confirmEmailVerification({
+        token,
+      });
+
+      // Assert
+      expect(requestResult.success).toBe(true);
+      expect(mailTransport.lastMessageTo(mockUser.email)?.text).toContain(
+        verifyUrl,
+      );
+      expect(confirmResult.success).toBe(true);
+      expect(mockUserOperations.update).toHaveBeenCalledWith(mockUser.id, {
+        emailVerified: true,
+      });
+    });
+
+    it("確認済みユーザーには確認メールを送信しない", async () => {
+      // Arrange
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: { ...mockUser, emailVerified: true },
+      });
+
+      // Act
+      const result = await authService.requestEmailVerification(
+        mockUser.id,
+        verifyUrl,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Email already verified");
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+
+    it("改ざんされたトークンを拒否する", async () => {
+      // Arrange
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: mockUser,
+      });
+      await authService.requestEmailVerification(mockUser.id, verifyUrl);
+      const [payload, signature] = lastVerificationToken(mockUser.email).split(
+        ".",
+      );
+      const tampered = `${payload}x.${signature}`;
+
+      // Act
+      const result = await authService.confirmEmailVerification({
+        token: tampered,
       });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired verification token");
+      expect(mockUserOperations.update).not.toHaveBeenCalled();
+    });
+
+    it("期限切れのトークンを拒否する", async () => {
+      // Arrange
+      const token = await new EmailVerificationUtils(jwtSecret).sign(
+        { userId: mockUser.id, email: mockUser.email },
+        -1,
+      );
+
+      // Act
+      const result = await authService.confirmEmailVerification({ token });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired verification token");
+    });
+
+    it("発行後にメールアドレスが変更された場合はトークンを拒否する", async () => {
+      // Arrange
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: mockUser,
+      });
+      await authService.requestEmailVerification(mockUser.id, verifyUrl);
+      const token = lastVerificationToken(mockUser.email);
+      mockUserOperations.findById.mockResolvedValue({
+        success: true,
+        data: { ...mockUser, email: "changed@example.com" },
+      });
+
+      // Act
+      const result = await authService.confirmEmailVerification({ token });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired verification token");
     });
   });
-});
\ No newline at end of file
+});
@@ -1,6 +1,12 @@
 import { Hono } from "hono";
 import { beforeEach, describe, expect, it } from "vitest";
-import { jwtAuth } from "../middleware/auth";
+import {
+  apiKeyAuth,
+  jwtAuth,
+  requireScope,
+  requireVerifiedEmail,
+} from "../middleware/auth";
+import { handleApplicationError } from "../middleware/error-handler";
 import { JwtUtils } from "../utils/jwt";
 
 describe("JWT認証ミドルウェア", () => {
@@ -37,6 +43,7 @@ describe("JWT認証ミドルウェア", () => {
       expect(verifiedPayload.userId).toBe(mockPayload.userId);
       expect(verifiedPayload.email).toBe(mockPayload.email);
       expect(verifiedPayload.organizationId).toBe(mockPayload.organizationId);
+      expect(verifiedPayload.jti).toBeDefined();
       expect(verifiedPayload.iat).toBeDefined();
       expect(verifiedPayload.exp).toBeDefined();
     });
@@ -146,6 +153,31 @@ describe("JWT認証ミドルウェア", () => {
       expect(data.error).toBe("Bearer token is required");
     });
 
+    it("失効リストに登録されたトークンは401を返す", async () => {
+      // Arrange
+      const { jti } = await jwtUtils.verify(validToken);
+      app.use(
+        "/revocable/*",
+        jwtAuth({
+          secretKey,
+          isRevoked: async (revokedJti) => revokedJti === jti,
+        }),
+      );
+      app.get("/revocable/data", (c) => c.json({ ok: true }));
+
+      // Act
+      const res = await app.request("/revocable/data", {
+        headers: {
+          Authorization: `Bearer ${validToken}`,
+        },
+      });
+
+      // Assert
+      expect(res.status).toBe(401);
+      const data = (await res.json()) as { error: string };
+      expect(data.error).toBe("Token has been revoked");
+    });
+
     it("保護されていないエンドポイントには認証なしでアクセスできる", async () => {
       // Act
       const res = await app.request("/public");
@@ -156,4 +188,229 @@ describe("JWT認証ミドルウェア", () => {
       expect(data.message).toBe("Public endpoint");
     });
   });
+
+  describe("APIキー認証ミドルウェア", () => {
+    let app: Hono;
+    let validToken: string;
+    const validApiKey = `x402_${"a".repeat(64)}`;
+
+    beforeEach(async () => {
+      app = new Hono();
+      validToken = await jwtUtils.sign(mockPayload);
+
+      app.use(
+        "/ci/*",
+        apiKeyAuth({
+          verifyKey: async (key) =>
+            key === validApiKey
+              ? { apiKeyId: "key-123", user: mockPayload }
+              : null,
+          fallback: jwtAuth({ secretKey }),
+        }),
+      );
+
+      app.get("/ci/data", (c) => {
+        return c.json({
+          user: c.get("user"),
+          apiKeyId: c.get("apiKeyId") ?? null,
+        });
+      });
+    });
+
+    it("有効なAPIキーでアクセスできる", async () => {
+      // Act
+      const res = await app.request("/ci/data", {
+        headers: { "X-API-Key": validApiKey },
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      const data = (await res.json()) as {
+        user: { userId: string };
+        apiKeyId: string | null;
+      };
+      expect(data.user.userId).toBe(mockPayload.userId);
+      expect(data.apiKeyId).toBe("key-123");
+    });
+
+    it("無効なAPIキーで401を返す（JWTにはフォールバックしない）", async () => {
+      // Act
+      const res = await app.request("/ci/data", {
+        headers: {
+          "X-API-Key": `x402_${"b".repeat(64)}`,
+          Authorization: `Bearer ${validToken}`,
+        },
+      });
+
+      // Assert
+      expect(res.status).toBe(401);
+      const data = (await res.json()) as { error: string };
+      expect(data.error).toBe("Invalid or expired API key");
+    });
+
+    it("APIキーがない場合はJWT認証にフォールバックする", async () => {
+      // Act
+      const res = await app.request("/ci/data", {
+        headers: { Authorization: `Bearer ${validToken}` },
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      const data = (await res.json()) as { apiKeyId: string | null };
+      expect(data.apiKeyId).toBeNull();
+    });
+
+    it("APIキーもJWTもない場合は401を返す", async () => {
+      // Act
+      const res = await app.request("/ci/data");
+
+      // Assert
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe("スコープ検証ミドルウェア", () => {
+    let app: Hono;
+    const readOnlyApiKey = `x402_${"c".repeat(64)}`;
+
+    beforeEach(() => {
+      app = new Hono();
+      app.onError(handleApplicationError);
+
+      app.use(
+        "/scoped/*",
+        apiKeyAuth({
+          verifyKey: async (key) =>
+            key === readOnlyApiKey
+              ? {
+                  apiKeyId: "key-readonly",
+                  user: { ...mockPayload, scopes: ["generator:read"] },
+                }
+              : null,
+          fallback: jwtAuth({ secretKey }),
+        }),
+      );
+
+      app.get("/scoped/list", requireScope("generator:read"), (c) =>
+        c.json({ ok: true }),
+      );
+      app.post("/scoped/deploy", requireScope("generator:deploy"), (c) =>
+        c.json({ ok: true }),
+      );
+    });
+
+    it("必要なスコープを持つAPIキーでアクセスできる", async () => {
+      // Act
+      const res = await app.request("/scoped/list", {
+        headers: { "X-API-Key": readOnlyApiKey },
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+    });
+
+    it("スコープが不足している場合は403を返す", async () => {
+      // Act
+      const res = await app.request("/scoped/deploy", {
+        method: "POST",
+        headers: { "X-API-Key": readOnlyApiKey },
+      });
+
+      // Assert
+      expect(res.status).toBe(403);
+      const data = (await res.json()) as {
+        error: { code: string; message: string };
+      };
+      expect(data.error.code).toBe("AUTH_INSUFFICIENT_PERMISSIONS");
+      expect(data.error.message).toContain("generator:deploy");
+    });
+
+    it("JWTに埋め込まれたスコープで判定する", async () => {
+      // Arrange
+      const token = await jwtUtils.sign({
+        ...mockPayload,
+        scopes: ["generator:read"],
+      });
+
+      // Act
+      const listRes = await app.request("/scoped/list", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const deployRes = await app.request("/scoped/deploy", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      // Assert
+      expect(listRes.status).toBe(200);
+      expect(deployRes.status).toBe(403);
+    });
+
+    it("scopesクレームのない旧トークンは全スコープを持つものとして扱う", async () => {
+      // Arrange
+      const token = await jwtUtils.sign(mockPayload);
+
+      // Act
+      const res = await app.request("/scoped/deploy", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe("メールアドレス確認必須ミドルウェア", () => {
+    let app: Hono;
+    const verifiedUserIds = new Set<string>();
+
+    beforeEach(() => {
+      verifiedUserIds.clear();
+      app = new Hono();
+      app.onError(handleApplicationError);
+
+      app.use("/verified/*", jwtAuth({ secretKey }));
+      app.post(
+        "/verified/create",
+        requireVerifiedEmail({
+          isVerified: async (userId) => verifiedUserIds.has(userId),
+        }),
+        (c) => c.json({ ok: true }),
+      );
+    });
+
+    it("メールアドレス未確認のユーザーは403を返す", async () => {
+      // Arrange
+      const token = await jwtUtils.sign(mockPayload);
+
+      // Act
+      const res = await app.request("/verified/create", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      // Assert
+      expect(res.status).toBe(403);
+      const data = (await res.json()) as {
+        error: { code: string; message: string };
+      };
+      expect(data.error.message).toBe("Email verification required");
+    });
+
+    it("メールアドレス確認済みのユーザーはアクセスできる", async () => {
+      // Arrange
+      verifiedUserIds.add(mockPayload.userId);
+      const token = await jwtUtils.sign(mockPayload);
+
+      // Act
+      const res = await app.request("/verified/create", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+    });
+  });
 });
@@ -0,0 +1,366 @@
+import { describe, expect, it } from "vitest";
+import type { ResourceLimits } from "../types/dynamic-routes";
+import { CodeSandbox, SandboxError } from "../utils/code-sandbox";
+
+const limits: ResourceLimits = {
+  cpu: { maxExecutionTime: 5000, maxInstructions: 1000000 },
+  memory: { maxHeapSize: 10 * 1024 * 1024, maxStackSize: 256 * 1024 },
+  concurrency: { maxConcurrentExecutions: 3, queueTimeout: 10000 },
+};
+
+const request = (path: string, init?: RequestInit) =>
+  new Request(`http://sandbox.local${path}`, init);
+
+// ハンドラー内で実行し、ホストの値に届いたか（undefined以外が得られたか）を返すアプリ
+const probeApp = (payload: string) => `
+import { Hono } from "hono";
+const app = new Hono();
+app.get("/", async (c) => {
+  try {
+    const value = await (async () => ${payload})();
+    return c.json({ escaped: value !== undefined, value: String(value) });
+  } catch (error) {
+    return c.json({ escaped: false, error: String(error) });
+  }
+});
+export default app;
+`;
+
+describe("CodeSandbox", () => {
+  describe("サンドボックスからの脱出", () => {
+    it.each([
+      [
+        "コンストラクター経由のFunction",
+        '({}).constructor.constructor("return process")()',
+      ],
+      [
+        "Contextのコンストラクター経由のFunction",
+        'c.constructor.constructor("return process")()',
+      ],
+      [
+        "consoleの関数経由のFunction",
+        'console.log.constructor("return process")()',
+      ],
+      [
+        "AsyncFunction",
+        'Object.getPrototypeOf(async () => {}).constructor("return process")()',
+      ],
+      ["Functionで取得したグローバル", 'Function("return this")().process'],
+      ["globalThis", "globalThis.process"],
+      [
+        "eval",
+        'eval("typeof process === \\"undefined\\" ? undefined : process")',
+      ],
+      ["require", 'require("child_process")'],
+      ["動的インポート", 'import("fs")'],
+      ["fetch", 'fetch("https://example.com")'],
+      ["setTimeout", "setTimeout(() => {}, 0)"],
+      ["WebAssembly", "globalThis.WebAssembly"],
+      ["Deno・Bunのグローバル", "globalThis.Deno ?? globalThis.Bun"],
+    ])("%s でホストに到達できない", async (_name, payload) => {
+      // Arrange
+      const sandbox = await CodeSandbox.compile(probeApp(payload), limits);
+
+      // Act
+      const response = await sandbox.fetch(request("/"));
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ escaped: false });
+      sandbox.dispose();
+    });
+
+    it("許可されていないモジュールは読み込めない", async () => {
+      // Arrange
+      const code = `import fs from "fs";
+import { Hono } from "hono";
+export default new Hono().get("/", (c) => c.text(fs.readFileSync("/etc/passwd", "utf8")));`;
+
+      // Act & Assert
+      await expect(CodeSandbox.compile(code, limits)).rejects.toMatchObject({
+        code: "evaluation_failed",
+        message: expect.stringContaining(
+          "Module not available in the sandbox: fs",
+        ),
+      });
+    });
+
+    it("プロトタイプ汚染がホストに及ばない", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+Object.prototype.polluted = "yes";
+Array.prototype.includes = () => true;
+Math.random = () => 4;
+export default new Hono().get("/", (c) => c.json({ ok: true }));`;
+
+      // Act
+      const sandbox = await CodeSandbox.compile(code, limits);
+      const response = await sandbox.fetch(request("/"));
+
+      // Assert
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect([1, 2].includes(3)).toBe(false);
+      expect(Math.random()).toBeLessThan(1);
+      expect(response.status).toBe(200);
+      sandbox.dispose();
+    });
+
+    it("不正なレスポンスはホストに渡さない", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+const app = new Hono();
+app._dispatch = async () => JSON.stringify({ status: 99, headers: [], body: "" });
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act & Assert
+      await expect(sandbox.fetch(request("/"))).rejects.toMatchObject({
+        code: "invalid_response",
+      });
+    });
+  });
+
+  describe("リソース制限", () => {
+    it("命令数の上限で無限ループを止める", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+export default new Hono().get("/", (c) => { while (true) {} });`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act & Assert
+      await expect(sandbox.fetch(request("/"))).rejects.toMatchObject({
+        code: "instruction_limit",
+      });
+    });
+
+    it("実行時間の上限で止める", async () => {
+      // Arrange
+      const code = "while (true) {}\nexport default 1;";
+
+      // Act & Assert
+      await expect(
+        CodeSandbox.evaluate(code, {
+          ...limits,
+          cpu: { maxExecutionTime: 50 },
+        }),
+      ).rejects.toMatchObject({ code: "timeout" });
+    });
+
+    it("ヒープの上限を超える確保を止める", async () => {
+      // Arrange
+      const code = `const chunks = [];
+while (true) chunks.push({ index: chunks.length });
+export default chunks.length;`;
+
+      // Act & Assert
+      await expect(CodeSandbox.evaluate(code, limits)).rejects.toMatchObject({
+        code: "memory_limit",
+      });
+    });
+
+    it("スタックの上限を超える再帰を止める", async () => {
+      // Arrange
+      const code = `const recurse = (n) => recurse(n + 1) + 1;
+export default recurse(0);`;
+
+      // Act & Assert
+      await expect(CodeSandbox.evaluate(code, limits)).rejects.toMatchObject({
+        code: "stack_limit",
+      });
+    });
+
+    it("ハンドラー内で上限を超えたエラーは500で返し、以降のリクエストも処理する", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+const app = new Hono();
+const recurse = (n) => recurse(n + 1) + 1;
+app.get("/overflow", (c) => c.json({ depth: recurse(0) }));
+app.get("/ok", (c) => c.text("ok"));
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act
+      const overflow = await sandbox.fetch(request("/overflow"));
+      const ok = await sandbox.fetch(request("/ok"));
+
+      // Assert
+      expect(overflow.status).toBe(500);
+      expect(await ok.text()).toBe("ok");
+      sandbox.dispose();
+    });
+
+    it("上限を超えた後のリクエストは評価し直したアプリで処理する", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+const app = new Hono();
+let count = 0;
+app.get("/count", (c) => c.json({ count: ++count }));
+app.get("/spin", (c) => { while (true) {} });
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+      await sandbox.fetch(request("/count"));
+
+      // Act
+      await expect(sandbox.fetch(request("/spin"))).rejects.toBeInstanceOf(
+        SandboxError,
+      );
+      const response = await sandbox.fetch(request("/count"));
+
+      // Assert
+      expect(await response.json()).toEqual({ count: 1 });
+      sandbox.dispose();
+    });
+
+    it("決着しないPromiseを待つ評価は失敗する", async () => {
+      // Arrange
+      const code = "await new Promise(() => {});\nexport default 1;";
+
+      // Act & Assert
+      await expect(CodeSandbox.evaluate(code, limits)).rejects.toMatchObject({
+        code: "evaluation_failed",
+      });
+    });
+  });
+
+  describe("Honoアプリの実行", () => {
+    it("TypeScriptのアプリでパラメーター・クエリ・JSONボディを扱う", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+interface Item { id: string; name: string }
+const app = new Hono();
+app.get("/items/:id", (c) => {
+  const item: Item = { id: c.req.param("id"), name: c.req.query("name") ?? "none" };
+  return c.json(item);
+});
+app.post("/items", async (c) => {
+  const body = await c.req.json<{ name: string }>();
+  return c.json({ created: body.name }, 201);
+});
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act
+      const item = await sandbox.fetch(request("/items/42?name=pen"));
+      const created = await sandbox.fetch(
+        request("/items", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "book" }),
+        }),
+      );
+      const missing = await sandbox.fetch(request("/unknown"));
+
+      // Assert
+      expect(item.status).toBe(200);
+      expect(item.headers.get("content-type")).toBe("application/json");
+      expect(await item.json()).toEqual({ id: "42", name: "pen" });
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ created: "book" });
+      expect(missing.status).toBe(404);
+      sandbox.dispose();
+    });
+
+    it("x402ミドルウェアは支払いが無いリクエストに402を返す", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+import { x402 } from "x402-hono";
+const app = new Hono();
+app.get("/weather", x402("$0.05"), (c) => c.json({ weather: "sunny" }));
+app.get("/legacy", x402("0x1234567890123456789012345678901234567890", "$0.05"), (c) =>
+  c.json({ weather: "sunny" }),
+);
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act
+      const unpaid = await sandbox.fetch(request("/weather"));
+      const legacy = await sandbox.fetch(request("/legacy"));
+      const paid = await sandbox.fetch(
+        request("/weather", { headers: { "X-PAYMENT": "payment" } }),
+      );
+
+      // Assert
+      expect(unpaid.status).toBe(402);
+      const [requirements] = ((await unpaid.json()) as { accepts: object[] })
+        .accepts;
+      expect(requirements).toMatchObject({ maxAmountRequired: "50000" });
+      expect(requirements).not.toHaveProperty("payTo");
+      expect(legacy.status).toBe(402);
+      expect(await legacy.json()).toMatchObject({
+        accepts: [{ maxAmountRequired: "50000" }],
+      });
+      expect(paid.status).toBe(200);
+      expect(await paid.json()).toEqual({ weather: "sunny" });
+      sandbox.dispose();
+    });
+
+    it("ミドルウェア・HTTPException・onErrorを扱う", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+const app = new Hono();
+app.use("*", async (c, next) => {
+  await next();
+  c.header("X-Powered-By", "sandbox");
+});
+app.get("/forbidden", () => {
+  throw new HTTPException(403, { message: "Forbidden" });
+});
+app.get("/broken", () => {
+  throw new Error("boom");
+});
+app.onError((error, c) =>
+  error instanceof HTTPException
+    ? error.getResponse()
+    : c.json({ error: error.message }, 500),
+);
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act
+      const forbidden = await sandbox.fetch(request("/forbidden"));
+      const broken = await sandbox.fetch(request("/broken"));
+
+      // Assert
+      expect(forbidden.status).toBe(403);
+      expect(await forbidden.text()).toBe("Forbidden");
+      expect(broken.status).toBe(500);
+      expect(await broken.json()).toEqual({ error: "boom" });
+      sandbox.dispose();
+    });
+
+    it("リクエストをまたいで状態を保持する", async () => {
+      // Arrange
+      const code = `import { Hono } from "hono";
+const app = new Hono();
+let count = 0;
+app.post("/count", (c) => c.json({ count: ++count }));
+export default app;`;
+      const sandbox = await CodeSandbox.compile(code, limits);
+
+      // Act
+      await sandbox.fetch(request("/count", { method: "POST" }));
+      const response = await sandbox.fetch(
+        request("/count", { method: "POST" }),
+      );
+
+      // Assert
+      expect(await response.json()).toEqual({ count: 2 });
+      sandbox.dispose();
+    });
+
+    it("デフォルトエクスポートがHonoアプリでなければ失敗する", async () => {
+      // Act & Assert
+      await expect(
+        CodeSandbox.compile("export default { fetch() {} };", limits),
+      ).rejects.toMatchObject({ code: "invalid_app" });
+    });
+
+    it("構文エラーを報告する", async () => {
+      // Act & Assert
+      await expect(
+        CodeSandbox.compile("const app = ;", limits),
+      ).rejects.toMatchObject({ code: "syntax_error" });
+    });
+  });
+});
@@ -1,7 +1,22 @@
-import { Hono } from "hono";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type Context, Hono, type Next } from "hono";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  type MockInstance,
+  vi,
+} from "vitest";
+import { performanceMonitor } from "../middleware/performance-monitor";
 import { DynamicDeploymentService } from "../services/dynamic-deployment-service";
 import type { GeneratedApiSpec } from "../services/llm-service";
+import type {
+  CanaryConfig,
+  CanaryMetricsSample,
+  DynamicRouteEntry,
+} from "../types/dynamic-routes";
+import { metricsCollector } from "../utils/metrics-collector";
 
 // モック設定
 vi.mock("../services/dynamic-route-manager", () => ({
@@ -9,6 +24,16 @@ vi.mock("../services/dynamic-route-manager", () => ({
     saveRoute: vi.fn().mockResolvedValue({ success: true }),
     loadRoute: vi.fn().mockResolvedValue({ success: true, data: null }),
     listUserRoutes: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    findActiveRouteByEndpoint: vi
+      .fn()
+      .mockResolvedValue({ success: true, data: null }),
+    findEndpointIndex: vi.fn().mockResolvedValue({ success: true, data: null }),
+    deleteRoute: vi.fn().mockResolvedValue({ success: true, data: true }),
+    saveCanary: vi.fn().mockResolvedValue({ success: true }),
+    loadCanary: vi.fn().mockResolvedValue({ success: true, data: null }),
+    deleteCanary: vi.fn().mockResolvedValue({ success: true, data: true }),
+    saveCanaryMetrics: vi.fn().mockResolvedValue({ success: true }),
+    loadCanaryMetrics: vi.fn().mockResolvedValue({ success: true, data: {} }),
   })),
 }));
 
@@ -32,7 +57,12 @@ vi.mock("../services/secure-code-executor", () => ({
       return Promise.resolve({
         success: true,
         data: {
-          fetch: vi.fn(),
+          // 生成テストの実行で呼ばれる
+          fetch: vi
+            .fn()
+            .mockImplementation(() =>
+              Response.json({ city: "Tokyo", temperature: 25 }),
+            ),
           route: vi.fn(),
           get: vi.fn(),
           post: vi.fn(),
@@ -42,10 +72,22 @@ vi.mock("../services/secure-code-executor", () => ({
           use: vi.fn(),
           mount: vi.fn(),
           fire: vi.fn(),
+          dispose: vi.fn(),
           // Honoアプリに必要な内部プロパティ
           router: { map: new Map() },
         },
-        metadata: { hasPayment: false, endpoints: [] },
+        // コードに登録されたルート（app.get("/path", ...) の形式のみ）
+        metadata: {
+          hasPayment: false,
+          endpoints: [
+            ...code.matchAll(
+              /app\.(get|post|put|delete|patch)\(\s*['"]([^'"]+)['"]/g,
+            ),
+          ].map((match) => ({
+            method: match[1].toUpperCase(),
+            path: match[2],
+          })),
+        },
       });
     }),
     cleanup: vi.fn(),
@@ -68,7 +110,7 @@ describe("DynamicDeploymentService - 統合テスト", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mainApp = new Hono();
-    deploymentService = new DynamicDeploymentService(mainApp);
+    deploymentService = new DynamicDeploymentService();
   });
 
   describe("deployGeneratedApi", () => {
@@ -151,6 +193,85 @@ export default app`,
       expect(result.data?.version).toBeGreaterThanOrEqual(1);
     });
 
+    it("複数ルートのAPIを各ルートの価格付きでまとめてデプロイする", async () => {
+      // Arrange
+      const multiEndpointSpec: GeneratedApiSpec = {
+        name: "Todo API",
+        description: "Manages todos",
+        endpoint: "/api/todos",
+        method: "GET",
+        price: "0.01",
+        generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json([]))
+app.post('/', (c) => c.json({ id: '1' }, 201))
+app.get('/:id', (c) => c.json({ id: c.req.param('id') }))
+export default app`,
+        documentation: "# Todo API",
+        endpoints: [
+          { method: "GET", path: "/", price: "0.01" },
+          { method: "POST", path: "/", price: "0.05" },
+          { method: "GET", path: "/:id", price: "0.02" },
+        ],
+      };
+
+      // Act
+      const result = await deploymentService.deployGeneratedApi(
+        multiEndpointSpec,
+        "user-123",
+        "api-789",
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.endpoints).toEqual([
+        { method: "GET", path: "/api/todos", price: "0.01" },
+        { method: "POST", path: "/api/todos", price: "0.05" },
+        { method: "GET", path: "/api/todos/:id", price: "0.02" },
+      ]);
+      expect(deploymentService.routeManager.saveRoute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            endpoints: multiEndpointSpec.endpoints,
+          }),
+        }),
+      );
+    });
+
+    it("宣言したルートがコードに登録されていなければデプロイしない", async () => {
+      // Arrange
+      const incompleteSpec: GeneratedApiSpec = {
+        name: "Todo API",
+        description: "Manages todos",
+        endpoint: "/api/todos",
+        method: "GET",
+        price: "0.01",
+        generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json([]))
+export default app`,
+        documentation: "# Todo API",
+        endpoints: [
+          { method: "GET", path: "/", price: "0.01" },
+          { method: "DELETE", path: "/:id", price: "0.02" },
+        ],
+      };
+
+      // Act
+      const result = await deploymentService.deployGeneratedApi(
+        incompleteSpec,
+        "user-123",
+        "api-789",
+      );
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: "Endpoint not implemented: DELETE /:id",
+      });
+      expect(deploymentService.routeManager.saveRoute).not.toHaveBeenCalled();
+    });
+
     it("無効なコードでデプロイメントが失敗する", async () => {
       // Arrange
       const invalidApiSpec: GeneratedApiSpec = {
@@ -181,6 +302,164 @@ export default app`,
       expect(result.success).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    it("他のAPIが公開中のマウント先にはデプロイしない", async () => {
+      // Arrange
+      vi.mocked(
+        deploymentService.routeManager.findActiveRouteByEndpoint,
+      ).mockResolvedValue({
+        success: true,
+        data: {
+          code: "export default app",
+          metadata: {
+            endpoint: "/u/user-999/weather",
+            method: "GET",
+            status: "active",
+            createdAt: new Date().toISOString(),
+            version: 1,
+            userId: "user-999",
+            apiId: "api-other",
+          },
+        },
+      });
+      const spec: GeneratedApiSpec = {
+        name: "Weather API",
+        description: "Provides weather information",
+        endpoint: "/u/user-999/weather",
+        method: "GET",
+        price: "0.01",
+        generatedCode: "export default app",
+        documentation: "# Weather API",
+      };
+
+      // Act
+      const conflicting = await deploymentService.deployGeneratedApi(
+        spec,
+        "user-123",
+        "api-456",
+      );
+      const redeployed = await deploymentService.deployGeneratedApi(
+        spec,
+        "user-999",
+        "api-other",
+      );
+
+      // Assert
+      expect(conflicting).toEqual({
+        success: false,
+        error: "Endpoint is already in use by another API",
+      });
+      expect(redeployed.success).toBe(true);
+      expect(
+        deploymentService.routeManager.findActiveRouteByEndpoint,
+      ).toHaveBeenCalledWith("/u/user-999/weather");
+    });
+  });
+
+  describe("生成テストの実行", () => {
+    const weatherSpec: GeneratedApiSpec = {
+      name: "Weather API",
+      description: "Provides weather information",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/api/weather', (c) => c.json({ city: 'Tokyo', temperature: 25 }))
+export default app`,
+      documentation: "# Weather API",
+    };
+
+    const passingCase = {
+      name: "天気を返す",
+      request: { method: "GET" as const, path: "/api/weather" },
+      expect: { status: 200, jsonKeys: ["city", "temperature"] },
+    };
+    const failingCase = {
+      name: "湿度を返す",
+      request: {
+        method: "GET" as const,
+        path: "/api/weather",
+        query: { city: "Osaka" },
+      },
+      expect: { status: 200, jsonKeys: ["humidity"] },
+    };
+
+    it("テストがすべて成功した場合は結果を含めてデプロイする", async () => {
+      // Act
+      const result = await deploymentService.deployGeneratedApi(
+        { ...weatherSpec, testCases: [passingCase] },
+        "user-123",
+        "api-456",
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.testRun).toMatchObject({
+        passed: true,
+        total: 1,
+        failed: 0,
+      });
+    });
+
+    it("テストは公開するアプリとは別にコンパイルしたアプリで実行して破棄する", async () => {
+      // Act
+      await deploymentService.deployGeneratedApi(
+        { ...weatherSpec, testCases: [passingCase] },
+        "user-123",
+        "api-456",
+      );
+
+      // Assert
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      const { compileHonoRoute } =
+        vi.mocked(SecureCodeExecutor).mock.results[0].value;
+      const [released, tested] = await Promise.all(
+        compileHonoRoute.mock.results.map(
+          (result: { value: unknown }) => result.value,
+        ),
+      );
+      expect(tested.data.fetch).toHaveBeenCalledTimes(1);
+      expect(tested.data.dispose).toHaveBeenCalled();
+      expect(released.data.fetch).not.toHaveBeenCalled();
+      expect(released.data.dispose).not.toHaveBeenCalled();
+    });
+
+    it("テストが失敗した場合はデプロイせず失敗したケースを返す", async () => {
+      // Act
+      const result = await deploymentService.deployGeneratedApi(
+        { ...weatherSpec, testCases: [passingCase, failingCase] },
+        "user-123",
+        "api-456",
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Tests failed: 1 of 2 test cases failed");
+      expect(result.testRun?.results[1]).toMatchObject({
+        name: "湿度を返す",
+        passed: false,
+        failures: ['Response JSON is missing key "humidity"'],
+      });
+      expect(deploymentService.routeManager.saveRoute).not.toHaveBeenCalled();
+    });
+
+    it("allowFailingTestsを指定するとテストが失敗してもデプロイする", async () => {
+      // Act
+      const result = await deploymentService.deployGeneratedApi(
+        { ...weatherSpec, testCases: [failingCase] },
+        "user-123",
+        "api-456",
+        { allowFailingTests: true },
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.testRun?.passed).toBe(false);
+      expect(deploymentService.routeManager.saveRoute).toHaveBeenCalled();
+    });
   });
 
   describe("rollbackDeployment", () => {
@@ -201,6 +480,41 @@ export default app`,
       expect(result).toBeDefined();
       expect(typeof result.success).toBe("boolean");
     });
+
+    it("デプロイしたリビジョンをルートに記録し、ロールバックの結果で返す", async () => {
+      // Arrange
+      const spec: GeneratedApiSpec = {
+        name: "Weather API",
+        description: "Provides weather information",
+        endpoint: "/api/weather",
+        method: "GET",
+        price: "0.01",
+        generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ city: 'Tokyo' }))
+export default app`,
+        documentation: "# Weather API",
+      };
+      await deploymentService.deployGeneratedApi(spec, "user-123", "api-456", {
+        revision: 3,
+      });
+      const [saved] = vi.mocked(deploymentService.routeManager.saveRoute).mock
+        .calls[0];
+      deploymentService.routeManager.rollbackRoute = vi
+        .fn()
+        .mockResolvedValue({ success: true, data: saved });
+
+      // Act
+      const result = await deploymentService.rollbackDeployment(
+        "user-123",
+        "api-456",
+        1,
+      );
+
+      // Assert
+      expect(saved.metadata.revision).toBe(3);
+      expect(result.data).toMatchObject({ status: "rolled_back", revision: 3 });
+    });
   });
 
   describe("undeployApi", () => {
@@ -218,6 +532,64 @@ export default app`,
     });
   });
 
+  describe("removeApi", () => {
+    it("APIを無効化して全バージョンのルートと索引をKVから削除する", async () => {
+      // Arrange
+      mainApp.use("*", deploymentService.dispatcher());
+      await deploymentService.deployGeneratedApi(
+        {
+          name: "Weather API",
+          description: "Provides weather information",
+          endpoint: "/api/weather",
+          method: "GET",
+          price: "0.01",
+          generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ city: 'Tokyo' }))
+export default app`,
+          documentation: "# Weather API",
+        },
+        "user-123",
+        "api-weather",
+      );
+
+      // Act
+      const result = await deploymentService.removeApi(
+        "user-123",
+        "api-weather",
+      );
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(deploymentService.routeManager.deleteRoute).toHaveBeenCalledWith(
+        "user-123",
+        "api-weather",
+      );
+      expect(response.status).toBe(404);
+    });
+
+    it("KVからの削除に失敗したら失敗を返す", async () => {
+      // Arrange
+      vi.mocked(deploymentService.routeManager.deleteRoute).mockResolvedValue({
+        success: false,
+        error: "Failed to list user routes for deletion",
+      });
+
+      // Act
+      const result = await deploymentService.removeApi(
+        "user-123",
+        "api-weather",
+      );
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: "Failed to list user routes for deletion",
+      });
+    });
+  });
+
   describe("listDeployments", () => {
     it("ユーザーのすべてのデプロイメントを一覧表示できる", async () => {
       // Arrange
@@ -254,10 +626,10 @@ export default app`,
         "api-test",
       );
 
-      // Act - デプロイされたルートをテスト（テスト環境では動的ルートは登録されない）
+      // Act - デプロイされたルートをテスト（ディスパッチャーを登録していないアプリには公開されない）
       const response = await mainApp.request("/api/test");
 
-      // Assert - テスト環境では404が期待される
+      // Assert
       expect(response.status).toBe(404);
     });
 
@@ -287,10 +659,10 @@ export default app`,
         "api-premium",
       );
 
-      // Act - 決済なしでアクセス（テスト環境では動的ルートは登録されない）
+      // Act - 決済なしでアクセス（ディスパッチャーを登録していないアプリには公開されない）
       const response = await mainApp.request("/api/premium");
 
-      // Assert - テスト環境では404が期待される
+      // Assert
       expect(response.status).toBe(404);
     });
 
@@ -310,6 +682,991 @@ export default app`,
     });
   });
 
+  describe("dispatcher", () => {
+    const dispatchedSpec: GeneratedApiSpec = {
+      name: "Weather API",
+      description: "Provides weather information",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ city: 'Tokyo', temperature: 25 }))
+export default app`,
+      documentation: "# Weather API",
+    };
+
+    beforeEach(() => {
+      mainApp.use("*", deploymentService.dispatcher());
+      mainApp.get("/health", (c) => c.json({ status: "ok" }));
+    });
+
+    it("デプロイしたAPIにマウント先を除いたパスでリクエストを渡す", async () => {
+      // Arrange
+      const deployResult = await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+
+      // Act
+      const response = await mainApp.request("/api/weather/today?unit=c");
+
+      // Assert
+      expect(deployResult.success).toBe(true);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ city: "Tokyo", temperature: 25 });
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      const compiled =
+        await vi.mocked(SecureCodeExecutor).mock.results[0].value
+          .compileHonoRoute.mock.results[0].value;
+      const request = compiled.data.fetch.mock.calls[0][0] as Request;
+      expect(new URL(request.url).pathname).toBe("/today");
+      expect(new URL(request.url).search).toBe("?unit=c");
+    });
+
+    it("無効化したAPIは次のリクエストから404を返す", async () => {
+      // Arrange
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+      const beforeUndeploy = await mainApp.request("/api/weather");
+
+      // Act
+      await deploymentService.undeployApi("user-123", "api-weather");
+      const afterUndeploy = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(beforeUndeploy.status).toBe(200);
+      expect(afterUndeploy.status).toBe(404);
+    });
+
+    it("再デプロイすると次のリクエストから新しいアプリに振り分ける", async () => {
+      // Arrange
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      const compileHonoRoute =
+        vi.mocked(SecureCodeExecutor).mock.results[0].value.compileHonoRoute;
+      compileHonoRoute.mockResolvedValueOnce({
+        success: true,
+        data: { fetch: () => Response.json({ version: 2 }) },
+        metadata: { hasPayment: false, endpoints: [] },
+      });
+
+      // Act
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(await response.json()).toEqual({ version: 2 });
+    });
+
+    it("再デプロイ・無効化でキャッシュから外れたアプリのVMを解放する", async () => {
+      // Arrange
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      const compileHonoRoute =
+        vi.mocked(SecureCodeExecutor).mock.results[0].value.compileHonoRoute;
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+
+      // Act
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+      const [replaced, released] = await Promise.all(
+        compileHonoRoute.mock.results.map(
+          (result: { value: unknown }) => result.value,
+        ),
+      );
+      const disposedOnRedeploy = replaced.data.dispose.mock.calls.length;
+      const releasedOnRedeploy = released.data.dispose.mock.calls.length;
+      await deploymentService.undeployApi("user-123", "api-weather");
+
+      // Assert
+      expect(disposedOnRedeploy).toBe(1);
+      expect(releasedOnRedeploy).toBe(0);
+      expect(released.data.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it("デプロイ中のAPIに一致しないリクエストは後続のルートで処理する", async () => {
+      // Arrange
+      await deploymentService.deployGeneratedApi(
+        dispatchedSpec,
+        "user-123",
+        "api-weather",
+      );
+
+      // Act
+      const health = await mainApp.request("/health");
+      const similarPath = await mainApp.request("/api/weather-forecast");
+
+      // Assert
+      expect(await health.json()).toEqual({ status: "ok" });
+      expect(similarPath.status).toBe(404);
+    });
+
+    describe("支払いの検証", () => {
+      const payTo = "0x1234567890123456789012345678901234567890";
+      // 有効な支払い（X-PAYMENT: valid）のみ通すx402-honoの代わり
+      const paymentMiddleware = vi.fn(
+        (_payTo: string, _routes: Record<string, unknown>) =>
+          async (c: Context, next: Next) =>
+            c.req.header("X-PAYMENT") === "valid"
+              ? next()
+              : c.json({ error: "X-PAYMENT header is required" }, 402),
+      );
+
+      // 生成APIに渡したリクエスト
+      const forwardedRequests = async (): Promise<Request[]> => {
+        const { SecureCodeExecutor } = await import(
+          "../services/secure-code-executor"
+        );
+        const compiled = await vi.mocked(SecureCodeExecutor).mock.results.at(-1)
+          ?.value.compileHonoRoute.mock.results[0].value;
+        return compiled.data.fetch.mock.calls.map((call: [Request]) => call[0]);
+      };
+
+      const paidService = () => {
+        const service = new DynamicDeploymentService({
+          payment: { payTo, middleware: paymentMiddleware },
+        });
+        const app = new Hono();
+        app.use("*", service.dispatcher());
+        return { service, app };
+      };
+
+      it("支払先のウォレットは設定された有効なアドレスだけを使う", () => {
+        // Act & Assert
+        expect(DynamicDeploymentService.paymentWallet(payTo)).toBe(payTo);
+        expect(
+          DynamicDeploymentService.paymentWallet(undefined),
+        ).toBeUndefined();
+        expect(DynamicDeploymentService.paymentWallet("")).toBeUndefined();
+        expect(
+          DynamicDeploymentService.paymentWallet("not-a-wallet"),
+        ).toBeUndefined();
+      });
+
+      it("支払いを検証できない場合はX-PAYMENTヘッダーを生成APIに渡さない", async () => {
+        // Arrange
+        await deploymentService.deployGeneratedApi(
+          dispatchedSpec,
+          "user-123",
+          "api-weather",
+        );
+
+        // Act
+        await mainApp.request("/api/weather", {
+          headers: { "X-PAYMENT": "forged" },
+        });
+
+        // Assert
+        const [request] = await forwardedRequests();
+        expect(request.headers.has("X-PAYMENT")).toBe(false);
+      });
+
+      it("メタデータの価格で支払いを検証し、支払いが無ければ生成APIに渡さない", async () => {
+        // Arrange
+        const { service, app } = paidService();
+        await service.deployGeneratedApi(
+          dispatchedSpec,
+          "user-123",
+          "api-weather",
+        );
+
+        // Act
+        const unpaid = await app.request("/api/weather/today");
+        const paid = await app.request("/api/weather/today", {
+          headers: { "X-PAYMENT": "valid" },
+        });
+
+        // Assert
+        expect(paymentMiddleware).toHaveBeenCalledWith(payTo, {
+          "GET /api/weather/today": { price: "$0.01", network: "base-sepolia" },
+        });
+        expect(unpaid.status).toBe(402);
+        expect(paid.status).toBe(200);
+        const requests = await forwardedRequests();
+        expect(requests).toHaveLength(1);
+        expect(requests[0].headers.get("X-PAYMENT")).toBe("valid");
+      });
+
+      it("複数ルートのAPIは一致したルートの価格で、宣言していないルートは最も高い価格で検証する", async () => {
+        // Arrange
+        const { service, app } = paidService();
+        await service.deployGeneratedApi(
+          {
+            ...dispatchedSpec,
+            endpoint: "/api/todos",
+            generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json([]))
+app.get('/:id', (c) => c.json({ id: c.req.param('id') }))
+export default app`,
+            endpoints: [
+              { method: "GET", path: "/", price: "0.01" },
+              { method: "GET", path: "/:id", price: "0.02" },
+            ],
+          },
+          "user-123",
+          "api-todos",
+        );
+
+        // Act
+        const list = await app.request("/api/todos", {
+          headers: { "X-PAYMENT": "valid" },
+        });
+        const unpaidUndeclared = await app.request("/api/todos/42", {
+          method: "DELETE",
+        });
+        const undeclared = await app.request("/api/todos/42", {
+          method: "DELETE",
+          headers: { "X-PAYMENT": "valid" },
+        });
+
+        // Assert
+        expect(list.status).toBe(200);
+        expect(paymentMiddleware).toHaveBeenCalledWith(payTo, {
+          "GET /api/todos": { price: "$0.01", network: "base-sepolia" },
+        });
+        expect(unpaidUndeclared.status).toBe(402);
+        expect(undeclared.status).toBe(200);
+        expect(paymentMiddleware).toHaveBeenLastCalledWith(payTo, {
+          "DELETE /api/todos/42": { price: "$0.02", network: "base-sepolia" },
+        });
+        const requests = await forwardedRequests();
+        expect(requests).toHaveLength(2);
+        expect(requests[1].headers.get("X-PAYMENT")).toBe("valid");
+      });
+    });
+  });
+
+  describe("コールドスタート時の復元", () => {
+    const activeEntry: DynamicRouteEntry = {
+      code: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ city: 'Tokyo' }))
+export default app`,
+      metadata: {
+        endpoint: "/api/weather",
+        method: "GET",
+        status: "active",
+        createdAt: new Date().toISOString(),
+        version: 3,
+        userId: "user-123",
+        apiId: "api-weather",
+      },
+    };
+
+    beforeEach(() => {
+      mainApp.use("*", deploymentService.dispatcher());
+      vi.mocked(
+        deploymentService.routeManager.findActiveRouteByEndpoint,
+      ).mockImplementation(async (endpoint: string) => ({
+        success: true,
+        data: endpoint === "/api/weather" ? activeEntry : null,
+      }));
+    });
+
+    it("キャッシュに無いルートはKVの索引から復元して応答する", async () => {
+      // Act
+      const first = await mainApp.request("/api/weather/today");
+      const second = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+      expect(
+        deploymentService.routeManager.findActiveRouteByEndpoint,
+      ).toHaveBeenNthCalledWith(1, "/api/weather/today");
+      expect(
+        deploymentService.routeManager.findActiveRouteByEndpoint,
+      ).toHaveBeenNthCalledWith(2, "/api/weather");
+      expect(deploymentService.routeCacheStats()).toMatchObject({
+        size: 1,
+        hits: 1,
+        misses: 1,
+        rehydrated: 1,
+      });
+    });
+
+    it("同じルートへの同時リクエストは1回の復元を共有する", async () => {
+      // Act
+      const responses = await Promise.all(
+        [1, 2, 3].map(() => mainApp.request("/api/weather")),
+      );
+
+      // Assert
+      expect(responses.map((response) => response.status)).toEqual([
+        200, 200, 200,
+      ]);
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      expect(
+        vi.mocked(SecureCodeExecutor).mock.results[0].value.compileHonoRoute,
+      ).toHaveBeenCalledTimes(1);
+      expect(deploymentService.routeCacheStats().rehydrated).toBe(1);
+    });
+
+    it("KVに公開中のルートが無ければ後続のハンドラーに渡す", async () => {
+      // Act
+      const response = await mainApp.request("/api/unknown/items");
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(deploymentService.routeCacheStats()).toMatchObject({
+        size: 0,
+        misses: 1,
+        rehydrated: 0,
+      });
+    });
+
+    it("上限を超えると最も古いアプリを追い出し、次のリクエストでKVから復元する", async () => {
+      // Arrange
+      const smallCacheService = new DynamicDeploymentService({
+        routeCacheSize: 1,
+      });
+      const app = new Hono();
+      app.use("*", smallCacheService.dispatcher());
+      vi.mocked(
+        smallCacheService.routeManager.findActiveRouteByEndpoint,
+      ).mockImplementation(async (endpoint: string) => ({
+        success: true,
+        data: endpoint === "/api/weather" ? activeEntry : null,
+      }));
+      const spec = (endpoint: string): GeneratedApiSpec => ({
+        name: "Cached API",
+        description: "Cached API",
+        endpoint,
+        method: "GET",
+        price: "0.01",
+        generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({}))
+export default app`,
+        documentation: "Cached API",
+      });
+      await smallCacheService.deployGeneratedApi(
+        spec("/api/weather"),
+        "user-123",
+        "api-weather",
+      );
+      await smallCacheService.deployGeneratedApi(
+        spec("/api/news"),
+        "user-123",
+        "api-news",
+      );
+
+      // Act
+      const response = await app.request("/api/weather");
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(smallCacheService.routeCacheStats()).toMatchObject({
+        size: 1,
+        capacity: 1,
+        misses: 1,
+        rehydrated: 1,
+        evictions: 2,
+      });
+    });
+
+    it("上限を超えて追い出したアプリのVMを解放する", async () => {
+      // Arrange
+      const smallCacheService = new DynamicDeploymentService({
+        routeCacheSize: 1,
+      });
+      const compileHonoRoute = vi.mocked(
+        (
+          smallCacheService as unknown as {
+            codeExecutor: { compileHonoRoute: MockInstance };
+          }
+        ).codeExecutor.compileHonoRoute,
+      );
+      const spec = (endpoint: string): GeneratedApiSpec => ({
+        name: "Cached API",
+        description: "Cached API",
+        endpoint,
+        method: "GET",
+        price: "0.01",
+        generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({}))
+export default app`,
+        documentation: "Cached API",
+      });
+      await smallCacheService.deployGeneratedApi(
+        spec("/api/weather"),
+        "user-123",
+        "api-weather",
+      );
+
+      // Act
+      await smallCacheService.deployGeneratedApi(
+        spec("/api/news"),
+        "user-123",
+        "api-news",
+      );
+
+      // Assert
+      const [evicted, cached] = await Promise.all(
+        compileHonoRoute.mock.results.map((result) => result.value),
+      );
+      expect(evicted.data.dispose).toHaveBeenCalledTimes(1);
+      expect(cached.data.dispose).not.toHaveBeenCalled();
+    });
+
+    describe("他のisolateでの変更の反映", () => {
+      const indexOf = (version: number) => ({
+        success: true,
+        data: { userId: "user-123", apiId: "api-weather", version },
+      });
+
+      let clock: MockInstance | undefined;
+
+      afterEach(() => {
+        clock?.mockRestore();
+        clock = undefined;
+      });
+
+      // ルートを復元してキャッシュに載せ、照合の間隔を過ぎた時刻に進める
+      const cacheAndExpire = async () => {
+        await mainApp.request("/api/weather");
+        clock = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 31_000);
+      };
+
+      it("照合の間隔内はKVを読まずにキャッシュのルートで応答する", async () => {
+        // Arrange
+        await mainApp.request("/api/weather");
+
+        // Act
+        const response = await mainApp.request("/api/weather");
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(
+          deploymentService.routeManager.findEndpointIndex,
+        ).not.toHaveBeenCalled();
+      });
+
+      it("索引のバージョンが同じならキャッシュのルートで応答を続ける", async () => {
+        // Arrange
+        await cacheAndExpire();
+        vi.mocked(
+          deploymentService.routeManager.findEndpointIndex,
+        ).mockResolvedValue(indexOf(3));
+
+        // Act
+        const response = await mainApp.request("/api/weather");
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(
+          deploymentService.routeManager.findEndpointIndex,
+        ).toHaveBeenCalledWith("/api/weather");
+        expect(deploymentService.routeCacheStats()).toMatchObject({
+          hits: 1,
+          rehydrated: 1,
+        });
+      });
+
+      it("他のisolateでデプロイされたバージョンをKVから復元し直す", async () => {
+        // Arrange
+        await cacheAndExpire();
+        vi.mocked(
+          deploymentService.routeManager.findEndpointIndex,
+        ).mockResolvedValue(indexOf(4));
+        vi.mocked(
+          deploymentService.routeManager.findActiveRouteByEndpoint,
+        ).mockResolvedValue({
+          success: true,
+          data: {
+            ...activeEntry,
+            metadata: { ...activeEntry.metadata, version: 4 },
+          },
+        });
+        // Act
+        const response = await mainApp.request("/api/weather");
+
+        // Assert
+        expect(response.status).toBe(200);
+        expect(deploymentService.routeCacheStats()).toMatchObject({
+          size: 1,
+          misses: 2,
+          rehydrated: 2,
+        });
+      });
+
+      it("他のisolateで無効化されたルートは後続のハンドラーに渡す", async () => {
+        // Arrange
+        await cacheAndExpire();
+        vi.mocked(
+          deploymentService.routeManager.findActiveRouteByEndpoint,
+        ).mockResolvedValue({ success: true, data: null });
+
+        // Act
+        const response = await mainApp.request("/api/weather");
+
+        // Assert
+        expect(response.status).toBe(404);
+        expect(deploymentService.routeCacheStats().size).toBe(0);
+      });
+    });
+  });
+
+  describe("カナリアリリース", () => {
+    const stableSpec: GeneratedApiSpec = {
+      name: "Weather API",
+      description: "Provides weather information",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ city: 'Tokyo', temperature: 25 }))
+export default app`,
+      documentation: "# Weather API",
+    };
+    const canarySpec: GeneratedApiSpec = {
+      ...stableSpec,
+      generatedCode: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ version: 2 }))
+export default app`,
+    };
+
+    // バージョンごとに振り分けたリクエストのメトリクスを記録する
+    const recordRequests = async (
+      version: number,
+      count: number,
+      statusCode = 200,
+      responseTime = 100,
+    ) => {
+      for (let i = 0; i < count; i++) {
+        await metricsCollector.recordMetric({
+          endpoint: "/api/weather",
+          method: "GET",
+          responseTime,
+          statusCode,
+          timestamp: new Date().toISOString(),
+          apiId: "api-weather",
+          apiVersion: version,
+        });
+      }
+    };
+
+    // 安定版（v1）をデプロイし、次のコンパイルでカナリアのアプリを返す
+    const startCanary = async (
+      options: Parameters<DynamicDeploymentService["startCanary"]>[3],
+    ) => {
+      await deploymentService.deployGeneratedApi(
+        stableSpec,
+        "user-123",
+        "api-weather",
+      );
+      const { SecureCodeExecutor } = await import(
+        "../services/secure-code-executor"
+      );
+      vi.mocked(
+        SecureCodeExecutor,
+      ).mock.results[0].value.compileHonoRoute.mockResolvedValueOnce({
+        success: true,
+        data: { fetch: () => Response.json({ version: 2 }) },
+        metadata: { hasPayment: false, endpoints: [] },
+      });
+      return deploymentService.startCanary(
+        canarySpec,
+        "user-123",
+        "api-weather",
+        options,
+      );
+    };
+
+    // 他のisolateがKVに保存したカナリアリリース中の累計（isolateのID -> 累計）
+    let canaryMetrics: Map<string, CanaryMetricsSample>;
+
+    beforeEach(() => {
+      mainApp.use("*", deploymentService.dispatcher());
+      metricsCollector.resetVersionMetrics("api-weather");
+
+      // KVに保存したルートとカナリアの設定をメモリ上で再現する
+      const routes = new Map<number, DynamicRouteEntry>();
+      let canary: CanaryConfig | null = null;
+      const { routeManager } = deploymentService;
+      vi.mocked(routeManager.saveRoute).mockImplementation(async (entry) => {
+        routes.set(entry.metadata.version, structuredClone(entry));
+        return { success: true, data: entry };
+      });
+      vi.mocked(routeManager.loadRoute).mockImplementation(
+        async (_userId, _apiId, version) => ({
+          success: true,
+          data: routes.get(version ?? Math.max(0, ...routes.keys())) ?? null,
+        }),
+      );
+      vi.mocked(routeManager.deleteRoute).mockImplementation(
+        async (_userId, _apiId, version) => ({
+          success: true,
+          data: routes.delete(version ?? 0),
+        }),
+      );
+      vi.mocked(routeManager.saveCanary).mockImplementation(async (config) => {
+        canary = config;
+        return { success: true, data: config };
+      });
+      vi.mocked(routeManager.loadCanary).mockImplementation(async () => ({
+        success: true,
+        data: canary,
+      }));
+      vi.mocked(routeManager.deleteCanary).mockImplementation(async () => {
+        canary = null;
+        return { success: true, data: true };
+      });
+      canaryMetrics = new Map();
+      vi.mocked(routeManager.saveCanaryMetrics).mockImplementation(
+        async (_config, isolateId, sample) => {
+          canaryMetrics.set(isolateId, structuredClone(sample));
+          return { success: true, data: sample };
+        },
+      );
+      vi.mocked(routeManager.loadCanaryMetrics).mockImplementation(
+        async () => ({
+          success: true,
+          data: Object.fromEntries(canaryMetrics),
+        }),
+      );
+    });
+
+    it("公開中のバージョンの次のバージョンをカナリアとして保存し、既定の閾値を補う", async () => {
+      // Act
+      const result = await startCanary({
+        percentage: 10,
+        thresholds: { minRequests: 20 },
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ status: "canary", version: 2 });
+      expect(deploymentService.routeManager.saveCanary).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stableVersion: 1,
+          canaryVersion: 2,
+          percentage: 10,
+          thresholds: {
+            minRequests: 20,
+            maxErrorRateIncrease: 0.02,
+            maxLatencyRatio: 1.5,
+          },
+        }),
+      );
+      expect(deploymentService.routeManager.saveRoute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ version: 2, status: "canary" }),
+        }),
+      );
+      const active = await deploymentService.getActiveDeployment(
+        "user-123",
+        "api-weather",
+      );
+      expect(active.data).toMatchObject({
+        version: 1,
+        canary: { canaryVersion: 2 },
+      });
+    });
+
+    it("公開中のバージョンが無い、またはカナリアリリース中の場合は開始しない", async () => {
+      // Act
+      const withoutStable = await deploymentService.startCanary(
+        canarySpec,
+        "user-123",
+        "api-weather",
+        { percentage: 10 },
+      );
+      await startCanary({ percentage: 10 });
+      const duplicate = await deploymentService.startCanary(
+        canarySpec,
+        "user-123",
+        "api-weather",
+        { percentage: 10 },
+      );
+      const redeploy = await deploymentService.deployGeneratedApi(
+        stableSpec,
+        "user-123",
+        "api-weather",
+      );
+
+      // Assert
+      expect(withoutStable.error).toBe("No active deployment to compare with");
+      expect(duplicate.error).toBe("A canary deployment is in progress");
+      expect(redeploy.error).toBe("A canary deployment is in progress");
+    });
+
+    it("コホートのヘッダー・Cookieに一致するリクエストをカナリアに、それ以外を割合で振り分ける", async () => {
+      // Arrange
+      await startCanary({
+        percentage: 0,
+        cohort: { header: "X-Release", cookie: "release", value: "canary" },
+      });
+
+      // Act
+      const byHeader = await mainApp.request("/api/weather", {
+        headers: { "X-Release": "canary" },
+      });
+      const byCookie = await mainApp.request("/api/weather", {
+        headers: { Cookie: "release=canary" },
+      });
+      const other = await mainApp.request("/api/weather", {
+        headers: { "X-Release": "stable" },
+      });
+
+      // Assert
+      expect(await byHeader.json()).toEqual({ version: 2 });
+      expect(await byCookie.json()).toEqual({ version: 2 });
+      expect(await other.json()).toEqual({ city: "Tokyo", temperature: 25 });
+    });
+
+    it("振り分けたバージョンをパフォーマンス監視のメトリクスに記録する", async () => {
+      // Arrange
+      const app = new Hono();
+      app.use("*", performanceMonitor());
+      app.use("*", deploymentService.dispatcher());
+      await startCanary({ percentage: 100 });
+
+      // Act
+      await app.request("/api/weather");
+
+      // Assert
+      expect(
+        metricsCollector.getVersionMetrics("api-weather", 2),
+      ).toMatchObject({ requests: 1, errors: 0 });
+      expect(
+        metricsCollector.getVersionMetrics("api-weather", 1).requests,
+      ).toBe(0);
+    });
+
+    it("閾値内のカナリアは必要なリクエスト数に達すると自動で昇格する", async () => {
+      // Arrange
+      const listener = vi.fn();
+      deploymentService.onCanaryCompleted(listener);
+      await startCanary({ percentage: 0, thresholds: { minRequests: 10 } });
+      await recordRequests(1, 30);
+      await recordRequests(2, 10, 200, 120);
+
+      // Act
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(await response.json()).toEqual({ version: 2 });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decision: "promote",
+          evaluation: expect.objectContaining({ decision: "promote" }),
+        }),
+      );
+      expect(deploymentService.routeManager.saveRoute).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ version: 2, status: "active" }),
+        }),
+      );
+      const active = await deploymentService.getActiveDeployment(
+        "user-123",
+        "api-weather",
+      );
+      expect(active.data).toMatchObject({ version: 2, canary: undefined });
+    });
+
+    it("エラー率が閾値を超えたカナリアは自動でロールバックし、カナリアのバージョンを削除する", async () => {
+      // Arrange
+      const listener = vi.fn();
+      deploymentService.onCanaryCompleted(listener);
+      await startCanary({ percentage: 100, thresholds: { minRequests: 10 } });
+      await recordRequests(1, 20);
+      await recordRequests(2, 8);
+      await recordRequests(2, 2, 500);
+
+      // Act
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(await response.json()).toEqual({ city: "Tokyo", temperature: 25 });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ decision: "rollback" }),
+      );
+      expect(deploymentService.routeManager.deleteRoute).toHaveBeenCalledWith(
+        "user-123",
+        "api-weather",
+        2,
+      );
+      const canary = await deploymentService.getCanary(
+        "user-123",
+        "api-weather",
+      );
+      expect(canary.data).toBeNull();
+    });
+
+    it("すべてのisolateの累計の合計が必要なリクエスト数に達するまで判定しない", async () => {
+      // Arrange
+      const counters = (requests: number) => ({
+        requests,
+        errors: 0,
+        totalResponseTime: requests * 100,
+      });
+      await startCanary({ percentage: 0, thresholds: { minRequests: 10 } });
+      await recordRequests(1, 10);
+      await recordRequests(2, 4);
+
+      // Act
+      const pending = await mainApp.request("/api/weather");
+      await mainApp.request("/api/weather");
+      canaryMetrics.set("other-isolate", {
+        stable: counters(20),
+        canary: counters(6),
+      });
+      const clock = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 11_000);
+      const promoted = await mainApp.request("/api/weather");
+      clock.mockRestore();
+
+      // Assert
+      expect(await pending.json()).toEqual({ city: "Tokyo", temperature: 25 });
+      expect(await promoted.json()).toEqual({ version: 2 });
+      // 判定の間隔内はKVに保存し直さない
+      expect(
+        deploymentService.routeManager.saveCanaryMetrics,
+      ).toHaveBeenCalledTimes(2);
+      expect(
+        deploymentService.routeManager.saveCanaryMetrics,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ apiId: "api-weather" }),
+        expect.any(String),
+        { stable: counters(10), canary: counters(4) },
+      );
+    });
+
+    it("他のisolateの累計を読めない場合はこのisolateの集計だけで判定しない", async () => {
+      // Arrange
+      const listener = vi.fn();
+      deploymentService.onCanaryCompleted(listener);
+      await startCanary({ percentage: 0, thresholds: { minRequests: 10 } });
+      await recordRequests(2, 10);
+      vi.mocked(
+        deploymentService.routeManager.loadCanaryMetrics,
+      ).mockResolvedValue({ success: false, error: "KV unavailable" });
+
+      // Act
+      const response = await mainApp.request("/api/weather");
+      const status = await deploymentService.getCanary(
+        "user-123",
+        "api-weather",
+      );
+
+      // Assert
+      expect(await response.json()).toEqual({ city: "Tokyo", temperature: 25 });
+      expect(listener).not.toHaveBeenCalled();
+      expect(status.data?.evaluation).toMatchObject({
+        decision: "pending",
+        reason: "Canary metrics are unavailable",
+        canary: { requests: 10 },
+      });
+    });
+
+    it("手動で昇格したカナリアのアプリを次のリクエストから使う", async () => {
+      // Arrange
+      await startCanary({ percentage: 0 });
+
+      // Act
+      const result = await deploymentService.promoteCanary(
+        "user-123",
+        "api-weather",
+      );
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(result.data).toMatchObject({ status: "deployed", version: 2 });
+      expect(await response.json()).toEqual({ version: 2 });
+    });
+
+    it("無効化するとカナリアを破棄して安定版を無効にする", async () => {
+      // Arrange
+      await startCanary({ percentage: 50 });
+
+      // Act
+      const result = await deploymentService.undeployApi(
+        "user-123",
+        "api-weather",
+      );
+      const response = await mainApp.request("/api/weather");
+
+      // Assert
+      expect(result.data?.version).toBe(1);
+      expect(deploymentService.routeManager.deleteRoute).toHaveBeenCalledWith(
+        "user-123",
+        "api-weather",
+        2,
+      );
+      expect(deploymentService.routeManager.deleteCanary).toHaveBeenCalled();
+      expect(response.status).toBe(404);
+    });
+
+    it("応答時間が安定版の許容倍率を超えるとロールバック、リクエスト数が足りなければ保留と判定する", () => {
+      // Arrange
+      const thresholds = {
+        minRequests: 10,
+        maxErrorRateIncrease: 0.02,
+        maxLatencyRatio: 1.5,
+      };
+      const stable = {
+        requests: 50,
+        errors: 0,
+        errorRate: 0,
+        averageResponseTime: 100,
+      };
+      const slow = { ...stable, requests: 10, averageResponseTime: 200 };
+
+      // Act
+      const rollback = DynamicDeploymentService.evaluateCanary(
+        thresholds,
+        stable,
+        slow,
+      );
+      const pending = DynamicDeploymentService.evaluateCanary(
+        thresholds,
+        stable,
+        { ...slow, requests: 4 },
+      );
+
+      // Assert
+      expect(rollback.decision).toBe("rollback");
+      expect(rollback.reason).toBe(
+        "Canary latency 200ms exceeds 1.5x stable 100ms",
+      );
+      expect(pending).toMatchObject({
+        decision: "pending",
+        reason: "Waiting for 6 more canary requests",
+      });
+    });
+  });
+
   describe("errorHandling", () => {
     it("デプロイメント中のエラーを適切に処理する", async () => {
       // Arrange - KVエラーをシミュレート
@@ -1,6 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { DynamicRouteManager } from "../services/dynamic-route-manager";
-import type { DynamicRouteEntry } from "../types/dynamic-routes";
+import type {
+  CanaryConfig,
+  DynamicRouteEntry,
+} from "../types/dynamic-routes";
 
 // Cloudflare Workers環境をモック化
 vi.mock("../utils/workers-env", async (_importOriginal) => {
@@ -17,6 +20,11 @@ vi.mock("../utils/workers-env", async (_importOriginal) => {
       userRoutes: (userId: string) => `api:${userId}:`,
       routeMetadata: (userId: string, apiId: string) =>
         `meta:${userId}:${apiId}`,
+      endpointIndex: (endpoint: string) => `endpoint:${endpoint}`,
+      canaryRelease: (userId: string, apiId: string) =>
+        `canary:${userId}:${apiId}`,
+      canaryMetrics: (userId: string, apiId: string, startedAt: string) =>
+        `canary-metrics:${userId}:${apiId}:${startedAt}:`,
     },
     KVHelper: class MockKVHelper {
       private kv: KVNamespace;
@@ -123,7 +131,36 @@ export default app`,
       expect(mockKVNamespace.put).toHaveBeenCalledWith(
         "api:user-123:api-456:1",
         JSON.stringify(routeEntry),
-        { expirationTtl: 86400 * 30 }, // 30日間有効
+        undefined, // 公開中のバージョンは期限切れにしない
+      );
+    });
+
+    it("ドラフトのバージョンは30日間有効で保存する", async () => {
+      // Arrange
+      const routeEntry: DynamicRouteEntry = {
+        code: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/api/test', (c) => c.json({ message: 'test' }))
+export default app`,
+        metadata: {
+          endpoint: "/api/test",
+          method: "GET",
+          status: "draft",
+          createdAt: new Date().toISOString(),
+          version: 1,
+          userId: "user-123",
+          apiId: "api-456",
+        },
+      };
+
+      // Act
+      await routeManager.saveRoute(routeEntry);
+
+      // Assert
+      expect(mockKVNamespace.put).toHaveBeenCalledWith(
+        "api:user-123:api-456:1",
+        JSON.stringify(routeEntry),
+        { expirationTtl: 86400 * 30 },
       );
     });
 
@@ -366,6 +403,202 @@ export default app`,
     });
   });
 
+  describe("findActiveRouteByEndpoint", () => {
+    const activeEntry: DynamicRouteEntry = {
+      code: `import { Hono } from 'hono'
+const app = new Hono()
+app.get('/', (c) => c.json({ message: 'test' }))
+export default app`,
+      metadata: {
+        endpoint: "/api/test",
+        method: "GET",
+        status: "active",
+        createdAt: new Date().toISOString(),
+        version: 2,
+        userId: "user-123",
+        apiId: "api-456",
+      },
+    };
+    let store: Map<string, string>;
+    let expiring: Set<string>;
+    // 期限付きで書き込んだキーをすべて期限切れにする
+    const expireAll = () => {
+      for (const key of expiring) {
+        store.delete(key);
+      }
+    };
+
+    beforeEach(() => {
+      // 書き込んだ値を読み出せるインメモリのKV
+      store = new Map();
+      expiring = new Set();
+      vi.mocked(mockKVNamespace.put).mockImplementation(
+        async (key, value, options) => {
+          store.set(key, value as string);
+          if (options?.expirationTtl) {
+            expiring.add(key);
+          } else {
+            expiring.delete(key);
+          }
+        },
+      );
+      vi.mocked(mockKVNamespace.get).mockImplementation(
+        async (key: string) =>
+          (store.get(key) ?? null) as unknown as ReadableStream<unknown> | null,
+      );
+      vi.mocked(mockKVNamespace.delete).mockImplementation(async (key) => {
+        store.delete(key);
+      });
+    });
+
+    it("公開したルートをエンドポイントの索引から読み込める", async () => {
+      // Arrange
+      await routeManager.saveRoute(activeEntry);
+
+      // Act
+      const result = await routeManager.findActiveRouteByEndpoint("/api/test/");
+
+      // Assert
+      expect(JSON.parse(store.get("endpoint:/api/test") ?? "null")).toEqual({
+        userId: "user-123",
+        apiId: "api-456",
+        version: 2,
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(activeEntry);
+    });
+
+    it("ドラフトから公開したバージョンは、期限が過ぎても索引から読み込める", async () => {
+      // Arrange
+      await routeManager.saveRoute({
+        ...activeEntry,
+        metadata: { ...activeEntry.metadata, status: "draft" },
+      });
+      await routeManager.saveRoute(activeEntry);
+      expireAll();
+
+      // Act
+      const result = await routeManager.findActiveRouteByEndpoint("/api/test");
+
+      // Assert
+      expect(result.data).toEqual(activeEntry);
+    });
+
+    it("無効化したルートは索引から外れて読み込まれない", async () => {
+      // Arrange
+      await routeManager.saveRoute(activeEntry);
+      await routeManager.saveRoute({
+        ...activeEntry,
+        metadata: { ...activeEntry.metadata, status: "inactive" },
+      });
+
+      // Act
+      const result = await routeManager.findActiveRouteByEndpoint("/api/test");
+
+      // Assert
+      expect(store.has("endpoint:/api/test")).toBe(false);
+      expect(result).toEqual({ success: true, data: null });
+    });
+
+    it("ドラフトの保存では公開中の旧バージョンを読み込み続ける", async () => {
+      // Arrange
+      await routeManager.saveRoute(activeEntry);
+      await routeManager.saveRoute({
+        ...activeEntry,
+        metadata: { ...activeEntry.metadata, status: "draft", version: 3 },
+      });
+
+      // Act
+      const result = await routeManager.findActiveRouteByEndpoint("/api/test");
+
+      // Assert
+      expect(result.data?.metadata.version).toBe(2);
+    });
+
+    it("カナリアの保存では公開中の旧バージョンを読み込み続け、設定は別に保存・削除する", async () => {
+      // Arrange
+      const config: CanaryConfig = {
+        userId: "user-123",
+        apiId: "api-456",
+        stableVersion: 2,
+        canaryVersion: 3,
+        percentage: 10,
+        thresholds: {
+          minRequests: 100,
+          maxErrorRateIncrease: 0.02,
+          maxLatencyRatio: 1.5,
+        },
+        startedAt: new Date().toISOString(),
+      };
+      await routeManager.saveRoute(activeEntry);
+      await routeManager.saveRoute({
+        ...activeEntry,
+        metadata: { ...activeEntry.metadata, status: "canary", version: 3 },
+      });
+      await routeManager.saveCanary(config);
+
+      // Act
+      const result = await routeManager.findActiveRouteByEndpoint("/api/test");
+      const saved = await routeManager.loadCanary("user-123", "api-456");
+      await routeManager.deleteCanary("user-123", "api-456");
+      const deleted = await routeManager.loadCanary("user-123", "api-456");
+
+      // Assert
+      expect(result.data?.metadata.version).toBe(2);
+      expect(saved.data).toEqual(config);
+      expect(deleted).toEqual({ success: true, data: null });
+    });
+
+    it("isolateごとに保存したカナリアの累計を、同じカナリアリリースの分だけ読み込む", async () => {
+      // Arrange
+      const config: CanaryConfig = {
+        userId: "user-123",
+        apiId: "api-456",
+        stableVersion: 2,
+        canaryVersion: 3,
+        percentage: 10,
+        thresholds: {
+          minRequests: 100,
+          maxErrorRateIncrease: 0.02,
+          maxLatencyRatio: 1.5,
+        },
+        startedAt: "2026-10-19T00:00:00.000Z",
+      };
+      const sample = (requests: number) => ({
+        stable: { requests, errors: 0, totalResponseTime: requests * 100 },
+        canary: { requests, errors: 1, totalResponseTime: requests * 120 },
+      });
+      vi.mocked(mockKVNamespace.list).mockImplementation((async (options?: {
+        prefix?: string;
+      }) => ({
+        keys: [...store.keys()]
+          .filter((name) => name.startsWith(options?.prefix ?? ""))
+          .map((name) => ({ name })),
+      })) as unknown as KVNamespace["list"]);
+      await routeManager.saveCanaryMetrics(config, "isolate-a", sample(3));
+      await routeManager.saveCanaryMetrics(config, "isolate-b", sample(5));
+      await routeManager.saveCanaryMetrics(
+        { ...config, startedAt: "2026-10-18T00:00:00.000Z" },
+        "isolate-a",
+        sample(40),
+      );
+
+      // Act
+      const result = await routeManager.loadCanaryMetrics(config);
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        data: { "isolate-a": sample(3), "isolate-b": sample(5) },
+      });
+      expect(mockKVNamespace.put).toHaveBeenCalledWith(
+        "canary-metrics:user-123:api-456:2026-10-19T00:00:00.000Z:isolate-a",
+        JSON.stringify(sample(3)),
+        { expirationTtl: 86400 * 7 },
+      );
+    });
+  });
+
   describe("deleteRoute", () => {
     it("指定されたルートを削除できる", async () => {
       // Arrange
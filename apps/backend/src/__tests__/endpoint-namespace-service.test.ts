@@ -0,0 +1,141 @@
+import type { Database, GeneratedApiDB } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConflictError } from "../middleware/error-handler";
+import { EndpointNamespaceService } from "../services/endpoint-namespace-service";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiOperations: vi.fn(),
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+const organizationId = "987e6543-e21b-34d5-a678-426614174999";
+
+describe("EndpointNamespaceService", () => {
+  let findByEndpoint: ReturnType<typeof vi.fn>;
+  let service: EndpointNamespaceService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    findByEndpoint = vi.fn().mockResolvedValue({ success: true, data: null });
+    const { GeneratedApiOperations } = await import("@repo/db");
+    (
+      GeneratedApiOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ findByEndpoint }));
+    service = new EndpointNamespaceService({} as Database);
+  });
+
+  it("ユーザーのAPIは /u/:userId、組織のAPIは /o/:organizationId の下にマウントする", () => {
+    // Act & Assert
+    expect(EndpointNamespaceService.mountPath({ userId }, "weather")).toBe(
+      `/u/${userId}/weather`,
+    );
+    expect(
+      EndpointNamespaceService.mountPath({ userId, organizationId }, "weather"),
+    ).toBe(`/o/${organizationId}/weather`);
+  });
+
+  it("LLMが提案したエンドポイントを1つのセグメントのslugにする", () => {
+    // Act & Assert
+    expect(EndpointNamespaceService.slugify("/api/weather")).toBe("weather");
+    expect(
+      EndpointNamespaceService.slugify("/api/Weather_Forecast/:city/"),
+    ).toBe("weather-forecast-city");
+    expect(EndpointNamespaceService.slugify("/apiary")).toBe("apiary");
+    expect(EndpointNamespaceService.slugify("/api/")).toBe("api");
+    expect(EndpointNamespaceService.slugify(`/api/${"a".repeat(80)}`)).toBe(
+      "a".repeat(64),
+    );
+  });
+
+  it("他のAPIが使っているマウント先はConflictErrorにし、同じAPI自身の使用は許可する", async () => {
+    // Arrange
+    const endpoint = `/u/${userId}/weather`;
+    findByEndpoint.mockResolvedValue({
+      success: true,
+      data: { id: "api-1", endpoint } as GeneratedApiDB,
+    });
+
+    // Act & Assert
+    await expect(service.ensureAvailable(endpoint, "api-1")).resolves.toBe(
+      undefined,
+    );
+    const conflict = service.ensureAvailable(endpoint, "api-2");
+    await expect(conflict).rejects.toThrow(ConflictError);
+    await expect(conflict).rejects.toMatchObject({
+      statusCode: 409,
+      message: `Endpoint ${endpoint} is already in use by another API`,
+    });
+    await expect(service.ensureAvailable(endpoint)).rejects.toThrow(
+      ConflictError,
+    );
+    expect(findByEndpoint).toHaveBeenCalledWith(endpoint);
+  });
+
+  it("自動のslugが使われている場合は空いている連番を付けたマウント先を返す", async () => {
+    // Arrange
+    findByEndpoint
+      .mockResolvedValueOnce({ success: true, data: { id: "api-1" } })
+      .mockResolvedValueOnce({ success: true, data: { id: "api-2" } });
+
+    // Act
+    const endpoint = await service.availableEndpoint({ userId }, "weather");
+
+    // Assert
+    expect(endpoint).toBe(`/u/${userId}/weather-3`);
+    expect(findByEndpoint.mock.calls).toEqual([
+      [`/u/${userId}/weather`],
+      [`/u/${userId}/weather-2`],
+      [`/u/${userId}/weather-3`],
+    ]);
+  });
+
+  it("連番を付けてもslugの長さの上限を超えない", async () => {
+    // Arrange
+    const slug = "a".repeat(64);
+    findByEndpoint.mockResolvedValueOnce({
+      success: true,
+      data: { id: "api-1" },
+    });
+
+    // Act
+    const endpoint = await service.availableEndpoint({ userId }, slug);
+
+    // Assert
+    expect(endpoint).toBe(`/u/${userId}/${"a".repeat(62)}-2`);
+  });
+
+  it("空いている連番が見つからない場合はConflictErrorにする", async () => {
+    // Arrange
+    findByEndpoint.mockResolvedValue({ success: true, data: { id: "api-1" } });
+
+    // Act & Assert
+    await expect(
+      service.availableEndpoint({ userId }, "weather"),
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it("マウント先の一意制約違反を衝突として判定する", () => {
+    // Act & Assert
+    expect(
+      EndpointNamespaceService.isEndpointConflict(
+        new Error(
+          'duplicate key value violates unique constraint "generated_apis_endpoint_idx"',
+        ),
+      ),
+    ).toBe(true);
+    expect(
+      EndpointNamespaceService.isEndpointConflict(new Error("timeout")),
+    ).toBe(false);
+  });
+
+  it("確認に失敗した場合は衝突とは区別してエラーにする", async () => {
+    // Arrange
+    findByEndpoint.mockResolvedValue({ success: false, error: new Error() });
+
+    // Act & Assert
+    await expect(service.ensureAvailable("/u/user/weather")).rejects.toThrow(
+      "Failed to check endpoint availability",
+    );
+  });
+});
@@ -1,14 +1,66 @@
-import type { Database } from "@repo/db";
+import type {
+  Database,
+  GeneratedApiDB,
+  GeneratedApiEvaluationDB,
+} from "@repo/db";
 import { Hono } from "hono";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  type MockInstance,
+  vi,
+} from "vitest";
+import { DynamicDeploymentService } from "../services/dynamic-deployment-service";
 
 // グローバルモック設定
 vi.mock("@repo/db", () => {
   const mockOperations = {
     create: vi.fn(),
     findByUser: vi.fn(),
+    findByOrganization: vi.fn(),
     findById: vi.fn(),
+    findByEndpoint: vi.fn().mockResolvedValue({ success: true, data: null }),
+    update: vi.fn().mockResolvedValue({ success: true, data: {} }),
     delete: vi.fn(),
+    search: vi.fn(),
+  };
+  const mockRevisionOperations = {
+    create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+    listByApi: vi.fn(),
+    findByRevision: vi.fn(),
+    findLatest: vi.fn(),
+  };
+  const mockTestRunOperations = {
+    create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+    listByApi: vi.fn(),
+  };
+  const mockEvaluationOperations = {
+    upsert: vi.fn(),
+    listByApi: vi.fn(),
+    delete: vi.fn(),
+    summarizeByApi: vi.fn(),
+    getQualityStats: vi.fn(),
+  };
+  const mockEndpointOperations = {
+    replaceForApi: vi.fn().mockResolvedValue({ success: true, data: [] }),
+    listByApi: vi.fn().mockResolvedValue({ success: true, data: [] }),
+  };
+  const mockTemplateOperations = {
+    findById: vi.fn(),
+    incrementUsage: vi.fn().mockResolvedValue({
+      success: true,
+      data: { usageCount: 1 },
+    }),
+  };
+  const mockMemberOperations = {
+    findMembership: vi.fn().mockResolvedValue({ success: true, data: null }),
+  };
+  // 組織のLLMプロバイダー設定なし（サーバーの既定を使用）
+  const mockOrganizationOperations = {
+    findById: vi.fn().mockResolvedValue({ success: true, data: null }),
   };
 
   return {
@@ -19,23 +71,56 @@ vi.mock("@repo/db", () => {
       healthChecker: {},
     }),
     GeneratedApiOperations: vi.fn(() => mockOperations),
+    GeneratedApiEndpointOperations: vi.fn(() => mockEndpointOperations),
+    GeneratedApiRevisionOperations: vi.fn(() => mockRevisionOperations),
+    GeneratedApiTestRunOperations: vi.fn(() => mockTestRunOperations),
+    GeneratedApiEvaluationOperations: vi.fn(() => mockEvaluationOperations),
+    PromptTemplateOperations: vi.fn(() => mockTemplateOperations),
+    OrganizationMemberOperations: vi.fn(() => mockMemberOperations),
+    OrganizationOperations: vi.fn(() => mockOrganizationOperations),
+    OrganizationInvitationOperations: vi.fn(),
+    UserOperations: vi.fn(),
+    SEARCH_HIGHLIGHT_START: "\u0002",
+    SEARCH_HIGHLIGHT_END: "\u0003",
   };
 });
 
 vi.mock("../services/llm-service", () => ({
+  SANDBOX_UNSUPPORTED_ERROR: "API cannot run in the sandbox",
   LLMService: vi.fn().mockImplementation(() => ({
-    generateApiFromNaturalLanguage: vi.fn().mockResolvedValue({
+    generateApiFromNaturalLanguage: vi
+      .fn()
+      .mockImplementation(
+        async (
+          _input: unknown,
+          options?: { onToken?: (text: string) => void | Promise<void> },
+        ) => {
+          await options?.onToken?.('{"name":');
+          await options?.onToken?.('"Mock Weather API"}');
+          return {
+            success: true,
+            data: {
+              name: "Mock Weather API",
+              description: "Generated weather API",
+              endpoint: "/api/weather",
+              method: "GET",
+              price: "0.01",
+              generatedCode:
+                'export default function handler() { return { weather: "sunny" } }',
+              documentation: "# Weather API\nReturns current weather",
+            },
+          };
+        },
+      ),
+    generateTestCases: vi.fn().mockResolvedValue({
       success: true,
-      data: {
-        name: "Mock Weather API",
-        description: "Generated weather API",
-        endpoint: "/api/weather",
-        method: "GET",
-        price: "0.01",
-        generatedCode:
-          'export default function handler() { return { weather: "sunny" } }',
-        documentation: "# Weather API\nReturns current weather",
-      },
+      data: [
+        {
+          name: "天気を返す",
+          request: { method: "GET", path: "/api/weather" },
+          expect: { status: 200 },
+        },
+      ],
     }),
   })),
 }));
@@ -84,6 +169,8 @@ describe("API生成エンドポイント（修正版）", () => {
         userId: "123e4567-e89b-12d3-a456-426614174000",
         organizationId: "987e6543-e21b-34d5-a678-426614174999",
         testCode: null,
+        currentRevision: 1,
+        qualityScore: null,
         metadata: null,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -115,6 +202,146 @@ describe("API生成エンドポイント（修正版）", () => {
       };
       expect(data.success).toBe(true);
       expect(data.data.api.name).toBe("Mock Weather API");
+      // LLMが提案したパスは組織の名前空間のslugとして使う
+      const endpoint = "/o/987e6543-e21b-34d5-a678-426614174999/weather";
+      expect(mockInstance.findByEndpoint).toHaveBeenCalledWith(endpoint);
+      expect(mockInstance.create).toHaveBeenCalledWith(
+        expect.objectContaining({ endpoint }),
+      );
+    });
+
+    it("指定したslugのマウント先が他のAPIに使われている場合は409を返し、保存しない", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.create).mockClear();
+      vi.mocked(mockInstance.findByEndpoint).mockResolvedValueOnce({
+        success: true,
+        data: { id: "api-other" } as GeneratedApiDB,
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: "天気情報を取得するAPIを作成してください",
+          category: "data",
+          slug: "forecast",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(409);
+      expect(await res.json()).toEqual({
+        error:
+          "Endpoint /o/987e6543-e21b-34d5-a678-426614174999/forecast is already in use by another API",
+      });
+      expect(mockInstance.create).not.toHaveBeenCalled();
+    });
+
+    it("自動のslugのマウント先が使われている場合は連番を付けて保存する", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.create).mockClear();
+      vi.mocked(mockInstance.findByEndpoint).mockResolvedValueOnce({
+        success: true,
+        data: { id: "api-other" } as GeneratedApiDB,
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: "天気情報を取得するAPIを作成してください",
+          category: "data",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(201);
+      expect(mockInstance.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: "/o/987e6543-e21b-34d5-a678-426614174999/weather-2",
+        }),
+      );
+    });
+
+    it("確認後に同じマウント先が保存された場合は一意制約違反を409にする", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.create).mockResolvedValueOnce({
+        success: false,
+        error: new Error(
+          'duplicate key value violates unique constraint "generated_apis_endpoint_idx"',
+        ),
+      } as Awaited<ReturnType<typeof mockInstance.create>>);
+
+      // Act
+      const res = await app.request("/internal/generator/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: "天気情報を取得するAPIを作成してください",
+          category: "data",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(409);
+      expect(await res.json()).toEqual({
+        error:
+          "Endpoint /o/987e6543-e21b-34d5-a678-426614174999/weather is already in use by another API",
+      });
+    });
+
+    it("サンドボックスで実現できない依頼は理由とあわせて422を返す", async () => {
+      // Arrange
+      const { LLMService } = await import("../services/llm-service");
+      const error =
+        "API cannot run in the sandbox: Proxying an external API requires network access";
+      vi.mocked(LLMService).mockImplementationOnce(
+        () =>
+          ({
+            generateApiFromNaturalLanguage: vi
+              .fn()
+              .mockResolvedValue({ success: false, error }),
+          }) as unknown as InstanceType<typeof LLMService>,
+      );
+
+      // Act
+      const res = await app.request("/internal/generator/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description:
+            "https://api.example.com/prices をキャッシュして返す有料プロキシを作成してください",
+          category: "integration",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(422);
+      expect(await res.json()).toEqual({ error });
+    });
+
+    it("slugに使えない文字を含む場合はバリデーションエラーを返す", async () => {
+      // Act
+      const res = await app.request("/internal/generator/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: "天気情報を取得するAPIを作成してください",
+          category: "data",
+          slug: "../Weather",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
     });
 
     it("無効な入力でバリデーションエラーを返す", async () => {
@@ -139,6 +366,412 @@ describe("API生成エンドポイント（修正版）", () => {
     });
   });
 
+  describe("POST /internal/generator/create/stream", () => {
+    // SSEのレスポンス本文からイベント名とデータを取り出す
+    const parseEvents = (text: string) =>
+      text
+        .split("\n\n")
+        .filter((block) => block.trim() !== "")
+        .map((block) => {
+          const lines = block.split("\n");
+          const event = lines
+            .find((line) => line.startsWith("event:"))
+            ?.slice(6)
+            .trim();
+          const data = lines
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trim())
+            .join("\n");
+          return { event, data: JSON.parse(data) };
+        });
+
+    it("生成の進捗をフェーズ順にSSEで送信する", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.create).mockResolvedValue({
+        success: true,
+        data: {
+          id: "api-123",
+          name: "Mock Weather API",
+          description: "Generated weather API",
+          endpoint: "/api/weather",
+          method: "GET",
+          price: "0.01",
+          currency: "USDC",
+          generatedCode:
+            'export default function handler() { return { weather: "sunny" } }',
+          documentation: "# Weather API\nReturns current weather",
+          status: "draft",
+          userId: "123e4567-e89b-12d3-a456-426614174000",
+          organizationId: "987e6543-e21b-34d5-a678-426614174999",
+          testCode: null,
+          currentRevision: 1,
+          qualityScore: null,
+          metadata: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/create/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          description: "天気情報を取得するAPIを作成してください",
+          category: "data",
+          complexityLevel: "simple",
+          autoDeploy: false,
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+      const events = parseEvents(await res.text());
+      expect(events.map((event) => event.event)).toEqual([
+        "phase",
+        "token",
+        "token",
+        "spec",
+        "code",
+        "validation",
+        "phase",
+        "tests",
+        "saved",
+        "done",
+      ]);
+      expect(events[1].data.text + events[2].data.text).toBe(
+        '{"name":"Mock Weather API"}',
+      );
+      expect(events[3].data.generatedCode).toBeUndefined();
+      expect(events[3].data.endpoint).toBe(
+        "/o/987e6543-e21b-34d5-a678-426614174999/weather",
+      );
+      expect(events[4].data.generatedCode).toContain("sunny");
+      expect(events[6].data.phase).toBe("generating_tests");
+      expect(events[7].data.testCases).toHaveLength(1);
+      expect(events[9].data.api.id).toBe("api-123");
+    });
+
+    it("無効な入力ではストリームを開始せず400を返す", async () => {
+      // Act
+      const res = await app.request("/internal/generator/create/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ description: "short" }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+      const data = (await res.json()) as { error: string };
+      expect(data.error).toBe("Validation failed");
+    });
+  });
+
+  describe("POST /internal/generator/:id/improve", () => {
+    it("改善領域が未指定の場合はバリデーションエラーを返す", async () => {
+      // Act
+      const res = await app.request("/internal/generator/api-123/improve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          improvementPrompt: "エラー処理を追加してください",
+          focusAreas: [],
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+      const data = (await res.json()) as { error: string };
+      expect(data.error).toBe("Validation failed");
+    });
+
+    it("存在しないAPIの場合は404を返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.findById).mockResolvedValue({
+        success: true,
+        data: null,
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/missing/improve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          improvementPrompt: "エラー処理を追加してください",
+          focusAreas: ["security"],
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("/internal/generator/:id/revisions", () => {
+    const ownApi = {
+      id: "api-123",
+      name: "Weather API",
+      description: "Weather information API",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      currency: "USDC",
+      generatedCode: "mock code",
+      testCode: null,
+      currentRevision: 2,
+      qualityScore: null,
+      documentation: "Weather API docs",
+      status: "active",
+      userId: "123e4567-e89b-12d3-a456-426614174000",
+      organizationId: null,
+      metadata: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it("リビジョン一覧と現在のリビジョン番号を返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations, GeneratedApiRevisionOperations } =
+        await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({ success: true, data: ownApi });
+      vi.mocked(
+        new GeneratedApiRevisionOperations({} as Database).listByApi,
+      ).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            id: "revision-2",
+            apiId: "api-123",
+            revision: 2,
+            baseRevision: 1,
+            source: "improved",
+            name: "Weather API",
+            description: "Weather information API",
+            endpoint: "/api/weather",
+            method: "GET",
+            price: "0.01",
+            generatedCode: "improved code",
+            documentation: "Weather API docs",
+            prompt: "キャッシュを追加",
+            summary: null,
+            diff: "--- a\n+++ b\n",
+            metadata: null,
+            authorId: null,
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/api-123/revisions");
+
+      // Assert
+      expect(res.status).toBe(200);
+      const data = (await res.json()) as {
+        data: { currentRevision: number; revisions: Record<string, unknown>[] };
+      };
+      expect(data.data.currentRevision).toBe(2);
+      expect(data.data.revisions[0].revision).toBe(2);
+      expect(data.data.revisions[0].generatedCode).toBeUndefined();
+    });
+
+    it("比較するリビジョンが指定されていない場合は400を返す", async () => {
+      // Act
+      const res = await app.request(
+        "/internal/generator/api-123/revisions/compare?from=1",
+      );
+
+      // Assert
+      expect(res.status).toBe(400);
+    });
+
+    it("存在しないリビジョンのデプロイは404を返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations, GeneratedApiRevisionOperations } =
+        await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({ success: true, data: ownApi });
+      vi.mocked(
+        new GeneratedApiRevisionOperations({} as Database).findByRevision,
+      ).mockResolvedValue({ success: true, data: null });
+
+      // Act
+      const res = await app.request(
+        "/internal/generator/api-123/revisions/9/deploy",
+        { method: "POST" },
+      );
+
+      // Assert
+      expect(res.status).toBe(404);
+    });
+
+    it("コホートにヘッダーもCookieも無いカナリアリリースは400を返す", async () => {
+      // Act
+      const res = await app.request(
+        "/internal/generator/api-123/revisions/2/canary",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ percentage: 10, cohort: { value: "beta" } }),
+        },
+      );
+
+      // Assert
+      expect(res.status).toBe(400);
+    });
+
+    it("保存されたテストケースとテスト実行結果を返す", async () => {
+      // Arrange
+      const testCases = [
+        {
+          name: "天気を返す",
+          request: { method: "GET", path: "/api/weather" },
+          expect: { status: 200 },
+        },
+      ];
+      const { GeneratedApiOperations, GeneratedApiTestRunOperations } =
+        await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({
+        success: true,
+        data: { ...ownApi, testCode: JSON.stringify(testCases) },
+      });
+      vi.mocked(
+        new GeneratedApiTestRunOperations({} as Database).listByApi,
+      ).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            id: "run-1",
+            apiId: "api-123",
+            revision: 2,
+            passed: false,
+            total: 1,
+            failed: 1,
+            results: [],
+            overridden: true,
+            triggeredBy: "123e4567-e89b-12d3-a456-426614174000",
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/api-123/test-runs");
+
+      // Assert
+      expect(res.status).toBe(200);
+      const data = (await res.json()) as {
+        data: { testCases: unknown[]; runs: Record<string, unknown>[] };
+      };
+      expect(data.data.testCases).toEqual(testCases);
+      expect(data.data.runs[0]).toMatchObject({
+        passed: false,
+        overridden: true,
+      });
+    });
+  });
+
+  describe("/internal/generator/:id/evaluations", () => {
+    const evaluatedApi = {
+      id: "api-123",
+      name: "Weather API",
+      description: "Weather information API",
+      endpoint: "/api/weather",
+      method: "GET",
+      price: "0.01",
+      currency: "USDC",
+      generatedCode: "mock code",
+      testCode: null,
+      currentRevision: 2,
+      qualityScore: null,
+      documentation: "Weather API docs",
+      status: "active",
+      userId: "123e4567-e89b-12d3-a456-426614174000",
+      organizationId: null,
+      metadata: { llmProvider: "gemini-pro", category: "data" },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    beforeEach(async () => {
+      const { GeneratedApiOperations } = await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({ success: true, data: evaluatedApi });
+    });
+
+    it("評価が範囲外の場合はバリデーションエラーを返す", async () => {
+      // Act
+      const res = await app.request("/internal/generator/api-123/evaluations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rating: 6, isWorking: true }),
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+    });
+
+    it("評価を保存し、更新後の品質スコアを返す", async () => {
+      // Arrange
+      const { GeneratedApiEvaluationOperations } = await import("@repo/db");
+      const evaluationOperations = new GeneratedApiEvaluationOperations(
+        {} as Database,
+      );
+      vi.mocked(evaluationOperations.upsert).mockImplementation(
+        async (data) => ({
+          success: true,
+          data: {
+            id: "evaluation-1",
+            feedback: null,
+            improvementSuggestions: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            ...data,
+          } as GeneratedApiEvaluationDB,
+        }),
+      );
+      vi.mocked(evaluationOperations.summarizeByApi).mockResolvedValue({
+        success: true,
+        data: { evaluationCount: 1, averageRating: 4, workingRate: 1 },
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/api-123/evaluations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rating: 4,
+          isWorking: true,
+          feedback: "期待通りに動作しました",
+        }),
+      });
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(evaluationOperations.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          apiId: "api-123",
+          userId: "123e4567-e89b-12d3-a456-426614174000",
+          revision: 2,
+          rating: 4,
+        }),
+      );
+      const data = (await res.json()) as { data: { qualityScore: number } };
+      expect(data.data.qualityScore).toBe(83);
+    });
+  });
+
   describe("GET /internal/generator/list", () => {
     it("認証ユーザーのAPI一覧を取得できる", async () => {
       // Arrange
@@ -156,6 +789,8 @@ describe("API生成エンドポイント（修正版）", () => {
           currency: "USDC" as const,
           generatedCode: "mock code",
           testCode: null,
+          currentRevision: 1,
+          qualityScore: null,
           documentation: "Weather API docs",
           status: "active" as const,
           userId: "123e4567-e89b-12d3-a456-426614174000",
@@ -186,6 +821,357 @@ describe("API生成エンドポイント（修正版）", () => {
     });
   });
 
+  describe("POST /internal/generator/from-template/:templateId", () => {
+    const organizationId = "987e6543-e21b-34d5-a678-426614174999";
+    const template = {
+      id: "template-1",
+      organizationId,
+      name: "Per-call translation",
+      description: null,
+      template: "Translate the request text into {{language}} per call",
+      variables: [
+        {
+          name: "language",
+          type: "enum" as const,
+          required: true,
+          options: ["Japanese", "English"],
+        },
+      ],
+      category: "ai",
+      complexityLevel: "simple",
+      expectedPrice: "0.002",
+      externalApis: null,
+      usageCount: 4,
+      lastUsedAt: null,
+      createdBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const postFromTemplate = (body: unknown) =>
+      app.request("/internal/generator/from-template/template-1", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(async () => {
+      const {
+        GeneratedApiOperations,
+        OrganizationMemberOperations,
+        PromptTemplateOperations,
+      } = await import("@repo/db");
+      vi.mocked(
+        new PromptTemplateOperations({} as Database).findById,
+      ).mockResolvedValue({ success: true, data: template });
+      vi.mocked(
+        new PromptTemplateOperations({} as Database).incrementUsage,
+      ).mockClear();
+      vi.mocked(
+        new OrganizationMemberOperations({} as Database).findMembership,
+      ).mockResolvedValueOnce({
+        success: true,
+        data: { role: "member" } as never,
+      });
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).create,
+      ).mockResolvedValue({
+        success: true,
+        data: { id: "api-1", userId: "123e4567-e89b-12d3-a456-426614174000" },
+      } as never);
+    });
+
+    it("変数を埋めた本文からAPIを生成し、テンプレートの利用回数を加算する", async () => {
+      // Act
+      const res = await postFromTemplate({
+        variables: { language: "Japanese" },
+        autoDeploy: false,
+        includeTests: false,
+      });
+
+      // Assert
+      expect(res.status).toBe(201);
+      const data = (await res.json()) as { data: { templateId: string } };
+      expect(data.data.templateId).toBe("template-1");
+
+      const { GeneratedApiRevisionOperations, PromptTemplateOperations } =
+        await import("@repo/db");
+      expect(
+        new GeneratedApiRevisionOperations({} as Database).create,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: "Translate the request text into Japanese per call",
+        }),
+      );
+      expect(
+        new PromptTemplateOperations({} as Database).incrementUsage,
+      ).toHaveBeenCalledWith("template-1");
+    });
+
+    it("テンプレートの変数定義に合わない値は400を返し、利用回数を数えない", async () => {
+      // Act
+      const res = await postFromTemplate({
+        variables: { language: "Klingon" },
+      });
+
+      // Assert
+      expect(res.status).toBe(400);
+      const data = (await res.json()) as { error: string };
+      expect(data.error).toBe("Invalid template variables");
+      const { PromptTemplateOperations } = await import("@repo/db");
+      expect(
+        new PromptTemplateOperations({} as Database).incrementUsage,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("テンプレートの組織のメンバーでなければ403を返す", async () => {
+      // Arrange
+      const { OrganizationMemberOperations } = await import("@repo/db");
+      vi.mocked(
+        new OrganizationMemberOperations({} as Database).findMembership,
+      ).mockReset();
+      vi.mocked(
+        new OrganizationMemberOperations({} as Database).findMembership,
+      ).mockResolvedValue({ success: true, data: null });
+
+      // Act
+      const res = await postFromTemplate({
+        variables: { language: "English" },
+      });
+
+      // Assert
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("GET /internal/generator/search", () => {
+    it("クエリ文字列を変換して検索し、抜粋の一致箇所を<mark>で返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.search).mockResolvedValue({
+        success: true,
+        data: {
+          items: [
+            {
+              id: "api-1",
+              name: "Weather API",
+              description: "Weather information API",
+              endpoint: "/api/weather",
+              method: "GET",
+              price: "0.01",
+              currency: "USDC",
+              status: "active",
+              qualityScore: 80,
+              currentRevision: 1,
+              userId: "123e4567-e89b-12d3-a456-426614174000",
+              organizationId: null,
+              metadata: null,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              rank: 0.5,
+              snippets: {
+                description: "\u0002Weather\u0003 information API",
+                documentation: "<h1>\u0002Weather\u0003</h1>",
+                code: "",
+              },
+            },
+          ],
+          total: 1,
+          facets: {
+            category: [{ value: "data", count: 1 }],
+            status: [{ value: "active", count: 1 }],
+          },
+        },
+      });
+
+      // Act
+      const res = await app.request(
+        "/internal/generator/search?query=weather&minQualityScore=50&limit=5&apiStatus=active",
+      );
+
+      // Assert
+      expect(res.status).toBe(200);
+      const data = (await res.json()) as {
+        data: {
+          total: number;
+          items: { snippets: { description: string; documentation: string } }[];
+        };
+      };
+      expect(data.data.total).toBe(1);
+      expect(data.data.items[0].snippets).toMatchObject({
+        description: "<mark>Weather</mark> information API",
+        documentation: "&lt;h1&gt;<mark>Weather</mark>&lt;/h1&gt;",
+      });
+      // 組織のメンバーでなければ自分のAPIのみが対象
+      expect(mockInstance.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: "weather",
+          minQualityScore: 50,
+          limit: 5,
+          offset: 0,
+          status: "active",
+          visibleTo: {
+            userId: "123e4567-e89b-12d3-a456-426614174000",
+            organizationId: null,
+          },
+        }),
+      );
+    });
+
+    it("不正なクエリパラメータは400を返す", async () => {
+      // Act
+      const res = await app.request(
+        "/internal/generator/search?limit=500&dateFrom=2026-02-01&dateTo=2026-01-01",
+      );
+
+      // Assert
+      expect(res.status).toBe(400);
+      const data = (await res.json()) as { details: { path: string[] }[] };
+      expect(data.details.map((issue) => issue.path[0])).toEqual(
+        expect.arrayContaining(["limit"]),
+      );
+    });
+  });
+
+  describe("GET /internal/generator/:id/openapi.json", () => {
+    it("APIのOpenAPI 3.1ドキュメントをリクエストのオリジンをサーバーとして返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({
+        success: true,
+        data: {
+          id: "api-1",
+          name: "Weather API",
+          description: "Weather information API",
+          endpoint: "/api/weather",
+          method: "GET",
+          price: "0.01",
+          currency: "USDC",
+          generatedCode: 'app.get("/", (c) => c.json({}))',
+          testCode: null,
+          currentRevision: 1,
+          qualityScore: null,
+          documentation: "# Weather API",
+          status: "active",
+          userId: "123e4567-e89b-12d3-a456-426614174000",
+          organizationId: null,
+          metadata: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+
+      // Act
+      const res = await app.request(
+        "http://localhost/internal/generator/api-1/openapi.json",
+      );
+
+      // Assert
+      expect(res.status).toBe(200);
+      const document = (await res.json()) as {
+        openapi: string;
+        servers: { url: string }[];
+        paths: Record<string, Record<string, Record<string, unknown>>>;
+      };
+      expect(document.openapi).toBe("3.1.0");
+      expect(document.servers).toEqual([{ url: "http://localhost" }]);
+      expect(document.paths["/api/weather"].get["x-x402-price"]).toBe("0.01");
+    });
+  });
+
+  describe("GET /internal/generator/:id/endpoints", () => {
+    it("複数ルートのAPIの各ルートを公開パスと価格付きで返す", async () => {
+      // Arrange
+      const { GeneratedApiOperations, GeneratedApiEndpointOperations } =
+        await import("@repo/db");
+      vi.mocked(
+        new GeneratedApiOperations({} as Database).findById,
+      ).mockResolvedValue({
+        success: true,
+        data: {
+          id: "api-1",
+          name: "Todo API",
+          description: "Manages todos",
+          endpoint: "/api/todos",
+          method: "GET",
+          price: "0.01",
+          currency: "USDC",
+          generatedCode: 'app.get("/", (c) => c.json([]))',
+          testCode: null,
+          currentRevision: 1,
+          qualityScore: null,
+          documentation: "# Todo API",
+          status: "active",
+          userId: "123e4567-e89b-12d3-a456-426614174000",
+          organizationId: null,
+          metadata: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      const listByApi = vi.mocked(
+        new GeneratedApiEndpointOperations({} as Database).listByApi,
+      );
+      listByApi.mockResolvedValueOnce({
+        success: true,
+        data: [
+          {
+            id: "endpoint-1",
+            apiId: "api-1",
+            method: "GET",
+            path: "/",
+            price: "0.010000",
+            description: "List todos",
+            position: 0,
+            createdAt: new Date(),
+          },
+          {
+            id: "endpoint-2",
+            apiId: "api-1",
+            method: "POST",
+            path: "/",
+            price: "0.050000",
+            description: "Create a todo",
+            position: 1,
+            createdAt: new Date(),
+          },
+          {
+            id: "endpoint-3",
+            apiId: "api-1",
+            method: "GET",
+            path: "/:id",
+            price: "0.020000",
+            description: null,
+            position: 2,
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      // Act
+      const res = await app.request(
+        "http://localhost/internal/generator/api-1/endpoints",
+      );
+
+      // Assert
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as {
+        data: { method: string; path: string; price: string }[];
+      };
+      expect(listByApi).toHaveBeenCalledWith("api-1");
+      expect(
+        body.data.map(({ method, path, price }) => ({ method, path, price })),
+      ).toEqual([
+        { method: "GET", path: "/api/todos", price: "0.010000" },
+        { method: "POST", path: "/api/todos", price: "0.050000" },
+        { method: "GET", path: "/api/todos/:id", price: "0.020000" },
+      ]);
+    });
+  });
+
   describe("GET /internal/generator/:id", () => {
     it("有効なIDでAPI詳細を取得できる", async () => {
       // Arrange
@@ -204,6 +1190,8 @@ describe("API生成エンドポイント（修正版）", () => {
         generatedCode:
           'export default function handler() { return { weather: "sunny" } }',
         testCode: null,
+        currentRevision: 1,
+        qualityScore: null,
         documentation: "# Weather API\nReturns weather",
         status: "active" as const,
         userId: "123e4567-e89b-12d3-a456-426614174000",
@@ -253,7 +1241,154 @@ describe("API生成エンドポイント（修正版）", () => {
     });
   });
 
+  describe("POST /internal/generator/deploy/:id/rollback", () => {
+    const ownApi = {
+      id: "api-123",
+      name: "Weather API",
+      description: "Weather information API",
+      endpoint: "/api/weather",
+      method: "GET" as const,
+      price: "0.02",
+      currency: "USDC" as const,
+      generatedCode: "current code",
+      testCode: null,
+      currentRevision: 2,
+      qualityScore: null,
+      documentation: "Weather API docs",
+      status: "active" as const,
+      userId: "123e4567-e89b-12d3-a456-426614174000",
+      organizationId: null,
+      metadata: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const rolledBack = {
+      deploymentId: "deploy_123e4567-e89b-12d3-a456-426614174000_api-123_1",
+      status: "rolled_back" as const,
+      endpoint: "/api/weather",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    let rollbackDeployment: MockInstance<
+      DynamicDeploymentService["rollbackDeployment"]
+    >;
+
+    // バージョン1へのロールバックをリクエストする
+    const rollback = () =>
+      app.request("/internal/generator/deploy/api-123/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: 1 }),
+      });
+
+    beforeEach(async () => {
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.findById).mockResolvedValue({
+        success: true,
+        data: ownApi,
+      });
+      vi.mocked(mockInstance.update).mockClear();
+      rollbackDeployment = vi.spyOn(
+        DynamicDeploymentService.prototype,
+        "rollbackDeployment",
+      );
+    });
+
+    afterEach(() => {
+      rollbackDeployment.mockRestore();
+    });
+
+    it("ロールバックしたバージョンのリビジョンをAPIの現在のコードにする", async () => {
+      // Arrange
+      const { GeneratedApiOperations, GeneratedApiRevisionOperations } =
+        await import("@repo/db");
+      rollbackDeployment.mockResolvedValue({
+        success: true,
+        data: { ...rolledBack, revision: 1 },
+      });
+      vi.mocked(
+        new GeneratedApiRevisionOperations({} as Database).findByRevision,
+      ).mockResolvedValue({
+        success: true,
+        data: {
+          id: "revision-1",
+          apiId: "api-123",
+          revision: 1,
+          baseRevision: null,
+          source: "generated",
+          name: "Weather API",
+          description: "Weather information API",
+          endpoint: "/api/weather",
+          method: "GET",
+          price: "0.01",
+          generatedCode: "original code",
+          documentation: "Weather API docs",
+          prompt: "天気情報を取得するAPIを作成してください",
+          summary: null,
+          diff: null,
+          metadata: null,
+          authorId: null,
+          createdAt: new Date(),
+        },
+      });
+
+      // Act
+      const res = await rollback();
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(rollbackDeployment).toHaveBeenCalledWith(
+        ownApi.userId,
+        "api-123",
+        1,
+      );
+      expect(
+        new GeneratedApiRevisionOperations({} as Database).findByRevision,
+      ).toHaveBeenCalledWith("api-123", 1);
+      expect(
+        new GeneratedApiOperations({} as Database).update,
+      ).toHaveBeenCalledWith(
+        "api-123",
+        expect.objectContaining({
+          generatedCode: "original code",
+          price: "0.01",
+          currentRevision: 1,
+          status: "active",
+        }),
+      );
+    });
+
+    it("リビジョンを記録する前のバージョンはAPIを公開中にするだけ", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      rollbackDeployment.mockResolvedValue({ success: true, data: rolledBack });
+
+      // Act
+      const res = await rollback();
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(
+        new GeneratedApiOperations({} as Database).update,
+      ).toHaveBeenCalledWith("api-123", { status: "active" });
+    });
+  });
+
   describe("DELETE /internal/generator/:id", () => {
+    let removeApi: MockInstance<DynamicDeploymentService["removeApi"]>;
+
+    beforeEach(() => {
+      removeApi = vi
+        .spyOn(DynamicDeploymentService.prototype, "removeApi")
+        .mockResolvedValue({ success: true });
+    });
+
+    afterEach(() => {
+      removeApi.mockRestore();
+    });
+
     it("有効なIDでAPI削除に成功する", async () => {
       // Arrange
       const { GeneratedApiOperations } = await import("@repo/db");
@@ -270,6 +1405,8 @@ describe("API生成エンドポイント（修正版）", () => {
         currency: "USDC" as const,
         generatedCode: "mock code",
         testCode: null,
+        currentRevision: 1,
+        qualityScore: null,
         documentation: "Weather API docs",
         status: "active" as const,
         userId: "123e4567-e89b-12d3-a456-426614174000",
@@ -299,6 +1436,188 @@ describe("API生成エンドポイント（修正版）", () => {
       const data = (await res.json()) as { success: boolean; message: string };
       expect(data.success).toBe(true);
       expect(data.message).toBe("API deleted successfully");
+      expect(removeApi).toHaveBeenCalledWith(mockApi.userId, apiId);
+    });
+
+    it("公開中のルートを削除できなければAPIを削除しない", async () => {
+      // Arrange
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.findById).mockResolvedValue({
+        success: true,
+        data: {
+          id: "api-123",
+          name: "Weather API",
+          description: "Weather information API",
+          endpoint: "/api/weather",
+          method: "GET",
+          price: "0.01",
+          currency: "USDC",
+          generatedCode: "mock code",
+          testCode: null,
+          currentRevision: 1,
+          qualityScore: null,
+          documentation: "Weather API docs",
+          status: "active",
+          userId: "123e4567-e89b-12d3-a456-426614174000",
+          organizationId: null,
+          metadata: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      vi.mocked(mockInstance.delete).mockClear();
+      removeApi.mockResolvedValue({
+        success: false,
+        error: "Delete route failed: KV unavailable",
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/api-123", {
+        method: "DELETE",
+      });
+
+      // Assert
+      expect(res.status).toBe(500);
+      expect(mockInstance.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("組織スコープのアクセス制御", () => {
+    const organizationId = "987e6543-e21b-34d5-a678-426614174999";
+    const teammateApi = {
+      id: "api-456",
+      name: "Teammate API",
+      description: "API created by a teammate",
+      endpoint: "/api/teammate",
+      method: "GET" as const,
+      price: "0.01",
+      currency: "USDC" as const,
+      generatedCode: "mock code",
+      testCode: null,
+      currentRevision: 1,
+      qualityScore: null,
+      documentation: "Teammate API docs",
+      status: "active" as const,
+      userId: "223e4567-e89b-12d3-a456-426614174000",
+      organizationId,
+      metadata: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // リクエストユーザーの組織ロールを設定
+    const setOrganizationRole = async (role: string | null) => {
+      const { OrganizationMemberOperations } = await import("@repo/db");
+      const memberOperations = new OrganizationMemberOperations({} as Database);
+      vi.mocked(memberOperations.findMembership).mockResolvedValue({
+        success: true,
+        data: role
+          ? {
+              id: "membership-1",
+              organizationId,
+              userId: "123e4567-e89b-12d3-a456-426614174000",
+              role,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            }
+          : null,
+      });
+    };
+
+    beforeEach(async () => {
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.findById).mockResolvedValue({
+        success: true,
+        data: teammateApi,
+      });
+    });
+
+    it("同じ組織のviewerは他メンバーのAPI詳細を取得できる", async () => {
+      // Arrange
+      await setOrganizationRole("viewer");
+
+      // Act
+      const res = await app.request(`/internal/generator/${teammateApi.id}`);
+
+      // Assert
+      expect(res.status).toBe(200);
+    });
+
+    it("組織に所属していないユーザーは他人のAPIを取得できない", async () => {
+      // Arrange
+      await setOrganizationRole(null);
+
+      // Act
+      const res = await app.request(`/internal/generator/${teammateApi.id}`);
+
+      // Assert
+      expect(res.status).toBe(403);
+    });
+
+    it("viewerは他メンバーのAPIをロールバックできない", async () => {
+      // Arrange
+      await setOrganizationRole("viewer");
+
+      // Act
+      const res = await app.request(
+        `/internal/generator/deploy/${teammateApi.id}/rollback`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ version: 1 }),
+        },
+      );
+
+      // Assert
+      expect(res.status).toBe(403);
+    });
+
+    it("memberは他メンバーのAPIを削除できない（admin以上が必要）", async () => {
+      // Arrange
+      await setOrganizationRole("member");
+
+      // Act
+      const res = await app.request(`/internal/generator/${teammateApi.id}`, {
+        method: "DELETE",
+      });
+
+      // Assert
+      expect(res.status).toBe(403);
+    });
+
+    it("?scope=org で所属組織のAPI一覧を取得できる", async () => {
+      // Arrange
+      await setOrganizationRole("member");
+      const { GeneratedApiOperations } = await import("@repo/db");
+      const mockInstance = new GeneratedApiOperations({} as Database);
+      vi.mocked(mockInstance.findByOrganization).mockResolvedValue({
+        success: true,
+        data: [teammateApi],
+      });
+
+      // Act
+      const res = await app.request("/internal/generator/list?scope=org");
+
+      // Assert
+      expect(res.status).toBe(200);
+      expect(mockInstance.findByOrganization).toHaveBeenCalledWith(
+        organizationId,
+      );
+      const data = (await res.json()) as { data: { id: string }[] };
+      expect(data.data[0]?.id).toBe(teammateApi.id);
+    });
+
+    it("所属していない組織の一覧は取得できない", async () => {
+      // Arrange
+      await setOrganizationRole(null);
+
+      // Act
+      const res = await app.request("/internal/generator/list?scope=org");
+
+      // Assert
+      expect(res.status).toBe(403);
     });
   });
 });
@@ -0,0 +1,479 @@
+import type { NaturalLanguageInput } from "@repo/shared/api";
+import { describe, expect, it, vi } from "vitest";
+import { LLMService } from "../services/llm-service";
+import { AnthropicClient } from "../utils/anthropic-client";
+import { GeminiClient } from "../utils/gemini-client";
+import {
+  type LLMPrompt,
+  LLMProviderError,
+  readServerSentEvents,
+} from "../utils/llm-provider";
+import { OpenAICompatibleClient } from "../utils/openai-client";
+import { RecordedLLMClient } from "../utils/recorded-llm-client";
+
+const prompt: LLMPrompt = {
+  system: "You are a helpful assistant.",
+  user: "Say hello",
+  responseFormat: "json",
+  temperature: 0.2,
+};
+
+// 送信されたリクエストを記録し、固定のレスポンスを返すfetch
+const createFetch = (body: unknown, status = 200) =>
+  vi.fn(
+    async (_url: string | URL | Request, _init?: RequestInit) =>
+      new Response(JSON.stringify(body), { status }),
+  );
+
+// 文字列の断片を順に流すレスポンスボディ（チャンク境界をまたぐ分割の確認用）
+const streamOf = (chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder();
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+// SSEのイベント列を返すfetch
+const createStreamFetch = (events: string[]) =>
+  vi.fn(
+    async (_url: string | URL | Request, _init?: RequestInit) =>
+      new Response(streamOf(events.map((data) => `data: ${data}\n\n`)), {
+        headers: { "Content-Type": "text/event-stream" },
+      }),
+  );
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+const sentRequest = (
+  fetchMock: ReturnType<typeof createFetch | typeof createStreamFetch>,
+) => {
+  const [url, init] = fetchMock.mock.calls[0];
+  return {
+    url: String(url),
+    headers: init?.headers as Record<string, string>,
+    body: JSON.parse(String(init?.body)),
+  };
+};
+
+const weatherSpec = {
+  name: "Weather API",
+  description: "Returns the current weather",
+  endpoint: "/api/weather",
+  method: "get",
+  price: "0.02",
+  generatedCode:
+    "import { Hono } from 'hono'\nconst app = new Hono()\nexport default app",
+  documentation: "# Weather API\n\n```json\n{}\n```",
+};
+
+const weatherInput: NaturalLanguageInput = {
+  description: "天気情報を取得するAPIを作成してください",
+  category: "data",
+  complexityLevel: "simple",
+  autoDeploy: false,
+};
+
+describe("LLMプロバイダーアダプター", () => {
+  it("Geminiはシステム指示とJSON出力指定を付けてgenerateContentを呼ぶ", async () => {
+    // Arrange
+    const fetchMock = createFetch({
+      candidates: [
+        { content: { parts: [{ text: '{"ok":' }, { text: "1}" }] } },
+      ],
+    });
+    const client = new GeminiClient({ apiKey: "gemini-key", fetch: fetchMock });
+
+    // Act
+    const completion = await client.complete(prompt);
+
+    // Assert
+    const request = sentRequest(fetchMock);
+    expect(request.url).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent",
+    );
+    expect(request.headers["x-goog-api-key"]).toBe("gemini-key");
+    expect(request.body.systemInstruction.parts[0].text).toBe(prompt.system);
+    expect(request.body.generationConfig.responseMimeType).toBe(
+      "application/json",
+    );
+    expect(completion).toEqual({
+      text: '{"ok":1}',
+      provider: "gemini-pro",
+      model: "gemini-1.5-pro",
+    });
+  });
+
+  it("OpenAI互換はbaseUrlとモデルを差し替えてchat/completionsを呼ぶ", async () => {
+    // Arrange
+    const fetchMock = createFetch({
+      choices: [{ message: { content: "hello" } }],
+    });
+    const client = new OpenAICompatibleClient("gpt-4", {
+      apiKey: "openai-key",
+      baseUrl: "http://localhost:8080/v1/",
+      model: "local-model",
+      fetch: fetchMock,
+    });
+
+    // Act
+    const completion = await client.complete(prompt);
+
+    // Assert
+    const request = sentRequest(fetchMock);
+    expect(request.url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(request.headers.Authorization).toBe("Bearer openai-key");
+    expect(request.body.model).toBe("local-model");
+    expect(request.body.messages).toEqual([
+      { role: "system", content: prompt.system },
+      { role: "user", content: prompt.user },
+    ]);
+    expect(request.body.response_format).toEqual({ type: "json_object" });
+    expect(completion.provider).toBe("gpt-4");
+    expect(completion.text).toBe("hello");
+  });
+
+  it("Anthropicはバージョンヘッダーとmax_tokensを付けてmessagesを呼ぶ", async () => {
+    // Arrange
+    const fetchMock = createFetch({
+      content: [
+        { type: "text", text: "hello" },
+        { type: "tool_use", id: "ignored" },
+      ],
+    });
+    const client = new AnthropicClient({
+      apiKey: "anthropic-key",
+      fetch: fetchMock,
+    });
+
+    // Act
+    const completion = await client.complete(prompt);
+
+    // Assert
+    const request = sentRequest(fetchMock);
+    expect(request.url).toBe("https://api.anthropic.com/v1/messages");
+    expect(request.headers["x-api-key"]).toBe("anthropic-key");
+    expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request.body.system).toBe(prompt.system);
+    expect(request.body.max_tokens).toBe(4096);
+    expect(completion.text).toBe("hello");
+  });
+
+  it("APIキー未設定ではリクエストを送らずnot_configuredになる", async () => {
+    // Arrange
+    const fetchMock = createFetch({});
+    const client = new AnthropicClient({ fetch: fetchMock });
+
+    // Act & Assert
+    await expect(client.complete(prompt)).rejects.toMatchObject({
+      name: "LLMProviderError",
+      code: "not_configured",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("エラーステータスや空のレスポンスはLLMProviderErrorになる", async () => {
+    // Arrange
+    const failing = new GeminiClient({
+      apiKey: "key",
+      fetch: createFetch({ error: "quota" }, 429),
+    });
+    const empty = new GeminiClient({
+      apiKey: "key",
+      fetch: createFetch({ candidates: [] }),
+    });
+
+    // Act & Assert
+    await expect(failing.complete(prompt)).rejects.toMatchObject({
+      code: "request_failed",
+    });
+    await expect(empty.complete(prompt)).rejects.toMatchObject({
+      code: "invalid_response",
+    });
+  });
+
+  it("記録済みクライアントは同じプロンプトに同じレスポンスを返す", async () => {
+    // Arrange
+    const client = new RecordedLLMClient();
+    await client.record(prompt, "recorded answer");
+
+    // Act
+    const first = await client.complete(prompt);
+    const second = await client.complete({ ...prompt, temperature: 1 });
+
+    // Assert
+    expect(first.text).toBe("recorded answer");
+    expect(second.text).toBe("recorded answer");
+    await expect(
+      client.complete({ ...prompt, user: "Something else" }),
+    ).rejects.toBeInstanceOf(LLMProviderError);
+  });
+
+  it("記録はフィンガープリントをキーとしたJSONから読み込める", async () => {
+    // Arrange
+    const fingerprint = await RecordedLLMClient.fingerprint(prompt);
+    const client = RecordedLLMClient.fromJSON(
+      JSON.stringify({ [fingerprint]: "from json", invalid: 1 }),
+    );
+
+    // Act
+    const completion = await client.complete(prompt);
+
+    // Assert
+    expect(fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(completion.text).toBe("from json");
+    expect(RecordedLLMClient.fromJSON("not json")).toBeInstanceOf(
+      RecordedLLMClient,
+    );
+  });
+});
+
+describe("ストリーミング", () => {
+  it("SSEのdataはチャンク境界をまたいでもイベント単位で取り出せる", async () => {
+    // Arrange
+    const body = streamOf([
+      "data: fir",
+      "st\r\n\n: keep-alive\n\ndata: line1\n",
+      "data: line2\n\ndata: last",
+    ]);
+
+    // Act
+    const events = await collect(readServerSentEvents(body));
+
+    // Assert
+    expect(events).toEqual(["first", "line1\nline2", "last"]);
+  });
+
+  it("GeminiはstreamGenerateContentをSSEで呼び、各チャンクのテキストを返す", async () => {
+    // Arrange
+    const fetchMock = createStreamFetch([
+      JSON.stringify({
+        candidates: [{ content: { parts: [{ text: "he" }] } }],
+      }),
+      JSON.stringify({
+        candidates: [{ content: { parts: [{ text: "llo" }] } }],
+      }),
+    ]);
+    const client = new GeminiClient({ apiKey: "key", fetch: fetchMock });
+
+    // Act
+    const chunks = await collect(client.stream(prompt));
+
+    // Assert
+    expect(sentRequest(fetchMock).url).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse",
+    );
+    expect(chunks).toEqual(["he", "llo"]);
+  });
+
+  it("OpenAI互換はstreamを指定し、deltaを[DONE]まで返す", async () => {
+    // Arrange
+    const fetchMock = createStreamFetch([
+      JSON.stringify({ choices: [{ delta: { role: "assistant" } }] }),
+      JSON.stringify({ choices: [{ delta: { content: "hel" } }] }),
+      JSON.stringify({ choices: [{ delta: { content: "lo" } }] }),
+      "[DONE]",
+      JSON.stringify({ choices: [{ delta: { content: "ignored" } }] }),
+    ]);
+    const client = new OpenAICompatibleClient("gpt-4", {
+      apiKey: "key",
+      fetch: fetchMock,
+    });
+
+    // Act
+    const chunks = await collect(client.stream(prompt));
+
+    // Assert
+    expect(sentRequest(fetchMock).body.stream).toBe(true);
+    expect(chunks).toEqual(["hel", "lo"]);
+  });
+
+  it("Anthropicはcontent_block_deltaのテキストのみ返す", async () => {
+    // Arrange
+    const fetchMock = createStreamFetch([
+      JSON.stringify({ type: "message_start", message: {} }),
+      JSON.stringify({
+        type: "content_block_delta",
+        delta: { type: "text_delta", text: "hello" },
+      }),
+      JSON.stringify({
+        type: "content_block_delta",
+        delta: { type: "input_json_delta", partial_json: "{}" },
+      }),
+      JSON.stringify({ type: "message_stop" }),
+    ]);
+    const client = new AnthropicClient({ apiKey: "key", fetch: fetchMock });
+
+    // Act
+    const chunks = await collect(client.stream(prompt));
+
+    // Assert
+    expect(sentRequest(fetchMock).body.stream).toBe(true);
+    expect(chunks).toEqual(["hello"]);
+  });
+
+  it("ストリーミングでもエラーステータスはLLMProviderErrorになる", async () => {
+    // Arrange
+    const client = new GeminiClient({
+      apiKey: "key",
+      fetch: createFetch({ error: "quota" }, 429),
+    });
+
+    // Act & Assert
+    await expect(collect(client.stream(prompt))).rejects.toMatchObject({
+      code: "request_failed",
+    });
+  });
+
+  it("記録済みクライアントは記録したテキストを断片に分けて返す", async () => {
+    // Arrange
+    const text = "x".repeat(RecordedLLMClient.STREAM_CHUNK_SIZE + 10);
+    const client = new RecordedLLMClient();
+    await client.record(prompt, text);
+
+    // Act
+    const chunks = await collect(client.stream(prompt));
+
+    // Assert
+    expect(chunks).toHaveLength(2);
+    expect(chunks.join("")).toBe(text);
+  });
+});
+
+describe("LLMServiceのプロバイダー選択", () => {
+  // 記録済みクライアントのみを登録し、天気APIの入力に対するレスポンスを記録する
+  const createService = async (text = JSON.stringify(weatherSpec)) => {
+    const recorded = new RecordedLLMClient();
+    const service = new LLMService({ recorded }, "recorded");
+    await recorded.record(service.buildGenerationPrompt(weatherInput), text);
+    return service;
+  };
+
+  it("記録済みレスポンスでオフラインにAPI仕様を生成できる", async () => {
+    // Arrange
+    const service = await createService(
+      `Here is your API:\n\`\`\`json\n${JSON.stringify(weatherSpec)}\n\`\`\``,
+    );
+
+    // Act
+    const result = await service.generateApiFromNaturalLanguage(weatherInput);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      name: "Weather API",
+      method: "GET",
+      price: "0.02",
+      provider: "recorded",
+      model: "recorded",
+    });
+    expect(result.data?.documentation).toContain("```json");
+  });
+
+  it("希望価格はモデルの提示価格より優先される", async () => {
+    // Arrange
+    const input = { ...weatherInput, expectedPrice: "0.05" };
+    const recorded = new RecordedLLMClient();
+    const service = new LLMService({ recorded }, "recorded");
+    await recorded.record(
+      service.buildGenerationPrompt(input),
+      JSON.stringify(weatherSpec),
+    );
+
+    // Act
+    const result = await service.generateApiFromNaturalLanguage(input);
+
+    // Assert
+    expect(result.data?.price).toBe("0.05");
+  });
+
+  it("リクエスト指定 > 組織設定 > サーバー既定 の順にプロバイダーを選ぶ", () => {
+    // Arrange
+    const service = new LLMService({}, "gemini-pro");
+
+    // Act & Assert
+    expect(service.selectProvider("claude-3", "gpt-4")).toBe("claude-3");
+    expect(service.selectProvider(undefined, "gpt-4")).toBe("gpt-4");
+    expect(service.selectProvider(undefined, null)).toBe("gemini-pro");
+  });
+
+  it("組織設定のプロバイダーで生成し、利用したモデルを返す", async () => {
+    // Arrange
+    const anthropic = new AnthropicClient({
+      apiKey: "key",
+      fetch: createFetch({
+        content: [{ type: "text", text: JSON.stringify(weatherSpec) }],
+      }),
+    });
+    const service = new LLMService({ "claude-3": anthropic }, "gemini-pro");
+
+    // Act
+    const result = await service.generateApiFromNaturalLanguage(weatherInput, {
+      organizationProvider: "claude-3",
+    });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data?.provider).toBe("claude-3");
+    expect(result.data?.model).toBe("claude-3-5-sonnet-latest");
+  });
+
+  it("未設定のプロバイダーが選ばれた場合はエラーを返す", async () => {
+    // Arrange
+    const service = new LLMService(
+      { "gpt-4": new OpenAICompatibleClient("gpt-4") },
+      "gemini-pro",
+    );
+
+    // Act
+    const missing = await service.generateApiFromNaturalLanguage(weatherInput);
+    const withoutKey = await service.generateApiFromNaturalLanguage({
+      ...weatherInput,
+      provider: "gpt-4",
+    });
+
+    // Assert
+    expect(missing.error).toBe("LLM provider not configured");
+    expect(withoutKey.error).toBe("LLM provider not configured");
+  });
+
+  it("JSONでない出力は不正な仕様として扱う", async () => {
+    // Arrange
+    const service = await createService("I cannot help with that.");
+
+    // Act
+    const result = await service.generateApiFromNaturalLanguage(weatherInput);
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Invalid API specification generated");
+  });
+
+  it("onTokenを指定するとストリーミングで生成し、断片を順に通知する", async () => {
+    // Arrange
+    const text = JSON.stringify(weatherSpec);
+    const service = await createService(text);
+    const tokens: string[] = [];
+
+    // Act
+    const result = await service.generateApiFromNaturalLanguage(weatherInput, {
+      onToken: (token) => {
+        tokens.push(token);
+      },
+    });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(text);
+  });
+});
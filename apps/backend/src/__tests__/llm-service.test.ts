@@ -5,14 +5,21 @@ import { LLMService } from "../services/llm-service";
 // Gemini APIをモック化
 vi.mock("../utils/gemini-client", () => ({
   GeminiClient: vi.fn().mockImplementation(() => ({
-    generateCode: vi.fn(),
+    complete: vi.fn(),
   })),
 }));
 
+// モデルがJSONで返したテキストとしてラップする
+const completionOf = (spec: unknown) => ({
+  text: JSON.stringify(spec),
+  provider: "gemini-pro",
+  model: "gemini-1.5-pro",
+});
+
 describe("LLMService", () => {
   let llmService: LLMService;
   let mockGeminiClient: {
-    generateCode: ReturnType<typeof vi.fn>;
+    complete: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(async () => {
@@ -20,7 +27,7 @@ describe("LLMService", () => {
 
     const { GeminiClient } = await import("../utils/gemini-client");
     mockGeminiClient = {
-      generateCode: vi.fn(),
+      complete: vi.fn(),
     };
     (GeminiClient as unknown as ReturnType<typeof vi.fn>).mockImplementation(
       () => mockGeminiClient,
@@ -103,7 +110,9 @@ This API provides current weather information for specified locations.
 - Payment via x402 protocol on Base Sepolia`,
       };
 
-      mockGeminiClient.generateCode.mockResolvedValue(mockGeminiResponse);
+      mockGeminiClient.complete.mockResolvedValue(
+        completionOf(mockGeminiResponse),
+      );
 
       // Act
       const result = await llmService.generateApiFromNaturalLanguage(input);
@@ -205,7 +214,9 @@ Analyzes uploaded images using AI and provides descriptions in multiple language
 - Higher cost due to external API usage`,
       };
 
-      mockGeminiClient.generateCode.mockResolvedValue(mockComplexApiResponse);
+      mockGeminiClient.complete.mockResolvedValue(
+        completionOf(mockComplexApiResponse),
+      );
 
       // Act
       const result = await llmService.generateApiFromNaturalLanguage(input);
@@ -221,6 +232,99 @@ Analyzes uploaded images using AI and provides descriptions in multiple language
       expect(result.data?.documentation).toContain("Google Translate");
     });
 
+    it("複数ルートの指定でルートごとの価格を持つAPI仕様を生成する", async () => {
+      // Arrange
+      const input: NaturalLanguageInput = {
+        description: "ToDoを一覧・取得・作成できるAPIを作成してください",
+        category: "utility",
+        complexityLevel: "medium",
+        autoDeploy: true,
+        multiEndpoint: true,
+      };
+      mockGeminiClient.complete.mockResolvedValue(
+        completionOf({
+          name: "Todo API",
+          description: "Manages todos",
+          endpoint: "/api/todos",
+          endpoints: [
+            { method: "get", path: "/", price: 0.01, description: "List" },
+            { method: "POST", path: "/", price: "0.05" },
+            { method: "GET", path: "/:id" },
+          ],
+          generatedCode: "const app = new Hono()\nexport default app",
+          documentation: "# Todo API",
+        }),
+      );
+
+      // Act
+      const result = await llmService.generateApiFromNaturalLanguage(input);
+
+      // Assert
+      expect(mockGeminiClient.complete.mock.calls[0][0].system).toContain(
+        '"endpoints"',
+      );
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        method: "GET",
+        price: "0.01",
+        endpoints: [
+          { method: "GET", path: "/", price: "0.01", description: "List" },
+          { method: "POST", path: "/", price: "0.05" },
+          { method: "GET", path: "/:id", price: "0.05" },
+        ],
+      });
+    });
+
+    it("ルートが重複・不正な複数ルートの仕様はエラーを返す", async () => {
+      // Arrange
+      const input: NaturalLanguageInput = {
+        description: "ToDoを一覧・取得できるAPIを作成してください",
+        category: "utility",
+        complexityLevel: "simple",
+        autoDeploy: true,
+        multiEndpoint: true,
+      };
+      const spec = {
+        name: "Todo API",
+        description: "Manages todos",
+        endpoint: "/api/todos",
+        generatedCode: "export default app",
+        documentation: "# Todo API",
+      };
+      mockGeminiClient.complete
+        .mockResolvedValueOnce(
+          completionOf({
+            ...spec,
+            endpoints: [
+              { method: "GET", path: "/", price: "0.01" },
+              { method: "get", path: "/", price: "0.02" },
+            ],
+          }),
+        )
+        .mockResolvedValueOnce(
+          completionOf({
+            ...spec,
+            endpoints: [{ method: "GET", path: "todos", price: "0.01" }],
+          }),
+        )
+        .mockResolvedValueOnce(completionOf(spec));
+
+      // Act
+      const results = [
+        await llmService.generateApiFromNaturalLanguage(input),
+        await llmService.generateApiFromNaturalLanguage(input),
+        await llmService.generateApiFromNaturalLanguage(input),
+      ];
+
+      // Assert
+      for (const result of results) {
+        expect(result).toEqual({
+          success: false,
+          error: "Invalid API specification generated",
+        });
+      }
+    });
+
     it("Geminiクライアントエラーでエラーを返す", async () => {
       // Arrange
       const input: NaturalLanguageInput = {
@@ -230,7 +334,7 @@ Analyzes uploaded images using AI and provides descriptions in multiple language
         autoDeploy: true,
       };
 
-      mockGeminiClient.generateCode.mockRejectedValue(
+      mockGeminiClient.complete.mockRejectedValue(
         new Error("Gemini API rate limit exceeded"),
       );
 
@@ -252,10 +356,12 @@ Analyzes uploaded images using AI and provides descriptions in multiple language
       };
 
       // 不完全なレスポンス
-      mockGeminiClient.generateCode.mockResolvedValue({
-        name: "Incomplete API",
-        // missing required fields
-      });
+      mockGeminiClient.complete.mockResolvedValue(
+        completionOf({
+          name: "Incomplete API",
+          // missing required fields
+        }),
+      );
 
       // Act
       const result = await llmService.generateApiFromNaturalLanguage(input);
@@ -298,6 +404,51 @@ Analyzes uploaded images using AI and provides descriptions in multiple language
       expect(result.success).toBe(false);
       expect(result.error).toBe("Input validation failed");
     });
+
+    it("サンドボックスで使える機能をシステムプロンプトで伝える", () => {
+      // Act
+      const { system } = llmService.buildGenerationPrompt({
+        description: "天気情報を取得するAPIを作成してください",
+        category: "data",
+        complexityLevel: "simple",
+        autoDeploy: true,
+      });
+
+      // Assert
+      expect(system).toContain('"hono/http-exception"');
+      expect(system).toContain("x402(price)");
+      expect(system).toContain("never write a wallet address");
+      expect(system).toContain("app.all, app.on, app.route");
+      expect(system).toContain("no fetch");
+      expect(system).toContain("no setTimeout");
+      expect(system).not.toContain("Cloudflare Workers:");
+    });
+
+    it("外部サービスが必要でサンドボックスで実現できない依頼は理由を返す", async () => {
+      // Arrange
+      const input: NaturalLanguageInput = {
+        description:
+          "https://api.example.com/prices をキャッシュして返す有料プロキシを作成してください",
+        category: "integration",
+        complexityLevel: "simple",
+        autoDeploy: true,
+      };
+      mockGeminiClient.complete.mockResolvedValue(
+        completionOf({
+          error: "Proxying an external API requires network access",
+        }),
+      );
+
+      // Act
+      const result = await llmService.generateApiFromNaturalLanguage(input);
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error:
+          "API cannot run in the sandbox: Proxying an external API requires network access",
+      });
+    });
   });
 
   describe("validateApiSafety", () => {
@@ -0,0 +1,286 @@
+import type { Database, LoginHistoryDB } from "@repo/db";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthService } from "../services/auth-service";
+import { LoginSecurityService } from "../services/login-security-service";
+import { InMemoryMailTransport } from "../services/mail-service";
+import { PasswordUtils } from "../utils/password";
+
+// Mock database operations
+vi.mock("@repo/db", () => ({
+  UserOperations: vi.fn(),
+  OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  PasswordResetTokenOperations: vi.fn(),
+  TwoFactorCredentialOperations: vi.fn(),
+  TwoFactorRecoveryCodeOperations: vi.fn(),
+  WalletLinkOperations: vi.fn(),
+  LoginHistoryOperations: vi.fn(),
+}));
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+}
+
+// usersテーブル（ロックアウト関連カラム）のインメモリ実装
+class InMemoryUserStore {
+  constructor(public user: UserRow) {}
+
+  findByEmail = vi.fn(async (email: string) => ({
+    success: true,
+    data: email === this.user.email ? { ...this.user } : null,
+  }));
+
+  findById = vi.fn(async (id: string) => ({
+    success: true,
+    data: id === this.user.id ? { ...this.user } : null,
+  }));
+
+  incrementFailedLoginAttempts = vi.fn(async () => {
+    this.user.failedLoginAttempts += 1;
+    return { success: true, data: this.user.failedLoginAttempts };
+  });
+
+  lockUntil = vi.fn(async (_id: string, until: Date) => {
+    this.user.lockedUntil = until;
+    return { success: true, data: { ...this.user } };
+  });
+
+  resetFailedLoginAttempts = vi.fn(async () => {
+    this.user.failedLoginAttempts = 0;
+    this.user.lockedUntil = null;
+    return { success: true, data: { ...this.user } };
+  });
+}
+
+// ログイン履歴テーブルのインメモリ実装
+class InMemoryLoginHistoryStore {
+  rows: LoginHistoryDB[] = [];
+
+  create = vi.fn(
+    async (data: Omit<LoginHistoryDB, "id" | "createdAt" | "newIp">) => {
+      const row = {
+        newIp: false,
+        ...data,
+        id: `history-${this.rows.length + 1}`,
+        createdAt: new Date(),
+      } as LoginHistoryDB;
+      this.rows.push(row);
+      return { success: true, data: row };
+    },
+  );
+
+  listByUser = vi.fn(async (userId: string, limit = 20) => ({
+    success: true,
+    data: this.rows
+      .filter((row) => row.userId === userId)
+      .reverse()
+      .slice(0, limit),
+  }));
+
+  hasSuccessfulLogin = vi.fn(async (userId: string) => ({
+    success: true,
+    data: this.rows.some((row) => row.userId === userId && row.success),
+  }));
+
+  hasSuccessfulLoginFromIp = vi.fn(async (userId: string, ip: string) => ({
+    success: true,
+    data: this.rows.some(
+      (row) => row.userId === userId && row.success && row.ipAddress === ip,
+    ),
+  }));
+}
+
+describe("LoginSecurityService", () => {
+  const mockDatabase = {} as Database;
+  const jwtSecret = "test-secret";
+  const password = "TestPassword123!";
+  const homeContext = { ipAddress: "203.0.113.10", userAgent: "test-agent" };
+  const otherContext = { ipAddress: "198.51.100.20", userAgent: "test-agent" };
+
+  let passwordHash: string;
+  let userStore: InMemoryUserStore;
+  let historyStore: InMemoryLoginHistoryStore;
+  let mailTransport: InMemoryMailTransport;
+  let authService: AuthService;
+
+  const login = (pw: string, context = homeContext) =>
+    authService.login({ email: "test@example.com", password: pw }, context);
+
+  beforeAll(async () => {
+    passwordHash = await new PasswordUtils().hash(password);
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    userStore = new InMemoryUserStore({
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      email: "test@example.com",
+      name: "Test User",
+      passwordHash,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+    historyStore = new InMemoryLoginHistoryStore();
+    mailTransport = new InMemoryMailTransport();
+
+    const {
+      UserOperations,
+      OrganizationMemberOperations,
+      SessionOperations,
+      TwoFactorCredentialOperations,
+      LoginHistoryOperations,
+    } = await import("@repo/db");
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => userStore,
+    );
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, lastUsedAt: null, createdAt: new Date() },
+      })),
+    }));
+    (
+      TwoFactorCredentialOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findByUser: vi.fn().mockResolvedValue({ success: true, data: null }),
+    }));
+    (
+      LoginHistoryOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => historyStore);
+
+    authService = new AuthService(mockDatabase, jwtSecret, mailTransport);
+  });
+
+  describe("lockoutDuration", () => {
+    it("閾値未満ではロックせず、以降は失敗ごとに倍増して上限で頭打ちになる", () => {
+      expect(LoginSecurityService.lockoutDuration(4)).toBe(0);
+      expect(LoginSecurityService.lockoutDuration(5)).toBe(60);
+      expect(LoginSecurityService.lockoutDuration(6)).toBe(120);
+      expect(LoginSecurityService.lockoutDuration(7)).toBe(240);
+      expect(LoginSecurityService.lockoutDuration(20)).toBe(3600);
+    });
+  });
+
+  describe("アカウントロック", () => {
+    it("連続失敗が閾値に達するとロックされ、正しいパスワードでもログインできない", async () => {
+      // Arrange
+      for (let i = 0; i < 4; i++) {
+        const result = await login("WrongPassword1!");
+        expect(result.error).toBe("Invalid credentials");
+      }
+
+      // Act
+      await login("WrongPassword1!");
+      const lockedResult = await login(password);
+
+      // Assert
+      expect(userStore.user.failedLoginAttempts).toBe(5);
+      expect(lockedResult.success).toBe(false);
+      expect(lockedResult.error).toBe("Account temporarily locked");
+      expect(lockedResult.retryAfter).toBeGreaterThan(0);
+      expect(lockedResult.retryAfter).toBeLessThanOrEqual(60);
+      // ロック中の試行は失敗回数に加算しない
+      expect(userStore.incrementFailedLoginAttempts).toHaveBeenCalledTimes(5);
+      expect(historyStore.rows.at(-1)?.failureReason).toBe("account_locked");
+    });
+
+    it("ロック期間が過ぎればログインでき、失敗回数がリセットされる", async () => {
+      // Arrange
+      userStore.user.failedLoginAttempts = 5;
+      userStore.user.lockedUntil = new Date(Date.now() - 1000);
+
+      // Act
+      const result = await login(password);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(userStore.user.failedLoginAttempts).toBe(0);
+      expect(userStore.user.lockedUntil).toBeNull();
+    });
+
+    it("ロック解除後の再失敗ではロック期間が倍増する", async () => {
+      // Arrange
+      userStore.user.failedLoginAttempts = 5;
+      userStore.user.lockedUntil = new Date(Date.now() - 1000);
+
+      // Act
+      await login("WrongPassword1!");
+      const result = await login(password);
+
+      // Assert
+      expect(result.error).toBe("Account temporarily locked");
+      expect(result.retryAfter).toBeGreaterThan(60);
+      expect(result.retryAfter).toBeLessThanOrEqual(120);
+    });
+  });
+
+  describe("ログイン履歴と新しいIPの検知", () => {
+    it("成功・失敗のログインが履歴に記録される", async () => {
+      // Arrange
+      await login("WrongPassword1!");
+      await login(password);
+
+      // Act
+      const result = await new LoginSecurityService(mockDatabase).listHistory(
+        userStore.user.id,
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.map((entry) => entry.success)).toEqual([true, false]);
+      expect(result.data?.[1].failureReason).toBe("invalid_password");
+      expect(result.data?.[0]).toMatchObject({
+        method: "password",
+        ipAddress: homeContext.ipAddress,
+        userAgent: homeContext.userAgent,
+      });
+    });
+
+    it("初回ログインでは通知せず、未知のIPからのログインでメール通知する", async () => {
+      // Act
+      await login(password);
+      await login(password);
+
+      // Assert
+      expect(mailTransport.outbox).toHaveLength(0);
+
+      // Act
+      await login(password, otherContext);
+
+      // Assert
+      const alert = mailTransport.lastMessageTo("test@example.com");
+      expect(alert?.subject).toBe("新しいIPアドレスからのログイン");
+      expect(alert?.text).toContain(otherContext.ipAddress);
+      expect(historyStore.rows.at(-1)?.newIp).toBe(true);
+    });
+
+    it("通知に失敗してもログインは成功する", async () => {
+      // Arrange
+      await login(password);
+      vi.spyOn(mailTransport, "send").mockRejectedValue(new Error("SMTP down"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      // Act
+      const result = await login(password, otherContext);
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+  });
+});
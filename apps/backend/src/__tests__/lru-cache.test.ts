@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { LruCache } from "../utils/lru-cache";
+
+describe("LruCache", () => {
+  it("容量を超えると最も長く使われていない要素を追い出す", () => {
+    // Arrange
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+
+    // Act
+    cache.set("c", 3);
+
+    // Assert
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.has("c")).toBe(true);
+    expect(cache.size).toBe(2);
+    expect(cache.evictions).toBe(1);
+  });
+
+  it("条件に一致する要素をまとめて削除する", () => {
+    // Arrange
+    const cache = new LruCache<string, { apiId: string }>(3);
+    cache.set("/api/weather", { apiId: "api-1" });
+    cache.set("/api/weather/v2", { apiId: "api-1" });
+    cache.set("/api/news", { apiId: "api-2" });
+
+    // Act
+    const deleted = cache.deleteWhere((value) => value.apiId === "api-1");
+
+    // Assert
+    expect(deleted).toBe(2);
+    expect(cache.size).toBe(1);
+    expect(cache.get("/api/news")).toEqual({ apiId: "api-2" });
+  });
+
+  it("追い出し・削除でキャッシュから外れた要素を onEvict に渡す", () => {
+    // Arrange
+    const onEvict = vi.fn();
+    const cache = new LruCache<string, number>(2, onEvict);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("b", 3);
+
+    // Act
+    cache.set("c", 4);
+    cache.delete("b");
+    cache.delete("missing");
+    cache.deleteWhere((value) => value === 4);
+
+    // Assert
+    expect(onEvict.mock.calls).toEqual([
+      [1, "a"],
+      [3, "b"],
+      [4, "c"],
+    ]);
+  });
+
+  it("容量は1以上の整数でなければならない", () => {
+    // Act & Assert
+    expect(() => new LruCache(0)).toThrow(
+      "LRU cache capacity must be a positive integer",
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ConsoleMailTransport,
+  createMailTransport,
+  HttpMailTransport,
+} from "../services/mail-service";
+
+const message = {
+  to: "user@example.com",
+  subject: "パスワードリセットのご案内",
+  text: "リセットコード: 123456",
+};
+
+describe("mail-service", () => {
+  it("MAIL_API_KEYがあれば配信サービスに送る", () => {
+    // Act
+    const transport = createMailTransport({
+      NODE_ENV: "production",
+      MAIL_API_KEY: "key",
+      MAIL_FROM: "no-reply@example.com",
+    });
+
+    // Assert
+    expect(transport).toBeInstanceOf(HttpMailTransport);
+  });
+
+  it("MAIL_API_KEYだけでMAIL_FROMが無ければ失敗する", () => {
+    // Act & Assert
+    expect(() => createMailTransport({ MAIL_API_KEY: "key" })).toThrow(
+      "MAIL_FROM is required",
+    );
+  });
+
+  it("本番環境ではコンソールへの出力を拒否する", async () => {
+    // Arrange
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const transport = createMailTransport({ NODE_ENV: "production" });
+
+    // Act & Assert
+    expect(transport).toBeInstanceOf(ConsoleMailTransport);
+    await expect(transport.send(message)).rejects.toThrow(
+      "cannot be used in production",
+    );
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it("配信サービスのAPIに送信内容をPOSTする", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 200 }));
+    const transport = new HttpMailTransport({
+      apiKey: "key",
+      from: "no-reply@example.com",
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    // Act
+    await transport.send(message);
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledWith(
+      HttpMailTransport.DEFAULT_ENDPOINT,
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({ Authorization: "Bearer key" }),
+        body: JSON.stringify({ from: "no-reply@example.com", ...message }),
+      }),
+    );
+  });
+
+  it("配信サービスがエラーを返したら失敗する", async () => {
+    // Arrange
+    const transport = new HttpMailTransport({
+      apiKey: "key",
+      from: "no-reply@example.com",
+      fetch: (async () =>
+        new Response("error", { status: 500 })) as unknown as typeof fetch,
+    });
+
+    // Act & Assert
+    await expect(transport.send(message)).rejects.toThrow("status 500");
+  });
+});
@@ -0,0 +1,223 @@
+import type {
+  Database,
+  GeneratedApiDB,
+  GeneratedApiEndpointDB,
+} from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { OpenApiService } from "../services/openapi-service";
+
+vi.mock("@repo/db", () => ({
+  GeneratedApiOperations: vi.fn(),
+  GeneratedApiEndpointOperations: vi.fn(),
+}));
+
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+const wallet = "0x1234567890123456789012345678901234567890";
+
+const createApi = (overrides: Partial<GeneratedApiDB>): GeneratedApiDB => ({
+  id: "api-1",
+  name: "Weather API",
+  description: "Returns the current weather",
+  endpoint: "/api/weather",
+  method: "GET",
+  price: "0.015",
+  currency: "USDC",
+  generatedCode: `
+import { Hono } from "hono";
+const app = new Hono();
+app.use("*", x402("$0.015"));
+app.get("/", (c) => c.json({ weather: "sunny" }));
+app.post("/cities/:city", async (c) => c.json({ city: c.req.param("city") }));
+export default app;
+`,
+  testCode: null,
+  currentRevision: 3,
+  qualityScore: null,
+  documentation: "# Weather API",
+  status: "active",
+  userId,
+  organizationId: null,
+  metadata: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const createEndpoint = (
+  overrides: Partial<GeneratedApiEndpointDB>,
+): GeneratedApiEndpointDB => ({
+  id: "endpoint-1",
+  apiId: "api-1",
+  method: "GET",
+  path: "/",
+  price: "0.01",
+  description: null,
+  position: 0,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe("OpenApiService", () => {
+  let findByUser: ReturnType<typeof vi.fn>;
+  let listByApis: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    findByUser = vi.fn();
+    listByApis = vi.fn().mockResolvedValue({ success: true, data: [] });
+    const { GeneratedApiOperations, GeneratedApiEndpointOperations } =
+      await import("@repo/db");
+    (
+      GeneratedApiOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ findByUser }));
+    (
+      GeneratedApiEndpointOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({ listByApis }));
+  });
+
+  it("生成コードのルートをマウント先のパスでOpenAPI 3.1のオペレーションにする", () => {
+    // Act
+    const document = OpenApiService.document(createApi({}), {
+      serverUrl: "https://lab.example.com",
+    });
+
+    // Assert
+    expect(document).toMatchObject({
+      openapi: "3.1.0",
+      info: {
+        title: "Weather API",
+        version: "3",
+        description: "# Weather API",
+      },
+      servers: [{ url: "https://lab.example.com" }],
+    });
+    expect(Object.keys(document.paths)).toEqual([
+      "/api/weather",
+      "/api/weather/cities/{city}",
+    ]);
+    const post = document.paths["/api/weather/cities/{city}"].post;
+    expect(post.operationId).toBe("post_api_weather_cities_city");
+    expect(post.parameters).toEqual([
+      { name: "city", in: "path", required: true, schema: { type: "string" } },
+    ]);
+    expect(post.requestBody).toBeDefined();
+    expect(document.paths["/api/weather"].get.requestBody).toBeUndefined();
+  });
+
+  it("402レスポンスをx402の支払い要求スキーマで示し、価格とネットワークをベンダー拡張に含める", () => {
+    // Act
+    const document = OpenApiService.document(createApi({}), { payTo: wallet });
+    const operation = document.paths["/api/weather"].get;
+
+    // Assert
+    expect(operation.responses["402"]).toEqual({
+      $ref: "#/components/responses/PaymentRequired",
+    });
+    expect(document.components.responses.PaymentRequired.content).toEqual({
+      "application/json": {
+        schema: { $ref: "#/components/schemas/X402PaymentRequired" },
+      },
+    });
+    expect(document.components.schemas.X402PaymentRequirements).toBeDefined();
+    expect(operation).toMatchObject({
+      security: [{ x402: [] }],
+      "x-x402-price": "0.015",
+      "x-x402-currency": "USDC",
+      "x-x402-max-amount-required": "15000",
+      "x-x402-network": "base-sepolia",
+      "x-x402-chain-id": 84532,
+      "x-x402-pay-to": wallet,
+    });
+    expect(document.servers).toBeUndefined();
+  });
+
+  it("ルートを抽出できないコードは保存されたエンドポイントとメソッドを使う", () => {
+    // Act
+    const document = OpenApiService.document(
+      createApi({
+        method: "POST",
+        generatedCode: "export default function handler() {}",
+      }),
+    );
+
+    // Assert
+    expect(Object.keys(document.paths)).toEqual(["/api/weather"]);
+    expect(document.paths["/api/weather"].post).toBeDefined();
+    expect(
+      document.paths["/api/weather"].post["x-x402-pay-to"],
+    ).toBeUndefined();
+  });
+
+  it("複数ルートのAPIは保存されたルートごとの価格と説明を使う", () => {
+    // Act
+    const document = OpenApiService.document(createApi({}), {}, [
+      createEndpoint({ description: "Current weather" }),
+      createEndpoint({
+        id: "endpoint-2",
+        method: "POST",
+        path: "/cities/:city",
+        price: "0.25",
+        position: 1,
+      }),
+    ]);
+
+    // Assert
+    expect(document.paths["/api/weather"].get).toMatchObject({
+      description: "Current weather",
+      "x-x402-price": "0.01",
+      "x-x402-max-amount-required": "10000",
+    });
+    expect(document.paths["/api/weather/cities/{city}"].post).toMatchObject({
+      description: "Returns the current weather",
+      "x-x402-price": "0.25",
+      "x-x402-max-amount-required": "250000",
+    });
+  });
+
+  it("USDCの金額を6桁の最小単位に変換する", () => {
+    // Act & Assert
+    expect(OpenApiService.toAtomicAmount("1")).toBe("1000000");
+    expect(OpenApiService.toAtomicAmount("0.01")).toBe("10000");
+    expect(OpenApiService.toAtomicAmount("0.000001")).toBe("1");
+  });
+
+  it("公開中のAPIだけをAPIごとのタグ付きで1つのドキュメントにまとめる", async () => {
+    // Arrange
+    findByUser.mockResolvedValue({
+      success: true,
+      data: [
+        createApi({}),
+        createApi({
+          id: "api-2",
+          name: "Translation API",
+          description: "Translates text",
+          endpoint: "/api/translate",
+          generatedCode: 'app.post("/", handler)',
+        }),
+        createApi({ id: "api-3", endpoint: "/api/draft", status: "draft" }),
+      ],
+    });
+
+    // Act
+    const result = await new OpenApiService({} as Database).forActiveApis(
+      userId,
+    );
+
+    // Assert
+    expect(findByUser).toHaveBeenCalledWith(userId);
+    expect(listByApis).toHaveBeenCalledWith(["api-1", "api-2"]);
+    expect(result.data?.tags?.map((tag) => tag.name)).toEqual([
+      "Weather API",
+      "Translation API",
+    ]);
+    expect(Object.keys(result.data?.paths ?? {})).toEqual([
+      "/api/weather",
+      "/api/weather/cities/{city}",
+      "/api/translate",
+    ]);
+    expect(result.data?.paths["/api/translate"].post.tags).toEqual([
+      "Translation API",
+    ]);
+  });
+});
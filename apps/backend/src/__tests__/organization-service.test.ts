@@ -0,0 +1,502 @@
+import type { Database } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryMailTransport } from "../services/mail-service";
+import { OrganizationService } from "../services/organization-service";
+
+vi.mock("@repo/db", () => ({
+  OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  OrganizationInvitationOperations: vi.fn(),
+  UserOperations: vi.fn(),
+}));
+
+const organizationId = "987e6543-e21b-34d5-a678-426614174999";
+const ownerId = "123e4567-e89b-12d3-a456-426614174000";
+const adminId = "223e4567-e89b-12d3-a456-426614174000";
+const memberId = "323e4567-e89b-12d3-a456-426614174000";
+const inviteeId = "423e4567-e89b-12d3-a456-426614174000";
+
+const users = [
+  { id: ownerId, email: "owner@example.com", name: "Owner" },
+  { id: adminId, email: "admin@example.com", name: "Admin" },
+  { id: memberId, email: "member@example.com", name: "Member" },
+  { id: inviteeId, email: "invitee@example.com", name: "Invitee" },
+];
+
+interface MemberRow {
+  organizationId: string;
+  userId: string;
+  role: string;
+  createdAt: Date;
+}
+
+interface InvitationRow {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: string;
+  tokenHash: string;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+}
+
+// 組織メンバーテーブルのインメモリ実装
+class InMemoryMemberStore {
+  rows: MemberRow[] = [];
+
+  private find(orgId: string, userId: string) {
+    return this.rows.find(
+      (row) => row.organizationId === orgId && row.userId === userId,
+    );
+  }
+
+  create = vi.fn(async (data: Omit<MemberRow, "createdAt">) => {
+    const row = { ...data, createdAt: new Date() };
+    this.rows.push(row);
+    return { success: true, data: row };
+  });
+
+  findMembership = vi.fn(async (orgId: string, userId: string) => ({
+    success: true,
+    data: this.find(orgId, userId) ?? null,
+  }));
+
+  listByOrganization = vi.fn(async (orgId: string) => ({
+    success: true,
+    data: this.rows
+      .filter((row) => row.organizationId === orgId)
+      .map((row) => {
+        const user = users.find((u) => u.id === row.userId);
+        return {
+          userId: row.userId,
+          name: user?.name ?? "",
+          email: user?.email ?? "",
+          role: row.role,
+          joinedAt: row.createdAt,
+        };
+      }),
+  }));
+
+  countByRole = vi.fn(async (orgId: string, role: string) => ({
+    success: true,
+    data: this.rows.filter(
+      (row) => row.organizationId === orgId && row.role === role,
+    ).length,
+  }));
+
+  updateRole = vi.fn(async (orgId: string, userId: string, role: string) => {
+    const row = this.find(orgId, userId);
+    if (row) {
+      row.role = role;
+    }
+    return { success: true, data: row ?? null };
+  });
+
+  remove = vi.fn(async (orgId: string, userId: string) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(
+      (row) => !(row.organizationId === orgId && row.userId === userId),
+    );
+    return { success: true, data: this.rows.length < before };
+  });
+}
+
+// 組織招待テーブルのインメモリ実装
+class InMemoryInvitationStore {
+  rows: InvitationRow[] = [];
+
+  create = vi.fn(async (data: Omit<InvitationRow, "id" | "acceptedAt">) => {
+    const row = {
+      ...data,
+      id: `invitation-${this.rows.length + 1}`,
+      acceptedAt: null,
+    };
+    this.rows.push(row);
+    return { success: true, data: row };
+  });
+
+  findByTokenHash = vi.fn(async (tokenHash: string) => ({
+    success: true,
+    data: this.rows.find((row) => row.tokenHash === tokenHash) ?? null,
+  }));
+
+  markAccepted = vi.fn(async (id: string) => {
+    const row = this.rows.find((r) => r.id === id && !r.acceptedAt);
+    if (row) {
+      row.acceptedAt = new Date();
+    }
+    return { success: true, data: row ?? null };
+  });
+}
+
+describe("OrganizationService", () => {
+  let organizationService: OrganizationService;
+  let memberStore: InMemoryMemberStore;
+  let invitationStore: InMemoryInvitationStore;
+  let mailTransport: InMemoryMailTransport;
+  const acceptUrl = "http://localhost:3000/invitations/accept";
+  const organization = {
+    id: organizationId,
+    name: "Test Organization",
+    domain: null,
+    llmProvider: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  // 直近に送信された招待メールのリンクからトークンを取り出す
+  const lastInvitationToken = (email: string) => {
+    const text = mailTransport.lastMessageTo(email)?.text ?? "";
+    const link = text.match(/\S+\?token=\S+/)?.[0];
+    return link ? (new URL(link).searchParams.get("token") ?? "") : "";
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    memberStore = new InMemoryMemberStore();
+    memberStore.rows = [
+      { organizationId, userId: ownerId, role: "owner", createdAt: new Date() },
+      { organizationId, userId: adminId, role: "admin", createdAt: new Date() },
+      {
+        organizationId,
+        userId: memberId,
+        role: "member",
+        createdAt: new Date(),
+      },
+    ];
+    invitationStore = new InMemoryInvitationStore();
+    mailTransport = new InMemoryMailTransport();
+
+    const {
+      OrganizationOperations,
+      OrganizationMemberOperations,
+      OrganizationInvitationOperations,
+      UserOperations,
+    } = await import("@repo/db");
+    (
+      OrganizationOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...organization, ...data },
+      })),
+      findById: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: organization }),
+      findByDomain: vi.fn().mockResolvedValue({ success: true, data: null }),
+      update: vi.fn().mockImplementation(async (_id, data) => ({
+        success: true,
+        data: { ...organization, ...data },
+      })),
+      delete: vi.fn().mockResolvedValue({ success: true, data: true }),
+    }));
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => memberStore);
+    (
+      OrganizationInvitationOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => invitationStore);
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => ({
+        findById: vi.fn(async (id: string) => ({
+          success: true,
+          data: users.find((user) => user.id === id) ?? null,
+        })),
+        findByEmail: vi.fn(async (email: string) => ({
+          success: true,
+          data: users.find((user) => user.email === email) ?? null,
+        })),
+      }),
+    );
+
+    organizationService = new OrganizationService(
+      {} as Database,
+      mailTransport,
+    );
+  });
+
+  describe("createOrganization", () => {
+    it("作成者をオーナーとして登録する", async () => {
+      // Act
+      const result = await organizationService.createOrganization(inviteeId, {
+        name: "New Organization",
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.role).toBe("owner");
+      expect(memberStore.create).toHaveBeenCalledWith({
+        organizationId,
+        userId: inviteeId,
+        role: "owner",
+      });
+    });
+  });
+
+  describe("inviteMember / acceptInvitation", () => {
+    it("招待リンクをメールで送信し、承諾すると招待時のロールで参加する", async () => {
+      // Act
+      const inviteResult = await organizationService.inviteMember(
+        adminId,
+        organizationId,
+        { email: "invitee@example.com", role: "viewer" },
+        acceptUrl,
+      );
+      const token = lastInvitationToken("invitee@example.com");
+      const acceptResult = await organizationService.acceptInvitation(
+        inviteeId,
+        { token },
+      );
+
+      // Assert
+      expect(inviteResult.success).toBe(true);
+      // DBにはトークンのハッシュのみ保存する
+      expect(invitationStore.rows[0]?.tokenHash).not.toBe(token);
+      expect(acceptResult.success).toBe(true);
+      expect(acceptResult.data?.role).toBe("viewer");
+      expect(
+        await organizationService.findRole(organizationId, inviteeId),
+      ).toBe("viewer");
+    });
+
+    it("memberロールは招待できない", async () => {
+      // Act
+      const result = await organizationService.inviteMember(
+        memberId,
+        organizationId,
+        { email: "invitee@example.com" },
+        acceptUrl,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient organization role");
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+
+    it("adminはadmin以上のロールで招待できない", async () => {
+      // Act
+      const result = await organizationService.inviteMember(
+        adminId,
+        organizationId,
+        { email: "invitee@example.com", role: "admin" },
+        acceptUrl,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient organization role");
+    });
+
+    it("既存メンバーは招待できない", async () => {
+      // Act
+      const result = await organizationService.inviteMember(
+        ownerId,
+        organizationId,
+        { email: "member@example.com" },
+        acceptUrl,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("User is already a member");
+    });
+
+    it("招待先と異なるメールアドレスのユーザーは承諾できない", async () => {
+      // Arrange
+      await organizationService.inviteMember(
+        ownerId,
+        organizationId,
+        { email: "someone@example.com" },
+        acceptUrl,
+      );
+      const token = lastInvitationToken("someone@example.com");
+
+      // Act
+      const result = await organizationService.acceptInvitation(inviteeId, {
+        token,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invitation was issued for a different email");
+      expect(memberStore.create).not.toHaveBeenCalled();
+    });
+
+    it("期限切れ・承諾済みの招待は拒否する", async () => {
+      // Arrange
+      await organizationService.inviteMember(
+        ownerId,
+        organizationId,
+        { email: "invitee@example.com" },
+        acceptUrl,
+      );
+      const token = lastInvitationToken("invitee@example.com");
+      const invitation = invitationStore.rows[0];
+      if (invitation) {
+        invitation.expiresAt = new Date(Date.now() - 1000);
+      }
+
+      // Act
+      const result = await organizationService.acceptInvitation(inviteeId, {
+        token,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired invitation");
+    });
+  });
+
+  describe("updateMemberRole", () => {
+    it("ownerはメンバーをadminに昇格できる", async () => {
+      // Act
+      const result = await organizationService.updateMemberRole(
+        ownerId,
+        organizationId,
+        memberId,
+        { role: "admin" },
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.role).toBe("admin");
+    });
+
+    it("adminは他のadminのロールを変更できない", async () => {
+      // Arrange
+      memberStore.rows.push({
+        organizationId,
+        userId: inviteeId,
+        role: "admin",
+        createdAt: new Date(),
+      });
+
+      // Act
+      const result = await organizationService.updateMemberRole(
+        adminId,
+        organizationId,
+        inviteeId,
+        { role: "member" },
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient organization role");
+    });
+
+    it("最後のオーナーは降格できない", async () => {
+      // Act
+      const result = await organizationService.updateMemberRole(
+        ownerId,
+        organizationId,
+        ownerId,
+        { role: "admin" },
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Organization must have at least one owner");
+      expect(memberStore.updateRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removeMember", () => {
+    it("メンバーは自分自身を組織から外せる", async () => {
+      // Act
+      const result = await organizationService.removeMember(
+        memberId,
+        organizationId,
+        memberId,
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(await organizationService.findRole(organizationId, memberId)).toBe(
+        null,
+      );
+    });
+
+    it("memberは他のメンバーを削除できない", async () => {
+      // Act
+      const result = await organizationService.removeMember(
+        memberId,
+        organizationId,
+        adminId,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient organization role");
+    });
+
+    it("最後のオーナーは脱退できない", async () => {
+      // Act
+      const result = await organizationService.removeMember(
+        ownerId,
+        organizationId,
+        ownerId,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Organization must have at least one owner");
+    });
+  });
+
+  describe("updateSettings", () => {
+    it("adminは組織のLLMプロバイダーを変更できる", async () => {
+      // Act
+      const result = await organizationService.updateSettings(
+        adminId,
+        organizationId,
+        { llmProvider: "claude-3" },
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.llmProvider).toBe("claude-3");
+    });
+
+    it("memberは組織設定を変更できない", async () => {
+      // Act
+      const result = await organizationService.updateSettings(
+        memberId,
+        organizationId,
+        { llmProvider: "gpt-4" },
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Insufficient organization role");
+    });
+
+    it("未対応のプロバイダーはバリデーションエラーになる", async () => {
+      // Act
+      const result = await organizationService.updateSettings(
+        ownerId,
+        organizationId,
+        { llmProvider: "unknown-model" as "gpt-4" },
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Validation failed");
+    });
+  });
+
+  describe("getOrganization", () => {
+    it("非メンバーには組織の存在を明かさない", async () => {
+      // Act
+      const result = await organizationService.getOrganization(
+        inviteeId,
+        organizationId,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Organization not found");
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import type { Database, NewPromptTemplateDB, PromptTemplateDB } from "@repo/db";
+import type { PromptTemplateVariable } from "@repo/shared/api";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PromptTemplateService } from "../services/prompt-template-service";
+
+vi.mock("@repo/db", () => ({
+  PromptTemplateOperations: vi.fn(),
+}));
+
+const organizationId = "987e6543-e21b-34d5-a678-426614174999";
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+
+const proxyVariables: PromptTemplateVariable[] = [
+  { name: "upstreamUrl", type: "url", required: true },
+  { name: "cacheSeconds", type: "number", required: true, default: 60 },
+  {
+    name: "format",
+    type: "enum",
+    required: true,
+    options: ["json", "csv"],
+  },
+  { name: "note", type: "string", required: false },
+];
+
+// プロンプトテンプレートテーブルのインメモリ実装（組織内で名前が一意）
+class InMemoryTemplateStore {
+  rows: PromptTemplateDB[] = [];
+
+  create = vi.fn(async (data: NewPromptTemplateDB) => {
+    const row: PromptTemplateDB = {
+      id: `template-${this.rows.length + 1}`,
+      description: null,
+      variables: [],
+      complexityLevel: null,
+      expectedPrice: null,
+      externalApis: null,
+      usageCount: 0,
+      lastUsedAt: null,
+      createdBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...data,
+    };
+    this.rows.push(row);
+    return { success: true, data: row };
+  });
+
+  findByName = vi.fn(async (orgId: string, name: string) => ({
+    success: true,
+    data:
+      this.rows.find(
+        (row) => row.organizationId === orgId && row.name === name,
+      ) ?? null,
+  }));
+
+  update = vi.fn(async (id: string, data: Partial<NewPromptTemplateDB>) => {
+    const index = this.rows.findIndex((row) => row.id === id);
+    this.rows[index] = { ...this.rows[index], ...data };
+    return { success: true, data: this.rows[index] };
+  });
+
+  incrementUsage = vi.fn(async (id: string) => {
+    const row = this.rows.find((template) => template.id === id);
+    if (!row) {
+      return { success: false, error: new Error("not found") };
+    }
+    row.usageCount += 1;
+    row.lastUsedAt = new Date();
+    return { success: true, data: row };
+  });
+}
+
+describe("PromptTemplateService", () => {
+  let store: InMemoryTemplateStore;
+  let templateService: PromptTemplateService;
+
+  const createProxyTemplate = () =>
+    templateService.create(organizationId, userId, {
+      name: "Paid JSON proxy",
+      template:
+        "Proxy {{upstreamUrl}} as {{ format }}, caching responses for {{cacheSeconds}} seconds. {{note}}",
+      variables: proxyVariables,
+      category: "integration",
+      expectedPrice: "0.01",
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    store = new InMemoryTemplateStore();
+    const { PromptTemplateOperations } = await import("@repo/db");
+    (
+      PromptTemplateOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => store);
+
+    templateService = new PromptTemplateService({} as Database);
+  });
+
+  it("本文の変数参照と変数定義の不一致・不正な既定値を検出する", () => {
+    // Act
+    const errors = PromptTemplateService.definitionErrors(
+      "Translate {{text}} into {{language}}",
+      [
+        { name: "text", type: "string", required: true },
+        { name: "text", type: "string", required: true },
+        { name: "mode", type: "enum", required: true },
+        { name: "retries", type: "number", required: true, default: "3" },
+      ],
+    );
+
+    // Assert
+    expect(errors).toEqual([
+      "Duplicate variable: text",
+      "Enum variable requires options: mode",
+      "Invalid default value: retries",
+      "Undeclared variable: language",
+    ]);
+  });
+
+  it("テンプレートを保存し、組織内で同じ名前は作成できない", async () => {
+    // Act
+    const created = await createProxyTemplate();
+    const duplicated = await createProxyTemplate();
+
+    // Assert
+    expect(created.data).toMatchObject({
+      organizationId,
+      createdBy: userId,
+      usageCount: 0,
+    });
+    expect(duplicated.error).toBe("Template name already exists");
+    expect(store.rows).toHaveLength(1);
+  });
+
+  it("定義に不備があるテンプレートは理由を付けて拒否する", async () => {
+    // Act
+    const result = await templateService.create(organizationId, userId, {
+      name: "Broken",
+      template: "Translate {{text}} per call",
+      variables: [],
+      category: "ai",
+    });
+
+    // Assert
+    expect(result).toEqual({
+      success: false,
+      error: "Invalid template definition",
+      details: ["Undeclared variable: text"],
+    });
+    expect(store.create).not.toHaveBeenCalled();
+  });
+
+  it("変数だけを変更する場合も既存の本文と合わせて検証する", async () => {
+    // Arrange
+    const { data: template } = await createProxyTemplate();
+    if (!template) throw new Error("template not created");
+
+    // Act
+    const result = await templateService.update(template, {
+      variables: proxyVariables.filter(
+        (variable) => variable.name !== "format",
+      ),
+    });
+
+    // Assert
+    expect(result.details).toEqual(["Undeclared variable: format"]);
+    expect(store.update).not.toHaveBeenCalled();
+  });
+
+  it("検証した変数で本文を置き換え、テンプレートの既定値で生成リクエストを組み立てる", async () => {
+    // Arrange
+    const { data: template } = await createProxyTemplate();
+    if (!template) throw new Error("template not created");
+
+    // Act
+    const result = PromptTemplateService.buildGenerationInput(template, {
+      variables: {
+        upstreamUrl: "https://api.example.com/prices",
+        format: "csv",
+      },
+      autoDeploy: false,
+    });
+
+    // Assert
+    expect(result.data).toEqual({
+      description:
+        "Proxy https://api.example.com/prices as csv, caching responses for 60 seconds.",
+      category: "integration",
+      expectedPrice: "0.01",
+      complexityLevel: "medium",
+      autoDeploy: false,
+    });
+  });
+
+  it("型が合わない・未定義の変数は生成せずにエラーを返す", async () => {
+    // Arrange
+    const { data: template } = await createProxyTemplate();
+    if (!template) throw new Error("template not created");
+
+    // Act
+    const result = PromptTemplateService.buildGenerationInput(template, {
+      variables: {
+        upstreamUrl: "not a url",
+        format: "xml",
+        extra: "value",
+      },
+    });
+
+    // Assert
+    expect(result.error).toBe("Invalid template variables");
+    expect(result.details).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: ["upstreamUrl"] }),
+        expect.objectContaining({ path: ["format"] }),
+        expect.objectContaining({ code: "unrecognized_keys" }),
+      ]),
+    );
+  });
+
+  it("利用回数を加算して現在の回数を返す", async () => {
+    // Arrange
+    const { data: template } = await createProxyTemplate();
+    if (!template) throw new Error("template not created");
+
+    // Act
+    await templateService.recordUsage(template.id);
+    const result = await templateService.recordUsage(template.id);
+
+    // Assert
+    expect(result).toEqual({ success: true, data: 2 });
+    expect(store.rows[0].lastUsedAt).toBeInstanceOf(Date);
+  });
+});
@@ -33,7 +33,7 @@ export default app`;
       expect(result.errors).toHaveLength(0);
     });
 
-    it("危険なコードを拒否する", () => {
+    it("危険な関数はサンドボックスの中でしか評価されない", async () => {
       // Arrange
       const maliciousCode = `
 import { Hono } from 'hono'
@@ -42,11 +42,13 @@ const app = new Hono()
 export default app`;
 
       // Act
-      const result = executor.validateCode(maliciousCode);
+      const validation = executor.validateCode(maliciousCode);
+      const result = await executor.compileHonoRoute(maliciousCode);
 
       // Assert
-      expect(result.isValid).toBe(false);
-      expect(result.errors).toContain("Forbidden function: eval");
+      expect(validation.isValid).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("'process' is not defined");
     });
 
     it("許可されていないインポートを拒否する", () => {
@@ -76,6 +78,28 @@ export default app`;
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain("Code exceeds maximum length");
     });
+
+    it("ルートを抽出できない形式での登録を拒否する", () => {
+      // Arrange
+      const code = `
+import { Hono } from 'hono'
+import { x402 } from 'x402-hono'
+const app = new Hono()
+app.all('/premium', x402('$0.10'), (c) => c.json({ secret: true }))
+app.on('GET', '/other', (c) => c.text('ok'))
+app.all('/again', (c) => c.text('ok'))
+export default app`;
+
+      // Act
+      const result = executor.validateCode(code);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        "Unsupported route registration: app.all() (use app.get, app.post, app.put, app.delete or app.patch)",
+        "Unsupported route registration: app.on() (use app.get, app.post, app.put, app.delete or app.patch)",
+      ]);
+    });
   });
 
   describe("executeInSandbox", () => {
@@ -83,57 +107,62 @@ export default app`;
       // Arrange
       const safeCode = `
 const getValue = () => ({ message: 'Hello from sandbox' })
-module.exports = getValue`;
+export default getValue()`;
 
       // Act
       const result = await executor.executeInSandbox(safeCode);
 
       // Assert
       expect(result.success).toBe(true);
-      expect(typeof result.data).toBe("function");
+      expect(result.data).toEqual({ message: "Hello from sandbox" });
     });
 
     it("実行時間制限を強制する", async () => {
       // Arrange
-      const simpleCode = `module.exports = 'test result'`;
+      const loopingCode = `while (true) {}
+export default 'never'`;
 
       // Act
-      const result = await executor.executeInSandbox(simpleCode, {
+      const result = await executor.executeInSandbox(loopingCode, {
         timeout: 100,
       });
 
-      // Assert - テスト環境では成功するが、タイムアウト機能をテスト
-      expect(result).toBeDefined();
-      expect(typeof result.success).toBe("boolean");
+      // Assert - 時間か命令数のどちらか先に達した上限で止まる
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(
+        /Execution timeout|Instruction limit exceeded/,
+      );
     });
 
     it("メモリ制限を強制する", async () => {
       // Arrange
-      const simpleCode = `
-const smallArray = [1, 2, 3]
-module.exports = () => smallArray`;
+      const allocatingCode = `
+const chunks = []
+for (let i = 0; i < 100000; i++) chunks.push({ index: i })
+export default chunks.length`;
 
       // Act
-      const result = await executor.executeInSandbox(simpleCode, {
+      const result = await executor.executeInSandbox(allocatingCode, {
         memoryLimit: 1024 * 1024,
       });
 
-      // Assert - テスト環境では成功するが、メモリ制限機能をテスト
-      expect(result).toBeDefined();
-      expect(typeof result.success).toBe("boolean");
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Memory limit exceeded");
     });
 
     it("ファイルシステムアクセスを拒否する", async () => {
       // Arrange
-      const secureCode = `
-module.exports = () => 'secure operation'`;
+      const fileSystemCode = `
+import { readFileSync } from 'fs'
+export default readFileSync('/etc/passwd', 'utf8')`;
 
       // Act
-      const result = await executor.executeInSandbox(secureCode);
+      const result = await executor.executeInSandbox(fileSystemCode);
 
-      // Assert - テスト環境では成功する
-      expect(result).toBeDefined();
-      expect(typeof result.success).toBe("boolean");
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Module not available in the sandbox: fs");
     });
   });
 
@@ -150,12 +179,12 @@ export default app`;
 
       // Assert
       expect(result.success).toBe(true);
-      expect(result.data).toBeDefined();
-      if (result.data) {
-        expect(typeof (result.data as Record<string, unknown>).fetch).toBe(
-          "function",
-        );
-      }
+      const app = result.data as {
+        fetch: (request: Request) => Promise<Response>;
+      };
+      expect(typeof app.fetch).toBe("function");
+      const response = await app.fetch(new Request("http://localhost/test"));
+      expect(await response.json()).toEqual({ message: "test" });
     });
 
     it("無効なHonoコードでエラーを返す", async () => {
@@ -177,7 +206,8 @@ export default app`;
 import { x402 } from 'x402-hono'
 
 const app = new Hono()
-app.get('/api/paid', x402('0x123...', '$0.05'), (c) => c.json({ data: 'paid' }))
+app.get('/api/paid', x402('$0.05'), (c) => c.json({ data: 'paid' }))
+app.get('/api/legacy', x402('0x123...', '$0.05'), (c) => c.json({ data: 'paid' }))
 export default app`;
 
       // Act
@@ -186,7 +216,7 @@ export default app`;
       // Assert
       expect(result.success).toBe(true);
       expect(result.metadata?.hasPayment).toBe(true);
-      expect(result.metadata?.paymentConfig).toBeDefined();
+      expect(result.metadata?.paymentConfig).toEqual({ price: "0.05" });
     });
   });
 
@@ -194,9 +224,10 @@ export default app`;
     it("同時実行数を制限する", async () => {
       // Arrange
       const simpleCode = `
-module.exports = () => {
+const done = () => {
   return 'done'
-}`;
+}
+export default done()`;
 
       // Act
       const results = await Promise.all(
@@ -220,7 +251,7 @@ module.exports = () => {
     it("リソースクリーンアップを実行する", async () => {
       // Arrange
       const resourceCode = `
-module.exports = { active: true, cleanup: () => {} }`;
+export default { active: true, cleanup: () => {} }`;
 
       // Act
       const result = await executor.executeInSandbox(resourceCode);
@@ -0,0 +1,297 @@
+import type { Database } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SessionService } from "../services/session-service";
+import { JwtUtils } from "../utils/jwt";
+import { RefreshTokenUtils } from "../utils/refresh-token";
+import type { TokenDenylist } from "../utils/token-denylist";
+
+// Mock types for test interfaces
+interface MockSessionOperations {
+  create: ReturnType<typeof vi.fn>;
+  findById: ReturnType<typeof vi.fn>;
+  findByRefreshTokenHash: ReturnType<typeof vi.fn>;
+  findActiveByUser: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  revoke: ReturnType<typeof vi.fn>;
+  revokeAllByUser: ReturnType<typeof vi.fn>;
+}
+
+interface MockUserOperations {
+  findById: ReturnType<typeof vi.fn>;
+}
+
+interface MockTokenDenylist {
+  revoke: ReturnType<typeof vi.fn>;
+  isRevoked: ReturnType<typeof vi.fn>;
+}
+
+vi.mock("@repo/db", () => ({
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  UserOperations: vi.fn(),
+}));
+
+const jwtSecret = "test-secret-key-for-sessions";
+const userId = "123e4567-e89b-12d3-a456-426614174000";
+const otherUserId = "223e4567-e89b-12d3-a456-426614174000";
+const sessionId = "333e4567-e89b-12d3-a456-426614174000";
+
+function createMockSession(overrides: Record<string, unknown> = {}) {
+  return {
+    id: sessionId,
+    userId,
+    refreshTokenHash: "stored-hash",
+    accessTokenJti: "previous-jti",
+    userAgent: "vitest",
+    ipAddress: "127.0.0.1",
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("SessionService", () => {
+  let sessionService: SessionService;
+  let mockSessionOperations: MockSessionOperations;
+  let mockUserOperations: MockUserOperations;
+  let mockDenylist: MockTokenDenylist;
+  const jwtUtils = new JwtUtils(jwtSecret);
+  const user = {
+    userId,
+    email: "test@example.com",
+    organizationId: null,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockSessionOperations = {
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: createMockSession(data),
+      })),
+      findById: vi.fn(),
+      findByRefreshTokenHash: vi.fn(),
+      findActiveByUser: vi.fn(),
+      update: vi.fn().mockImplementation(async (_id, data) => ({
+        success: true,
+        data: createMockSession(data),
+      })),
+      revoke: vi.fn().mockResolvedValue({
+        success: true,
+        data: createMockSession({ revokedAt: new Date() }),
+      }),
+      revokeAllByUser: vi.fn(),
+    };
+    mockUserOperations = {
+      findById: vi.fn().mockResolvedValue({
+        success: true,
+        data: { id: userId, email: "test@example.com" },
+      }),
+    };
+    mockDenylist = {
+      revoke: vi.fn().mockResolvedValue(true),
+      isRevoked: vi.fn().mockResolvedValue(false),
+    };
+
+    const { OrganizationMemberOperations, SessionOperations, UserOperations } =
+      await import("@repo/db");
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => mockSessionOperations);
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => mockUserOperations,
+    );
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+
+    sessionService = new SessionService(
+      {} as Database,
+      jwtSecret,
+      mockDenylist as unknown as TokenDenylist,
+    );
+  });
+
+  describe("createSession", () => {
+    it("jti・sid付きの短命アクセストークンとリフレッシュトークンを発行する", async () => {
+      // Act
+      const result = await sessionService.createSession(user, {
+        userAgent: "vitest",
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      const payload = await jwtUtils.verify(result.data?.accessToken ?? "");
+      const saved = mockSessionOperations.create.mock.calls[0][0];
+      expect(payload.sid).toBe(saved.id);
+      expect(payload.jti).toBe(saved.accessTokenJti);
+      expect(payload.exp - payload.iat).toBe(SessionService.ACCESS_TOKEN_TTL);
+
+      // DBにはリフレッシュトークンのハッシュのみ保存する
+      const refreshToken = result.data?.refreshToken ?? "";
+      expect(saved.refreshTokenHash).toBe(
+        await new RefreshTokenUtils().hash(refreshToken),
+      );
+      expect(Object.values(saved)).not.toContain(refreshToken);
+    });
+  });
+
+  describe("refresh", () => {
+    it("リフレッシュトークンをローテーションして新しいトークンを発行する", async () => {
+      // Arrange
+      const { token, tokenHash } = await new RefreshTokenUtils().generate();
+      mockSessionOperations.findByRefreshTokenHash.mockResolvedValue({
+        success: true,
+        data: createMockSession({ refreshTokenHash: tokenHash }),
+      });
+
+      // Act
+      const result = await sessionService.refresh(token);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockSessionOperations.findByRefreshTokenHash).toHaveBeenCalledWith(
+        tokenHash,
+      );
+      const [id, updateData] = mockSessionOperations.update.mock.calls[0];
+      expect(id).toBe(sessionId);
+      expect(updateData.refreshTokenHash).not.toBe(tokenHash);
+      expect(result.data?.refreshToken).not.toBe(token);
+
+      const payload = await jwtUtils.verify(result.data?.accessToken ?? "");
+      expect(payload.sid).toBe(sessionId);
+      expect(payload.jti).toBe(updateData.accessTokenJti);
+    });
+
+    it("失効済みセッションのリフレッシュトークンは拒否する", async () => {
+      // Arrange
+      mockSessionOperations.findByRefreshTokenHash.mockResolvedValue({
+        success: true,
+        data: createMockSession({ revokedAt: new Date() }),
+      });
+
+      // Act
+      const result = await sessionService.refresh("revoked-token");
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired refresh token");
+      expect(mockSessionOperations.update).not.toHaveBeenCalled();
+    });
+
+    it("ローテーション済み（未登録）のリフレッシュトークンは拒否する", async () => {
+      // Arrange
+      mockSessionOperations.findByRefreshTokenHash.mockResolvedValue({
+        success: true,
+        data: null,
+      });
+
+      // Act
+      const result = await sessionService.refresh("rotated-token");
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired refresh token");
+    });
+  });
+
+  describe("logout", () => {
+    it("現在のアクセストークンを失効リストに登録しセッションを終了する", async () => {
+      // Arrange
+      mockSessionOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockSession(),
+      });
+      const exp = Math.floor(Date.now() / 1000) + 600;
+
+      // Act
+      const result = await sessionService.logout({
+        ...user,
+        jti: "current-jti",
+        sid: sessionId,
+        iat: exp - 900,
+        exp,
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockDenylist.revoke).toHaveBeenCalledWith("current-jti", exp);
+      expect(mockSessionOperations.revoke).toHaveBeenCalledWith(sessionId);
+    });
+  });
+
+  describe("revokeSession", () => {
+    it("セッションの最新アクセストークンも失効させる", async () => {
+      // Arrange
+      mockSessionOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockSession(),
+      });
+
+      // Act
+      const result = await sessionService.revokeSession(userId, sessionId);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(mockDenylist.revoke).toHaveBeenCalledWith(
+        "previous-jti",
+        expect.any(Number),
+      );
+    });
+
+    it("他ユーザーのセッションは失効できない", async () => {
+      // Arrange
+      mockSessionOperations.findById.mockResolvedValue({
+        success: true,
+        data: createMockSession({ userId: otherUserId }),
+      });
+
+      // Act
+      const result = await sessionService.revokeSession(userId, sessionId);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Session not found");
+      expect(mockSessionOperations.revoke).not.toHaveBeenCalled();
+      expect(mockDenylist.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revokeAllSessions", () => {
+    it("ユーザーのすべてのセッションと最新アクセストークンを失効させる", async () => {
+      // Arrange
+      mockSessionOperations.revokeAllByUser.mockResolvedValue({
+        success: true,
+        data: [
+          createMockSession({ accessTokenJti: "first-jti" }),
+          createMockSession({ accessTokenJti: "second-jti" }),
+        ],
+      });
+
+      // Act
+      const result = await sessionService.revokeAllSessions(userId);
+
+      // Assert
+      expect(result).toEqual({ success: true, data: { count: 2 } });
+      expect(mockSessionOperations.revokeAllByUser).toHaveBeenCalledWith(
+        userId,
+      );
+      expect(mockDenylist.revoke).toHaveBeenCalledWith(
+        "first-jti",
+        expect.any(Number),
+      );
+      expect(mockDenylist.revoke).toHaveBeenCalledWith(
+        "second-jti",
+        expect.any(Number),
+      );
+    });
+  });
+});
@@ -0,0 +1,453 @@
+import type { Database } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthService } from "../services/auth-service";
+import { SiweService } from "../services/siwe-service";
+import { WalletService } from "../services/wallet-service";
+import { EthereumSignatureUtils } from "../utils/ethereum-signature";
+import { keccak256 } from "../utils/keccak";
+import { type SiweMessage, SiweUtils } from "../utils/siwe";
+import { SiweNonceStore } from "../utils/siwe-nonce-store";
+
+vi.mock("@repo/db", () => ({
+  UserOperations: vi.fn(),
+  OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  PasswordResetTokenOperations: vi.fn(),
+  TwoFactorCredentialOperations: vi.fn(),
+  TwoFactorRecoveryCodeOperations: vi.fn(),
+  WalletLinkOperations: vi.fn(),
+  LoginHistoryOperations: vi.fn(),
+}));
+
+const jwtSecret = "test-secret-key-for-siwe";
+const domain = "localhost:3000";
+const chainId = 84532;
+
+// Hardhatの既定アカウント（テスト専用の公開済み秘密鍵）
+const walletA = {
+  privateKey:
+    "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  address: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+};
+const walletB = {
+  privateKey:
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  address: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+};
+
+const mockUser = {
+  id: "123e4567-e89b-12d3-a456-426614174000",
+  email: "test@example.com",
+  name: "Test User",
+  passwordHash: "hash",
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+const otherUserId = "223e4567-e89b-12d3-a456-426614174000";
+
+interface WalletLinkRow {
+  id: string;
+  userId: string;
+  address: string;
+  chainId: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// KVNamespaceのインメモリ実装
+function createMemoryKV() {
+  const store = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async () => ({
+      keys: [...store.keys()].map((name) => ({ name })),
+    })),
+  } as unknown as KVNamespace;
+}
+
+// ウォレットリンクテーブルのインメモリ実装
+class InMemoryWalletLinkStore {
+  rows: WalletLinkRow[] = [];
+
+  create = vi.fn(
+    async (data: { userId: string; address: string; chainId: number }) => {
+      const row = {
+        ...data,
+        id: crypto.randomUUID(),
+        address: data.address.toLowerCase(),
+        lastUsedAt: null,
+        createdAt: new Date(),
+      };
+      this.rows.push(row);
+      return { success: true, data: row };
+    },
+  );
+
+  findByAddress = vi.fn(async (address: string) => ({
+    success: true,
+    data:
+      this.rows.find((row) => row.address === address.toLowerCase()) ?? null,
+  }));
+
+  listByUser = vi.fn(async (userId: string) => ({
+    success: true,
+    data: this.rows.filter((row) => row.userId === userId),
+  }));
+
+  markUsed = vi.fn(async (id: string) => {
+    const row = this.rows.find((item) => item.id === id);
+    if (row) {
+      row.lastUsedAt = new Date();
+    }
+    return { success: true, data: row ?? null };
+  });
+
+  delete = vi.fn(async (id: string, userId: string) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(
+      (row) => !(row.id === id && row.userId === userId),
+    );
+    return { success: true, data: this.rows.length < before };
+  });
+}
+
+describe("Ethereum署名ユーティリティ", () => {
+  const signatureUtils = new EthereumSignatureUtils();
+  const toHex = (bytes: Uint8Array) =>
+    Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+  it("Keccak-256が既知のハッシュ値と一致する", () => {
+    // Act & Assert
+    expect(toHex(keccak256(new Uint8Array()))).toBe(
+      "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+    );
+    expect(toHex(keccak256(new TextEncoder().encode("abc")))).toBe(
+      "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+    );
+  });
+
+  it("EIP-191のメッセージハッシュが既知の値と一致する", () => {
+    // Act & Assert
+    expect(toHex(signatureUtils.hashMessage("hello"))).toBe(
+      "50b2c43fd39106bafbba0da34fc430e1f91e3c96ea2acee2bc34119f92b37750",
+    );
+  });
+
+  it("秘密鍵からチェックサム付きアドレスを導出する", () => {
+    // Act & Assert
+    expect(signatureUtils.privateKeyToAddress("0x1")).toBe(
+      "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+    );
+    expect(signatureUtils.privateKeyToAddress(walletA.privateKey)).toBe(
+      walletA.address,
+    );
+  });
+
+  it("署名から署名者のアドレスを復元し、改ざんされたメッセージでは一致しない", () => {
+    // Arrange
+    const signature = signatureUtils.signMessage("hello", walletA.privateKey);
+
+    // Act & Assert
+    expect(signatureUtils.recoverMessageAddress("hello", signature)).toBe(
+      walletA.address,
+    );
+    expect(signatureUtils.recoverMessageAddress("hello!", signature)).not.toBe(
+      walletA.address,
+    );
+    expect(signatureUtils.recoverMessageAddress("hello", "0x1234")).toBeNull();
+  });
+});
+
+describe("SiweUtils", () => {
+  const siweUtils = new SiweUtils();
+  const message: SiweMessage = {
+    domain,
+    address: walletA.address,
+    statement: "Sign in to x402 Learning Lab",
+    uri: "http://localhost:3000",
+    version: "1",
+    chainId,
+    nonce: "abcdef0123456789",
+    issuedAt: "2026-10-19T00:00:00.000Z",
+    resources: ["https://example.com/terms"],
+  };
+
+  it("組み立てたメッセージを同じ内容に解析できる", () => {
+    // Act
+    const parsed = siweUtils.parse(siweUtils.format(message));
+
+    // Assert
+    expect(parsed).toMatchObject(message);
+  });
+
+  it("ステートメントなしのメッセージを解析できる", () => {
+    // Act
+    const parsed = siweUtils.parse(
+      siweUtils.format({ ...message, statement: undefined }),
+    );
+
+    // Assert
+    expect(parsed.statement).toBeUndefined();
+    expect(parsed.nonce).toBe(message.nonce);
+  });
+
+  it("必須フィールドが欠けたメッセージを拒否する", () => {
+    // Arrange
+    const text = siweUtils
+      .format(message)
+      .replace(`Nonce: ${message.nonce}\n`, "");
+
+    // Act & Assert
+    expect(() => siweUtils.parse(text)).toThrow("Invalid SIWE message");
+  });
+});
+
+describe("Sign-In With Ethereum", () => {
+  let walletStore: InMemoryWalletLinkStore;
+  let siweService: SiweService;
+  let authService: AuthService;
+  let walletService: WalletService;
+  const siweUtils = new SiweUtils();
+  const signatureUtils = new EthereumSignatureUtils();
+  const mockDatabase = {} as Database;
+
+  // nonceを発行し、ウォレットで署名したSIWEメッセージを作成する
+  const signIn = async (
+    wallet: { privateKey: string; address: string },
+    overrides: Partial<SiweMessage> = {},
+  ) => {
+    const nonceResult = await siweService.issueNonce();
+    const message = siweUtils.format({
+      domain,
+      address: wallet.address,
+      statement: "Sign in to x402 Learning Lab",
+      uri: `http://${domain}`,
+      version: "1",
+      chainId,
+      nonce: nonceResult.data?.nonce ?? "",
+      issuedAt: new Date().toISOString(),
+      ...overrides,
+    });
+    return {
+      message,
+      signature: signatureUtils.signMessage(message, wallet.privateKey),
+    };
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    walletStore = new InMemoryWalletLinkStore();
+
+    const {
+      UserOperations,
+      OrganizationMemberOperations,
+      SessionOperations,
+      TwoFactorCredentialOperations,
+      WalletLinkOperations,
+      LoginHistoryOperations,
+    } = await import("@repo/db");
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => ({
+        findById: vi.fn().mockResolvedValue({ success: true, data: mockUser }),
+      }),
+    );
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, lastUsedAt: null, createdAt: new Date() },
+      })),
+    }));
+    (
+      TwoFactorCredentialOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findByUser: vi.fn().mockResolvedValue({ success: true, data: null }),
+    }));
+    // ログイン履歴の記録は常に成功させ、過去の履歴なしとして扱う
+    (
+      LoginHistoryOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      hasSuccessfulLogin: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+      hasSuccessfulLoginFromIp: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+    }));
+    (
+      WalletLinkOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => walletStore);
+
+    siweService = new SiweService(
+      { domain, chainIds: [chainId] },
+      new SiweNonceStore(createMemoryKV()),
+    );
+    authService = new AuthService(
+      mockDatabase,
+      jwtSecret,
+      undefined,
+      siweService,
+    );
+    walletService = new WalletService(mockDatabase, siweService);
+  });
+
+  describe("ウォレットのリンク", () => {
+    it("1つのアカウントに複数のウォレットをリンクできる", async () => {
+      // Act
+      const first = await walletService.linkWallet(
+        mockUser.id,
+        await signIn(walletA),
+      );
+      const second = await walletService.linkWallet(
+        mockUser.id,
+        await signIn(walletB),
+      );
+
+      // Assert
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(true);
+      const listResult = await walletService.listWallets(mockUser.id);
+      expect(listResult.data?.map((wallet) => wallet.address)).toEqual([
+        walletA.address,
+        walletB.address,
+      ]);
+    });
+
+    it("他のアカウントにリンク済みのウォレットはリンクできない", async () => {
+      // Arrange
+      await walletService.linkWallet(otherUserId, await signIn(walletA));
+
+      // Act
+      const result = await walletService.linkWallet(
+        mockUser.id,
+        await signIn(walletA),
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Wallet is linked to another account");
+    });
+
+    it("リンクを解除できるのは所有者のみ", async () => {
+      // Arrange
+      const linkResult = await walletService.linkWallet(
+        mockUser.id,
+        await signIn(walletA),
+      );
+      const walletId = linkResult.data?.id ?? "";
+
+      // Act
+      const otherResult = await walletService.unlinkWallet(
+        otherUserId,
+        walletId,
+      );
+      const ownerResult = await walletService.unlinkWallet(
+        mockUser.id,
+        walletId,
+      );
+
+      // Assert
+      expect(otherResult.error).toBe("Wallet not found");
+      expect(ownerResult.success).toBe(true);
+      expect(walletStore.rows).toHaveLength(0);
+    });
+  });
+
+  describe("ウォレットでのログイン", () => {
+    it("リンク済みウォレットの署名でトークンを発行する", async () => {
+      // Arrange
+      await walletService.linkWallet(mockUser.id, await signIn(walletB));
+
+      // Act
+      const result = await authService.loginWithWallet(await signIn(walletB));
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveProperty("token");
+      expect(result.data).toMatchObject({ user: { id: mockUser.id } });
+      expect(walletStore.rows[0].lastUsedAt).not.toBeNull();
+    });
+
+    it("未リンクのウォレットではログインできない", async () => {
+      // Act
+      const result = await authService.loginWithWallet(await signIn(walletA));
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Wallet not linked");
+    });
+
+    it("同じnonceの署名は再利用できない", async () => {
+      // Arrange
+      await walletService.linkWallet(mockUser.id, await signIn(walletA));
+      const input = await signIn(walletA);
+      await authService.loginWithWallet(input);
+
+      // Act
+      const result = await authService.loginWithWallet(input);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired nonce");
+    });
+
+    it("メッセージのアドレスと署名者が異なる場合は拒否する", async () => {
+      // Arrange
+      await walletService.linkWallet(mockUser.id, await signIn(walletA));
+      const { message } = await signIn(walletA);
+
+      // Act
+      const result = await authService.loginWithWallet({
+        message,
+        signature: signatureUtils.signMessage(message, walletB.privateKey),
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid signature");
+    });
+
+    it("他ドメイン・対象外チェーン・期限切れのメッセージを拒否する", async () => {
+      // Arrange
+      await walletService.linkWallet(mockUser.id, await signIn(walletA));
+
+      // Act
+      const otherDomain = await authService.loginWithWallet(
+        await signIn(walletA, { domain: "evil.example.com" }),
+      );
+      const otherChain = await authService.loginWithWallet(
+        await signIn(walletA, { chainId: 1 }),
+      );
+      const expired = await authService.loginWithWallet(
+        await signIn(walletA, {
+          expirationTime: new Date(Date.now() - 1000).toISOString(),
+        }),
+      );
+
+      // Assert
+      expect(otherDomain.error).toBe("Invalid SIWE message");
+      expect(otherChain.error).toBe("Invalid SIWE message");
+      expect(expired.error).toBe("SIWE message is not valid at this time");
+    });
+  });
+});
@@ -0,0 +1,453 @@
+import type { Database } from "@repo/db";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthService } from "../services/auth-service";
+import { TwoFactorService } from "../services/two-factor-service";
+import { TotpUtils } from "../utils/totp";
+
+vi.mock("@repo/db", () => ({
+  UserOperations: vi.fn(),
+  OrganizationOperations: vi.fn(),
+  OrganizationMemberOperations: vi.fn(),
+  SessionOperations: vi.fn(),
+  PasswordResetTokenOperations: vi.fn(),
+  TwoFactorCredentialOperations: vi.fn(),
+  TwoFactorRecoveryCodeOperations: vi.fn(),
+  WalletLinkOperations: vi.fn(),
+  LoginHistoryOperations: vi.fn(),
+}));
+
+// パスワード検証は常に成功させる（二要素認証の挙動のみを確認する）
+vi.mock("../utils/password", () => ({
+  PasswordUtils: vi.fn().mockImplementation(() => ({
+    hash: vi.fn().mockResolvedValue("mocked-hash"),
+    verify: vi.fn().mockResolvedValue(true),
+  })),
+}));
+
+const jwtSecret = "test-secret-key-for-two-factor";
+const mockUser = {
+  id: "123e4567-e89b-12d3-a456-426614174000",
+  email: "test@example.com",
+  name: "Test User",
+  passwordHash: "hash",
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+interface CredentialRow {
+  userId: string;
+  encryptedSecret: string;
+  enabledAt: Date | null;
+  lastUsedStep: number | null;
+}
+
+interface RecoveryCodeRow {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+}
+
+// 二要素認証登録テーブルのインメモリ実装
+class InMemoryCredentialStore {
+  rows = new Map<string, CredentialRow>();
+
+  findByUser = vi.fn(async (userId: string) => ({
+    success: true,
+    data: this.rows.get(userId) ?? null,
+  }));
+
+  savePending = vi.fn(async (userId: string, encryptedSecret: string) => {
+    const row = {
+      userId,
+      encryptedSecret,
+      enabledAt: null,
+      lastUsedStep: null,
+    };
+    this.rows.set(userId, row);
+    return { success: true, data: row };
+  });
+
+  enable = vi.fn(async (userId: string, step: number) => {
+    const row = this.rows.get(userId);
+    if (row) {
+      row.enabledAt = new Date();
+      row.lastUsedStep = step;
+    }
+    return { success: true, data: row ?? null };
+  });
+
+  consumeStep = vi.fn(async (userId: string, step: number) => {
+    const row = this.rows.get(userId);
+    if (!row || (row.lastUsedStep !== null && row.lastUsedStep >= step)) {
+      return { success: true, data: false };
+    }
+    row.lastUsedStep = step;
+    return { success: true, data: true };
+  });
+
+  deleteByUser = vi.fn(async (userId: string) => ({
+    success: true,
+    data: this.rows.delete(userId),
+  }));
+}
+
+// リカバリーコードテーブルのインメモリ実装
+class InMemoryRecoveryCodeStore {
+  rows: RecoveryCodeRow[] = [];
+
+  replaceAll = vi.fn(async (userId: string, codeHashes: string[]) => {
+    this.rows = this.rows.filter((row) => row.userId !== userId);
+    const created = codeHashes.map((codeHash) => ({
+      id: crypto.randomUUID(),
+      userId,
+      codeHash,
+      usedAt: null,
+    }));
+    this.rows.push(...created);
+    return { success: true, data: created };
+  });
+
+  findUnusedByUser = vi.fn(async (userId: string) => ({
+    success: true,
+    data: this.rows.filter((row) => row.userId === userId && !row.usedAt),
+  }));
+
+  markUsed = vi.fn(async (id: string) => {
+    const row = this.rows.find((item) => item.id === id && !item.usedAt);
+    if (row) {
+      row.usedAt = new Date();
+    }
+    return { success: true, data: row ?? null };
+  });
+
+  deleteByUser = vi.fn(async (userId: string) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter((row) => row.userId !== userId);
+    return { success: true, data: before - this.rows.length };
+  });
+}
+
+describe("TotpUtils", () => {
+  const totp = new TotpUtils();
+  // RFC 6238 付録Bのシークレット（ASCII "12345678901234567890"）
+  const rfcSecret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+  it("RFC 6238のテストベクタと一致するコードを生成する", async () => {
+    // Act & Assert（8桁の期待値の下6桁）
+    expect(await totp.generate(rfcSecret, totp.timeStep(59_000))).toBe(
+      "287082",
+    );
+    expect(
+      await totp.generate(rfcSecret, totp.timeStep(1_111_111_109_000)),
+    ).toBe("081804");
+  });
+
+  it("前後1ステップのずれまで許容し、一致したステップを返す", async () => {
+    // Arrange
+    const now = 1_111_111_109_000;
+    const step = totp.timeStep(now);
+
+    // Act & Assert
+    expect(
+      await totp.verify(
+        rfcSecret,
+        await totp.generate(rfcSecret, step - 1),
+        now,
+      ),
+    ).toBe(step - 1);
+    expect(
+      await totp.verify(
+        rfcSecret,
+        await totp.generate(rfcSecret, step + 2),
+        now,
+      ),
+    ).toBeNull();
+  });
+
+  it("認証アプリ登録用のotpauth URIを生成する", () => {
+    // Act
+    const uri = totp.provisioningUri(rfcSecret, "test@example.com", "Issuer");
+
+    // Assert
+    expect(uri.startsWith("otpauth://totp/Issuer%3Atest%40example.com?")).toBe(
+      true,
+    );
+    const url = new URL(uri);
+    expect(url.searchParams.get("secret")).toBe(rfcSecret);
+    expect(url.searchParams.get("digits")).toBe("6");
+    expect(url.searchParams.get("period")).toBe("30");
+  });
+});
+
+describe("二要素認証", () => {
+  let credentialStore: InMemoryCredentialStore;
+  let recoveryCodeStore: InMemoryRecoveryCodeStore;
+  let twoFactorService: TwoFactorService;
+  let authService: AuthService;
+  const totp = new TotpUtils();
+  const mockDatabase = {} as Database;
+
+  // 登録を完了し、シークレットとリカバリーコードを返す
+  const enroll = async () => {
+    const enrollResult = await twoFactorService.beginEnrollment(mockUser.id);
+    const secret = enrollResult.data?.secret ?? "";
+    const confirmResult = await twoFactorService.confirmEnrollment(
+      mockUser.id,
+      { code: await totp.generate(secret, totp.timeStep()) },
+    );
+    return { secret, recoveryCodes: confirmResult.data?.recoveryCodes ?? [] };
+  };
+
+  // 登録時に使用したステップの次のコード（再利用防止に抵触しない）
+  const nextCode = (secret: string) =>
+    totp.generate(secret, totp.timeStep() + 1);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    credentialStore = new InMemoryCredentialStore();
+    recoveryCodeStore = new InMemoryRecoveryCodeStore();
+
+    const {
+      UserOperations,
+      OrganizationMemberOperations,
+      SessionOperations,
+      TwoFactorCredentialOperations,
+      TwoFactorRecoveryCodeOperations,
+      LoginHistoryOperations,
+    } = await import("@repo/db");
+    (UserOperations as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      () => ({
+        findByEmail: vi
+          .fn()
+          .mockResolvedValue({ success: true, data: mockUser }),
+        findById: vi.fn().mockResolvedValue({ success: true, data: mockUser }),
+        incrementFailedLoginAttempts: vi
+          .fn()
+          .mockResolvedValue({ success: true, data: 1 }),
+      }),
+    );
+    (
+      OrganizationMemberOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      findPrimaryOrganizationId: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: null }),
+    }));
+    (
+      SessionOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockImplementation(async (data) => ({
+        success: true,
+        data: { ...data, lastUsedAt: null, createdAt: new Date() },
+      })),
+    }));
+    (
+      TwoFactorCredentialOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => credentialStore);
+    (
+      TwoFactorRecoveryCodeOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => recoveryCodeStore);
+    // ログイン履歴の記録は常に成功させ、過去の履歴なしとして扱う
+    (
+      LoginHistoryOperations as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(() => ({
+      create: vi.fn().mockResolvedValue({ success: true, data: {} }),
+      hasSuccessfulLogin: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+      hasSuccessfulLoginFromIp: vi
+        .fn()
+        .mockResolvedValue({ success: true, data: false }),
+    }));
+
+    twoFactorService = new TwoFactorService(mockDatabase, jwtSecret);
+    authService = new AuthService(mockDatabase, jwtSecret);
+  });
+
+  describe("登録", () => {
+    it("シークレットは暗号化して保存し、コード確認後に有効化される", async () => {
+      // Act
+      const enrollResult = await twoFactorService.beginEnrollment(mockUser.id);
+
+      // Assert
+      expect(enrollResult.success).toBe(true);
+      const secret = enrollResult.data?.secret ?? "";
+      expect(enrollResult.data?.otpauthUri).toContain(`secret=${secret}`);
+      const stored = credentialStore.rows.get(mockUser.id);
+      expect(stored?.encryptedSecret).not.toContain(secret);
+      expect(stored?.enabledAt).toBeNull();
+      expect((await twoFactorService.isEnabled(mockUser.id)).data).toBe(false);
+
+      // Act
+      const confirmResult = await twoFactorService.confirmEnrollment(
+        mockUser.id,
+        { code: await totp.generate(secret, totp.timeStep()) },
+      );
+
+      // Assert
+      expect(confirmResult.success).toBe(true);
+      expect(confirmResult.data?.recoveryCodes).toHaveLength(10);
+      expect((await twoFactorService.isEnabled(mockUser.id)).data).toBe(true);
+      // リカバリーコードはハッシュのみ保存される
+      const storedHashes = recoveryCodeStore.rows.map((row) => row.codeHash);
+      for (const code of confirmResult.data?.recoveryCodes ?? []) {
+        expect(storedHashes).not.toContain(code);
+      }
+    });
+
+    it("誤ったコードでは有効化されない", async () => {
+      // Arrange
+      await twoFactorService.beginEnrollment(mockUser.id);
+
+      // Act
+      const result = await twoFactorService.confirmEnrollment(mockUser.id, {
+        code: "000000",
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid two-factor code");
+      expect((await twoFactorService.isEnabled(mockUser.id)).data).toBe(false);
+    });
+
+    it("有効化済みの場合は再登録できない", async () => {
+      // Arrange
+      await enroll();
+
+      // Act
+      const result = await twoFactorService.beginEnrollment(mockUser.id);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Two-factor authentication already enabled");
+    });
+  });
+
+  describe("2段階ログイン", () => {
+    const credentials = { email: mockUser.email, password: "Password123!" };
+
+    it("二要素認証が無効ならパスワードのみでトークンを発行する", async () => {
+      // Act
+      const result = await authService.login(credentials);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveProperty("token");
+      expect(result.data).not.toHaveProperty("twoFactorRequired");
+    });
+
+    it("有効な場合はチャレンジトークンを返し、TOTPコードでログインを完了する", async () => {
+      // Arrange
+      const { secret } = await enroll();
+
+      // Act
+      const loginResult = await authService.login(credentials);
+
+      // Assert
+      expect(loginResult.success).toBe(true);
+      expect(loginResult.data).not.toHaveProperty("token");
+      const challenge = loginResult.data as { challengeToken: string };
+      expect(loginResult.data).toMatchObject({ twoFactorRequired: true });
+
+      // Act
+      const completeResult = await authService.completeTwoFactorLogin({
+        challengeToken: challenge.challengeToken,
+        code: await nextCode(secret),
+      });
+
+      // Assert
+      expect(completeResult.success).toBe(true);
+      expect(completeResult.data?.token).toBeTruthy();
+      expect(completeResult.data?.user.id).toBe(mockUser.id);
+    });
+
+    it("同じTOTPコードは再利用できない", async () => {
+      // Arrange
+      const { secret } = await enroll();
+      const code = await nextCode(secret);
+      const first = await authService.login(credentials);
+      const second = await authService.login(credentials);
+      const firstChallenge = first.data as { challengeToken: string };
+      const secondChallenge = second.data as { challengeToken: string };
+      await authService.completeTwoFactorLogin({
+        challengeToken: firstChallenge.challengeToken,
+        code,
+      });
+
+      // Act
+      const result = await authService.completeTwoFactorLogin({
+        challengeToken: secondChallenge.challengeToken,
+        code,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid two-factor code");
+    });
+
+    it("リカバリーコードでログインでき、同じコードは一度しか使えない", async () => {
+      // Arrange
+      const { recoveryCodes } = await enroll();
+      const first = await authService.login(credentials);
+      const challenge = first.data as { challengeToken: string };
+
+      // Act
+      const result = await authService.completeTwoFactorLogin({
+        challengeToken: challenge.challengeToken,
+        code: recoveryCodes[0],
+      });
+      const reused = await authService.completeTwoFactorLogin({
+        challengeToken: challenge.challengeToken,
+        code: recoveryCodes[0],
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(reused.success).toBe(false);
+      expect(reused.error).toBe("Invalid two-factor code");
+    });
+
+    it("改ざんされたチャレンジトークンを拒否する", async () => {
+      // Arrange
+      const { secret } = await enroll();
+
+      // Act
+      const result = await authService.completeTwoFactorLogin({
+        challengeToken: "invalid.token",
+        code: await nextCode(secret),
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Invalid or expired challenge");
+    });
+  });
+
+  describe("無効化", () => {
+    it("現在のコードを確認して登録とリカバリーコードを削除する", async () => {
+      // Arrange
+      const { secret } = await enroll();
+
+      // Act
+      const result = await twoFactorService.disable(mockUser.id, {
+        code: await nextCode(secret),
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(credentialStore.rows.size).toBe(0);
+      expect(recoveryCodeStore.rows).toHaveLength(0);
+      expect(
+        (
+          await authService.login({
+            email: mockUser.email,
+            password: "Password123!",
+          })
+        ).data,
+      ).toHaveProperty("token");
+    });
+  });
+});
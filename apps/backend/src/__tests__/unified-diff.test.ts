@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "../utils/unified-diff";
+
+// 1〜n行目のテキスト
+const numberedLines = (count: number) =>
+  Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+describe("createUnifiedDiff", () => {
+  it("変更行の前後3行を文脈として含むハンクを出力する", () => {
+    // Arrange
+    const oldLines = numberedLines(10);
+    const newLines = [...oldLines];
+    newLines[4] = "line 5 changed";
+
+    // Act
+    const diff = createUnifiedDiff(
+      `${oldLines.join("\n")}\n`,
+      `${newLines.join("\n")}\n`,
+      { oldLabel: "a/index.ts", newLabel: "b/index.ts" },
+    );
+
+    // Assert
+    expect(diff).toBe(
+      [
+        "--- a/index.ts",
+        "+++ b/index.ts",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line 5 changed",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("離れた変更は別のハンクに分け、行番号を追加・削除に合わせてずらす", () => {
+    // Arrange
+    const oldLines = numberedLines(20);
+    const newLines = [
+      "header",
+      ...oldLines.slice(0, 15),
+      ...oldLines.slice(16),
+    ];
+
+    // Act
+    const diff = createUnifiedDiff(oldLines.join("\n"), newLines.join("\n"));
+
+    // Assert
+    const hunkHeaders = diff
+      .split("\n")
+      .filter((line) => line.startsWith("@@"));
+    expect(hunkHeaders).toEqual(["@@ -1,3 +1,4 @@", "@@ -13,7 +14,6 @@"]);
+    expect(diff).toContain("\n-line 16\n");
+  });
+
+  it("空のテキストからの追加は旧側の範囲を0行で表す", () => {
+    // Act
+    const diff = createUnifiedDiff("", "first\nsecond\n");
+
+    // Assert
+    expect(diff).toBe("--- a\n+++ b\n@@ -0,0 +1,2 @@\n+first\n+second\n");
+  });
+
+  it("差分がなければ空文字列を返す（末尾の改行の有無は区別しない）", () => {
+    // Act & Assert
+    expect(createUnifiedDiff("same\ntext\n", "same\ntext")).toBe("");
+  });
+});
@@ -1,11 +1,21 @@
+import { createClient, UserOperations } from "@repo/db";
 import { Hono } from "hono";
 import { paymentMiddleware } from "x402-hono";
-import { jwtAuth } from "./middleware/auth";
+import {
+  apiKeyAuth,
+  jwtAuth,
+  requireVerifiedEmail,
+} from "./middleware/auth";
+import { apiKeyRoutes } from "./routes/api-keys";
 import { authRoutes } from "./routes/auth";
 import { generatorRoutes } from "./routes/generator";
 import { healthRoutes } from "./routes/health";
+import { organizationRoutes } from "./routes/organizations";
+import { ApiKeyService } from "./services/api-key-service";
+import { ApiRevisionService } from "./services/api-revision-service";
 import { DynamicDeploymentService } from "./services/dynamic-deployment-service";
-import { errorHandler } from "./middleware/error-handler";
+import { TokenDenylist } from "./utils/token-denylist";
+import { errorHandler, handleApplicationError } from "./middleware/error-handler";
 import { 
   performanceMonitor,
   responseTimeHeader,
@@ -27,7 +37,30 @@ const metricsCollector = MetricsCollector.initialize();
 const rateLimiter = RateLimiter.initialize();
 
 // 動的デプロイメントサービスを初期化
-const dynamicDeploymentService = new DynamicDeploymentService(app);
+// 生成APIへの支払いはディスパッチャーがx402-honoで検証し、プラットフォームのウォレットで受け取る
+// ウォレットが設定されていなければ支払いを受け付けない（価格を設定したルートは常に402を返す）
+const paymentWallet = DynamicDeploymentService.paymentWallet(
+  process.env.X402_WALLET_ADDRESS,
+);
+if (!paymentWallet) {
+  console.warn(
+    "X402_WALLET_ADDRESS is not set to a wallet address: paid generated APIs will not accept payments",
+  );
+}
+const dynamicDeploymentService = new DynamicDeploymentService(
+  paymentWallet
+    ? { payment: { payTo: paymentWallet, middleware: paymentMiddleware } }
+    : {},
+);
+
+// 昇格したカナリア（閾値による自動昇格を含む）のリビジョンをAPIの現在のコードにする
+dynamicDeploymentService.onCanaryCompleted(async (completion) => {
+  const { db } = await createClient();
+  const result = await new ApiRevisionService(db).applyCanaryCompletion(completion);
+  if (!result.success) {
+    console.warn("Failed to apply promoted canary:", result.error);
+  }
+});
 
 // グローバルにアクセス可能にする
 (
@@ -50,15 +83,68 @@ app.use("*", rateLimitMiddleware()); // レート制限
 app.use("*", responseTimeHeader()); // レスポンス時間ヘッダー
 app.use("*", performanceMonitor()); // パフォーマンス監視
 app.use("*", errorHandler()); // エラーハンドリング
+app.onError(handleApplicationError); // ルート内でthrowされたApplicationErrorの応答変換
 
 // JWT認証ミドルウェア設定
 const JWT_SECRET = process.env.JWT_SECRET || "development-jwt-secret-key";
 
-// 認証が必要なルート（register/loginは除く）
-app.use("/internal/auth/profile", jwtAuth({ secretKey: JWT_SECRET }));
-app.use("/auth/*", jwtAuth({ secretKey: JWT_SECRET }));
-app.use("/internal/user/*", jwtAuth({ secretKey: JWT_SECRET }));
-app.use("/internal/generator/*", jwtAuth({ secretKey: JWT_SECRET }));
+// APIキー検証（CIスクリプトなどJWTを持たないクライアント用）
+const verifyApiKey = async (key: string) => {
+  const { db } = await createClient();
+  const result = await new ApiKeyService(db).authenticate(key);
+  return result.success && result.data ? result.data : null;
+};
+
+// ログアウト・セッション失効で登録されたjtiを拒否するJWT認証
+const tokenDenylist = new TokenDenylist();
+const authenticate = jwtAuth({
+  secretKey: JWT_SECRET,
+  isRevoked: (jti) => tokenDenylist.isRevoked(jti),
+});
+
+// 認証が必要なルート（register/login/refreshは除く）
+app.use("/internal/auth/profile", authenticate);
+app.use("/internal/auth/logout", authenticate);
+app.use("/internal/auth/sessions/*", authenticate);
+app.use("/internal/auth/login-history", authenticate);
+app.use("/internal/auth/verify-email/request", authenticate);
+app.use("/internal/auth/2fa/*", authenticate);
+app.use("/internal/auth/wallets/*", authenticate);
+app.use("/auth/*", authenticate);
+app.use("/internal/user/*", authenticate);
+app.use("/internal/api-keys/*", authenticate);
+app.use("/internal/organizations/*", authenticate);
+// API生成はX-API-Keyヘッダーがあればキー認証、なければJWT認証
+app.use(
+  "/internal/generator/*",
+  apiKeyAuth({
+    verifyKey: verifyApiKey,
+    fallback: authenticate,
+  }),
+);
+
+// メールアドレス未確認ユーザーのAPI生成・デプロイを拒否（環境変数で有効化）
+if (process.env.REQUIRE_EMAIL_VERIFICATION === "true") {
+  app.on(
+    "POST",
+    [
+      "/internal/generator/create",
+      "/internal/generator/create/stream",
+      "/internal/generator/from-template/:templateId",
+      "/internal/generator/:id/improve",
+      "/internal/generator/:id/revisions/:revision/deploy",
+      "/internal/generator/:id/revisions/:revision/canary",
+      "/internal/generator/deploy/*",
+    ],
+    requireVerifiedEmail({
+      isVerified: async (userId) => {
+        const { db } = await createClient();
+        const result = await new UserOperations(db).findById(userId);
+        return result.success && result.data?.emailVerified === true;
+      },
+    }),
+  );
+}
 
 // ヘルスチェックルート（認証不要）
 app.route("/health", healthRoutes);
@@ -66,6 +152,12 @@ app.route("/health", healthRoutes);
 // 認証関連ルート（register/loginは認証不要、profileは認証必要）
 app.route("/internal/auth", authRoutes);
 
+// APIキー管理ルート（JWT認証必要）
+app.route("/internal/api-keys", apiKeyRoutes);
+
+// 組織管理ルート（JWT認証必要）
+app.route("/internal/organizations", organizationRoutes);
+
 // API生成関連ルート（認証必要）
 app.route("/internal/generator", generatorRoutes);
 
@@ -95,12 +187,28 @@ app.get("/", (c) => {
     version: "1.0.0",
     endpoints: {
       free: ["/"],
-      auth: ["/internal/auth/register", "/internal/auth/login"],
+      auth: [
+        "/internal/auth/register",
+        "/internal/auth/login",
+        "/internal/auth/login/2fa",
+        "/internal/auth/siwe/nonce",
+        "/internal/auth/siwe/verify",
+        "/internal/auth/refresh",
+        "/internal/auth/verify-email/confirm",
+      ],
       protected: ["/protected/demo", "/protected/weather"],
       authenticated: [
         "/auth/profile",
         "/internal/auth/profile",
+        "/internal/auth/logout",
+        "/internal/auth/sessions",
+        "/internal/auth/login-history",
+        "/internal/auth/verify-email/request",
+        "/internal/auth/2fa/*",
+        "/internal/auth/wallets",
         "/internal/user/stats",
+        "/internal/api-keys",
+        "/internal/organizations",
         "/internal/generator/*",
       ],
     },
@@ -159,6 +267,10 @@ app.get("/internal/user/stats", (c) => {
   });
 });
 
+// デプロイ中の生成API（他のルートに一致しないリクエストを公開中のルートに振り分ける）
+// キャッシュに無いルートはKVから復元するため、固定のルートより後に登録する
+app.use("*", dynamicDeploymentService.dispatcher());
+
 // Hono RPCクライアント用の型をエクスポート
 export type AppType = typeof app;
 
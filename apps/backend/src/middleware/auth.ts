@@ -1,18 +1,35 @@
+import type { ApiScope } from "@repo/shared/auth";
 import type { Context, MiddlewareHandler, Next } from "hono";
 import { type JwtPayload, JwtUtils } from "../utils/jwt";
+import { AuthorizationError } from "./error-handler";
 
 // Honoのコンテキストを拡張してuser情報を追加
 declare module "hono" {
   interface ContextVariableMap {
     user: JwtPayload;
     requestId: string;
+    apiKeyId: string;
   }
 }
 
 export interface JwtAuthOptions {
   secretKey: string;
+  // jtiが失効リストに登録されているか判定する（例: TokenDenylist.isRevoked）
+  isRevoked?: (jti: string) => Promise<boolean>;
 }
 
+export interface ApiKeyAuthOptions {
+  // 平文APIキーを検証し、キー所有者の情報を返す（無効な場合はnull）
+  verifyKey: (key: string) => Promise<{
+    apiKeyId: string;
+    user: Omit<JwtPayload, "iat" | "exp">;
+  } | null>;
+  // X-API-Keyヘッダーがない場合に委譲する認証（例: jwtAuth）
+  fallback?: MiddlewareHandler;
+}
+
+export const API_KEY_HEADER = "X-API-Key";
+
 export function jwtAuth(options: JwtAuthOptions): MiddlewareHandler {
   const jwtUtils = new JwtUtils(options.secretKey);
 
@@ -36,6 +53,13 @@ export function jwtAuth(options: JwtAuthOptions): MiddlewareHandler {
       // JWTトークンを検証
       const payload = await jwtUtils.verify(token);
 
+      // 失効済みトークンの拒否
+      if (payload.jti && options.isRevoked) {
+        if (await options.isRevoked(payload.jti)) {
+          return c.json({ error: "Token has been revoked" }, 401);
+        }
+      }
+
       // ユーザー情報をコンテキストに設定
       c.set("user", payload);
 
@@ -47,3 +71,79 @@ export function jwtAuth(options: JwtAuthOptions): MiddlewareHandler {
     }
   };
 }
+
+export function apiKeyAuth(options: ApiKeyAuthOptions): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const apiKey = c.req.header(API_KEY_HEADER);
+
+    // APIキーが提示されていなければフォールバック認証に委譲
+    if (!apiKey) {
+      if (options.fallback) {
+        return await options.fallback(c, next);
+      }
+      return c.json({ error: `${API_KEY_HEADER} header is required` }, 401);
+    }
+
+    let principal: Awaited<ReturnType<ApiKeyAuthOptions["verifyKey"]>>;
+    try {
+      principal = await options.verifyKey(apiKey);
+    } catch (_error) {
+      principal = null;
+    }
+
+    if (!principal) {
+      return c.json({ error: "Invalid or expired API key" }, 401);
+    }
+
+    // APIキーは毎リクエスト検証するため、iat/expはリクエスト単位で設定
+    const now = Math.floor(Date.now() / 1000);
+    c.set("user", { ...principal.user, iat: now, exp: now });
+    c.set("apiKeyId", principal.apiKeyId);
+
+    return await next();
+  };
+}
+
+/**
+ * 指定スコープをすべて保持しているか検証する（jwtAuth/apiKeyAuthの後段で使用）
+ */
+export function requireScope(...scopes: ApiScope[]): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const user = c.get("user");
+
+    // scopesクレームのないトークンはスコープ導入前に発行されたもので、全権限を持つ
+    if (user?.scopes) {
+      const granted = user.scopes;
+      const missing = scopes.filter((scope) => !granted.includes(scope));
+      if (missing.length > 0) {
+        throw new AuthorizationError(
+          `Missing required scope: ${missing.join(", ")}`,
+        );
+      }
+    }
+
+    return await next();
+  };
+}
+
+export interface VerifiedEmailOptions {
+  // ユーザーのメールアドレスが確認済みか判定する
+  isVerified: (userId: string) => Promise<boolean>;
+}
+
+/**
+ * メールアドレス未確認のユーザーを拒否する（jwtAuth/apiKeyAuthの後段で使用）
+ */
+export function requireVerifiedEmail(
+  options: VerifiedEmailOptions,
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const user = c.get("user");
+
+    if (!(await options.isVerified(user.userId))) {
+      throw new AuthorizationError("Email verification required");
+    }
+
+    return await next();
+  };
+}
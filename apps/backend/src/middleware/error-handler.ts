@@ -261,6 +261,27 @@ export function errorHandler() {
   };
 }
 
+/**
+ * app.onError用ハンドラー
+ * Honoではルートやミドルウェアでthrowされたエラーは外側のミドルウェアに伝播しないため、ここで応答に変換する
+ */
+export async function handleApplicationError(error: Error, c: Context) {
+  const requestId = c.get("requestId") || crypto.randomUUID();
+  const userId = c.get("user")?.userId;
+  const appError = classifyError(error, requestId, userId);
+
+  await createRequestLogger(requestId, userId).error("Request failed", {
+    endpoint: c.req.url,
+    method: c.req.method,
+    statusCode: appError.statusCode,
+    errorCode: appError.code,
+    errorMessage: appError.message,
+  });
+
+  const includeDetails = process.env.NODE_ENV !== "production";
+  return c.json(formatErrorResponse(appError, includeDetails), appError.statusCode as 400 | 401 | 403 | 404 | 409 | 429 | 500 | 503 | 504);
+}
+
 /**
  * 非同期処理用エラーハンドラー
  */
@@ -61,6 +61,8 @@ async function recordMetrics(
   error?: unknown,
 ): Promise<void> {
   try {
+    // 生成APIへのリクエストはディスパッチャーが振り分けたバージョンを記録する
+    const deployment = c.get("deployment");
     const metric: ApiMetrics = {
       endpoint: new URL(c.req.url).pathname,
       method: c.req.method,
@@ -71,6 +73,8 @@ async function recordMetrics(
       userAgent: c.req.header("User-Agent"),
       ipAddress: c.req.header("CF-Connecting-IP") || c.req.header("X-Forwarded-For"),
       errorCode: error instanceof Error ? error.message : undefined,
+      apiId: deployment?.apiId,
+      apiVersion: deployment?.version,
     };
 
     await metricsCollector.recordMetric(metric);
@@ -171,7 +175,7 @@ export function corsMiddleware() {
     // プリフライトリクエストの高速処理
     if (c.req.method === "OPTIONS") {
       c.res.headers.set("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-      c.res.headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Request-ID");
+      c.res.headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Request-ID, X-API-Key");
       c.res.headers.set("Access-Control-Max-Age", "86400"); // 24時間キャッシュ
       
       if (origin && allowedOrigins.includes(origin)) {
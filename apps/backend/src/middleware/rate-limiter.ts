@@ -32,6 +32,12 @@ const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
       headers: true,
       message: "API generation limit exceeded. Please try again later.",
     },
+    "POST /internal/generator/create/stream": {
+      windowMs: 60 * 60 * 1000, // 1時間
+      maxRequests: 10,          // 10リクエスト/1時間
+      headers: true,
+      message: "API generation limit exceeded. Please try again later.",
+    },
     // 認証エンドポイントも制限
     "POST /internal/auth/login": {
       windowMs: 15 * 60 * 1000, // 15分
@@ -0,0 +1,132 @@
+import type { Database } from "@repo/db";
+import { createClient } from "@repo/db";
+import { Hono } from "hono";
+import { ApiKeyService } from "../services/api-key-service";
+
+const apiKeyRoutes = new Hono();
+
+// Database connection helper
+async function getDatabaseConnection(): Promise<Database> {
+  const connection = await createClient();
+  return connection.db;
+}
+
+// POST / - APIキー発行（平文キーはこのレスポンスでのみ返却）
+apiKeyRoutes.post("/", async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const apiKeyService = new ApiKeyService(database);
+
+    const result = await apiKeyService.createKey(
+      user.userId,
+      user.organizationId,
+      body,
+    );
+
+    if (!result.success) {
+      if (result.error === "Validation failed") {
+        return c.json(
+          {
+            error: result.error,
+            details: "Invalid input data",
+          },
+          400,
+        );
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: result.data,
+        message:
+          "API key created successfully. Store the key securely; it will not be shown again.",
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET / - APIキー一覧
+apiKeyRoutes.get("/", async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const apiKeyService = new ApiKeyService(database);
+
+    const result = await apiKeyService.listKeys(user.userId);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /:id/rotate - APIキーのローテーション（旧キーは即時失効）
+apiKeyRoutes.post("/:id/rotate", async (c) => {
+  try {
+    const keyId = c.req.param("id");
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const apiKeyService = new ApiKeyService(database);
+
+    const result = await apiKeyService.rotateKey(user.userId, keyId);
+
+    if (!result.success) {
+      if (result.error === "API key not found") {
+        return c.json({ error: result.error }, 404);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message:
+        "API key rotated successfully. Store the new key securely; it will not be shown again.",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /:id - APIキーの失効
+apiKeyRoutes.delete("/:id", async (c) => {
+  try {
+    const keyId = c.req.param("id");
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const apiKeyService = new ApiKeyService(database);
+
+    const result = await apiKeyService.revokeKey(user.userId, keyId);
+
+    if (!result.success) {
+      if (result.error === "API key not found") {
+        return c.json({ error: result.error }, 404);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "API key revoked successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+export { apiKeyRoutes };
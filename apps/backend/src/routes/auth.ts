@@ -1,27 +1,62 @@
 import type { Database } from "@repo/db";
 import { createClient } from "@repo/db";
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
+import { requireScope } from "../middleware/auth";
 import { AuthService } from "../services/auth-service";
+import { LoginSecurityService } from "../services/login-security-service";
+import { createMailTransport } from "../services/mail-service";
+import {
+  type SessionContext,
+  SessionService,
+} from "../services/session-service";
+import { SiweService } from "../services/siwe-service";
+import { TwoFactorService } from "../services/two-factor-service";
+import { WalletService } from "../services/wallet-service";
 
 const authRoutes = new Hono();
 
 // JWT Secret（本番では環境変数から取得）
 const JWT_SECRET = process.env.JWT_SECRET || "development-jwt-secret-key";
 
+// メール内リンクの遷移先（フロントエンドの確認ページ）
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+// メールは環境変数で選んだ送信手段で送る（本番では配信サービス）
+function createAuthService(database: Database): AuthService {
+  return new AuthService(database, JWT_SECRET, createMailTransport());
+}
+
 // Database connection helper
 async function getDatabaseConnection(): Promise<Database> {
   const connection = await createClient();
   return connection.db;
 }
 
+// セッションに記録するクライアント情報
+function getSessionContext(c: Context): SessionContext {
+  return {
+    userAgent: c.req.header("User-Agent"),
+    ipAddress:
+      c.req.header("CF-Connecting-IP") || c.req.header("X-Forwarded-For"),
+  };
+}
+
+// アカウントロック中のログイン試行への応答（解除までの秒数をRetry-Afterで返す）
+function accountLockedResponse(c: Context, retryAfter?: number) {
+  if (retryAfter) {
+    c.header("Retry-After", retryAfter.toString());
+  }
+  return c.json({ error: "Account temporarily locked", retryAfter }, 429);
+}
+
 // POST /register - ユーザー登録
 authRoutes.post("/register", async (c) => {
   try {
     const body = await c.req.json();
     const database = await getDatabaseConnection();
-    const authService = new AuthService(database, JWT_SECRET);
+    const authService = createAuthService(database);
 
-    const result = await authService.register(body);
+    const result = await authService.register(body, getSessionContext(c));
 
     if (!result.success) {
       if (result.error === "Email already exists") {
@@ -57,11 +92,14 @@ authRoutes.post("/login", async (c) => {
   try {
     const body = await c.req.json();
     const database = await getDatabaseConnection();
-    const authService = new AuthService(database, JWT_SECRET);
+    const authService = createAuthService(database);
 
-    const result = await authService.login(body);
+    const result = await authService.login(body, getSessionContext(c));
 
     if (!result.success) {
+      if (result.error === "Account temporarily locked") {
+        return accountLockedResponse(c, result.retryAfter);
+      }
       return c.json({ error: result.error }, 401);
     }
 
@@ -78,8 +116,183 @@ authRoutes.post("/login", async (c) => {
   }
 });
 
+// POST /login/2fa - 二要素認証コードによるログイン完了（ログイン時のチャレンジトークンを使用）
+authRoutes.post("/login/2fa", async (c) => {
+  try {
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const authService = createAuthService(database);
+
+    const result = await authService.completeTwoFactorLogin(
+      body,
+      getSessionContext(c),
+    );
+
+    if (!result.success) {
+      if (result.error === "Validation failed") {
+        return c.json(
+          {
+            error: result.error,
+            details: "Invalid input data",
+          },
+          400,
+        );
+      }
+      if (result.error === "Account temporarily locked") {
+        return accountLockedResponse(c, result.retryAfter);
+      }
+      if (
+        result.error === "Invalid or expired challenge" ||
+        result.error === "Invalid two-factor code"
+      ) {
+        return c.json({ error: result.error }, 401);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Login successful",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /refresh - リフレッシュトークンによるトークン再発行（ローテーション）
+authRoutes.post("/refresh", async (c) => {
+  try {
+    const body = await c.req.json();
+    if (!body.refreshToken || typeof body.refreshToken !== "string") {
+      return c.json({ error: "Refresh token is required" }, 400);
+    }
+
+    const database = await getDatabaseConnection();
+    const sessionService = new SessionService(database, JWT_SECRET);
+
+    const result = await sessionService.refresh(
+      body.refreshToken,
+      getSessionContext(c),
+    );
+
+    if (!result.success) {
+      if (result.error === "Invalid or expired refresh token") {
+        return c.json({ error: result.error }, 401);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Token refreshed successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /logout - ログアウト（現在のトークンとセッションを失効、JWT認証必須）
+authRoutes.post("/logout", async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const sessionService = new SessionService(database, JWT_SECRET);
+
+    const result = await sessionService.logout(user);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Logged out successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /sessions - 有効なセッション一覧（JWT認証必須）
+authRoutes.get("/sessions", requireScope("profile:read"), async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const sessionService = new SessionService(database, JWT_SECRET);
+
+    const result = await sessionService.listSessions(user.userId, user.sid);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /sessions/:id - セッションの失効（JWT認証必須）
+authRoutes.delete("/sessions/:id", requireScope("profile:write"), async (c) => {
+  try {
+    const sessionId = c.req.param("id");
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const sessionService = new SessionService(database, JWT_SECRET);
+
+    const result = await sessionService.revokeSession(user.userId, sessionId);
+
+    if (!result.success) {
+      if (result.error === "Session not found") {
+        return c.json({ error: result.error }, 404);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Session revoked successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /login-history - 自分のログイン履歴（JWT認証必須）
+authRoutes.get("/login-history", requireScope("profile:read"), async (c) => {
+  try {
+    const user = c.get("user");
+    const limit = Math.min(
+      Math.max(Number.parseInt(c.req.query("limit") || "20", 10) || 20, 1),
+      100,
+    );
+    const database = await getDatabaseConnection();
+    const loginSecurityService = new LoginSecurityService(database);
+
+    const result = await loginSecurityService.listHistory(user.userId, limit);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // GET /profile - プロフィール取得（JWT認証必須）
-authRoutes.get("/profile", async (c) => {
+authRoutes.get("/profile", requireScope("profile:read"), async (c) => {
   try {
     const user = c.get("user");
     const database = await getDatabaseConnection();
@@ -102,7 +315,7 @@ authRoutes.get("/profile", async (c) => {
           id: userData.id,
           email: userData.email,
           name: userData.name,
-          organizationId: userData.organizationId,
+          organizationId: user.organizationId,
           emailVerified: userData.emailVerified,
           createdAt: userData.createdAt,
           updatedAt: userData.updatedAt,
@@ -115,7 +328,7 @@ authRoutes.get("/profile", async (c) => {
 });
 
 // PUT /profile - プロフィール更新（JWT認証必須）
-authRoutes.put("/profile", async (c) => {
+authRoutes.put("/profile", requireScope("profile:write"), async (c) => {
   try {
     const user = c.get("user");
     const body = await c.req.json();
@@ -149,7 +362,7 @@ authRoutes.put("/profile", async (c) => {
           id: userData.id,
           email: userData.email,
           name: userData.name,
-          organizationId: userData.organizationId,
+          organizationId: user.organizationId,
           emailVerified: userData.emailVerified,
           updatedAt: userData.updatedAt,
         },
@@ -166,7 +379,7 @@ authRoutes.post("/password-reset/request", async (c) => {
   try {
     const body = await c.req.json();
     const database = await getDatabaseConnection();
-    const authService = new AuthService(database, JWT_SECRET);
+    const authService = createAuthService(database);
 
     const result = await authService.requestPasswordReset(body);
 
@@ -192,11 +405,14 @@ authRoutes.post("/password-reset/confirm", async (c) => {
   try {
     const body = await c.req.json();
     const database = await getDatabaseConnection();
-    const authService = new AuthService(database, JWT_SECRET);
+    const authService = createAuthService(database);
 
     const result = await authService.resetPassword(body);
 
     if (!result.success) {
+      if (result.error === "Too many reset attempts") {
+        return c.json({ error: result.error }, 429);
+      }
       return c.json({ error: result.error }, 400);
     }
 
@@ -213,4 +429,314 @@ authRoutes.post("/password-reset/confirm", async (c) => {
   }
 });
 
+// POST /verify-email/request - 確認メール送信（JWT認証必須）
+authRoutes.post(
+  "/verify-email/request",
+  requireScope("profile:write"),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const database = await getDatabaseConnection();
+      const authService = createAuthService(database);
+
+      const result = await authService.requestEmailVerification(
+        user.userId,
+        `${FRONTEND_URL}/verify-email`,
+      );
+
+      if (!result.success) {
+        if (result.error === "Email already verified") {
+          return c.json({ error: result.error }, 409);
+        }
+        if (result.error === "User not found") {
+          return c.json({ error: result.error }, 404);
+        }
+        return c.json({ error: result.error }, 500);
+      }
+
+      return c.json({
+        success: true,
+        data: result.data,
+        message: "Verification email sent",
+      });
+    } catch (_error) {
+      return c.json({ error: "Internal server error" }, 500);
+    }
+  },
+);
+
+// POST /verify-email/confirm - メールアドレス確認（リンクのトークンで認証）
+authRoutes.post("/verify-email/confirm", async (c) => {
+  try {
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const authService = createAuthService(database);
+
+    const result = await authService.confirmEmailVerification(body);
+
+    if (!result.success) {
+      if (result.error === "Validation failed") {
+        return c.json(
+          {
+            error: result.error,
+            details: "Invalid input data",
+          },
+          400,
+        );
+      }
+      if (result.error === "Invalid or expired verification token") {
+        return c.json({ error: result.error }, 400);
+      }
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Email verified successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// 二要素認証のエラーとHTTPステータスの対応
+function twoFactorErrorStatus(error?: string) {
+  switch (error) {
+    case "Validation failed":
+    case "Invalid two-factor code":
+    case "Two-factor enrollment not started":
+      return 400;
+    case "User not found":
+      return 404;
+    case "Two-factor authentication already enabled":
+    case "Two-factor authentication not enabled":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// POST /2fa/enroll - TOTPシークレット発行（JWT認証必須）
+authRoutes.post("/2fa/enroll", requireScope("profile:write"), async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const twoFactorService = new TwoFactorService(database, JWT_SECRET);
+
+    const result = await twoFactorService.beginEnrollment(user.userId);
+
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        twoFactorErrorStatus(result.error),
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Scan the QR code and confirm with a code from your app",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /2fa/confirm - 認証アプリのコードで有効化し、リカバリーコードを発行（JWT認証必須）
+authRoutes.post("/2fa/confirm", requireScope("profile:write"), async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const twoFactorService = new TwoFactorService(database, JWT_SECRET);
+
+    const result = await twoFactorService.confirmEnrollment(user.userId, body);
+
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        twoFactorErrorStatus(result.error),
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Two-factor authentication enabled",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /2fa/disable - 二要素認証の無効化（現在のコードが必要、JWT認証必須）
+authRoutes.post("/2fa/disable", requireScope("profile:write"), async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const twoFactorService = new TwoFactorService(database, JWT_SECRET);
+
+    const result = await twoFactorService.disable(user.userId, body);
+
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        twoFactorErrorStatus(result.error),
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// SIWE・ウォレットリンクのエラーとHTTPステータスの対応
+function walletErrorStatus(error?: string) {
+  switch (error) {
+    case "Validation failed":
+    case "Invalid SIWE message":
+      return 400;
+    case "SIWE message is not valid at this time":
+    case "Invalid signature":
+    case "Invalid or expired nonce":
+    case "Wallet not linked":
+      return 401;
+    case "Wallet not found":
+      return 404;
+    case "Wallet already linked":
+    case "Wallet is linked to another account":
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// POST /siwe/nonce - SIWEメッセージに埋め込むnonceの発行
+authRoutes.post("/siwe/nonce", async (c) => {
+  try {
+    const siweService = new SiweService();
+
+    const result = await siweService.issueNonce();
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /siwe/verify - リンク済みウォレットの署名によるログイン
+authRoutes.post("/siwe/verify", async (c) => {
+  try {
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const authService = createAuthService(database);
+
+    const result = await authService.loginWithWallet(
+      body,
+      getSessionContext(c),
+    );
+
+    if (!result.success) {
+      return c.json({ error: result.error }, walletErrorStatus(result.error));
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Login successful",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /wallets - リンク済みウォレット一覧（JWT認証必須）
+authRoutes.get("/wallets", requireScope("profile:read"), async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const walletService = new WalletService(database);
+
+    const result = await walletService.listWallets(user.userId);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /wallets - SIWE署名でウォレットをリンク（JWT認証必須）
+authRoutes.post("/wallets", requireScope("profile:write"), async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const walletService = new WalletService(database);
+
+    const result = await walletService.linkWallet(user.userId, body);
+
+    if (!result.success) {
+      return c.json({ error: result.error }, walletErrorStatus(result.error));
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Wallet linked successfully",
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /wallets/:id - ウォレットのリンク解除（JWT認証必須）
+authRoutes.delete("/wallets/:id", requireScope("profile:write"), async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const walletService = new WalletService(database);
+
+    const result = await walletService.unlinkWallet(
+      user.userId,
+      c.req.param("id"),
+    );
+
+    if (!result.success) {
+      return c.json({ error: result.error }, walletErrorStatus(result.error));
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Wallet unlinked successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 export { authRoutes };
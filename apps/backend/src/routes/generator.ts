@@ -1,11 +1,61 @@
-import { createClient, type Database, GeneratedApiOperations } from "@repo/db";
-import { naturalLanguageInputSchema } from "@repo/shared/api";
+import {
+  createClient,
+  type Database,
+  type GeneratedApiDB,
+  GeneratedApiEndpointOperations,
+  GeneratedApiOperations,
+  type PromptTemplateDB,
+} from "@repo/db";
+import {
+  type ApiTestCase,
+  canaryDeploymentSchema,
+  codeEvaluationSchema,
+  codeImprovementRequestSchema,
+  codeSearchQuerySchema,
+  generatedApiListQuerySchema,
+  generateFromTemplateSchema,
+  type LLMProvider,
+  type NaturalLanguageInput,
+  naturalLanguageInputSchema,
+  promptTemplateInputSchema,
+  promptTemplateUpdateSchema,
+  revisionCompareQuerySchema,
+  rollbackDeploymentSchema,
+} from "@repo/shared/api";
+import type { JwtPayload, OrganizationRole } from "@repo/shared/auth";
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { requireScope } from "../middleware/auth";
+import { ConflictError } from "../middleware/error-handler";
+import { ApiEvaluationService } from "../services/api-evaluation-service";
+import { ApiRevisionService } from "../services/api-revision-service";
+import { ApiSearchService } from "../services/api-search-service";
+import { ApiTestService } from "../services/api-test-service";
 import { DynamicDeploymentService } from "../services/dynamic-deployment-service";
-import { LLMService } from "../services/llm-service";
+import { EndpointNamespaceService } from "../services/endpoint-namespace-service";
+import {
+  type GeneratedApiSpec,
+  LLMService,
+  SANDBOX_UNSUPPORTED_ERROR,
+} from "../services/llm-service";
+import { OpenApiService } from "../services/openapi-service";
+import { OrganizationService } from "../services/organization-service";
+import { PromptTemplateService } from "../services/prompt-template-service";
+import { SecureCodeExecutor } from "../services/secure-code-executor";
+import type {
+  ApiTestRunResult,
+  DeploymentInfo,
+  DeploymentOptions,
+} from "../types/dynamic-routes";
 
 const generatorRoutes = new Hono();
 
+// ルートごとに要求するスコープ
+const canRead = requireScope("generator:read");
+const canCreate = requireScope("generator:create");
+const canDeploy = requireScope("generator:deploy");
+const canDelete = requireScope("generator:delete");
+
 // 動的デプロイメントサービスを取得
 function getDynamicDeploymentService(): DynamicDeploymentService {
   // グローバルに設定されたサービスを使用
@@ -16,29 +66,1503 @@ function getDynamicDeploymentService(): DynamicDeploymentService {
     return globalService;
   }
 
-  // テスト環境用のフォールバック
-  return new DynamicDeploymentService(new Hono());
-}
+  // テスト環境用のフォールバック
+  return new DynamicDeploymentService();
+}
+
+// Database connection helper
+async function getDatabaseConnection(): Promise<Database> {
+  const connection = await createClient();
+  return connection.db;
+}
+
+// 組織メンバーが他のメンバーのAPIを操作する際に必要な組織ロール
+const ORG_ROLE_REQUIREMENTS = {
+  view: "viewer",
+  edit: "member", // 改善リビジョンの作成
+  deploy: "member", // 再デプロイ・ロールバック・無効化
+  delete: "admin",
+} satisfies Record<string, OrganizationRole>;
+
+type ApiAction = keyof typeof ORG_ROLE_REQUIREMENTS;
+
+/**
+ * 作成者本人、またはAPIの所属組織で必要なロールを持つメンバーのみ許可
+ */
+async function canAccessApi(
+  database: Database,
+  api: GeneratedApiDB,
+  userId: string,
+  action: ApiAction,
+): Promise<boolean> {
+  if (api.userId === userId) {
+    return true;
+  }
+  if (!api.organizationId) {
+    return false;
+  }
+
+  const role = await new OrganizationService(database).findRole(
+    api.organizationId,
+    userId,
+  );
+  return (
+    role !== null &&
+    OrganizationService.hasRole(role, ORG_ROLE_REQUIREMENTS[action])
+  );
+}
+
+/**
+ * リクエストでプロバイダーが指定されていなければ組織で設定されたプロバイダーを使う
+ */
+async function findOrganizationProvider(
+  database: Database,
+  organizationId: string | null,
+  requested?: LLMProvider,
+): Promise<LLMProvider | null> {
+  if (requested || !organizationId) {
+    return null;
+  }
+  return await new OrganizationService(database).findLlmProvider(
+    organizationId,
+  );
+}
+
+// サンドボックスで実現できない依頼（モデルが返した理由を含む）
+function isSandboxUnsupported(error?: string): error is string {
+  return error?.startsWith(SANDBOX_UNSUPPORTED_ERROR) ?? false;
+}
+
+// クライアントに返すAPI生成エラー（プロバイダー未設定とサンドボックスで実現できない依頼のみ区別して伝える）
+function generationError(error?: string): string {
+  return error === "LLM provider not configured" || isSandboxUnsupported(error)
+    ? error
+    : "API generation failed";
+}
+
+// ストリームで返す予期しないエラー（マウント先の衝突のみ内容を伝える）
+function streamError(error: unknown): string {
+  return error instanceof ConflictError
+    ? error.message
+    : "Internal server error";
+}
+
+/**
+ * 生成したAPIのエンドポイントを作成者の名前空間のマウント先に置き換える
+ * 共有のアプリ上で他のユーザーのAPIと衝突しないよう、LLMが提案したパスはslugとしてのみ使う
+ * 指定したslugが他のAPIに使われていればConflictErrorを投げ、
+ * 自動のslugが使われていれば空いている連番（weather-2 など）を付ける
+ */
+async function namespacedSpec<T extends GeneratedApiSpec>(
+  database: Database,
+  spec: T,
+  user: JwtPayload,
+  input: NaturalLanguageInput,
+): Promise<T> {
+  const namespaces = new EndpointNamespaceService(database);
+  if (input.slug) {
+    const endpoint = EndpointNamespaceService.mountPath(user, input.slug);
+    await namespaces.ensureAvailable(endpoint);
+    return { ...spec, endpoint };
+  }
+  const endpoint = await namespaces.availableEndpoint(
+    user,
+    EndpointNamespaceService.slugify(spec.endpoint),
+  );
+  return { ...spec, endpoint };
+}
+
+// slugを指定した場合は生成前にマウント先の衝突を確認する（ConflictErrorを投げる）
+async function ensureSlugAvailable(
+  database: Database,
+  user: JwtPayload,
+  input: NaturalLanguageInput,
+): Promise<void> {
+  if (input.slug) {
+    await new EndpointNamespaceService(database).ensureAvailable(
+      EndpointNamespaceService.mountPath(user, input.slug),
+    );
+  }
+}
+
+/**
+ * 生成したAPIをドラフトとして保存し、最初のリビジョンとして記録する
+ * 複数ルートで生成した場合は各ルートを子の行として保存する
+ * プロバイダーとカテゴリは品質統計の集計に使う
+ * 確認後に同じマウント先が保存されていた場合（同時の作成）はConflictErrorを投げる
+ */
+async function saveGeneratedApi(
+  database: Database,
+  spec: GeneratedApiSpec,
+  user: JwtPayload,
+  input: NaturalLanguageInput,
+) {
+  const createResult = await new GeneratedApiOperations(database).create({
+    name: spec.name,
+    description: spec.description,
+    endpoint: spec.endpoint,
+    method: spec.method,
+    price: spec.price,
+    currency: "USDC",
+    generatedCode: spec.generatedCode,
+    documentation: spec.documentation,
+    testCode: ApiTestService.serializeTestCases(spec.testCases),
+    status: "draft",
+    userId: user.userId,
+    organizationId: user.organizationId,
+    metadata: {
+      llmProvider: spec.provider,
+      llmModel: spec.model,
+      category: input.category,
+    },
+  });
+
+  if (
+    !createResult.success &&
+    EndpointNamespaceService.isEndpointConflict(createResult.error)
+  ) {
+    throw new ConflictError(
+      `Endpoint ${spec.endpoint} is already in use by another API`,
+    );
+  }
+
+  // ルート・履歴の記録に失敗してもAPI自体は保存済みのため作成は成功とする
+  if (createResult.success && spec.endpoints?.length) {
+    const endpointsResult = await new GeneratedApiEndpointOperations(
+      database,
+    ).replaceForApi(
+      createResult.data.id,
+      spec.endpoints.map(({ method, path, price, description }) => ({
+        method,
+        path,
+        price,
+        description,
+      })),
+    );
+    if (!endpointsResult.success) {
+      console.warn("Failed to save API endpoints:", endpointsResult.error);
+    }
+  }
+  if (createResult.success) {
+    const revisionResult = await new ApiRevisionService(database).recordInitial(
+      createResult.data,
+      input.description,
+      user.userId,
+    );
+    if (!revisionResult.success) {
+      console.warn("Failed to record initial revision:", revisionResult.error);
+    }
+  }
+  return createResult;
+}
+
+/**
+ * 生成したAPIのテストケースを生成して仕様に含める
+ * テストの生成に失敗してもAPIの生成は続行する（テストなしでデプロイされる）
+ */
+async function withTestCases(
+  database: Database,
+  llmService: LLMService,
+  spec: GeneratedApiSpec,
+  organizationProvider: LLMProvider | null,
+): Promise<GeneratedApiSpec & { testCases: ApiTestCase[] }> {
+  const result = await new ApiTestService(database, llmService).generate(spec, {
+    organizationProvider,
+  });
+  if (!result.success || !result.data) {
+    console.warn("Test case generation failed:", result.error);
+    return { ...spec, testCases: [] };
+  }
+  return { ...spec, testCases: result.data };
+}
+
+/**
+ * APIを動的デプロイしてテスト結果を記録し、成功時はステータスをactiveにする
+ * マウント先が他のAPIに使われていればConflictErrorを投げる
+ */
+async function deployApi(
+  database: Database,
+  api: GeneratedApiDB,
+  spec: GeneratedApiSpec,
+  triggeredBy: string,
+  options: DeploymentOptions = {},
+) {
+  await new EndpointNamespaceService(database).ensureAvailable(
+    spec.endpoint,
+    api.id,
+  );
+
+  // ルートは作成者単位で管理されるため作成者IDを使用
+  const deployResult = await getDynamicDeploymentService().deployGeneratedApi(
+    spec,
+    api.userId,
+    api.id,
+    { ...options, revision: api.currentRevision },
+  );
+  await new ApiTestService(database).recordDeployment(
+    api.id,
+    api.currentRevision,
+    deployResult,
+    triggeredBy,
+  );
+
+  if (deployResult.success) {
+    await new GeneratedApiOperations(database).update(api.id, {
+      status: "active",
+    });
+  }
+  return deployResult;
+}
+
+/**
+ * 保存したAPIを動的デプロイする
+ * デプロイに失敗してもAPIは保存済みのため、エラーは呼び出し元で通知のみ行う
+ */
+async function deployCreatedApi(
+  database: Database,
+  api: GeneratedApiDB,
+  spec: GeneratedApiSpec,
+  options: DeploymentOptions,
+): Promise<{
+  deployment: DeploymentInfo | null;
+  error?: string;
+  testRun?: ApiTestRunResult;
+}> {
+  try {
+    const deployResult = await deployApi(
+      database,
+      api,
+      spec,
+      api.userId,
+      options,
+    );
+    if (!deployResult.success || !deployResult.data) {
+      console.warn("Dynamic deployment failed:", deployResult.error);
+      return {
+        deployment: null,
+        error: deployResult.error,
+        testRun: deployResult.testRun,
+      };
+    }
+    return { deployment: deployResult.data, testRun: deployResult.testRun };
+  } catch (deployError) {
+    console.warn("Dynamic deployment error:", deployError);
+    return {
+      deployment: null,
+      error:
+        deployError instanceof ConflictError
+          ? deployError.message
+          : "Deployment failed",
+    };
+  }
+}
+
+/**
+ * 自然言語の入力からAPIを生成して保存し、指定があればデプロイする
+ * /create とテンプレートからの生成で共通
+ * マウント先が他のAPIに使われていればConflictErrorを投げる
+ */
+async function createApi(
+  database: Database,
+  user: JwtPayload,
+  input: NaturalLanguageInput,
+): Promise<
+  | {
+      data: {
+        api: GeneratedApiDB;
+        deployment: DeploymentInfo | null;
+        testRun?: ApiTestRunResult;
+      };
+    }
+  | { data?: undefined; error: string; status: 422 | 500 | 503 }
+> {
+  await ensureSlugAvailable(database, user, input);
+
+  const llmService = new LLMService();
+  const organizationProvider = await findOrganizationProvider(
+    database,
+    user.organizationId,
+    input.provider,
+  );
+
+  // LLMでAPI生成
+  const llmResult = await llmService.generateApiFromNaturalLanguage(input, {
+    organizationProvider,
+  });
+  if (!llmResult.success) {
+    if (llmResult.error === "LLM provider not configured") {
+      return { error: llmResult.error, status: 503 };
+    }
+    if (isSandboxUnsupported(llmResult.error)) {
+      return { error: llmResult.error, status: 422 };
+    }
+    return { error: "API generation failed", status: 500 };
+  }
+
+  // DBに保存
+  if (!llmResult.data) {
+    return { error: "Failed to generate API specification", status: 500 };
+  }
+
+  const generated = await namespacedSpec(database, llmResult.data, user, input);
+  const spec =
+    input.includeTests !== false
+      ? await withTestCases(
+          database,
+          llmService,
+          generated,
+          organizationProvider,
+        )
+      : generated;
+
+  const createResult = await saveGeneratedApi(database, spec, user, input);
+
+  if (!createResult.success) {
+    return { error: "Failed to save API", status: 500 };
+  }
+
+  // 動的デプロイメントの実行（オプション）
+  let deploymentInfo = null;
+  let testRun: ApiTestRunResult | undefined;
+  const shouldDeploy = input.autoDeploy !== false; // デフォルトはtrue
+
+  if (shouldDeploy) {
+    const deployResult = await deployCreatedApi(
+      database,
+      createResult.data,
+      spec,
+      { allowFailingTests: input.allowFailingTests },
+    );
+    deploymentInfo = deployResult.deployment;
+    testRun = deployResult.testRun;
+  }
+
+  return {
+    data: { api: createResult.data, deployment: deploymentInfo, testRun },
+  };
+}
+
+// POST /create - API生成
+generatorRoutes.post("/create", canCreate, async (c) => {
+  try {
+    const body = await c.req.json();
+    const user = c.get("user");
+
+    // バリデーション
+    const validationResult = naturalLanguageInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const result = await createApi(database, user, validationResult.data);
+    if (!result.data) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json({ success: true, data: result.data }, 201);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return c.json({ error: error.message }, 409);
+    }
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /create/stream - API生成（各フェーズの進捗と生成中のコードをServer-Sent Eventsで送信）
+// イベント: phase → token（複数）→ spec → code → validation → tests → saved → deployed → done
+// 失敗時はerror（デプロイのみの失敗はdeployment_failedの後にdone）
+generatorRoutes.post("/create/stream", canCreate, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const user = c.get("user");
+
+  // バリデーションエラーはストリーム開始前に通常のJSONで返す
+  const validationResult = naturalLanguageInputSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(
+      {
+        error: "Validation failed",
+        details: validationResult.error.issues,
+      },
+      400,
+    );
+  }
+  const input = validationResult.data;
+
+  return streamSSE(c, async (stream) => {
+    const send = (event: string, data: unknown) =>
+      stream.writeSSE({ event, data: JSON.stringify(data) });
+
+    try {
+      const database = await getDatabaseConnection();
+      await ensureSlugAvailable(database, user, input);
+      const llmService = new LLMService();
+      const organizationProvider = await findOrganizationProvider(
+        database,
+        user.organizationId,
+        input.provider,
+      );
+
+      await send("phase", { phase: "inferring_spec" });
+      const llmResult = await llmService.generateApiFromNaturalLanguage(input, {
+        organizationProvider,
+        onToken: (text) => send("token", { text }),
+      });
+      if (!llmResult.success || !llmResult.data) {
+        await send("error", { error: generationError(llmResult.error) });
+        return;
+      }
+
+      let apiSpec = await namespacedSpec(database, llmResult.data, user, input);
+      const { generatedCode, documentation, ...spec } = apiSpec;
+      await send("spec", spec);
+      await send("code", { generatedCode, documentation });
+      await send(
+        "validation",
+        new SecureCodeExecutor().validateCode(generatedCode),
+      );
+
+      if (input.includeTests !== false) {
+        await send("phase", { phase: "generating_tests" });
+        const withTests = await withTestCases(
+          database,
+          llmService,
+          apiSpec,
+          organizationProvider,
+        );
+        await send("tests", { testCases: withTests.testCases });
+        apiSpec = withTests;
+      }
+
+      const createResult = await saveGeneratedApi(
+        database,
+        apiSpec,
+        user,
+        input,
+      );
+      if (!createResult.success || !createResult.data) {
+        await send("error", { error: "Failed to save API" });
+        return;
+      }
+      await send("saved", { api: createResult.data });
+
+      let deploymentInfo = null;
+      if (input.autoDeploy !== false) {
+        const { deployment, error, testRun } = await deployCreatedApi(
+          database,
+          createResult.data,
+          apiSpec,
+          { allowFailingTests: input.allowFailingTests },
+        );
+        deploymentInfo = deployment;
+        await (deployment
+          ? send("deployed", { deployment, testRun })
+          : send("deployment_failed", { error, testRun }));
+      }
+
+      await send("done", {
+        api: createResult.data,
+        deployment: deploymentInfo,
+      });
+    } catch (error) {
+      await send("error", { error: streamError(error) });
+    }
+  });
+});
+
+/**
+ * APIを取得し、操作に必要な権限を確認する
+ */
+async function findAccessibleApi(
+  database: Database,
+  apiId: string,
+  userId: string,
+  action: ApiAction,
+): Promise<
+  | { api: GeneratedApiDB }
+  | { api?: undefined; error: string; status: 403 | 404 }
+> {
+  const apiResult = await new GeneratedApiOperations(database).findById(apiId);
+  if (!apiResult.success || !apiResult.data) {
+    return { error: "API not found", status: 404 };
+  }
+  if (!(await canAccessApi(database, apiResult.data, userId, action))) {
+    return { error: "Access denied", status: 403 };
+  }
+  return { api: apiResult.data };
+}
+
+/**
+ * テンプレートを取得し、テンプレートの組織で必要なロールを持つか確認する
+ */
+async function findAccessibleTemplate(
+  database: Database,
+  templateId: string,
+  userId: string,
+  action: ApiAction,
+): Promise<
+  | { template: PromptTemplateDB }
+  | { template?: undefined; error: string; status: 403 | 404 }
+> {
+  const templateResult = await new PromptTemplateService(database).get(
+    templateId,
+  );
+  if (!templateResult.data) {
+    return { error: "Template not found", status: 404 };
+  }
+  const role = await new OrganizationService(database).findRole(
+    templateResult.data.organizationId,
+    userId,
+  );
+  if (
+    !role ||
+    !OrganizationService.hasRole(role, ORG_ROLE_REQUIREMENTS[action])
+  ) {
+    return { error: "Access denied", status: 403 };
+  }
+  return { template: templateResult.data };
+}
+
+// テンプレート操作のエラーとステータスコードの対応（それ以外は500）
+const TEMPLATE_ERROR_STATUS: Record<string, 400 | 404 | 409> = {
+  "Invalid template definition": 400,
+  "Template not found": 404,
+  "Template name already exists": 409,
+};
+
+// リビジョン番号のパスパラメーター（正の整数以外はnull）
+function parseRevision(value: string): number | null {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+// コード改善のエラーとステータスコードの対応（それ以外は500）
+const IMPROVEMENT_ERROR_STATUS: Record<string, 400 | 422 | 503> = {
+  "Content policy violation detected": 400,
+  "Unsafe code generated": 422,
+  "No changes generated": 422,
+  "LLM provider not configured": 503,
+};
+
+// デプロイ・カナリアリリースのエラーとステータスコードの対応（それ以外は500）
+const DEPLOYMENT_ERROR_STATUS: Record<string, 404 | 409> = {
+  "Revision not found": 404,
+  "No canary deployment in progress": 404,
+  "No active deployment to compare with": 409,
+  "A canary deployment is in progress": 409,
+  "Canary endpoint must match the active deployment": 409,
+  "Endpoint is already in use by another API": 409,
+};
+
+// POST /:id/improve - 既存コードの改善（新しいリビジョンとして保存し、差分を返す）
+generatorRoutes.post("/:id/improve", canCreate, async (c) => {
+  try {
+    const apiId = c.req.param("id");
+    const user = c.get("user");
+    const body = await c.req.json();
+
+    // 改善対象はパスで指定する
+    const validationResult = codeImprovementRequestSchema.safeParse({
+      ...body,
+      originalCodeId: apiId,
+    });
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const generatedApiOperations = new GeneratedApiOperations(database);
+    const apiResult = await generatedApiOperations.findById(apiId);
+
+    if (!apiResult.success || !apiResult.data) {
+      return c.json({ error: "API not found" }, 404);
+    }
+
+    if (!(await canAccessApi(database, apiResult.data, user.userId, "edit"))) {
+      return c.json({ error: "Access denied" }, 403);
+    }
+
+    const improveResult = await new ApiRevisionService(database).improve(
+      apiResult.data,
+      validationResult.data,
+      user.userId,
+      await findOrganizationProvider(database, apiResult.data.organizationId),
+    );
+    if (!improveResult.success) {
+      const error = improveResult.error ?? "Code improvement failed";
+      const status =
+        IMPROVEMENT_ERROR_STATUS[error] ??
+        (isSandboxUnsupported(error) ? 422 : 500);
+      return c.json({ error }, status);
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: improveResult.data,
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/evaluations - 評価一覧と集計（品質スコア・平均評価・動作率）
+generatorRoutes.get("/:id/evaluations", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiEvaluationService(database).list(access.api.id);
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /:id/evaluations - APIの評価（同じユーザーの評価は上書き）
+generatorRoutes.post("/:id/evaluations", canCreate, async (c) => {
+  try {
+    const apiId = c.req.param("id");
+    const user = c.get("user");
+    const body = await c.req.json();
+
+    // 評価対象と評価者はリクエストから決める
+    const validationResult = codeEvaluationSchema.safeParse({
+      ...body,
+      codeId: apiId,
+      userId: user.userId,
+      createdAt: new Date(),
+    });
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      apiId,
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiEvaluationService(database).evaluate(
+      access.api,
+      validationResult.data,
+    );
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /:id/evaluations - 自分の評価の取り消し
+generatorRoutes.delete("/:id/evaluations", canCreate, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiEvaluationService(database).remove(
+      access.api.id,
+      user.userId,
+    );
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        result.error === "Evaluation not found" ? 404 : 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/openapi.json - 生成APIのOpenAPI 3.1ドキュメント（x402の402レスポンスと価格・ネットワークの拡張付き）
+generatorRoutes.get("/:id/openapi.json", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const endpointsResult = await new GeneratedApiEndpointOperations(
+      database,
+    ).listByApi(access.api.id);
+    if (!endpointsResult.success) {
+      return c.json({ error: "Failed to fetch API endpoints" }, 500);
+    }
+
+    return c.json(
+      OpenApiService.document(
+        access.api,
+        {
+          serverUrl: new URL(c.req.url).origin,
+          payTo: DynamicDeploymentService.paymentWallet(
+            process.env.X402_WALLET_ADDRESS,
+          ),
+        },
+        endpointsResult.data,
+      ),
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/endpoints - 複数ルートで生成したAPIの各ルートと価格（pathは公開パス）
+generatorRoutes.get("/:id/endpoints", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new GeneratedApiEndpointOperations(database).listByApi(
+      access.api.id,
+    );
+    if (!result.success) {
+      return c.json({ error: "Failed to fetch API endpoints" }, 500);
+    }
+
+    const { endpoint } = access.api;
+    return c.json({
+      success: true,
+      data: result.data.map((route) => ({
+        ...route,
+        path: DynamicDeploymentService.mountedPath(endpoint, route.path),
+      })),
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/test-runs - デプロイ時のテスト実行結果（新しい順）
+generatorRoutes.get("/:id/test-runs", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiTestService(database).listRuns(access.api.id);
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        testCases: ApiTestService.parseTestCases(access.api.testCode),
+        runs: result.data,
+      },
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/revisions - リビジョン一覧（新しい順、コードは含まない）
+generatorRoutes.get("/:id/revisions", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiRevisionService(database).list(access.api.id);
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        currentRevision: access.api.currentRevision,
+        revisions: result.data,
+      },
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/revisions/compare?from=1&to=2 - 2つのリビジョン間の差分
+generatorRoutes.get("/:id/revisions/compare", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+
+    const queryResult = revisionCompareQuerySchema.safeParse(c.req.query());
+    if (!queryResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: queryResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiRevisionService(database).compare(
+      access.api.id,
+      queryResult.data.from,
+      queryResult.data.to,
+    );
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        result.error === "Revision not found" ? 404 : 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id/revisions/:revision - リビジョン詳細（コード・ドキュメント・差分を含む）
+generatorRoutes.get("/:id/revisions/:revision", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const revision = parseRevision(c.req.param("revision"));
+    if (revision === null) {
+      return c.json({ error: "Invalid revision" }, 400);
+    }
+
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await new ApiRevisionService(database).find(
+      access.api.id,
+      revision,
+    );
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        result.error === "Revision not found" ? 404 : 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /:id/revisions/:revision/deploy - 指定リビジョンのデプロイ（現在のコードも切り替える）
+generatorRoutes.post(
+  "/:id/revisions/:revision/deploy",
+  canDeploy,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const revision = parseRevision(c.req.param("revision"));
+      if (revision === null) {
+        return c.json({ error: "Invalid revision" }, 400);
+      }
+
+      const database = await getDatabaseConnection();
+      const access = await findAccessibleApi(
+        database,
+        c.req.param("id"),
+        user.userId,
+        "deploy",
+      );
+      if (!access.api) {
+        return c.json({ error: access.error }, access.status);
+      }
+
+      const result = await new ApiRevisionService(database).deployRevision(
+        access.api,
+        revision,
+        getDynamicDeploymentService(),
+        user.userId,
+        { allowFailingTests: c.req.query("allowFailingTests") === "true" },
+      );
+      if (!result.success) {
+        if (result.testRun && !result.testRun.passed) {
+          return c.json({ error: result.error, testRun: result.testRun }, 422);
+        }
+        return c.json(
+          { error: result.error },
+          DEPLOYMENT_ERROR_STATUS[result.error ?? ""] ?? 500,
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return c.json({ error: error.message }, 409);
+      }
+      return c.json({ error: "Internal server error" }, 500);
+    }
+  },
+);
+
+// POST /:id/revisions/:revision/canary - 指定リビジョンのカナリアリリース（昇格時に現在のコードも切り替える）
+generatorRoutes.post(
+  "/:id/revisions/:revision/canary",
+  canDeploy,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const revision = parseRevision(c.req.param("revision"));
+      if (revision === null) {
+        return c.json({ error: "Invalid revision" }, 400);
+      }
+
+      const validationResult = canaryDeploymentSchema.safeParse(
+        await c.req.json(),
+      );
+      if (!validationResult.success) {
+        return c.json(
+          {
+            error: "Validation failed",
+            details: validationResult.error.issues,
+          },
+          400,
+        );
+      }
+
+      const database = await getDatabaseConnection();
+      const access = await findAccessibleApi(
+        database,
+        c.req.param("id"),
+        user.userId,
+        "deploy",
+      );
+      if (!access.api) {
+        return c.json({ error: access.error }, access.status);
+      }
+
+      const result = await new ApiRevisionService(database).deployCanary(
+        access.api,
+        revision,
+        getDynamicDeploymentService(),
+        user.userId,
+        {
+          ...validationResult.data,
+          allowFailingTests: c.req.query("allowFailingTests") === "true",
+        },
+      );
+      if (!result.success) {
+        if (result.testRun && !result.testRun.passed) {
+          return c.json({ error: result.error, testRun: result.testRun }, 422);
+        }
+        return c.json(
+          { error: result.error },
+          DEPLOYMENT_ERROR_STATUS[result.error ?? ""] ?? 500,
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return c.json({ error: error.message }, 409);
+      }
+      return c.json({ error: "Internal server error" }, 500);
+    }
+  },
+);
+
+// POST /deploy/:id - 既存APIの動的デプロイ
+generatorRoutes.post("/deploy/:id", canDeploy, async (c) => {
+  try {
+    const apiId = c.req.param("id");
+    const user = c.get("user");
+
+    // API情報を取得
+    const database = await getDatabaseConnection();
+    const generatedApiOperations = new GeneratedApiOperations(database);
+    const apiResult = await generatedApiOperations.findById(apiId);
+
+    if (!apiResult.success || !apiResult.data) {
+      return c.json({ error: "API not found" }, 404);
+    }
+
+    // 権限チェック
+    if (
+      !(await canAccessApi(database, apiResult.data, user.userId, "deploy"))
+    ) {
+      return c.json({ error: "Unauthorized" }, 403);
+    }
+
+    const endpointsResult = await new GeneratedApiEndpointOperations(
+      database,
+    ).listByApi(apiId);
+    if (!endpointsResult.success) {
+      return c.json({ error: "Failed to fetch API endpoints" }, 500);
+    }
+
+    // 動的デプロイメントを実行（保存されたテストケースが失敗した場合は中止）
+    const apiSpec = {
+      name: apiResult.data.name,
+      description: apiResult.data.description,
+      endpoint: apiResult.data.endpoint,
+      method: apiResult.data.method as
+        | "GET"
+        | "POST"
+        | "PUT"
+        | "DELETE"
+        | "PATCH",
+      price: apiResult.data.price,
+      generatedCode: apiResult.data.generatedCode,
+      documentation: apiResult.data.documentation,
+      endpoints: ApiRevisionService.endpointSpecs(endpointsResult.data),
+      testCases: ApiTestService.parseTestCases(apiResult.data.testCode),
+    };
+
+    const deployResult = await deployApi(
+      database,
+      apiResult.data,
+      apiSpec,
+      user.userId,
+      { allowFailingTests: c.req.query("allowFailingTests") === "true" },
+    );
+
+    if (!deployResult.success) {
+      if (deployResult.testRun && !deployResult.testRun.passed) {
+        return c.json(
+          { error: deployResult.error, testRun: deployResult.testRun },
+          422,
+        );
+      }
+      return c.json(
+        { error: deployResult.error },
+        DEPLOYMENT_ERROR_STATUS[deployResult.error ?? ""] ?? 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: { ...deployResult.data, testRun: deployResult.testRun },
+    });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return c.json({ error: error.message }, 409);
+    }
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /deploy/:id - APIの無効化
+generatorRoutes.delete("/deploy/:id", canDeploy, async (c) => {
+  try {
+    const apiId = c.req.param("id");
+    const user = c.get("user");
+
+    // 権限チェック
+    const database = await getDatabaseConnection();
+    const generatedApiOperations = new GeneratedApiOperations(database);
+    const apiResult = await generatedApiOperations.findById(apiId);
+
+    if (!apiResult.success || !apiResult.data) {
+      return c.json({ error: "API not found" }, 404);
+    }
+
+    if (
+      !(await canAccessApi(database, apiResult.data, user.userId, "deploy"))
+    ) {
+      return c.json({ error: "Unauthorized" }, 403);
+    }
+
+    // 動的デプロイメントを無効化
+    const deploymentService = getDynamicDeploymentService();
+    const undeployResult = await deploymentService.undeployApi(
+      apiResult.data.userId,
+      apiId,
+    );
+
+    if (!undeployResult.success) {
+      return c.json({ error: undeployResult.error }, 500);
+    }
+
+    // APIステータスを更新
+    await generatedApiOperations.update(apiId, { status: "inactive" });
+
+    return c.json({
+      success: true,
+      data: undeployResult.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /deploy/:id/rollback - 指定バージョンへのロールバック
+generatorRoutes.post("/deploy/:id/rollback", canDeploy, async (c) => {
+  try {
+    const apiId = c.req.param("id");
+    const user = c.get("user");
+    const body = await c.req.json();
+
+    const validationResult = rollbackDeploymentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    // 権限チェック
+    const database = await getDatabaseConnection();
+    const generatedApiOperations = new GeneratedApiOperations(database);
+    const apiResult = await generatedApiOperations.findById(apiId);
+
+    if (!apiResult.success || !apiResult.data) {
+      return c.json({ error: "API not found" }, 404);
+    }
+
+    if (
+      !(await canAccessApi(database, apiResult.data, user.userId, "deploy"))
+    ) {
+      return c.json({ error: "Unauthorized" }, 403);
+    }
+
+    const deploymentService = getDynamicDeploymentService();
+    const rollbackResult = await deploymentService.rollbackDeployment(
+      apiResult.data.userId,
+      apiId,
+      validationResult.data.version,
+    );
+
+    if (!rollbackResult.success) {
+      return c.json(
+        { error: rollbackResult.error },
+        DEPLOYMENT_ERROR_STATUS[rollbackResult.error ?? ""] ?? 500,
+      );
+    }
+
+    // ロールバックしたバージョンのリビジョンをAPIの現在のコードにする
+    if (rollbackResult.data) {
+      const applyResult = await new ApiRevisionService(database).applyRollback(
+        apiId,
+        rollbackResult.data,
+      );
+      if (!applyResult.success) {
+        console.warn(
+          "Failed to apply rolled back revision:",
+          applyResult.error,
+        );
+      }
+    }
+
+    return c.json({
+      success: true,
+      data: rollbackResult.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /deploy/:id/canary - 進行中のカナリアリリースと、バージョンごとのメトリクスによる判定
+generatorRoutes.get("/deploy/:id/canary", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "view",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await getDynamicDeploymentService().getCanary(
+      access.api.userId,
+      access.api.id,
+    );
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+    if (!result.data) {
+      return c.json({ error: "No canary deployment in progress" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /deploy/:id/canary/promote - カナリアの昇格（閾値による判定を待たない）
+generatorRoutes.post("/deploy/:id/canary/promote", canDeploy, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "deploy",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await getDynamicDeploymentService().promoteCanary(
+      access.api.userId,
+      access.api.id,
+    );
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        DEPLOYMENT_ERROR_STATUS[result.error ?? ""] ?? 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /deploy/:id/canary - カナリアのロールバック（すべてのリクエストを安定版に戻す）
+generatorRoutes.delete("/deploy/:id/canary", canDeploy, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleApi(
+      database,
+      c.req.param("id"),
+      user.userId,
+      "deploy",
+    );
+    if (!access.api) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const result = await getDynamicDeploymentService().rollbackCanary(
+      access.api.userId,
+      access.api.id,
+    );
+    if (!result.success) {
+      return c.json(
+        { error: result.error },
+        DEPLOYMENT_ERROR_STATUS[result.error ?? ""] ?? 500,
+      );
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /evaluations/stats - 生成に使ったLLMプロバイダー・カテゴリごとの品質統計
+generatorRoutes.get("/evaluations/stats", canRead, async (c) => {
+  try {
+    const database = await getDatabaseConnection();
+    const result = await new ApiEvaluationService(database).qualityStats();
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /openapi.json - 公開中の全生成APIをまとめたOpenAPI 3.1ドキュメント
+generatorRoutes.get("/openapi.json", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const result = await new OpenApiService(database).forActiveApis(
+      user.userId,
+      {
+        serverUrl: new URL(c.req.url).origin,
+        payTo: DynamicDeploymentService.paymentWallet(
+          process.env.X402_WALLET_ADDRESS,
+        ),
+      },
+    );
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json(result.data);
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /deployments - デプロイメント一覧
+generatorRoutes.get("/deployments", canRead, async (c) => {
+  try {
+    const user = c.get("user");
 
-// Database connection helper
-async function getDatabaseConnection(): Promise<Database> {
-  const connection = await createClient();
-  return connection.db;
-}
+    const deploymentService = getDynamicDeploymentService();
+    const deploymentsResult = await deploymentService.listDeployments(
+      user.userId,
+    );
 
-// POST /create - API生成
-generatorRoutes.post("/create", async (c) => {
+    if (!deploymentsResult.success) {
+      return c.json({ error: deploymentsResult.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: deploymentsResult.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /list - ユーザーのAPI一覧（?scope=org で所属組織のAPI一覧）
+generatorRoutes.get("/list", canRead, async (c) => {
   try {
-    const body = await c.req.json();
     const user = c.get("user");
 
-    // バリデーション
-    const validationResult = naturalLanguageInputSchema.safeParse(body);
-    if (!validationResult.success) {
+    const queryResult = generatedApiListQuerySchema.safeParse(c.req.query());
+    if (!queryResult.success) {
       return c.json(
         {
           error: "Validation failed",
-          details: validationResult.error.issues,
+          details: queryResult.error.issues,
         },
         400,
       );
@@ -46,231 +1570,358 @@ generatorRoutes.post("/create", async (c) => {
 
     const database = await getDatabaseConnection();
     const generatedApiOperations = new GeneratedApiOperations(database);
-    const llmService = new LLMService();
 
-    // LLMでAPI生成
-    const llmResult = await llmService.generateApiFromNaturalLanguage(
-      validationResult.data,
-    );
-    if (!llmResult.success) {
-      return c.json({ error: "API generation failed" }, 500);
+    if (queryResult.data.scope === "org") {
+      // 組織未指定の場合はプライマリ組織を対象にする
+      const organizationId =
+        queryResult.data.organizationId ?? user.organizationId;
+      if (!organizationId) {
+        return c.json({ error: "Organization is required" }, 400);
+      }
+
+      const role = await new OrganizationService(database).findRole(
+        organizationId,
+        user.userId,
+      );
+      if (!role) {
+        return c.json({ error: "Access denied" }, 403);
+      }
+
+      const orgResult =
+        await generatedApiOperations.findByOrganization(organizationId);
+      if (!orgResult.success) {
+        return c.json({ error: "Failed to fetch APIs" }, 500);
+      }
+
+      return c.json({
+        success: true,
+        data: orgResult.data,
+      });
     }
 
-    // DBに保存
-    if (!llmResult.data) {
-      return c.json({ error: "Failed to generate API specification" }, 500);
+    const result = await generatedApiOperations.findByUser(user.userId);
+    if (!result.success) {
+      return c.json({ error: "Failed to fetch APIs" }, 500);
     }
 
-    const createResult = await generatedApiOperations.create({
-      name: llmResult.data.name,
-      description: llmResult.data.description,
-      endpoint: llmResult.data.endpoint,
-      method: llmResult.data.method,
-      price: llmResult.data.price,
-      currency: "USDC",
-      generatedCode: llmResult.data.generatedCode,
-      documentation: llmResult.data.documentation,
-      status: "draft",
-      userId: user.userId,
-      organizationId: user.organizationId,
+    return c.json({
+      success: true,
+      data: result.data,
     });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
 
-    if (!createResult.success) {
-      return c.json({ error: "Failed to save API" }, 500);
-    }
-
-    // 動的デプロイメントの実行（オプション）
-    let deploymentInfo = null;
-    const shouldDeploy = validationResult.data.autoDeploy !== false; // デフォルトはtrue
-
-    if (shouldDeploy) {
-      try {
-        const deploymentService = getDynamicDeploymentService();
-        if (createResult.data) {
-          const deployResult = await deploymentService.deployGeneratedApi(
-            llmResult.data,
-            user.userId,
-            createResult.data.id,
-          );
-
-          if (deployResult.success) {
-            deploymentInfo = deployResult.data;
-
-            // デプロイメント成功時はDBのステータスを更新
-            await generatedApiOperations.update(createResult.data.id, {
-              status: "active",
-            });
-          } else {
-            console.warn("Dynamic deployment failed:", deployResult.error);
-          }
-        }
-      } catch (deployError) {
-        console.warn("Dynamic deployment error:", deployError);
-      }
+// GET /search - 自分と所属組織のAPIを全文検索（一致箇所の抜粋とカテゴリ・ステータス別の件数付き）
+generatorRoutes.get("/search", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+
+    const queryResult = codeSearchQuerySchema.safeParse(c.req.query());
+    if (!queryResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: queryResult.error.issues,
+        },
+        400,
+      );
     }
 
-    return c.json(
+    const database = await getDatabaseConnection();
+
+    // プライマリ組織のメンバーであれば組織のAPIも検索対象にする
+    const role = user.organizationId
+      ? await new OrganizationService(database).findRole(
+          user.organizationId,
+          user.userId,
+        )
+      : null;
+    const result = await new ApiSearchService(database).search(
+      queryResult.data,
       {
-        success: true,
-        data: {
-          api: createResult.data,
-          deployment: deploymentInfo,
-        },
+        userId: user.userId,
+        organizationId: role ? user.organizationId : null,
       },
-      201,
     );
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
   } catch (_error) {
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
-// POST /deploy/:id - 既存APIの動的デプロイ
-generatorRoutes.post("/deploy/:id", async (c) => {
+// GET /templates - プライマリ組織のプロンプトテンプレート一覧（利用回数付き）
+generatorRoutes.get("/templates", canRead, async (c) => {
   try {
-    const apiId = c.req.param("id");
     const user = c.get("user");
-
-    // API情報を取得
-    const database = await getDatabaseConnection();
-    const generatedApiOperations = new GeneratedApiOperations(database);
-    const apiResult = await generatedApiOperations.findById(apiId);
-
-    if (!apiResult.success || !apiResult.data) {
-      return c.json({ error: "API not found" }, 404);
-    }
-
-    // 権限チェック
-    if (apiResult.data.userId !== user.userId) {
-      return c.json({ error: "Unauthorized" }, 403);
+    if (!user.organizationId) {
+      return c.json({ error: "Organization is required" }, 400);
     }
 
-    // 動的デプロイメントを実行
-    const deploymentService = getDynamicDeploymentService();
-    const apiSpec = {
-      name: apiResult.data.name,
-      description: apiResult.data.description,
-      endpoint: apiResult.data.endpoint,
-      method: apiResult.data.method as
-        | "GET"
-        | "POST"
-        | "PUT"
-        | "DELETE"
-        | "PATCH",
-      price: apiResult.data.price,
-      generatedCode: apiResult.data.generatedCode,
-      documentation: apiResult.data.documentation,
-    };
-
-    const deployResult = await deploymentService.deployGeneratedApi(
-      apiSpec,
+    const database = await getDatabaseConnection();
+    const role = await new OrganizationService(database).findRole(
+      user.organizationId,
       user.userId,
-      apiId,
     );
-
-    if (!deployResult.success) {
-      return c.json({ error: deployResult.error }, 500);
+    if (!role) {
+      return c.json({ error: "Access denied" }, 403);
     }
 
-    // APIステータスを更新
-    await generatedApiOperations.update(apiId, { status: "active" });
+    const result = await new PromptTemplateService(database).list(
+      user.organizationId,
+    );
+    if (!result.success) {
+      return c.json({ error: result.error }, 500);
+    }
 
     return c.json({
       success: true,
-      data: deployResult.data,
+      data: result.data,
     });
   } catch (_error) {
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
-// DELETE /deploy/:id - APIの無効化
-generatorRoutes.delete("/deploy/:id", async (c) => {
+// POST /templates - プライマリ組織にプロンプトテンプレートを作成
+generatorRoutes.post("/templates", canCreate, async (c) => {
   try {
-    const apiId = c.req.param("id");
+    const body = await c.req.json();
     const user = c.get("user");
 
-    // 権限チェック
-    const database = await getDatabaseConnection();
-    const generatedApiOperations = new GeneratedApiOperations(database);
-    const apiResult = await generatedApiOperations.findById(apiId);
-
-    if (!apiResult.success || !apiResult.data) {
-      return c.json({ error: "API not found" }, 404);
+    const validationResult = promptTemplateInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
     }
-
-    if (apiResult.data.userId !== user.userId) {
-      return c.json({ error: "Unauthorized" }, 403);
+    if (!user.organizationId) {
+      return c.json({ error: "Organization is required" }, 400);
     }
 
-    // 動的デプロイメントを無効化
-    const deploymentService = getDynamicDeploymentService();
-    const undeployResult = await deploymentService.undeployApi(
+    const database = await getDatabaseConnection();
+    const role = await new OrganizationService(database).findRole(
+      user.organizationId,
       user.userId,
-      apiId,
     );
+    if (
+      !role ||
+      !OrganizationService.hasRole(role, ORG_ROLE_REQUIREMENTS.edit)
+    ) {
+      return c.json({ error: "Access denied" }, 403);
+    }
 
-    if (!undeployResult.success) {
-      return c.json({ error: undeployResult.error }, 500);
+    const result = await new PromptTemplateService(database).create(
+      user.organizationId,
+      user.userId,
+      validationResult.data,
+    );
+    if (!result.success) {
+      const error = result.error ?? "Failed to create template";
+      return c.json(
+        { error, details: result.details },
+        TEMPLATE_ERROR_STATUS[error] ?? 500,
+      );
     }
 
-    // APIステータスを更新
-    await generatedApiOperations.update(apiId, { status: "inactive" });
+    return c.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /templates/:templateId - プロンプトテンプレート詳細
+generatorRoutes.get("/templates/:templateId", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleTemplate(
+      database,
+      c.req.param("templateId"),
+      user.userId,
+      "view",
+    );
+    if (!access.template) {
+      return c.json({ error: access.error }, access.status);
+    }
 
     return c.json({
       success: true,
-      data: undeployResult.data,
+      data: access.template,
     });
   } catch (_error) {
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
-// GET /deployments - デプロイメント一覧
-generatorRoutes.get("/deployments", async (c) => {
+// PATCH /templates/:templateId - プロンプトテンプレート更新
+generatorRoutes.patch("/templates/:templateId", canCreate, async (c) => {
   try {
+    const body = await c.req.json();
     const user = c.get("user");
 
-    const deploymentService = getDynamicDeploymentService();
-    const deploymentsResult = await deploymentService.listDeployments(
+    const validationResult = promptTemplateUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleTemplate(
+      database,
+      c.req.param("templateId"),
       user.userId,
+      "edit",
     );
+    if (!access.template) {
+      return c.json({ error: access.error }, access.status);
+    }
 
-    if (!deploymentsResult.success) {
-      return c.json({ error: deploymentsResult.error }, 500);
+    const result = await new PromptTemplateService(database).update(
+      access.template,
+      validationResult.data,
+    );
+    if (!result.success) {
+      const error = result.error ?? "Failed to update template";
+      return c.json(
+        { error, details: result.details },
+        TEMPLATE_ERROR_STATUS[error] ?? 500,
+      );
     }
 
     return c.json({
       success: true,
-      data: deploymentsResult.data,
+      data: result.data,
     });
   } catch (_error) {
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
-// GET /list - ユーザーのAPI一覧
-generatorRoutes.get("/list", async (c) => {
+// DELETE /templates/:templateId - プロンプトテンプレート削除
+generatorRoutes.delete("/templates/:templateId", canDelete, async (c) => {
   try {
     const user = c.get("user");
     const database = await getDatabaseConnection();
-    const generatedApiOperations = new GeneratedApiOperations(database);
+    const access = await findAccessibleTemplate(
+      database,
+      c.req.param("templateId"),
+      user.userId,
+      "delete",
+    );
+    if (!access.template) {
+      return c.json({ error: access.error }, access.status);
+    }
 
-    const result = await generatedApiOperations.findByUser(user.userId);
+    const result = await new PromptTemplateService(database).remove(
+      access.template.id,
+    );
     if (!result.success) {
-      return c.json({ error: "Failed to fetch APIs" }, 500);
+      const error = result.error ?? "Failed to delete template";
+      return c.json({ error }, TEMPLATE_ERROR_STATUS[error] ?? 500);
     }
 
     return c.json({
       success: true,
-      data: result.data,
+      message: "Template deleted successfully",
     });
   } catch (_error) {
     return c.json({ error: "Internal server error" }, 500);
   }
 });
 
+// POST /from-template/:templateId - テンプレートの変数を埋めてAPI生成（保存できたら利用回数を加算）
+generatorRoutes.post("/from-template/:templateId", canCreate, async (c) => {
+  try {
+    const body = await c.req.json();
+    const user = c.get("user");
+
+    const validationResult = generateFromTemplateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.issues,
+        },
+        400,
+      );
+    }
+
+    const database = await getDatabaseConnection();
+    const access = await findAccessibleTemplate(
+      database,
+      c.req.param("templateId"),
+      user.userId,
+      "edit",
+    );
+    if (!access.template) {
+      return c.json({ error: access.error }, access.status);
+    }
+
+    const inputResult = PromptTemplateService.buildGenerationInput(
+      access.template,
+      validationResult.data,
+    );
+    if (!inputResult.data) {
+      return c.json(
+        { error: inputResult.error, details: inputResult.details },
+        400,
+      );
+    }
+
+    const result = await createApi(database, user, inputResult.data);
+    if (!result.data) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    // 利用回数の記録に失敗してもAPIは作成済みのため成功とする
+    const usageResult = await new PromptTemplateService(database).recordUsage(
+      access.template.id,
+    );
+    if (!usageResult.success) {
+      console.warn("Failed to record template usage:", usageResult.error);
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: { ...result.data, templateId: access.template.id },
+      },
+      201,
+    );
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return c.json({ error: error.message }, 409);
+    }
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // GET /:id - API詳細取得
-generatorRoutes.get("/:id", async (c) => {
+generatorRoutes.get("/:id", canRead, async (c) => {
   try {
     const apiId = c.req.param("id");
     const user = c.get("user");
@@ -287,7 +1938,7 @@ generatorRoutes.get("/:id", async (c) => {
     }
 
     // アクセス権限チェック
-    if (result.data.userId !== user.userId) {
+    if (!(await canAccessApi(database, result.data, user.userId, "view"))) {
       return c.json({ error: "Access denied" }, 403);
     }
 
@@ -301,7 +1952,7 @@ generatorRoutes.get("/:id", async (c) => {
 });
 
 // DELETE /:id - API削除
-generatorRoutes.delete("/:id", async (c) => {
+generatorRoutes.delete("/:id", canDelete, async (c) => {
   try {
     const apiId = c.req.param("id");
     const user = c.get("user");
@@ -318,10 +1969,22 @@ generatorRoutes.delete("/:id", async (c) => {
       return c.json({ error: "API not found" }, 404);
     }
 
-    if (findResult.data.userId !== user.userId) {
+    if (
+      !(await canAccessApi(database, findResult.data, user.userId, "delete"))
+    ) {
       return c.json({ error: "Access denied" }, 403);
     }
 
+    // 公開中のルートとエンドポイントの索引を先に削除する（残るとエンドポイントが使用中のままになる）
+    const deploymentService = getDynamicDeploymentService();
+    const removeResult = await deploymentService.removeApi(
+      findResult.data.userId,
+      apiId,
+    );
+    if (!removeResult.success) {
+      return c.json({ error: removeResult.error }, 500);
+    }
+
     // 削除実行
     const deleteResult = await generatedApiOperations.delete(apiId);
     if (!deleteResult.success) {
@@ -1,4 +1,5 @@
 import { Hono } from "hono";
+import type { DynamicDeploymentService } from "../services/dynamic-deployment-service";
 import type { HealthCheckResult } from "../types/monitoring";
 import { logger } from "../utils/logger";
 
@@ -123,6 +124,16 @@ class HealthChecker {
 
 const healthChecker = new HealthChecker();
 
+/**
+ * 生成APIのコンパイル済みアプリのキャッシュ統計（index.tsでサービスが設定されている場合のみ）
+ */
+function getRouteCacheStats() {
+  const deploymentService = (
+    globalThis as { dynamicDeploymentService?: DynamicDeploymentService }
+  ).dynamicDeploymentService;
+  return deploymentService?.routeCacheStats();
+}
+
 /**
  * 基本ヘルスチェック
  * GET /health
@@ -217,6 +228,7 @@ healthRoutes.get("/detailed", async (c) => {
         ...healthChecker.getSystemMetrics(),
         responseTime: Date.now() - startTime,
       },
+      routeCache: getRouteCacheStats(),
     };
 
     // ログ出力
@@ -226,6 +238,7 @@ healthRoutes.get("/detailed", async (c) => {
         status: overallStatus,
         services,
         responseTime: result.metrics.responseTime,
+        routeCache: result.routeCache,
       },
     });
 
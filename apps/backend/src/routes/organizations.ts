@@ -0,0 +1,266 @@
+import type { Database } from "@repo/db";
+import { createClient } from "@repo/db";
+import { type Context, Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { requireScope } from "../middleware/auth";
+import { createMailTransport } from "../services/mail-service";
+import { OrganizationService } from "../services/organization-service";
+
+const organizationRoutes = new Hono();
+
+// 招待メール内リンクの遷移先（フロントエンドの承諾ページ）
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+const canRead = requireScope("organization:read");
+const canWrite = requireScope("organization:write");
+
+// サービスのエラーとHTTPステータスの対応（未定義のエラーは500）
+const ERROR_STATUS: Record<string, ContentfulStatusCode> = {
+  "Validation failed": 400,
+  "Invalid or expired invitation": 400,
+  "Insufficient organization role": 403,
+  "Invitation was issued for a different email": 403,
+  "Organization not found": 404,
+  "Member not found": 404,
+  "User not found": 404,
+  "Domain already in use": 409,
+  "User is already a member": 409,
+  "Organization must have at least one owner": 409,
+};
+
+// Database connection helper
+async function getDatabaseConnection(): Promise<Database> {
+  const connection = await createClient();
+  return connection.db;
+}
+
+// 招待メールは環境変数で選んだ送信手段で送る（本番では配信サービス）
+function createOrganizationService(database: Database): OrganizationService {
+  return new OrganizationService(database, createMailTransport());
+}
+
+function errorResponse(c: Context, error = "Internal server error") {
+  return c.json({ error }, ERROR_STATUS[error] ?? 500);
+}
+
+// POST / - 組織作成（作成者がオーナーになる）
+organizationRoutes.post("/", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.createOrganization(
+      user.userId,
+      body,
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Organization created successfully",
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET / - 所属組織一覧
+organizationRoutes.get("/", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.listOrganizations(user.userId);
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /invitations/accept - 招待の承諾
+organizationRoutes.post("/invitations/accept", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.acceptInvitation(
+      user.userId,
+      body,
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Invitation accepted successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// GET /:id - 組織詳細・メンバー一覧（メンバーのみ）
+organizationRoutes.get("/:id", canRead, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.getOrganization(
+      user.userId,
+      c.req.param("id"),
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// POST /:id/invitations - メールアドレスでメンバーを招待（admin以上）
+organizationRoutes.post("/:id/invitations", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.inviteMember(
+      user.userId,
+      c.req.param("id"),
+      body,
+      `${FRONTEND_URL}/invitations/accept`,
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Invitation sent successfully",
+      },
+      201,
+    );
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// PATCH /:id/members/:userId - メンバーのロール変更
+organizationRoutes.patch("/:id/members/:userId", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.updateMemberRole(
+      user.userId,
+      c.req.param("id"),
+      c.req.param("userId"),
+      body,
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Member role updated successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// PATCH /:id/settings - 組織設定の更新（API生成に使うLLMプロバイダーなど）
+organizationRoutes.patch("/:id/settings", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.updateSettings(
+      user.userId,
+      c.req.param("id"),
+      body,
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Organization settings updated successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+// DELETE /:id/members/:userId - メンバー削除・脱退
+organizationRoutes.delete("/:id/members/:userId", canWrite, async (c) => {
+  try {
+    const user = c.get("user");
+    const database = await getDatabaseConnection();
+    const organizationService = createOrganizationService(database);
+
+    const result = await organizationService.removeMember(
+      user.userId,
+      c.req.param("id"),
+      c.req.param("userId"),
+    );
+
+    if (!result.success) {
+      return errorResponse(c, result.error);
+    }
+
+    return c.json({
+      success: true,
+      data: result.data,
+      message: "Member removed successfully",
+    });
+  } catch (_error) {
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+export { organizationRoutes };
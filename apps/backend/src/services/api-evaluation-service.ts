@@ -0,0 +1,188 @@
+import {
+  type ApiEvaluationSummary,
+  type ApiQualityStats,
+  type Database,
+  type GeneratedApiDB,
+  type GeneratedApiEvaluationDB,
+  GeneratedApiEvaluationOperations,
+  GeneratedApiOperations,
+} from "@repo/db";
+import type { CodeEvaluationInput } from "@repo/shared/api";
+
+export interface EvaluationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface ApiEvaluations {
+  qualityScore: number | null;
+  summary: ApiEvaluationSummary;
+  evaluations: GeneratedApiEvaluationDB[];
+}
+
+export interface SavedEvaluation {
+  evaluation: GeneratedApiEvaluationDB;
+  qualityScore: number | null;
+}
+
+export type QualityStats = ApiQualityStats & { qualityScore: number | null };
+
+export interface QualityStatsReport {
+  providers: QualityStats[];
+  categories: QualityStats[];
+}
+
+/**
+ * 生成APIの評価（1〜5の評価と動作したかどうか）の保存と集計
+ * 評価が変わるたびにAPIのqualityScoreを再計算する
+ */
+export class ApiEvaluationService {
+  // 品質スコアに占める平均評価と動作率の比重
+  static readonly RATING_WEIGHT = 0.7;
+  static readonly WORKING_WEIGHT = 0.3;
+
+  private evaluationOperations: InstanceType<
+    typeof GeneratedApiEvaluationOperations
+  >;
+  private generatedApiOperations: InstanceType<typeof GeneratedApiOperations>;
+
+  constructor(database: Database) {
+    this.evaluationOperations = new GeneratedApiEvaluationOperations(database);
+    this.generatedApiOperations = new GeneratedApiOperations(database);
+  }
+
+  /**
+   * 平均評価（1〜5を0〜1に換算）と動作率から0〜100の品質スコアを求める
+   * 評価がなければnull
+   */
+  static qualityScore(summary: ApiEvaluationSummary): number | null {
+    if (summary.evaluationCount === 0) {
+      return null;
+    }
+    const rating = (summary.averageRating - 1) / 4;
+    return Math.round(
+      (rating * ApiEvaluationService.RATING_WEIGHT +
+        summary.workingRate * ApiEvaluationService.WORKING_WEIGHT) *
+        100,
+    );
+  }
+
+  /**
+   * 評価を保存する（同じユーザーの評価は上書き）
+   */
+  async evaluate(
+    api: GeneratedApiDB,
+    input: CodeEvaluationInput,
+  ): Promise<EvaluationResult<SavedEvaluation>> {
+    const result = await this.evaluationOperations.upsert({
+      apiId: api.id,
+      userId: input.userId,
+      revision: api.currentRevision,
+      rating: input.rating,
+      isWorking: input.isWorking,
+      feedback: input.feedback ?? null,
+      improvementSuggestions: input.improvementSuggestions,
+    });
+    if (!result.success) {
+      return { success: false, error: "Failed to save evaluation" };
+    }
+
+    const scoreResult = await this.refreshQualityScore(api.id);
+    if (!scoreResult.success) {
+      return { success: false, error: scoreResult.error };
+    }
+    return {
+      success: true,
+      data: {
+        evaluation: result.data,
+        qualityScore: scoreResult.data ?? null,
+      },
+    };
+  }
+
+  async list(apiId: string): Promise<EvaluationResult<ApiEvaluations>> {
+    const [listResult, summaryResult] = await Promise.all([
+      this.evaluationOperations.listByApi(apiId),
+      this.evaluationOperations.summarizeByApi(apiId),
+    ]);
+    if (!listResult.success || !summaryResult.success) {
+      return { success: false, error: "Failed to fetch evaluations" };
+    }
+    return {
+      success: true,
+      data: {
+        qualityScore: ApiEvaluationService.qualityScore(summaryResult.data),
+        summary: summaryResult.data,
+        evaluations: listResult.data,
+      },
+    };
+  }
+
+  /**
+   * 自分の評価を取り消す
+   */
+  async remove(
+    apiId: string,
+    userId: string,
+  ): Promise<EvaluationResult<{ qualityScore: number | null }>> {
+    const result = await this.evaluationOperations.delete(apiId, userId);
+    if (!result.success) {
+      return { success: false, error: "Failed to delete evaluation" };
+    }
+    if (!result.data) {
+      return { success: false, error: "Evaluation not found" };
+    }
+
+    const scoreResult = await this.refreshQualityScore(apiId);
+    if (!scoreResult.success) {
+      return { success: false, error: scoreResult.error };
+    }
+    return { success: true, data: { qualityScore: scoreResult.data ?? null } };
+  }
+
+  /**
+   * 生成に使ったLLMプロバイダー・カテゴリごとの品質統計
+   */
+  async qualityStats(): Promise<EvaluationResult<QualityStatsReport>> {
+    const [providerResult, categoryResult] = await Promise.all([
+      this.evaluationOperations.getQualityStats("llmProvider"),
+      this.evaluationOperations.getQualityStats("category"),
+    ]);
+    if (!providerResult.success || !categoryResult.success) {
+      return { success: false, error: "Failed to fetch quality stats" };
+    }
+
+    const withScore = (stats: ApiQualityStats[]): QualityStats[] =>
+      stats.map((entry) => ({
+        ...entry,
+        qualityScore: ApiEvaluationService.qualityScore(entry),
+      }));
+    return {
+      success: true,
+      data: {
+        providers: withScore(providerResult.data),
+        categories: withScore(categoryResult.data),
+      },
+    };
+  }
+
+  // 評価を集計し直してAPIの品質スコアを更新する
+  private async refreshQualityScore(
+    apiId: string,
+  ): Promise<EvaluationResult<number | null>> {
+    const summaryResult = await this.evaluationOperations.summarizeByApi(apiId);
+    if (!summaryResult.success) {
+      return { success: false, error: "Failed to update quality score" };
+    }
+
+    const qualityScore = ApiEvaluationService.qualityScore(summaryResult.data);
+    const updateResult = await this.generatedApiOperations.update(apiId, {
+      qualityScore,
+    });
+    if (!updateResult.success) {
+      return { success: false, error: "Failed to update quality score" };
+    }
+    return { success: true, data: qualityScore };
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  ApiKeyOperations,
+  type ApiKeyDB,
+  type Database,
+  UserOperations,
+} from "@repo/db";
+import { type CreateApiKeyInput, createApiKeySchema } from "@repo/shared/api";
+import {
+  ALL_API_SCOPES,
+  type ApiScope,
+  apiScopeSchema,
+} from "@repo/shared/auth";
+import { ApiKeyUtils } from "../utils/api-key";
+import type { JwtPayload } from "../utils/jwt";
+
+// 平文キーやハッシュを含まない、一覧・詳細表示用のAPIキー情報
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  description: string | null;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  organizationId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ApiKeyResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// 発行・ローテーション時のみ平文キーを返す
+export interface IssuedApiKey {
+  apiKey: ApiKeySummary;
+  key: string;
+}
+
+export interface ApiKeyPrincipal {
+  apiKeyId: string;
+  user: Omit<JwtPayload, "iat" | "exp">;
+}
+
+export class ApiKeyService {
+  private apiKeyOperations: InstanceType<typeof ApiKeyOperations>;
+  private userOperations: InstanceType<typeof UserOperations>;
+  private apiKeyUtils: ApiKeyUtils;
+
+  constructor(database: Database) {
+    this.apiKeyOperations = new ApiKeyOperations(database);
+    this.userOperations = new UserOperations(database);
+    this.apiKeyUtils = new ApiKeyUtils();
+  }
+
+  async createKey(
+    userId: string,
+    organizationId: string | null,
+    input: CreateApiKeyInput,
+  ): Promise<ApiKeyResult<IssuedApiKey>> {
+    try {
+      // バリデーション
+      const validationResult = createApiKeySchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { name, description, expiresAt, scopes } = validationResult.data;
+      if (expiresAt && expiresAt <= new Date()) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      // キー生成（DBにはハッシュとプレフィックスのみ保存）
+      const generated = await this.apiKeyUtils.generate();
+
+      const createResult = await this.apiKeyOperations.create({
+        name,
+        description: description ?? null,
+        keyHash: generated.keyHash,
+        keyPrefix: generated.keyPrefix,
+        scopes: scopes ?? [...ALL_API_SCOPES],
+        userId,
+        organizationId,
+        expiresAt: expiresAt ?? null,
+      });
+
+      if (!createResult.success) {
+        return {
+          success: false,
+          error: "API key creation failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          apiKey: this.toSummary(createResult.data),
+          key: generated.key,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "API key creation failed",
+      };
+    }
+  }
+
+  async listKeys(userId: string): Promise<ApiKeyResult<ApiKeySummary[]>> {
+    try {
+      const result = await this.apiKeyOperations.findByUser(userId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Failed to fetch API keys",
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.map((apiKey) => this.toSummary(apiKey)),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to fetch API keys",
+      };
+    }
+  }
+
+  async rotateKey(
+    userId: string,
+    keyId: string,
+  ): Promise<ApiKeyResult<IssuedApiKey>> {
+    try {
+      const ownedKey = await this.findOwnedKey(userId, keyId);
+      if (!ownedKey.success) {
+        return { success: false, error: ownedKey.error };
+      }
+
+      // 同じレコードのハッシュを差し替えることで旧キーを即時失効させる
+      const generated = await this.apiKeyUtils.generate();
+      const updateResult = await this.apiKeyOperations.update(keyId, {
+        keyHash: generated.keyHash,
+        keyPrefix: generated.keyPrefix,
+      });
+
+      if (!updateResult.success || !updateResult.data) {
+        return {
+          success: false,
+          error: "API key rotation failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          apiKey: this.toSummary(updateResult.data),
+          key: generated.key,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "API key rotation failed",
+      };
+    }
+  }
+
+  async revokeKey(
+    userId: string,
+    keyId: string,
+  ): Promise<ApiKeyResult<{ id: string }>> {
+    try {
+      const ownedKey = await this.findOwnedKey(userId, keyId);
+      if (!ownedKey.success) {
+        return { success: false, error: ownedKey.error };
+      }
+
+      const deleteResult = await this.apiKeyOperations.delete(keyId);
+      if (!deleteResult.success || !deleteResult.data) {
+        return {
+          success: false,
+          error: "API key revocation failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: { id: keyId },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "API key revocation failed",
+      };
+    }
+  }
+
+  /**
+   * 平文キーを検証し、キー所有者の認証情報を返す
+   */
+  async authenticate(key: string): Promise<ApiKeyResult<ApiKeyPrincipal>> {
+    try {
+      if (!this.apiKeyUtils.isApiKeyFormat(key)) {
+        return {
+          success: false,
+          error: "Invalid API key",
+        };
+      }
+
+      const keyHash = await this.apiKeyUtils.hash(key);
+      const keyResult = await this.apiKeyOperations.findByKeyHash(keyHash);
+      if (!keyResult.success || !keyResult.data) {
+        return {
+          success: false,
+          error: "Invalid API key",
+        };
+      }
+
+      const apiKey = keyResult.data;
+
+      // 有効期限チェック
+      if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+        return {
+          success: false,
+          error: "API key has expired",
+        };
+      }
+
+      const userResult = await this.userOperations.findById(apiKey.userId);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: "Invalid API key",
+        };
+      }
+
+      // 最終利用日時の更新はベストエフォート
+      await this.apiKeyOperations.updateLastUsed(apiKey.id);
+
+      return {
+        success: true,
+        data: {
+          apiKeyId: apiKey.id,
+          user: {
+            userId: userResult.data.id,
+            email: userResult.data.email,
+            organizationId: apiKey.organizationId,
+            scopes: this.parseScopes(apiKey.scopes),
+          },
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "API key authentication failed",
+      };
+    }
+  }
+
+  private async findOwnedKey(
+    userId: string,
+    keyId: string,
+  ): Promise<ApiKeyResult<ApiKeyDB>> {
+    const result = await this.apiKeyOperations.findById(keyId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: "Database error",
+      };
+    }
+
+    // 他ユーザーのキーは存在しないものとして扱う
+    if (!result.data || result.data.userId !== userId) {
+      return {
+        success: false,
+        error: "API key not found",
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data,
+    };
+  }
+
+  private toSummary(apiKey: ApiKeyDB): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      description: apiKey.description,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: this.parseScopes(apiKey.scopes),
+      organizationId: apiKey.organizationId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt,
+    };
+  }
+
+  // 未知のスコープ（廃止済みなど）は付与しない
+  private parseScopes(scopes: string[]): ApiScope[] {
+    return scopes.filter(
+      (scope): scope is ApiScope => apiScopeSchema.safeParse(scope).success,
+    );
+  }
+}
@@ -0,0 +1,525 @@
+import {
+  type Database,
+  type GeneratedApiDB,
+  type GeneratedApiEndpointDB,
+  GeneratedApiEndpointOperations,
+  GeneratedApiOperations,
+  type GeneratedApiRevisionDB,
+  GeneratedApiRevisionOperations,
+} from "@repo/db";
+import type { CodeImprovementRequest, LLMProvider } from "@repo/shared/api";
+import { ConflictError } from "../middleware/error-handler";
+import type {
+  ApiTestRunResult,
+  CanaryCompletion,
+  CanaryOptions,
+  DeploymentInfo,
+  DeploymentOptions,
+} from "../types/dynamic-routes";
+import { createUnifiedDiff } from "../utils/unified-diff";
+import { ApiTestService } from "./api-test-service";
+import type { DynamicDeploymentService } from "./dynamic-deployment-service";
+import { EndpointNamespaceService } from "./endpoint-namespace-service";
+import {
+  type GeneratedApiSpec,
+  type GeneratedEndpointSpec,
+  LLMService,
+} from "./llm-service";
+
+export interface RevisionResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export type RevisionSource = "generated" | "improved";
+
+// 一覧用（コード・ドキュメント・差分を除く）
+export type RevisionSummary = Omit<
+  GeneratedApiRevisionDB,
+  "generatedCode" | "documentation" | "diff"
+>;
+
+export interface ImprovementResult {
+  revision: GeneratedApiRevisionDB;
+  diff: string; // 現在のバージョンに対するunified diff（コードとドキュメント）
+}
+
+export interface RevisionComparison {
+  from: number;
+  to: number;
+  diff: string;
+}
+
+export interface RevisionDeployment {
+  api: GeneratedApiDB;
+  deployment: DeploymentInfo;
+  testRun?: ApiTestRunResult;
+}
+
+type RevisionContent = Pick<
+  GeneratedApiRevisionDB,
+  "generatedCode" | "documentation"
+>;
+
+/**
+ * 生成済みAPIのリビジョン管理
+ * 生成・改善のたびに generated_api_revisions へ行を追加し、
+ * generated_apis のコードは指定したリビジョンをデプロイしたときのみ切り替える
+ */
+export class ApiRevisionService {
+  private generatedApiOperations: InstanceType<typeof GeneratedApiOperations>;
+  private revisionOperations: InstanceType<
+    typeof GeneratedApiRevisionOperations
+  >;
+  private endpointOperations: InstanceType<
+    typeof GeneratedApiEndpointOperations
+  >;
+  private llmService: LLMService;
+  private testService: ApiTestService;
+  private endpointNamespaces: EndpointNamespaceService;
+
+  constructor(database: Database, llmService: LLMService = new LLMService()) {
+    this.generatedApiOperations = new GeneratedApiOperations(database);
+    this.revisionOperations = new GeneratedApiRevisionOperations(database);
+    this.endpointOperations = new GeneratedApiEndpointOperations(database);
+    this.llmService = llmService;
+    this.testService = new ApiTestService(database, llmService);
+    this.endpointNamespaces = new EndpointNamespaceService(database);
+  }
+
+  /**
+   * 生成直後のAPIを最初のリビジョンとして記録する
+   */
+  async recordInitial(
+    api: GeneratedApiDB,
+    prompt: string,
+    authorId: string,
+  ): Promise<RevisionResult<GeneratedApiRevisionDB>> {
+    const result = await this.revisionOperations.create({
+      ...ApiRevisionService.specOf(api),
+      apiId: api.id,
+      revision: api.currentRevision,
+      source: "generated" satisfies RevisionSource,
+      prompt,
+      metadata: api.metadata,
+      authorId,
+    });
+    if (!result.success) {
+      return { success: false, error: "Revision save failed" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * 現在のコードと改善依頼をLLMに渡し、結果を新しいリビジョンとして保存する
+   * 現在のコードは上書きしない（反映するにはリビジョンをデプロイする）
+   */
+  async improve(
+    api: GeneratedApiDB,
+    request: CodeImprovementRequest,
+    authorId: string,
+    organizationProvider: LLMProvider | null = null,
+  ): Promise<RevisionResult<ImprovementResult>> {
+    const llmResult = await this.llmService.improveCode(
+      {
+        name: api.name,
+        description: api.description,
+        generatedCode: api.generatedCode,
+        documentation: api.documentation,
+        improvementPrompt: request.improvementPrompt,
+        focusAreas: request.focusAreas,
+      },
+      { organizationProvider },
+    );
+    if (!llmResult.success || !llmResult.data) {
+      return { success: false, error: llmResult.error };
+    }
+    const improved = llmResult.data;
+
+    const safety = await this.llmService.validateApiSafety(
+      improved.generatedCode,
+    );
+    if (!safety.success) {
+      return { success: false, error: "Unsafe code generated" };
+    }
+
+    const latestResult = await this.revisionOperations.findLatest(api.id);
+    if (!latestResult.success) {
+      return { success: false, error: "Revision save failed" };
+    }
+    const revision =
+      Math.max(latestResult.data?.revision ?? 0, api.currentRevision) + 1;
+
+    const diff = ApiRevisionService.diff(
+      api,
+      improved,
+      api.currentRevision,
+      revision,
+    );
+    if (!diff) {
+      return { success: false, error: "No changes generated" };
+    }
+
+    const createResult = await this.revisionOperations.create({
+      ...ApiRevisionService.specOf(api),
+      generatedCode: improved.generatedCode,
+      documentation: improved.documentation,
+      apiId: api.id,
+      revision,
+      baseRevision: api.currentRevision,
+      source: "improved" satisfies RevisionSource,
+      prompt: request.improvementPrompt,
+      summary: improved.summary,
+      diff,
+      metadata: {
+        focusAreas: request.focusAreas,
+        llmProvider: improved.provider,
+        llmModel: improved.model,
+      },
+      authorId,
+    });
+    if (!createResult.success) {
+      return { success: false, error: "Revision save failed" };
+    }
+
+    return { success: true, data: { revision: createResult.data, diff } };
+  }
+
+  /**
+   * 新しい順のリビジョン一覧
+   */
+  async list(apiId: string): Promise<RevisionResult<RevisionSummary[]>> {
+    const result = await this.revisionOperations.listByApi(apiId);
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch revisions" };
+    }
+    return {
+      success: true,
+      data: result.data.map(
+        ({
+          generatedCode: _code,
+          documentation: _docs,
+          diff: _diff,
+          ...rest
+        }) => rest,
+      ),
+    };
+  }
+
+  async find(
+    apiId: string,
+    revision: number,
+  ): Promise<RevisionResult<GeneratedApiRevisionDB>> {
+    const result = await this.revisionOperations.findByRevision(
+      apiId,
+      revision,
+    );
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch revisions" };
+    }
+    if (!result.data) {
+      return { success: false, error: "Revision not found" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * 2つのリビジョン間のunified diff
+   */
+  async compare(
+    apiId: string,
+    from: number,
+    to: number,
+  ): Promise<RevisionResult<RevisionComparison>> {
+    const [fromResult, toResult] = await Promise.all([
+      this.find(apiId, from),
+      this.find(apiId, to),
+    ]);
+    if (!fromResult.data) {
+      return { success: false, error: fromResult.error };
+    }
+    if (!toResult.data) {
+      return { success: false, error: toResult.error };
+    }
+
+    return {
+      success: true,
+      data: {
+        from,
+        to,
+        diff: ApiRevisionService.diff(fromResult.data, toResult.data, from, to),
+      },
+    };
+  }
+
+  /**
+   * 指定したリビジョンをデプロイし、APIの現在のコードをそのリビジョンに切り替える
+   * APIに保存されたテストケースをそのリビジョンのコードに対して実行する
+   * 複数ルートのAPIは保存されたルートがすべてコードに登録されている必要がある
+   * マウント先が他のAPIに使われていればConflictErrorを投げる
+   */
+  async deployRevision(
+    api: GeneratedApiDB,
+    revision: number,
+    deploymentService: DynamicDeploymentService,
+    triggeredBy: string,
+    options: DeploymentOptions = {},
+  ): Promise<
+    RevisionResult<RevisionDeployment> & { testRun?: ApiTestRunResult }
+  > {
+    const specResult = await this.revisionSpec(api, revision);
+    if (!specResult.data) {
+      return { success: false, error: specResult.error };
+    }
+    await this.endpointNamespaces.ensureAvailable(
+      specResult.data.spec.endpoint,
+      api.id,
+    );
+
+    // ルートは作成者単位で管理されるため作成者IDでデプロイする
+    const deployResult = await deploymentService.deployGeneratedApi(
+      specResult.data.spec,
+      api.userId,
+      api.id,
+      { ...options, revision },
+    );
+    await this.testService.recordDeployment(
+      api.id,
+      revision,
+      deployResult,
+      triggeredBy,
+    );
+    if (!deployResult.success || !deployResult.data) {
+      return {
+        success: false,
+        error: deployResult.error,
+        testRun: deployResult.testRun,
+      };
+    }
+
+    const updateResult = await this.applyRevision(
+      api.id,
+      specResult.data.revision,
+    );
+    if (!updateResult.data) {
+      return { success: false, error: updateResult.error };
+    }
+
+    return {
+      success: true,
+      data: {
+        api: updateResult.data,
+        deployment: deployResult.data,
+        testRun: deployResult.testRun,
+      },
+    };
+  }
+
+  /**
+   * 指定したリビジョンを公開中のバージョンのカナリアとしてデプロイする
+   * APIの現在のコードはカナリアを昇格したときに切り替える（applyCanaryCompletion）
+   * マウント先が他のAPIに使われていればConflictErrorを投げる
+   */
+  async deployCanary(
+    api: GeneratedApiDB,
+    revision: number,
+    deploymentService: DynamicDeploymentService,
+    triggeredBy: string,
+    options: CanaryOptions,
+  ): Promise<
+    RevisionResult<RevisionDeployment> & { testRun?: ApiTestRunResult }
+  > {
+    const specResult = await this.revisionSpec(api, revision);
+    if (!specResult.data) {
+      return { success: false, error: specResult.error };
+    }
+    await this.endpointNamespaces.ensureAvailable(
+      specResult.data.spec.endpoint,
+      api.id,
+    );
+
+    const deployResult = await deploymentService.startCanary(
+      specResult.data.spec,
+      api.userId,
+      api.id,
+      { ...options, revision },
+    );
+    await this.testService.recordDeployment(
+      api.id,
+      revision,
+      deployResult,
+      triggeredBy,
+    );
+    if (!deployResult.success || !deployResult.data) {
+      return {
+        success: false,
+        error: deployResult.error,
+        testRun: deployResult.testRun,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        api,
+        deployment: deployResult.data,
+        testRun: deployResult.testRun,
+      },
+    };
+  }
+
+  /**
+   * 昇格したカナリアのリビジョンをAPIの現在のコードにする
+   * ロールバックした場合とリビジョンを指定せずに開始したカナリアでは何もしない（dataはnull）
+   */
+  async applyCanaryCompletion(
+    completion: CanaryCompletion,
+  ): Promise<RevisionResult<GeneratedApiDB | null>> {
+    const { config, decision } = completion;
+    if (decision !== "promote" || config.revision === undefined) {
+      return { success: true, data: null };
+    }
+
+    const revisionResult = await this.find(config.apiId, config.revision);
+    if (!revisionResult.data) {
+      return { success: false, error: revisionResult.error };
+    }
+    return this.applyRevision(config.apiId, revisionResult.data);
+  }
+
+  /**
+   * ロールバックしたバージョンのリビジョンをAPIの現在のコードにする
+   * リビジョンを記録する前にデプロイしたバージョンではAPIを公開中にするだけ
+   */
+  async applyRollback(
+    apiId: string,
+    deployment: DeploymentInfo,
+  ): Promise<RevisionResult<GeneratedApiDB>> {
+    if (deployment.revision === undefined) {
+      const updateResult = await this.generatedApiOperations.update(apiId, {
+        status: "active",
+      });
+      if (!updateResult.success || !updateResult.data) {
+        return { success: false, error: "Failed to update API" };
+      }
+      return { success: true, data: updateResult.data };
+    }
+
+    const revisionResult = await this.find(apiId, deployment.revision);
+    if (!revisionResult.data) {
+      return { success: false, error: revisionResult.error };
+    }
+    return this.applyRevision(apiId, revisionResult.data);
+  }
+
+  // リビジョンのコードと保存されたルート・テストケースからデプロイ用の仕様を作る
+  private async revisionSpec(
+    api: GeneratedApiDB,
+    revision: number,
+  ): Promise<
+    RevisionResult<{ revision: GeneratedApiRevisionDB; spec: GeneratedApiSpec }>
+  > {
+    const revisionResult = await this.find(api.id, revision);
+    if (!revisionResult.data) {
+      return { success: false, error: revisionResult.error };
+    }
+    const endpointsResult = await this.endpointOperations.listByApi(api.id);
+    if (!endpointsResult.success) {
+      return { success: false, error: "Failed to fetch API endpoints" };
+    }
+    return {
+      success: true,
+      data: {
+        revision: revisionResult.data,
+        spec: {
+          ...ApiRevisionService.specOf(revisionResult.data),
+          endpoints: ApiRevisionService.endpointSpecs(endpointsResult.data),
+          testCases: ApiTestService.parseTestCases(api.testCode),
+        },
+      },
+    };
+  }
+
+  // APIの現在のコードを公開したリビジョンに切り替える
+  // リビジョンのマウント先が他のAPIに使われていればConflictErrorを投げる
+  private async applyRevision(
+    apiId: string,
+    revision: GeneratedApiRevisionDB,
+  ): Promise<RevisionResult<GeneratedApiDB>> {
+    const updateResult = await this.generatedApiOperations.update(apiId, {
+      ...ApiRevisionService.specOf(revision),
+      currentRevision: revision.revision,
+      status: "active",
+    });
+    if (
+      !updateResult.success &&
+      EndpointNamespaceService.isEndpointConflict(updateResult.error)
+    ) {
+      throw new ConflictError(
+        `Endpoint ${revision.endpoint} is already in use by another API`,
+      );
+    }
+    if (!updateResult.success || !updateResult.data) {
+      return { success: false, error: "Failed to update API" };
+    }
+    return { success: true, data: updateResult.data };
+  }
+
+  // APIまたはリビジョンからデプロイに必要な仕様を取り出す
+  /**
+   * 保存されたルートをデプロイ用の仕様にする（単一ルートのAPIはundefined）
+   */
+  static endpointSpecs(
+    endpoints: GeneratedApiEndpointDB[],
+  ): GeneratedEndpointSpec[] | undefined {
+    if (endpoints.length === 0) {
+      return undefined;
+    }
+    return endpoints.map((endpoint) => ({
+      method: endpoint.method as GeneratedEndpointSpec["method"],
+      path: endpoint.path,
+      price: endpoint.price,
+      ...(endpoint.description ? { description: endpoint.description } : {}),
+    }));
+  }
+
+  private static specOf(
+    source: GeneratedApiDB | GeneratedApiRevisionDB,
+  ): GeneratedApiSpec {
+    return {
+      name: source.name,
+      description: source.description,
+      endpoint: source.endpoint,
+      method: source.method as GeneratedApiSpec["method"],
+      price: source.price,
+      generatedCode: source.generatedCode,
+      documentation: source.documentation,
+    };
+  }
+
+  // コードとドキュメントの差分を1つのパッチにまとめる
+  private static diff(
+    from: RevisionContent,
+    to: RevisionContent,
+    fromRevision: number,
+    toRevision: number,
+  ): string {
+    const labels = (file: string) => ({
+      oldLabel: `a/revision-${fromRevision}/${file}`,
+      newLabel: `b/revision-${toRevision}/${file}`,
+    });
+    return (
+      createUnifiedDiff(
+        from.generatedCode,
+        to.generatedCode,
+        labels("index.ts"),
+      ) +
+      createUnifiedDiff(
+        from.documentation,
+        to.documentation,
+        labels("README.md"),
+      )
+    );
+  }
+}
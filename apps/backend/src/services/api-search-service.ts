@@ -0,0 +1,110 @@
+import {
+  type Database,
+  GeneratedApiOperations,
+  type GeneratedApiSearchHit,
+  type GeneratedApiSearchPage,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+} from "@repo/db";
+import type { CodeSearchQuery } from "@repo/shared/api";
+
+export interface ApiSearchResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface ApiSearchVisibility {
+  userId: string;
+  organizationId?: string | null;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// 生成APIは常にTypeScript/Honoで、保存されるのは生成に成功したもののみ
+const GENERATED_LANGUAGE = "typescript";
+const GENERATED_FRAMEWORK = "hono";
+const GENERATED_STATUS = "completed";
+
+/**
+ * 生成APIカタログの全文検索（名前・説明・ドキュメント・コード）
+ * 一致箇所の抜粋はHTMLエスケープしたうえで<mark>で囲んで返す
+ */
+export class ApiSearchService {
+  private generatedApiOperations: InstanceType<typeof GeneratedApiOperations>;
+
+  constructor(database: Database) {
+    this.generatedApiOperations = new GeneratedApiOperations(database);
+  }
+
+  /**
+   * 区切り文字で囲まれた一致箇所を<mark>に置き換える（本文はエスケープする）
+   */
+  static highlight(snippet: string): string {
+    return snippet
+      .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char)
+      .replaceAll(SEARCH_HIGHLIGHT_START, "<mark>")
+      .replaceAll(SEARCH_HIGHLIGHT_END, "</mark>");
+  }
+
+  async search(
+    query: CodeSearchQuery,
+    visibleTo: ApiSearchVisibility,
+  ): Promise<ApiSearchResult<GeneratedApiSearchPage>> {
+    // 生成APIに存在しない言語・フレームワーク・生成ステータスは該当なし
+    if (
+      (query.language && query.language !== GENERATED_LANGUAGE) ||
+      (query.framework && query.framework !== GENERATED_FRAMEWORK) ||
+      (query.status && query.status !== GENERATED_STATUS)
+    ) {
+      return {
+        success: true,
+        data: { items: [], total: 0, facets: { category: [], status: [] } },
+      };
+    }
+
+    const result = await this.generatedApiOperations.search({
+      query: query.query || undefined,
+      visibleTo,
+      llmProvider: query.llmProvider,
+      category: query.category,
+      status: query.apiStatus,
+      minQualityScore: query.minQualityScore,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+      limit: query.limit,
+      offset: query.offset,
+    });
+    if (!result.success) {
+      return { success: false, error: "Failed to search APIs" };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        items: result.data.items.map((item) => this.withHighlights(item)),
+      },
+    };
+  }
+
+  private withHighlights(item: GeneratedApiSearchHit): GeneratedApiSearchHit {
+    if (!item.snippets) {
+      return item;
+    }
+    return {
+      ...item,
+      snippets: {
+        description: ApiSearchService.highlight(item.snippets.description),
+        documentation: ApiSearchService.highlight(item.snippets.documentation),
+        code: ApiSearchService.highlight(item.snippets.code),
+      },
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import type { ApiTestCase } from "@repo/shared/api";
+import type {
+  ApiTestCaseResult,
+  ApiTestRunResult,
+} from "../types/dynamic-routes";
+
+type FetchHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * コンパイル済みのHonoアプリに対して生成テストを実行する
+ * ネットワークを介さず app.fetch を直接呼ぶ
+ */
+export class ApiTestRunner {
+  static readonly BASE_URL = "http://localhost";
+  static readonly DEFAULT_TIMEOUT_MS = 5000; // テストケースごと
+
+  constructor(private timeoutMs = ApiTestRunner.DEFAULT_TIMEOUT_MS) {}
+
+  async run(app: object, testCases: ApiTestCase[]): Promise<ApiTestRunResult> {
+    const { fetch } = app as { fetch?: FetchHandler };
+    if (typeof fetch !== "function") {
+      throw new Error("Compiled application has no fetch handler");
+    }
+    const handler = fetch.bind(app);
+
+    // 状態を持つAPIもあるため順番に実行する
+    const results: ApiTestCaseResult[] = [];
+    for (const testCase of testCases) {
+      results.push(await this.runCase(handler, testCase));
+    }
+
+    const failed = results.filter((result) => !result.passed).length;
+    return {
+      passed: failed === 0,
+      total: results.length,
+      failed,
+      results,
+    };
+  }
+
+  private async runCase(
+    handler: FetchHandler,
+    testCase: ApiTestCase,
+  ): Promise<ApiTestCaseResult> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.withTimeout(
+        Promise.resolve(handler(this.buildRequest(testCase))),
+      );
+      const failures = await this.checkResponse(response, testCase.expect);
+      return {
+        name: testCase.name,
+        passed: failures.length === 0,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        failures,
+      };
+    } catch (error) {
+      return {
+        name: testCase.name,
+        passed: false,
+        durationMs: Date.now() - startedAt,
+        failures: [
+          `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+  }
+
+  private buildRequest({ request }: ApiTestCase): Request {
+    const url = new URL(request.path, ApiTestRunner.BASE_URL);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      url.searchParams.set(key, value);
+    }
+
+    const hasBody =
+      request.body !== undefined &&
+      request.method !== "GET" &&
+      request.method !== "DELETE";
+    return new Request(url, {
+      method: request.method,
+      headers: {
+        ...(hasBody ? { "Content-Type": "application/json" } : {}),
+        ...request.headers,
+      },
+      body: hasBody ? JSON.stringify(request.body) : undefined,
+    });
+  }
+
+  private async checkResponse(
+    response: Response,
+    expected: ApiTestCase["expect"],
+  ): Promise<string[]> {
+    const failures: string[] = [];
+    if (response.status !== expected.status) {
+      failures.push(
+        `Expected status ${expected.status} but got ${response.status}`,
+      );
+    }
+
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (expected.contentType && !contentType.includes(expected.contentType)) {
+      failures.push(
+        `Expected content type ${expected.contentType} but got ${contentType || "none"}`,
+      );
+    }
+
+    const body = await response.text();
+    for (const text of expected.bodyContains ?? []) {
+      if (!body.includes(text)) {
+        failures.push(`Response body does not contain "${text}"`);
+      }
+    }
+    if (expected.jsonKeys && expected.jsonKeys.length > 0) {
+      failures.push(...this.checkJsonKeys(body, expected.jsonKeys));
+    }
+    return failures;
+  }
+
+  private checkJsonKeys(body: string, keys: string[]): string[] {
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch (_error) {
+      return ["Response body is not JSON"];
+    }
+    if (typeof json !== "object" || json === null) {
+      return ["Response body is not a JSON object"];
+    }
+    return keys
+      .filter((key) => !(key in json))
+      .map((key) => `Response JSON is missing key "${key}"`);
+  }
+
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error(`Timed out after ${this.timeoutMs}ms`)),
+        this.timeoutMs,
+      );
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  type Database,
+  type GeneratedApiTestRunDB,
+  GeneratedApiTestRunOperations,
+} from "@repo/db";
+import { type ApiTestCase, apiTestSuiteSchema } from "@repo/shared/api";
+import type {
+  ApiTestRunResult,
+  DeploymentResult,
+} from "../types/dynamic-routes";
+import {
+  type GeneratedApiSpec,
+  type GenerationOptions,
+  type LLMResult,
+  LLMService,
+} from "./llm-service";
+import { SecureCodeExecutor } from "./secure-code-executor";
+
+export interface TestResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * 生成APIのテストケースの生成と実行結果の記録
+ * テストケースは generated_apis.testCode にJSONで保存する
+ */
+export class ApiTestService {
+  private testRunOperations: InstanceType<typeof GeneratedApiTestRunOperations>;
+  private codeExecutor: SecureCodeExecutor;
+  private llmService: LLMService;
+
+  constructor(database: Database, llmService: LLMService = new LLMService()) {
+    this.testRunOperations = new GeneratedApiTestRunOperations(database);
+    this.codeExecutor = new SecureCodeExecutor();
+    this.llmService = llmService;
+  }
+
+  /**
+   * 保存されたテストケースを読み込む（未生成・不正な場合は空）
+   */
+  static parseTestCases(testCode: string | null): ApiTestCase[] {
+    if (!testCode) {
+      return [];
+    }
+    try {
+      const parsed = apiTestSuiteSchema.safeParse(JSON.parse(testCode));
+      return parsed.success ? parsed.data : [];
+    } catch (_error) {
+      return [];
+    }
+  }
+
+  static serializeTestCases(testCases?: ApiTestCase[]): string | null {
+    return testCases && testCases.length > 0
+      ? JSON.stringify(testCases, null, 2)
+      : null;
+  }
+
+  /**
+   * コードに登録されているエンドポイントごとにテストケースを生成する
+   */
+  async generate(
+    spec: GeneratedApiSpec,
+    options: GenerationOptions = {},
+  ): Promise<LLMResult<ApiTestCase[]>> {
+    const endpoints =
+      this.codeExecutor.extractRouteMetadata(spec.generatedCode)?.endpoints ??
+      [];
+    return await this.llmService.generateTestCases(spec, endpoints, options);
+  }
+
+  async recordRun(
+    apiId: string,
+    revision: number,
+    testRun: ApiTestRunResult,
+    triggeredBy: string | null,
+    overridden = false,
+  ): Promise<TestResult<GeneratedApiTestRunDB>> {
+    const result = await this.testRunOperations.create({
+      apiId,
+      revision,
+      passed: testRun.passed,
+      total: testRun.total,
+      failed: testRun.failed,
+      results: testRun.results,
+      overridden,
+      triggeredBy,
+    });
+    if (!result.success) {
+      return { success: false, error: "Failed to record test run" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * デプロイ時に実行したテストの結果を記録する（テストがなければ何もしない）
+   * 失敗したテストを許可してデプロイした場合はoverriddenとして残す
+   */
+  async recordDeployment(
+    apiId: string,
+    revision: number,
+    deployResult: DeploymentResult,
+    triggeredBy: string,
+  ): Promise<void> {
+    if (!deployResult.testRun) {
+      return;
+    }
+    const result = await this.recordRun(
+      apiId,
+      revision,
+      deployResult.testRun,
+      triggeredBy,
+      deployResult.success && !deployResult.testRun.passed,
+    );
+    if (!result.success) {
+      console.warn("Failed to record test run:", result.error);
+    }
+  }
+
+  async listRuns(
+    apiId: string,
+    limit?: number,
+  ): Promise<TestResult<GeneratedApiTestRunDB[]>> {
+    const result = await this.testRunOperations.listByApi(apiId, limit);
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch test runs" };
+    }
+    return { success: true, data: result.data };
+  }
+}
@@ -1,40 +1,102 @@
 // Database type will be inferred from @repo/db
 import {
   type Database,
+  OrganizationMemberOperations,
   OrganizationOperations,
+  PasswordResetTokenOperations,
   UserOperations,
+  WalletLinkOperations,
 } from "@repo/db";
 import type {
-  JwtPayload,
+  EmailVerificationConfirmInput,
   LoginInput,
   PasswordResetInput,
   PasswordResetRequestInput,
   RegisterInput,
+  SiweVerifyInput,
+  TwoFactorLoginInput,
 } from "@repo/shared/auth";
 import {
+  emailVerificationConfirmSchema,
   loginSchema,
   passwordResetRequestSchema,
   passwordResetSchema,
   registerSchema,
+  twoFactorLoginSchema,
 } from "@repo/shared/auth";
-import { JwtUtils } from "../utils/jwt";
+import { EmailVerificationUtils } from "../utils/email-verification";
 import { PasswordUtils } from "../utils/password";
+import { PasswordResetTokenUtils } from "../utils/password-reset-token";
+import {
+  type SignedTokenClaims,
+  SignedTokenUtils,
+} from "../utils/signed-token";
+import { ConsoleMailTransport, type MailTransport } from "./mail-service";
+import {
+  type LoginMethod,
+  LoginSecurityService,
+  MailLoginAlertHook,
+} from "./login-security-service";
+import { type SessionContext, SessionService } from "./session-service";
+import { SiweService } from "./siwe-service";
+import { TwoFactorService } from "./two-factor-service";
+
+export interface AuthSession {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    organizationId: string | null;
+  };
+  token: string; // アクセストークン（短命）
+  refreshToken: string;
+  expiresIn: number; // アクセストークンの有効期間（秒）
+}
+
+// 二要素認証が有効なユーザーのログイン途中状態（トークンはまだ発行しない）
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number; // チャレンジトークンの有効期間（秒）
+}
+
+interface TwoFactorChallengeClaims {
+  userId: string;
+  method: LoginMethod; // 1段階目の認証方法（ログイン履歴に記録）
+}
+
+// ログイン処理で参照するユーザー情報
+type LoginUser = {
+  id: string;
+  email: string;
+  name: string;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date | null;
+};
 
 export interface AuthResult {
+  success: boolean;
+  data?: AuthSession;
+  error?: string;
+  retryAfter?: number; // アカウントロック中の場合、解除までの秒数
+}
+
+export interface LoginResult {
+  success: boolean;
+  data?: AuthSession | TwoFactorChallenge;
+  error?: string;
+  retryAfter?: number; // アカウントロック中の場合、解除までの秒数
+}
+
+export interface PasswordResetResult {
   success: boolean;
   data?: {
-    user: {
-      id: string;
-      email: string;
-      name: string;
-      organizationId: string | null;
-    };
-    token: string;
+    message: string;
   };
   error?: string;
 }
 
-export interface PasswordResetResult {
+export interface EmailVerificationResult {
   success: boolean;
   data?: {
     message: string;
@@ -43,21 +105,60 @@ export interface PasswordResetResult {
 }
 
 export class AuthService {
+  private static readonly RESET_TOKEN_TTL_MS = 15 * 60 * 1000; // 15分
+  private static readonly MAX_RESET_ATTEMPTS = 5;
+  private static readonly TWO_FACTOR_CHALLENGE_TTL = 5 * 60; // 5分
+
   private userOperations: InstanceType<typeof UserOperations>;
   private organizationOperations: InstanceType<typeof OrganizationOperations>;
+  private memberOperations: InstanceType<typeof OrganizationMemberOperations>;
+  private passwordResetTokenOperations: InstanceType<
+    typeof PasswordResetTokenOperations
+  >;
+  private walletLinkOperations: InstanceType<typeof WalletLinkOperations>;
   private passwordUtils: PasswordUtils;
-  private jwtUtils: JwtUtils;
-  private resetTokens: Map<string, { email: string; expires: Date }> =
-    new Map();
-
-  constructor(database: Database, jwtSecret: string) {
+  private resetTokenUtils: PasswordResetTokenUtils;
+  private emailVerificationUtils: EmailVerificationUtils;
+  private challengeTokenUtils: SignedTokenUtils<TwoFactorChallengeClaims>;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
+  private siweService: SiweService;
+  private loginSecurityService: LoginSecurityService;
+  private mailTransport: MailTransport;
+
+  constructor(
+    database: Database,
+    jwtSecret: string,
+    mailTransport: MailTransport = new ConsoleMailTransport(),
+    siweService: SiweService = new SiweService(),
+  ) {
     this.userOperations = new UserOperations(database);
     this.organizationOperations = new OrganizationOperations(database);
+    this.memberOperations = new OrganizationMemberOperations(database);
+    this.passwordResetTokenOperations = new PasswordResetTokenOperations(
+      database,
+    );
+    this.walletLinkOperations = new WalletLinkOperations(database);
     this.passwordUtils = new PasswordUtils();
-    this.jwtUtils = new JwtUtils(jwtSecret);
+    this.resetTokenUtils = new PasswordResetTokenUtils(jwtSecret);
+    this.emailVerificationUtils = new EmailVerificationUtils(jwtSecret);
+    this.challengeTokenUtils = new SignedTokenUtils(
+      jwtSecret,
+      "two-factor-challenge",
+    );
+    this.sessionService = new SessionService(database, jwtSecret);
+    this.twoFactorService = new TwoFactorService(database, jwtSecret);
+    this.siweService = siweService;
+    this.loginSecurityService = new LoginSecurityService(database, [
+      new MailLoginAlertHook(mailTransport),
+    ]);
+    this.mailTransport = mailTransport;
   }
 
-  async register(input: RegisterInput): Promise<AuthResult> {
+  async register(
+    input: RegisterInput,
+    context: SessionContext = {},
+  ): Promise<AuthResult> {
     try {
       // バリデーション
       const validationResult = registerSchema.safeParse(input);
@@ -89,7 +190,24 @@ export class AuthService {
       // パスワードハッシュ化
       const passwordHash = await this.passwordUtils.hash(password);
 
-      // 組織作成（組織名が提供された場合）
+      // ユーザー作成
+      const userResult = await this.userOperations.create({
+        email,
+        name,
+        passwordHash,
+        emailVerified: false,
+      });
+
+      if (!userResult.success) {
+        return {
+          success: false,
+          error: "User registration failed",
+        };
+      }
+
+      const user = userResult.data;
+
+      // 組織作成（組織名が提供された場合、登録ユーザーをオーナーにする）
       let organizationId: string | null = null;
       if (organizationName) {
         const orgResult = await this.organizationOperations.create({
@@ -103,35 +221,38 @@ export class AuthService {
             error: "Organization creation failed",
           };
         }
+
+        const memberResult = await this.memberOperations.create({
+          organizationId: orgResult.data.id,
+          userId: user.id,
+          role: "owner",
+        });
+        if (!memberResult.success) {
+          return {
+            success: false,
+            error: "Organization creation failed",
+          };
+        }
         organizationId = orgResult.data.id;
       }
 
-      // ユーザー作成
-      const userResult = await this.userOperations.create({
-        email,
-        name,
-        passwordHash,
-        organizationId,
-        emailVerified: false,
-      });
-
-      if (!userResult.success) {
+      // セッション作成（アクセストークン・リフレッシュトークン発行）
+      const sessionResult = await this.sessionService.createSession(
+        {
+          userId: user.id,
+          email: user.email,
+          organizationId,
+        },
+        context,
+      );
+      if (!sessionResult.success || !sessionResult.data) {
         return {
           success: false,
-          error: "User registration failed",
+          error: "Session creation failed",
         };
       }
 
-      const user = userResult.data;
-
-      // JWTトークン生成
-      const tokenPayload: Omit<JwtPayload, "iat" | "exp"> = {
-        userId: user.id,
-        email: user.email,
-        organizationId: user.organizationId,
-      };
-
-      const token = await this.jwtUtils.sign(tokenPayload);
+      const { accessToken, refreshToken, expiresIn } = sessionResult.data;
 
       return {
         success: true,
@@ -140,9 +261,11 @@ export class AuthService {
             id: user.id,
             email: user.email,
             name: user.name,
-            organizationId: user.organizationId,
+            organizationId,
           },
-          token,
+          token: accessToken,
+          refreshToken,
+          expiresIn,
         },
       };
     } catch (_error) {
@@ -153,7 +276,10 @@ export class AuthService {
     }
   }
 
-  async login(input: LoginInput): Promise<AuthResult> {
+  async login(
+    input: LoginInput,
+    context: SessionContext = {},
+  ): Promise<LoginResult> {
     try {
       // バリデーション
       const validationResult = loginSchema.safeParse(input);
@@ -184,45 +310,283 @@ export class AuthService {
 
       const user = userResult.data;
 
+      // ロック中はパスワードを検証しない（総当たりの継続を防ぐ）
+      const lockout = this.loginSecurityService.checkLockout(user);
+      if (lockout.locked) {
+        await this.loginSecurityService.recordLocked(
+          user.id,
+          context,
+          "password",
+        );
+        return {
+          success: false,
+          error: "Account temporarily locked",
+          retryAfter: lockout.retryAfter,
+        };
+      }
+
       // パスワード検証
       const isValidPassword = await this.passwordUtils.verify(
         password,
         user.passwordHash,
       );
       if (!isValidPassword) {
+        await this.loginSecurityService.recordFailure(
+          user.id,
+          context,
+          "password",
+          "invalid_password",
+        );
         return {
           success: false,
           error: "Invalid credentials",
         };
       }
 
-      // JWTトークン生成
-      const tokenPayload: Omit<JwtPayload, "iat" | "exp"> = {
-        userId: user.id,
-        email: user.email,
-        organizationId: user.organizationId,
+      return await this.startSession(user, context, "password");
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Login failed",
       };
+    }
+  }
+
+  /**
+   * Sign-In With Ethereum: リンク済みウォレットの署名でログインする
+   */
+  async loginWithWallet(
+    input: SiweVerifyInput,
+    context: SessionContext = {},
+  ): Promise<LoginResult> {
+    try {
+      const verifyResult = await this.siweService.verify(input);
+      if (!verifyResult.success || !verifyResult.data) {
+        return {
+          success: false,
+          error: verifyResult.error,
+        };
+      }
+
+      const linkResult = await this.walletLinkOperations.findByAddress(
+        verifyResult.data.address,
+      );
+      if (!linkResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (!linkResult.data) {
+        return {
+          success: false,
+          error: "Wallet not linked",
+        };
+      }
+
+      const userResult = await this.userOperations.findById(
+        linkResult.data.userId,
+      );
+      if (!userResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (!userResult.data) {
+        return {
+          success: false,
+          error: "Wallet not linked",
+        };
+      }
+
+      await this.walletLinkOperations.markUsed(linkResult.data.id);
+
+      return await this.startSession(userResult.data, context, "siwe");
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Login failed",
+      };
+    }
+  }
+
+  /**
+   * ログインの2段階目: チャレンジトークンと認証コード（TOTP・リカバリーコード）を検証する
+   */
+  async completeTwoFactorLogin(
+    input: TwoFactorLoginInput,
+    context: SessionContext = {},
+  ): Promise<AuthResult> {
+    try {
+      // バリデーション
+      const validationResult = twoFactorLoginSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { challengeToken, code } = validationResult.data;
+
+      let claims: SignedTokenClaims<TwoFactorChallengeClaims>;
+      try {
+        claims = await this.challengeTokenUtils.verify(challengeToken);
+      } catch (_error) {
+        return {
+          success: false,
+          error: "Invalid or expired challenge",
+        };
+      }
+
+      const userResult = await this.userOperations.findById(claims.userId);
+      if (!userResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (!userResult.data) {
+        return {
+          success: false,
+          error: "Invalid or expired challenge",
+        };
+      }
+
+      const user = userResult.data;
+
+      // 認証コードの総当たりもパスワードと同じ失敗回数でロックする
+      const lockout = this.loginSecurityService.checkLockout(user);
+      if (lockout.locked) {
+        await this.loginSecurityService.recordLocked(
+          user.id,
+          context,
+          claims.method,
+        );
+        return {
+          success: false,
+          error: "Account temporarily locked",
+          retryAfter: lockout.retryAfter,
+        };
+      }
 
-      const token = await this.jwtUtils.sign(tokenPayload);
+      const verifyResult = await this.twoFactorService.verifyCode(
+        user.id,
+        code,
+      );
+      if (!verifyResult.success) {
+        if (verifyResult.error === "Invalid two-factor code") {
+          await this.loginSecurityService.recordFailure(
+            user.id,
+            context,
+            claims.method,
+            "invalid_two_factor_code",
+          );
+        }
+        return {
+          success: false,
+          error:
+            verifyResult.error === "Two-factor authentication not enabled"
+              ? "Invalid or expired challenge"
+              : verifyResult.error,
+        };
+      }
 
+      return await this.createAuthenticatedSession(
+        user,
+        context,
+        claims.method,
+      );
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Login failed",
+      };
+    }
+  }
+
+  // 二要素認証が有効な場合はチャレンジトークンのみ返し、コード確認後にセッションを発行
+  private async startSession(
+    user: LoginUser,
+    context: SessionContext,
+    method: LoginMethod,
+  ): Promise<LoginResult> {
+    const twoFactorResult = await this.twoFactorService.isEnabled(user.id);
+    if (!twoFactorResult.success) {
+      return {
+        success: false,
+        error: "Database error",
+      };
+    }
+    if (twoFactorResult.data) {
       return {
         success: true,
         data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            organizationId: user.organizationId,
-          },
-          token,
+          twoFactorRequired: true,
+          challengeToken: await this.challengeTokenUtils.sign(
+            { userId: user.id, method },
+            AuthService.TWO_FACTOR_CHALLENGE_TTL,
+          ),
+          expiresIn: AuthService.TWO_FACTOR_CHALLENGE_TTL,
         },
       };
-    } catch (_error) {
+    }
+
+    return await this.createAuthenticatedSession(user, context, method);
+  }
+
+  private async createAuthenticatedSession(
+    user: LoginUser,
+    context: SessionContext,
+    method: LoginMethod,
+  ): Promise<AuthResult> {
+    // プライマリ組織（最初に参加した組織）をトークンに含める
+    const organizationResult =
+      await this.memberOperations.findPrimaryOrganizationId(user.id);
+    if (!organizationResult.success) {
       return {
         success: false,
-        error: "Login failed",
+        error: "Database error",
+      };
+    }
+    const organizationId = organizationResult.data;
+
+    // セッション作成（アクセストークン・リフレッシュトークン発行）
+    const sessionResult = await this.sessionService.createSession(
+      {
+        userId: user.id,
+        email: user.email,
+        organizationId,
+      },
+      context,
+    );
+    if (!sessionResult.success || !sessionResult.data) {
+      return {
+        success: false,
+        error: "Session creation failed",
       };
     }
+
+    // 失敗回数のリセット・ログイン履歴の記録・未知のIPの検知
+    await this.loginSecurityService.recordSuccess(user, context, method);
+
+    const { accessToken, refreshToken, expiresIn } = sessionResult.data;
+
+    return {
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          organizationId,
+        },
+        token: accessToken,
+        refreshToken,
+        expiresIn,
+      },
+    };
   }
 
   async requestPasswordReset(
@@ -259,18 +623,41 @@ export class AuthService {
         };
       }
 
-      // リセットトークン生成（6桁の数字）
-      const resetToken = Math.floor(100000 + Math.random() * 900000).toString();
-      const expires = new Date(Date.now() + 15 * 60 * 1000); // 15分後
+      // 以前のコードは無効にする（有効なコードを1つに限り、試行回数の上限が全体に効くようにする）
+      const invalidateResult =
+        await this.passwordResetTokenOperations.invalidateAllByEmail(email);
+      if (!invalidateResult.success) {
+        return {
+          success: false,
+          error: "Password reset request failed",
+        };
+      }
 
-      // トークンを保存
-      this.resetTokens.set(resetToken, { email, expires });
+      // リセットコード生成（DBにはハッシュのみ保存）
+      const resetCode = this.resetTokenUtils.generate();
+      const createResult = await this.passwordResetTokenOperations.create({
+        userId: userResult.data.id,
+        email,
+        tokenHash: await this.resetTokenUtils.hash(email, resetCode),
+        expiresAt: new Date(Date.now() + AuthService.RESET_TOKEN_TTL_MS),
+      });
 
-      // 期限切れトークンのクリーンアップ
-      this.cleanupExpiredTokens();
+      if (!createResult.success) {
+        return {
+          success: false,
+          error: "Password reset request failed",
+        };
+      }
 
-      // 実際のアプリケーションでは、ここでメール送信を行う
-      console.log(`Password reset token for ${email}: ${resetToken}`);
+      await this.mailTransport.send({
+        to: email,
+        subject: "パスワードリセットのご案内",
+        text: [
+          "パスワードリセットのリクエストを受け付けました。",
+          `リセットコード: ${resetCode}`,
+          "このコードの有効期限は15分です。心当たりがない場合はこのメールを破棄してください。",
+        ].join("\n"),
+      });
 
       return {
         success: true,
@@ -297,20 +684,53 @@ export class AuthService {
         };
       }
 
-      const { token, password } = validationResult.data;
+      const { email, token, password } = validationResult.data;
 
-      // トークン検証
-      const tokenData = this.resetTokens.get(token);
-      if (!tokenData) {
+      // 有効なトークン取得
+      const tokensResult =
+        await this.passwordResetTokenOperations.findActiveByEmail(email);
+      if (!tokensResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      const activeTokens = tokensResult.data;
+      if (activeTokens.length === 0) {
         return {
           success: false,
           error: "Invalid or expired reset token",
         };
       }
 
-      // 有効期限チェック
-      if (new Date() > tokenData.expires) {
-        this.resetTokens.delete(token);
+      // 試行回数上限に達している場合は全トークンを無効化
+      if (
+        activeTokens.some(
+          (resetToken) => resetToken.attempts >= AuthService.MAX_RESET_ATTEMPTS,
+        )
+      ) {
+        await this.passwordResetTokenOperations.invalidateAllByEmail(email);
+        return {
+          success: false,
+          error: "Too many reset attempts",
+        };
+      }
+
+      // トークン検証
+      const tokenHash = await this.resetTokenUtils.hash(email, token);
+      const matchedToken = activeTokens.find(
+        (resetToken) => resetToken.tokenHash === tokenHash,
+      );
+      if (!matchedToken) {
+        const attemptsResult =
+          await this.passwordResetTokenOperations.incrementAttempts(email);
+        if (
+          attemptsResult.success &&
+          attemptsResult.data >= AuthService.MAX_RESET_ATTEMPTS
+        ) {
+          await this.passwordResetTokenOperations.invalidateAllByEmail(email);
+        }
         return {
           success: false,
           error: "Invalid or expired reset token",
@@ -318,7 +738,7 @@ export class AuthService {
       }
 
       // ユーザー検索
-      const userResult = await this.userOperations.findByEmail(tokenData.email);
+      const userResult = await this.userOperations.findByEmail(email);
       if (!userResult.success || !userResult.data) {
         return {
           success: false,
@@ -344,8 +764,19 @@ export class AuthService {
         };
       }
 
-      // 使用済みトークンを削除
-      this.resetTokens.delete(token);
+      // 使用済みトークンを含め、未使用のトークンをすべて無効化
+      await this.passwordResetTokenOperations.invalidateAllByEmail(email);
+
+      // 既存のセッション（リフレッシュトークン・アクセストークン）をすべて失効させる
+      const revokeResult = await this.sessionService.revokeAllSessions(
+        userResult.data.id,
+      );
+      if (!revokeResult.success) {
+        return {
+          success: false,
+          error: "Session revocation failed",
+        };
+      }
 
       return {
         success: true,
@@ -361,12 +792,129 @@ export class AuthService {
     }
   }
 
-  private cleanupExpiredTokens(): void {
-    const now = new Date();
-    for (const [token, data] of this.resetTokens.entries()) {
-      if (now > data.expires) {
-        this.resetTokens.delete(token);
+  /**
+   * 署名付きの確認リンクをメールで送信する（verifyUrlはフロントエンドの確認ページ）
+   */
+  async requestEmailVerification(
+    userId: string,
+    verifyUrl: string,
+  ): Promise<EmailVerificationResult> {
+    try {
+      const userResult = await this.userOperations.findById(userId);
+      if (!userResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      if (!userResult.data) {
+        return {
+          success: false,
+          error: "User not found",
+        };
+      }
+
+      const user = userResult.data;
+      if (user.emailVerified) {
+        return {
+          success: false,
+          error: "Email already verified",
+        };
       }
+
+      const token = await this.emailVerificationUtils.sign({
+        userId: user.id,
+        email: user.email,
+      });
+
+      await this.mailTransport.send({
+        to: user.email,
+        subject: "メールアドレスの確認",
+        text: [
+          "以下のリンクからメールアドレスの確認を完了してください。",
+          `${verifyUrl}?token=${encodeURIComponent(token)}`,
+          "このリンクの有効期限は24時間です。",
+        ].join("\n"),
+      });
+
+      return {
+        success: true,
+        data: {
+          message: "Verification email has been sent",
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Email verification request failed",
+      };
+    }
+  }
+
+  async confirmEmailVerification(
+    input: EmailVerificationConfirmInput,
+  ): Promise<EmailVerificationResult> {
+    try {
+      // バリデーション
+      const validationResult = emailVerificationConfirmSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      // 署名・有効期限の検証
+      let claims: Awaited<ReturnType<EmailVerificationUtils["verify"]>>;
+      try {
+        claims = await this.emailVerificationUtils.verify(
+          validationResult.data.token,
+        );
+      } catch (_error) {
+        return {
+          success: false,
+          error: "Invalid or expired verification token",
+        };
+      }
+
+      // 発行後にメールアドレスが変更された場合は無効
+      const userResult = await this.userOperations.findById(claims.userId);
+      if (
+        !userResult.success ||
+        !userResult.data ||
+        userResult.data.email !== claims.email
+      ) {
+        return {
+          success: false,
+          error: "Invalid or expired verification token",
+        };
+      }
+
+      if (!userResult.data.emailVerified) {
+        const updateResult = await this.userOperations.update(
+          userResult.data.id,
+          { emailVerified: true },
+        );
+        if (!updateResult.success) {
+          return {
+            success: false,
+            error: "Email verification failed",
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          message: "Email has been verified successfully",
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Email verification failed",
+      };
     }
   }
 }
@@ -1,37 +1,250 @@
-import type { Hono } from "hono";
+import type { Context, ExecutionContext, MiddlewareHandler } from "hono";
+import { getCookie } from "hono/cookie";
 import type {
+  ApiTestRunResult,
+  CanaryCompletion,
+  CanaryConfig,
+  CanaryEvaluation,
+  CanaryMetricsSample,
+  CanaryOptions,
+  CanaryStatus,
+  CanaryThresholds,
+  CompiledRoute,
+  DeployedEndpoint,
   DeploymentInfo,
+  DeploymentOptions,
+  DeploymentResult,
   DynamicRouteEntry,
+  DynamicRouteMetadata,
   DynamicRouteResult,
+  RouteCacheStats,
 } from "../types/dynamic-routes";
+import type { VersionMetrics } from "../types/monitoring";
+import { LruCache } from "../utils/lru-cache";
+import { MetricsCollector, metricsCollector } from "../utils/metrics-collector";
+import { ApiTestRunner } from "./api-test-runner";
 import { DynamicRouteManager } from "./dynamic-route-manager";
 import type { GeneratedApiSpec } from "./llm-service";
 import { SecureCodeExecutor } from "./secure-code-executor";
 
+// コンパイル済みの生成APIのHonoアプリ
+interface DeployedApp {
+  fetch: (
+    request: Request,
+    env?: unknown,
+    executionCtx?: ExecutionContext,
+  ) => Response | Promise<Response>;
+}
+
+// ディスパッチャーが振り分けた生成APIのバージョン（パフォーマンス監視がメトリクスに記録する）
+declare module "hono" {
+  interface ContextVariableMap {
+    deployment: { apiId: string; version: number };
+  }
+}
+
+// ルートのメタデータに保存した価格（ディスパッチャーが支払いを検証する）
+type RoutePricing = Pick<DynamicRouteMetadata, "price" | "endpoints">;
+
+// 公開中のルート（endpointは末尾のスラッシュを除いたマウント先）
+interface ActiveRoute {
+  apiId: string;
+  endpoint: string;
+  version: number;
+  app: DeployedApp;
+  pricing: RoutePricing;
+  canary?: { config: CanaryConfig; app: DeployedApp; pricing: RoutePricing }; // カナリアリリース中のみ
+  validatedAt: number; // KVの索引と最後に照合した時刻
+}
+
+// コンパイル・ルートの確認・生成テストを通過したコード
+interface PreparedRelease {
+  app: object;
+  metadata: CompiledRoute["metadata"];
+  testRun?: ApiTestRunResult;
+}
+
+type CanaryListener = (completion: CanaryCompletion) => Promise<void> | void;
+
+// x402-hono の paymentMiddleware（index.ts から渡す）
+export type PaymentMiddlewareFactory = (
+  payTo: `0x${string}`,
+  routes: Record<string, { price: string; network: "base-sepolia" }>,
+) => MiddlewareHandler;
+
+export interface DynamicDeploymentOptions {
+  routeCacheSize?: number; // メモリに保持するコンパイル済みアプリの数
+  // 生成APIの支払いの検証（支払いはプラットフォームのウォレット payTo で受け取る）
+  // 未設定の場合は支払いを受け付けず、x402で保護したルートは常に402を返す
+  payment?: { payTo: `0x${string}`; middleware: PaymentMiddlewareFactory };
+}
+
+const DEFAULT_ROUTE_CACHE_SIZE = 100;
+
+// KVの索引を引くマウント先の最大階層（深いパスで索引の読み込みが増えないようにする）
+const MAX_INDEXED_ENDPOINT_DEPTH = 4;
+
+// キャッシュしたルートをKVと照合する間隔（他のisolateでのデプロイ・無効化はこの時間内に反映される）
+const ROUTE_REVALIDATION_INTERVAL_MS = 30_000;
+
+// このisolateの累計をKVに保存し、全isolateの合計で判定し直す間隔
+const CANARY_EVALUATION_INTERVAL_MS = 10_000;
+
+const DEFAULT_CANARY_THRESHOLDS: CanaryThresholds = {
+  minRequests: 100,
+  maxErrorRateIncrease: 0.02,
+  maxLatencyRatio: 1.5,
+};
+
+const CANARY_IN_PROGRESS_ERROR = "A canary deployment is in progress";
+const ENDPOINT_IN_USE_ERROR = "Endpoint is already in use by another API";
+
+// Workers以外（テストなど）ではExecutionContextが無い
+function executionContextOf(c: Context): ExecutionContext | undefined {
+  try {
+    return c.executionCtx;
+  } catch (_error) {
+    return undefined;
+  }
+}
+
 export class DynamicDeploymentService {
   public routeManager: DynamicRouteManager;
   private codeExecutor: SecureCodeExecutor;
-  private mainApp: Hono;
-  private deployedRoutes: Map<string, object>; // apiId -> Hono app instance
-  private routeRegistrations: Map<string, string>; // apiId -> endpoint
+  private testRunner: ApiTestRunner;
+  private routeCache: LruCache<string, ActiveRoute>; // マウント先 -> 公開中のルート
+  private pendingRehydrations: Map<string, Promise<ActiveRoute | null>>; // マウント先 -> 復元中の処理
+  private cacheStats = { hits: 0, misses: 0, rehydrated: 0 };
+  private pendingCanaryCompletions: Map<
+    string,
+    Promise<DynamicRouteResult<DeploymentInfo>>
+  >; // apiId -> 終了中のカナリアリリース
+  private canaryListeners: CanaryListener[] = [];
+  private canaryEvaluations = new Map<
+    string,
+    { startedAt: string; evaluatedAt: number; evaluation: CanaryEvaluation }
+  >(); // apiId -> 全isolateの合計による最新の判定
+  private readonly isolateId = crypto.randomUUID(); // カナリアの累計を保存するキー
+  private payment: DynamicDeploymentOptions["payment"];
 
-  constructor(mainApp: Hono) {
+  constructor(options: DynamicDeploymentOptions = {}) {
     this.routeManager = new DynamicRouteManager();
     this.codeExecutor = new SecureCodeExecutor();
-    this.mainApp = mainApp;
-    this.deployedRoutes = new Map();
-    this.routeRegistrations = new Map();
+    this.testRunner = new ApiTestRunner();
+    // 置き換え・無効化・追い出しでキャッシュから外れたアプリはVMを解放する
+    this.routeCache = new LruCache(
+      options.routeCacheSize ?? DEFAULT_ROUTE_CACHE_SIZE,
+      (route) => DynamicDeploymentService.disposeRoute(route),
+    );
+    this.pendingRehydrations = new Map();
+    this.pendingCanaryCompletions = new Map();
+    this.payment = options.payment;
+  }
+
+  /**
+   * デプロイ中の生成APIへリクエストを振り分けるミドルウェア
+   * リクエストごとに公開中のルートを引くため、デプロイ・ロールバック・無効化は次のリクエストから反映される
+   * キャッシュに無いルートはKVから復元する（新しいisolateでの最初のリクエストなど）
+   * カナリアリリース中は閾値で昇格・ロールバックを判定してから、安定版とカナリアのどちらかに振り分ける
+   * 価格を設定したルートは生成APIに渡す前にx402の支払いを検証し、検証したX-PAYMENTヘッダーだけを生成APIに渡す
+   * （サンドボックスのx402()はヘッダーが無ければ402を返す）
+   * 一致するルートが無ければ後続のハンドラーに渡す
+   */
+  dispatcher(): MiddlewareHandler {
+    return async (c, next) => {
+      const route = await this.resolveRoute(c.req.path);
+      if (!route) {
+        await next();
+        return;
+      }
+
+      const target = await this.selectVersion(c, route);
+      c.set("deployment", { apiId: route.apiId, version: target.version });
+
+      // app.route(endpoint, app) と同じく、マウント先を除いたパスで生成APIに渡す
+      const url = new URL(c.req.url);
+      url.pathname = c.req.path.slice(route.endpoint.length) || "/";
+      const forward = (paymentVerified: boolean) => {
+        const request = new Request(url, c.req.raw);
+        if (!paymentVerified) {
+          request.headers.delete("X-PAYMENT");
+        }
+        return target.app.fetch(request, c.env, executionContextOf(c));
+      };
+
+      const price = DynamicDeploymentService.priceOf(
+        target.pricing,
+        c.req.method,
+        url.pathname,
+      );
+      if (!this.payment || price === undefined) {
+        return forward(false);
+      }
+      const requirePayment = this.payment.middleware(this.payment.payTo, {
+        [`${c.req.method} ${c.req.path}`]: {
+          price: `$${price}`,
+          network: "base-sepolia",
+        },
+      });
+      const paymentRequired = await requirePayment(c, async () => {
+        c.res = await forward(true);
+      });
+      return paymentRequired ?? c.res;
+    };
+  }
+
+  /**
+   * カナリアリリースの終了（昇格・ロールバック）を通知する
+   * 閾値による自動判定はリクエストの振り分け中に行われるため、APIの状態の更新などはここで受け取る
+   */
+  onCanaryCompleted(listener: CanaryListener): void {
+    this.canaryListeners.push(listener);
+  }
+
+  /**
+   * 生成APIの支払いを受け取るプラットフォームのウォレット（X402_WALLET_ADDRESS）
+   * 未設定・アドレスとして不正な値の場合はundefined（支払いを受け付けない）
+   */
+  static paymentWallet(address: string | undefined): `0x${string}` | undefined {
+    return address && /^0x[0-9a-fA-F]{40}$/.test(address)
+      ? (address as `0x${string}`)
+      : undefined;
+  }
+
+  /**
+   * Honoのapp.route(endpoint, app)で公開されるパス
+   */
+  static mountedPath(endpoint: string, path: string): string {
+    const base = endpoint.replace(/\/+$/, "");
+    return path === "/" ? base || "/" : `${base}${path}`;
   }
 
   /**
    * 生成されたAPIを動的にデプロイ
+   * 複数ルートのAPIは宣言した全ルートがコードに登録されていることを確認してまとめてデプロイする
+   * テストケースがあればコンパイル後に実行し、失敗した場合はデプロイしない
+   * （options.allowFailingTests で続行できる。いずれの場合も結果を testRun で返す）
+   * 他のAPIが公開中のマウント先にはデプロイしない
    */
   async deployGeneratedApi(
     apiSpec: GeneratedApiSpec,
     userId: string,
     apiId: string,
-  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    options: DeploymentOptions = {},
+  ): Promise<DeploymentResult> {
     try {
+      const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+      if (canaryResult.data) {
+        return { success: false, error: CANARY_IN_PROGRESS_ERROR };
+      }
+
+      const occupiedResult = await this.routeManager.findActiveRouteByEndpoint(
+        apiSpec.endpoint,
+      );
+      if (occupiedResult.data && occupiedResult.data.metadata.apiId !== apiId) {
+        return { success: false, error: ENDPOINT_IN_USE_ERROR };
+      }
+
       // 既存のデプロイメント確認
       const existingDeployment = await this.getActiveDeployment(userId, apiId);
       const nextVersion =
@@ -39,58 +252,49 @@ export class DynamicDeploymentService {
           ? existingDeployment.data.version + 1
           : 1;
 
-      // ルートエントリ作成
-      const routeEntry: DynamicRouteEntry = {
-        code: apiSpec.generatedCode,
-        metadata: {
-          endpoint: apiSpec.endpoint,
-          method: apiSpec.method,
-          status: "draft",
-          createdAt: new Date().toISOString(),
-          version: nextVersion,
-          userId,
-          apiId,
-        },
-      };
-
-      // ルート保存
-      const saveResult = await this.routeManager.saveRoute(routeEntry);
-      if (!saveResult.success) {
+      const prepared = await this.prepareRelease(apiSpec, options);
+      if (!prepared.success || !prepared.data) {
         return {
           success: false,
-          error: `Failed to save route: ${saveResult.error}`,
+          error: prepared.error,
+          testRun: prepared.testRun,
         };
       }
+      const { app, metadata, testRun } = prepared.data;
 
-      // コードコンパイル
-      const compileResult = await this.codeExecutor.compileHonoRoute(
-        apiSpec.generatedCode,
+      // ルートエントリ作成
+      const routeEntry = DynamicDeploymentService.routeEntryOf(
+        apiSpec,
+        userId,
+        apiId,
+        nextVersion,
+        "draft",
+        options.revision,
       );
-      if (!compileResult.success) {
-        return {
-          success: false,
-          error: `Code validation failed: ${compileResult.error}`,
-        };
-      }
 
-      // 動的ルート登録
-      if (!compileResult.data) {
+      // ルート保存
+      const saveResult = await this.routeManager.saveRoute(routeEntry);
+      if (!saveResult.success) {
         return {
           success: false,
-          error: "Compiled route data is missing",
+          error: `Failed to save route: ${saveResult.error}`,
         };
       }
 
+      // 動的ルート登録
       const registrationResult = await this.registerDynamicRoute(
         apiId,
         apiSpec.endpoint,
-        compileResult.data,
+        app,
+        nextVersion,
+        routeEntry.metadata,
       );
 
       if (!registrationResult.success) {
         return {
           success: false,
           error: `Route registration failed: ${registrationResult.error}`,
+          testRun,
         };
       }
 
@@ -102,7 +306,11 @@ export class DynamicDeploymentService {
         version: nextVersion,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        metadata: compileResult.metadata,
+        endpoints: this.publicEndpoints(
+          apiSpec.endpoint,
+          routeEntry.metadata.endpoints,
+        ),
+        metadata,
       };
 
       // ルートステータスを active に更新
@@ -112,6 +320,7 @@ export class DynamicDeploymentService {
       return {
         success: true,
         data: deploymentInfo,
+        testRun,
       };
     } catch (error) {
       return {
@@ -130,6 +339,11 @@ export class DynamicDeploymentService {
     targetVersion: number,
   ): Promise<DynamicRouteResult<DeploymentInfo>> {
     try {
+      const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+      if (canaryResult.data) {
+        return { success: false, error: CANARY_IN_PROGRESS_ERROR };
+      }
+
       // ロールバック実行
       const rollbackResult = await this.routeManager.rollbackRoute(
         userId,
@@ -171,11 +385,12 @@ export class DynamicDeploymentService {
         };
       }
 
-      await this.unregisterDynamicRoute(apiId);
       const registrationResult = await this.registerDynamicRoute(
         apiId,
         rolledBackRoute.metadata.endpoint,
         compileResult.data,
+        rolledBackRoute.metadata.version,
+        rolledBackRoute.metadata,
       );
 
       if (!registrationResult.success) {
@@ -192,6 +407,11 @@ export class DynamicDeploymentService {
         version: rolledBackRoute.metadata.version,
         createdAt: rolledBackRoute.metadata.createdAt,
         updatedAt: new Date().toISOString(),
+        endpoints: this.publicEndpoints(
+          rolledBackRoute.metadata.endpoint,
+          rolledBackRoute.metadata.endpoints,
+        ),
+        revision: rolledBackRoute.metadata.revision,
         metadata: compileResult.metadata,
       };
 
@@ -211,7 +431,7 @@ export class DynamicDeploymentService {
   }
 
   /**
-   * APIの無効化
+   * APIの無効化（カナリアリリース中はカナリアを破棄して安定版を無効化する）
    */
   async undeployApi(
     userId: string,
@@ -221,8 +441,24 @@ export class DynamicDeploymentService {
       // ルートの無効化
       await this.unregisterDynamicRoute(apiId);
 
-      // 最新ルートのステータスを inactive に更新
-      const routeResult = await this.routeManager.loadRoute(userId, apiId);
+      const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+      const canary = canaryResult.data;
+      if (canary) {
+        await this.routeManager.deleteRoute(
+          userId,
+          apiId,
+          canary.canaryVersion,
+        );
+        await this.routeManager.deleteCanary(userId, apiId);
+        this.canaryEvaluations.delete(apiId);
+      }
+
+      // 公開中（カナリアリリース中は安定版、それ以外は最新）のルートのステータスを inactive に更新
+      const routeResult = await this.routeManager.loadRoute(
+        userId,
+        apiId,
+        canary?.stableVersion,
+      );
       if (routeResult.success && routeResult.data) {
         routeResult.data.metadata.status = "inactive";
         await this.routeManager.saveRoute(routeResult.data);
@@ -250,6 +486,26 @@ export class DynamicDeploymentService {
     }
   }
 
+  /**
+   * APIの削除に伴い、無効化したうえで全バージョンのルート・索引をKVから削除する
+   * 削除後は他のAPIが同じエンドポイントにデプロイできる
+   */
+  async removeApi(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<void>> {
+    const undeployResult = await this.undeployApi(userId, apiId);
+    if (!undeployResult.success) {
+      return { success: false, error: undeployResult.error };
+    }
+
+    const deleteResult = await this.routeManager.deleteRoute(userId, apiId);
+    if (!deleteResult.success) {
+      return { success: false, error: deleteResult.error };
+    }
+    return { success: true };
+  }
+
   /**
    * デプロイメント一覧取得
    */
@@ -275,10 +531,7 @@ export class DynamicDeploymentService {
       const deployments: DeploymentInfo[] = userRoutesResult.data.map(
         (route) => ({
           deploymentId: `deploy_${route.userId}_${route.apiId}_${route.version}`,
-          status:
-            route.status === "active"
-              ? ("deployed" as const)
-              : ("undeployed" as const),
+          status: DynamicDeploymentService.deploymentStatusOf(route.status),
           endpoint: route.endpoint,
           version: route.version,
           createdAt: route.createdAt,
@@ -299,14 +552,20 @@ export class DynamicDeploymentService {
   }
 
   /**
-   * アクティブなデプロイメント取得
+   * アクティブなデプロイメント取得（カナリアリリース中は安定版とカナリアの設定）
    */
   async getActiveDeployment(
     userId: string,
     apiId: string,
   ): Promise<DynamicRouteResult<DeploymentInfo | null>> {
     try {
-      const routeResult = await this.routeManager.loadRoute(userId, apiId);
+      const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+      const canary = canaryResult.data ?? undefined;
+      const routeResult = await this.routeManager.loadRoute(
+        userId,
+        apiId,
+        canary?.stableVersion,
+      );
       if (!routeResult.success || !routeResult.data) {
         return { success: true, data: null };
       }
@@ -323,6 +582,11 @@ export class DynamicDeploymentService {
         version: route.metadata.version,
         createdAt: route.metadata.createdAt,
         updatedAt: route.metadata.createdAt,
+        endpoints: this.publicEndpoints(
+          route.metadata.endpoint,
+          route.metadata.endpoints,
+        ),
+        canary,
       };
 
       return {
@@ -337,33 +601,978 @@ export class DynamicDeploymentService {
     }
   }
 
+  /**
+   * 公開中のバージョンと同じエンドポイントに新しいバージョンをカナリアとしてデプロイする
+   * options.percentage の割合（とコホートに一致するリクエスト）をカナリアに振り分け、
+   * 安定版とのエラー率・応答時間の比較で自動的に昇格またはロールバックする
+   * コンパイル・ルートの確認・生成テストは通常のデプロイと同じ
+   */
+  async startCanary(
+    apiSpec: GeneratedApiSpec,
+    userId: string,
+    apiId: string,
+    options: CanaryOptions,
+  ): Promise<DeploymentResult> {
+    try {
+      const stableResult = await this.getActiveDeployment(userId, apiId);
+      if (!stableResult.success) {
+        return { success: false, error: stableResult.error };
+      }
+      const stable = stableResult.data;
+      if (!stable) {
+        return {
+          success: false,
+          error: "No active deployment to compare with",
+        };
+      }
+      if (stable.canary) {
+        return { success: false, error: CANARY_IN_PROGRESS_ERROR };
+      }
+      if (
+        apiSpec.endpoint.replace(/\/+$/, "") !==
+        stable.endpoint.replace(/\/+$/, "")
+      ) {
+        return {
+          success: false,
+          error: "Canary endpoint must match the active deployment",
+        };
+      }
+
+      const prepared = await this.prepareRelease(apiSpec, options);
+      if (!prepared.success || !prepared.data) {
+        return {
+          success: false,
+          error: prepared.error,
+          testRun: prepared.testRun,
+        };
+      }
+      const { app, metadata, testRun } = prepared.data;
+      const canaryApp = DynamicDeploymentService.deployedAppOf(app);
+
+      const config: CanaryConfig = {
+        userId,
+        apiId,
+        stableVersion: stable.version,
+        canaryVersion: stable.version + 1,
+        percentage: options.percentage,
+        cohort: options.cohort,
+        thresholds: { ...DEFAULT_CANARY_THRESHOLDS, ...options.thresholds },
+        revision: options.revision,
+        startedAt: new Date().toISOString(),
+      };
+      const routeEntry = DynamicDeploymentService.routeEntryOf(
+        apiSpec,
+        userId,
+        apiId,
+        config.canaryVersion,
+        "canary",
+        options.revision,
+      );
+      const saveResult = await this.routeManager.saveRoute(routeEntry);
+      if (!saveResult.success) {
+        return {
+          success: false,
+          error: `Failed to save route: ${saveResult.error}`,
+          testRun,
+        };
+      }
+      const canaryResult = await this.routeManager.saveCanary(config);
+      if (!canaryResult.success) {
+        await this.routeManager.deleteRoute(
+          userId,
+          apiId,
+          config.canaryVersion,
+        );
+        return {
+          success: false,
+          error: `Failed to save canary: ${canaryResult.error}`,
+          testRun,
+        };
+      }
+
+      // 開始前のリクエストを比較に含めない
+      metricsCollector.beginVersionWindow(apiId, config.startedAt);
+      this.attachCanary(
+        stable.endpoint,
+        config,
+        canaryApp,
+        routeEntry.metadata,
+      );
+
+      return {
+        success: true,
+        data: {
+          deploymentId: `deploy_${userId}_${apiId}_${config.canaryVersion}`,
+          status: "canary",
+          endpoint: apiSpec.endpoint,
+          version: config.canaryVersion,
+          createdAt: routeEntry.metadata.createdAt,
+          updatedAt: routeEntry.metadata.createdAt,
+          endpoints: this.publicEndpoints(
+            apiSpec.endpoint,
+            routeEntry.metadata.endpoints,
+          ),
+          canary: config,
+          metadata,
+        },
+        testRun,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Canary deployment failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * 進行中のカナリアリリースと、すべてのisolateで集計したメトリクスによる判定
+   */
+  async getCanary(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<CanaryStatus | null>> {
+    const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+    if (!canaryResult.success) {
+      return { success: false, error: canaryResult.error };
+    }
+    if (!canaryResult.data) {
+      return { success: true, data: null };
+    }
+    return {
+      success: true,
+      data: {
+        config: canaryResult.data,
+        evaluation: await this.canaryEvaluation(canaryResult.data, true),
+      },
+    };
+  }
+
+  /**
+   * カナリアを公開中のバージョンにする（閾値の判定を待たずに昇格する）
+   */
+  async promoteCanary(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    return this.finishCanary(userId, apiId, "promote");
+  }
+
+  /**
+   * カナリアを破棄し、すべてのリクエストを安定版に戻す
+   */
+  async rollbackCanary(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    return this.finishCanary(userId, apiId, "rollback");
+  }
+
+  /**
+   * カナリアと安定版のメトリクスを閾値で比較する
+   * カナリアへのリクエストが minRequests に達するまでは判定しない（pending）
+   */
+  static evaluateCanary(
+    thresholds: CanaryThresholds,
+    stable: VersionMetrics,
+    canary: VersionMetrics,
+  ): CanaryEvaluation {
+    const evaluation = (
+      decision: CanaryEvaluation["decision"],
+      reason: string,
+    ): CanaryEvaluation => ({ decision, reason, stable, canary });
+    const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+    if (canary.requests < thresholds.minRequests) {
+      return evaluation(
+        "pending",
+        `Waiting for ${thresholds.minRequests - canary.requests} more canary requests`,
+      );
+    }
+    if (canary.errorRate - stable.errorRate > thresholds.maxErrorRateIncrease) {
+      return evaluation(
+        "rollback",
+        `Canary error rate ${percent(canary.errorRate)} exceeds stable ${percent(stable.errorRate)}`,
+      );
+    }
+    // 安定版の応答時間が無い場合（コホートのみのカナリアなど）は比較しない
+    if (
+      stable.averageResponseTime > 0 &&
+      canary.averageResponseTime >
+        stable.averageResponseTime * thresholds.maxLatencyRatio
+    ) {
+      return evaluation(
+        "rollback",
+        `Canary latency ${Math.round(canary.averageResponseTime)}ms exceeds ${thresholds.maxLatencyRatio}x stable ${Math.round(stable.averageResponseTime)}ms`,
+      );
+    }
+    return evaluation("promote", "Canary is within thresholds");
+  }
+
+  /**
+   * すべてのisolateの累計を合計してカナリアを判定する
+   * このisolateの累計をKVに保存してから合計するため、forceが無ければ間隔内は前回の判定を返す
+   * 他のisolateの累計を読めない場合は、このisolateだけのリクエスト数では判定しない
+   */
+  private async canaryEvaluation(
+    config: CanaryConfig,
+    force = false,
+  ): Promise<CanaryEvaluation> {
+    metricsCollector.beginVersionWindow(config.apiId, config.startedAt);
+    const previous = this.canaryEvaluations.get(config.apiId);
+    if (
+      !force &&
+      previous?.startedAt === config.startedAt &&
+      Date.now() - previous.evaluatedAt < CANARY_EVALUATION_INTERVAL_MS
+    ) {
+      return previous.evaluation;
+    }
+
+    const local: CanaryMetricsSample = {
+      stable: metricsCollector.getVersionCounters(
+        config.apiId,
+        config.stableVersion,
+      ),
+      canary: metricsCollector.getVersionCounters(
+        config.apiId,
+        config.canaryVersion,
+      ),
+    };
+    const saveResult = await this.routeManager.saveCanaryMetrics(
+      config,
+      this.isolateId,
+      local,
+    );
+    if (!saveResult.success) {
+      console.warn("Failed to save canary metrics:", saveResult.error);
+    }
+    const samplesResult = await this.routeManager.loadCanaryMetrics(config);
+    const evaluation = samplesResult.success
+      ? DynamicDeploymentService.evaluateCanarySamples(config.thresholds, [
+          // 保存したばかりの累計はKVの一覧に反映されていないことがあるため、このisolateの分は手元の値を使う
+          ...Object.entries(samplesResult.data ?? {})
+            .filter(([isolateId]) => isolateId !== this.isolateId)
+            .map(([, sample]) => sample),
+          local,
+        ])
+      : {
+          decision: "pending" as const,
+          reason: "Canary metrics are unavailable",
+          stable: MetricsCollector.toVersionMetrics(local.stable),
+          canary: MetricsCollector.toVersionMetrics(local.canary),
+        };
+    this.canaryEvaluations.set(config.apiId, {
+      startedAt: config.startedAt,
+      evaluatedAt: Date.now(),
+      evaluation,
+    });
+    return evaluation;
+  }
+
+  /**
+   * isolateごとの累計を合計してから閾値で比較する（minRequestsは全isolateの合計に適用する）
+   */
+  static evaluateCanarySamples(
+    thresholds: CanaryThresholds,
+    samples: CanaryMetricsSample[],
+  ): CanaryEvaluation {
+    const total = (side: keyof CanaryMetricsSample) =>
+      MetricsCollector.toVersionMetrics(
+        samples.reduce(
+          (sum, sample) => ({
+            requests: sum.requests + sample[side].requests,
+            errors: sum.errors + sample[side].errors,
+            totalResponseTime:
+              sum.totalResponseTime + sample[side].totalResponseTime,
+          }),
+          { requests: 0, errors: 0, totalResponseTime: 0 },
+        ),
+      );
+    return DynamicDeploymentService.evaluateCanary(
+      thresholds,
+      total("stable"),
+      total("canary"),
+    );
+  }
+
+  private async finishCanary(
+    userId: string,
+    apiId: string,
+    decision: CanaryCompletion["decision"],
+  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    const canaryResult = await this.routeManager.loadCanary(userId, apiId);
+    if (!canaryResult.success) {
+      return { success: false, error: canaryResult.error };
+    }
+    if (!canaryResult.data) {
+      return { success: false, error: "No canary deployment in progress" };
+    }
+    return this.completeCanary({ config: canaryResult.data, decision });
+  }
+
+  /**
+   * カナリアリリースを終了する
+   * 同じAPIへの同時リクエストが閾値に達した場合も1回の終了処理を共有する
+   */
+  private completeCanary(
+    completion: CanaryCompletion,
+  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    const { apiId } = completion.config;
+    const pending = this.pendingCanaryCompletions.get(apiId);
+    if (pending) {
+      return pending;
+    }
+
+    const completing = this.applyCanaryCompletion(completion).finally(() => {
+      this.pendingCanaryCompletions.delete(apiId);
+    });
+    this.pendingCanaryCompletions.set(apiId, completing);
+    return completing;
+  }
+
+  // 昇格ではカナリアを公開中にし（エンドポイントの索引も切り替わる）、ロールバックではカナリアのバージョンを削除する
+  private async applyCanaryCompletion(
+    completion: CanaryCompletion,
+  ): Promise<DynamicRouteResult<DeploymentInfo>> {
+    const { config, decision } = completion;
+    try {
+      const version =
+        decision === "promote" ? config.canaryVersion : config.stableVersion;
+      const routeResult = await this.routeManager.loadRoute(
+        config.userId,
+        config.apiId,
+        version,
+      );
+      if (!routeResult.success || !routeResult.data) {
+        return { success: false, error: `Version ${version} not found` };
+      }
+      const route = routeResult.data;
+
+      if (decision === "promote") {
+        route.metadata.status = "active";
+        const saveResult = await this.routeManager.saveRoute(route);
+        if (!saveResult.success) {
+          return {
+            success: false,
+            error: `Failed to save route: ${saveResult.error}`,
+          };
+        }
+      } else {
+        await this.routeManager.deleteRoute(
+          config.userId,
+          config.apiId,
+          config.canaryVersion,
+        );
+      }
+      await this.routeManager.deleteCanary(config.userId, config.apiId);
+      this.canaryEvaluations.delete(config.apiId);
+      this.settleCachedCanary(route.metadata.endpoint, completion);
+      await this.notifyCanaryCompleted(completion);
+
+      return {
+        success: true,
+        data: {
+          deploymentId: `deploy_${config.userId}_${config.apiId}_${version}`,
+          status: decision === "promote" ? "deployed" : "rolled_back",
+          endpoint: route.metadata.endpoint,
+          version,
+          createdAt: route.metadata.createdAt,
+          updatedAt: new Date().toISOString(),
+          endpoints: this.publicEndpoints(
+            route.metadata.endpoint,
+            route.metadata.endpoints,
+          ),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Canary completion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  private async notifyCanaryCompleted(
+    completion: CanaryCompletion,
+  ): Promise<void> {
+    for (const listener of this.canaryListeners) {
+      try {
+        await listener(completion);
+      } catch (error) {
+        console.warn("Canary completion listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * キャッシュ済みの安定版にカナリアを追加する
+   * キャッシュに無い場合はアプリを解放し、次のリクエストでKVから両方を復元する
+   */
+  private attachCanary(
+    endpoint: string,
+    config: CanaryConfig,
+    app: DeployedApp,
+    pricing: RoutePricing,
+  ): void {
+    const mountedAt = endpoint.replace(/\/+$/, "");
+    const route = this.routeCache.get(mountedAt);
+    if (route?.apiId === config.apiId) {
+      this.routeCache.set(mountedAt, {
+        ...route,
+        canary: {
+          config,
+          app,
+          pricing: DynamicDeploymentService.pricingOf(pricing),
+        },
+      });
+    } else {
+      DynamicDeploymentService.disposeApp(app);
+    }
+  }
+
+  /**
+   * 終了したカナリアをキャッシュに反映する（使われなくなった方のアプリは解放する）
+   * 昇格したカナリアのアプリがキャッシュに無ければ、次のリクエストでKVから復元する
+   */
+  private settleCachedCanary(
+    endpoint: string,
+    { config, decision }: CanaryCompletion,
+  ): void {
+    const mountedAt = endpoint.replace(/\/+$/, "");
+    const route = this.routeCache.get(mountedAt);
+    if (route?.apiId !== config.apiId) {
+      return;
+    }
+    if (decision === "rollback") {
+      this.routeCache.set(mountedAt, { ...route, canary: undefined });
+      if (route.canary) {
+        DynamicDeploymentService.disposeApp(route.canary.app);
+      }
+    } else if (route.canary) {
+      DynamicDeploymentService.disposeApp(route.app);
+      this.routeCache.set(mountedAt, {
+        apiId: route.apiId,
+        endpoint: mountedAt,
+        version: config.canaryVersion,
+        app: route.canary.app,
+        pricing: route.canary.pricing,
+        validatedAt: route.validatedAt,
+      });
+    } else {
+      this.routeCache.delete(mountedAt);
+    }
+  }
+
+  /**
+   * リクエストを振り分けるバージョン（カナリアリリース中は閾値による判定を先に行う）
+   */
+  private async selectVersion(
+    c: Context,
+    route: ActiveRoute,
+  ): Promise<{ version: number; app: DeployedApp; pricing: RoutePricing }> {
+    const current = route.canary
+      ? await this.settleCanaryByThresholds(route, route.canary.config)
+      : route;
+    const canary = current.canary;
+    if (canary && DynamicDeploymentService.isCanaryRequest(c, canary.config)) {
+      return {
+        version: canary.config.canaryVersion,
+        app: canary.app,
+        pricing: canary.pricing,
+      };
+    }
+    return current;
+  }
+
+  // 閾値に達したカナリアを昇格またはロールバックし、振り分けに使うルートを返す
+  private async settleCanaryByThresholds(
+    route: ActiveRoute,
+    config: CanaryConfig,
+  ): Promise<ActiveRoute> {
+    const evaluation = await this.canaryEvaluation(config);
+    if (evaluation.decision === "pending") {
+      return route;
+    }
+
+    const result = await this.completeCanary({
+      config,
+      decision: evaluation.decision,
+      evaluation,
+    });
+    if (!result.success) {
+      console.warn("Canary completion failed:", result.error);
+      return route;
+    }
+    return this.routeCache.get(route.endpoint) ?? route;
+  }
+
+  /**
+   * コホートに一致するリクエストは常に、それ以外は設定した割合でカナリアに振り分ける
+   */
+  private static isCanaryRequest(c: Context, config: CanaryConfig): boolean {
+    const { cohort } = config;
+    if (cohort) {
+      const values = [
+        cohort.header ? c.req.header(cohort.header) : undefined,
+        cohort.cookie ? getCookie(c, cohort.cookie) : undefined,
+      ];
+      if (values.includes(cohort.value)) {
+        return true;
+      }
+    }
+    return Math.random() * 100 < config.percentage;
+  }
+
+  /**
+   * コードをコンパイルし、宣言したルートの実装と生成テストを確認する（KVに保存する前に判定する）
+   * テストが失敗した場合は options.allowFailingTests が無ければ失敗として結果を返す
+   */
+  private async prepareRelease(
+    apiSpec: GeneratedApiSpec,
+    options: DeploymentOptions,
+  ): Promise<
+    DynamicRouteResult<PreparedRelease> & { testRun?: ApiTestRunResult }
+  > {
+    // コードコンパイル
+    const compileResult = await this.codeExecutor.compileHonoRoute(
+      apiSpec.generatedCode,
+    );
+    if (!compileResult.success) {
+      return {
+        success: false,
+        error: `Code validation failed: ${compileResult.error}`,
+      };
+    }
+
+    if (!compileResult.data) {
+      return {
+        success: false,
+        error: "Compiled route data is missing",
+      };
+    }
+
+    const endpointError = this.checkDeclaredEndpoints(
+      apiSpec,
+      compileResult.metadata,
+    );
+    if (endpointError) {
+      return {
+        success: false,
+        error: endpointError,
+      };
+    }
+
+    // 生成テストの実行
+    // テストのリクエストで変わった状態が公開するアプリに残らないよう、別にコンパイルしたアプリで実行して破棄する
+    let testRun: ApiTestRunResult | undefined;
+    if (apiSpec.testCases && apiSpec.testCases.length > 0) {
+      const testCompileResult = await this.codeExecutor.compileHonoRoute(
+        apiSpec.generatedCode,
+      );
+      if (!testCompileResult.success || !testCompileResult.data) {
+        return {
+          success: false,
+          error: `Code validation failed: ${testCompileResult.error}`,
+        };
+      }
+      try {
+        testRun = await this.testRunner.run(
+          testCompileResult.data,
+          apiSpec.testCases,
+        );
+      } finally {
+        DynamicDeploymentService.disposeApp(testCompileResult.data);
+      }
+      if (!testRun.passed && !options.allowFailingTests) {
+        return {
+          success: false,
+          error: `Tests failed: ${testRun.failed} of ${testRun.total} test cases failed`,
+          testRun,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        app: compileResult.data,
+        metadata: compileResult.metadata,
+        testRun,
+      },
+    };
+  }
+
+  private static routeEntryOf(
+    apiSpec: GeneratedApiSpec,
+    userId: string,
+    apiId: string,
+    version: number,
+    status: DynamicRouteMetadata["status"],
+    revision?: number,
+  ): DynamicRouteEntry {
+    return {
+      code: apiSpec.generatedCode,
+      metadata: {
+        endpoint: apiSpec.endpoint,
+        method: apiSpec.method,
+        status,
+        createdAt: new Date().toISOString(),
+        version,
+        userId,
+        apiId,
+        price: apiSpec.price,
+        endpoints: apiSpec.endpoints?.map(({ method, path, price }) => ({
+          method,
+          path,
+          price,
+        })),
+        revision,
+      },
+    };
+  }
+
+  private static deploymentStatusOf(
+    status: DynamicRouteMetadata["status"],
+  ): DeploymentInfo["status"] {
+    if (status === "active") {
+      return "deployed";
+    }
+    return status === "canary" ? "canary" : "undeployed";
+  }
+
+  /**
+   * 宣言したルートのうちコードに登録されていないものがあればエラーメッセージを返す
+   */
+  private checkDeclaredEndpoints(
+    apiSpec: GeneratedApiSpec,
+    routeMetadata: CompiledRoute["metadata"],
+  ): string | null {
+    const registered = new Set(
+      (routeMetadata?.endpoints ?? []).map(
+        (route) => `${route.method.toUpperCase()} ${route.path}`,
+      ),
+    );
+    const missing = (apiSpec.endpoints ?? []).find(
+      (endpoint) => !registered.has(`${endpoint.method} ${endpoint.path}`),
+    );
+    return missing
+      ? `Endpoint not implemented: ${missing.method} ${missing.path}`
+      : null;
+  }
+
+  /**
+   * ルートのパスを公開パスに変換する
+   */
+  private publicEndpoints(
+    endpoint: string,
+    endpoints?: DeployedEndpoint[],
+  ): DeployedEndpoint[] | undefined {
+    return endpoints?.map((route) => ({
+      ...route,
+      path: DynamicDeploymentService.mountedPath(endpoint, route.path),
+    }));
+  }
+
+  /**
+   * コンパイル済みアプリのキャッシュの統計
+   */
+  routeCacheStats(): RouteCacheStats {
+    return {
+      size: this.routeCache.size,
+      capacity: this.routeCache.capacity,
+      ...this.cacheStats,
+      evictions: this.routeCache.evictions,
+    };
+  }
+
+  /**
+   * パスのマウント先になり得るパス（長い順）
+   * 例: /api/todos/1 → /api/todos/1, /api/todos, /api
+   */
+  private static mountCandidates(path: string): string[] {
+    const segments = path.split("/").filter(Boolean);
+    return segments.map(
+      (_segment, index) =>
+        `/${segments.slice(0, segments.length - index).join("/")}`,
+    );
+  }
+
+  /**
+   * パスに一致する公開中のルート（複数一致する場合はマウント先が最も長いもの）
+   * KVの索引と一致しなくなったキャッシュのルートは、キャッシュに無い場合と同じくKVから復元し直す
+   */
+  private async resolveRoute(path: string): Promise<ActiveRoute | null> {
+    const candidates = DynamicDeploymentService.mountCandidates(path);
+    const cached = candidates.find((endpoint) => this.routeCache.has(endpoint));
+    if (cached !== undefined) {
+      const route = await this.revalidateRoute(cached);
+      if (route) {
+        this.cacheStats.hits++;
+        return route;
+      }
+    }
+
+    this.cacheStats.misses++;
+    const indexed = candidates.filter(
+      (endpoint) =>
+        endpoint.split("/").length - 1 <= MAX_INDEXED_ENDPOINT_DEPTH,
+    );
+    for (const endpoint of indexed) {
+      const route = await this.rehydrateRoute(endpoint);
+      if (route) {
+        return route;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 照合の間隔を過ぎたキャッシュのルートを、KVの索引とカナリアリリースの設定に照合する
+   * 他のisolateでデプロイ・ロールバック・無効化・カナリアリリースが行われていればキャッシュから外してnullを返す
+   */
+  private async revalidateRoute(endpoint: string): Promise<ActiveRoute | null> {
+    const route = this.routeCache.get(endpoint);
+    if (
+      !route ||
+      Date.now() - route.validatedAt < ROUTE_REVALIDATION_INTERVAL_MS
+    ) {
+      return route ?? null;
+    }
+
+    // 照合中の同時リクエストは照合を待たずにキャッシュのルートで処理する
+    this.routeCache.set(endpoint, { ...route, validatedAt: Date.now() });
+    if (await this.isRouteCurrent(route)) {
+      return this.routeCache.get(endpoint) ?? null;
+    }
+    // 照合中にこのisolateでデプロイされた新しいルートは残す
+    if (this.routeCache.get(endpoint)?.app === route.app) {
+      this.routeCache.delete(endpoint);
+    }
+    return null;
+  }
+
+  // KVを読み込めない場合はキャッシュのルートで処理を続ける
+  private async isRouteCurrent(route: ActiveRoute): Promise<boolean> {
+    const indexResult = await this.routeManager.findEndpointIndex(
+      route.endpoint,
+    );
+    if (!indexResult.success) {
+      console.warn("Route revalidation failed:", indexResult.error);
+      return true;
+    }
+    const index = indexResult.data;
+    if (index?.apiId !== route.apiId || index.version !== route.version) {
+      return false;
+    }
+
+    const canaryResult = await this.routeManager.loadCanary(
+      index.userId,
+      index.apiId,
+    );
+    if (!canaryResult.success) {
+      console.warn("Route revalidation failed:", canaryResult.error);
+      return true;
+    }
+    const config = canaryResult.data;
+    const canaryVersion =
+      config?.stableVersion === route.version
+        ? config.canaryVersion
+        : undefined;
+    return canaryVersion === route.canary?.config.canaryVersion;
+  }
+
+  /**
+   * マウント先で公開中のルートをKVから読み込んでコンパイルし、キャッシュに登録する
+   * 同じマウント先への同時リクエストは1回の復元を共有する
+   */
+  private rehydrateRoute(endpoint: string): Promise<ActiveRoute | null> {
+    const pending = this.pendingRehydrations.get(endpoint);
+    if (pending) {
+      return pending;
+    }
+
+    const rehydration = this.loadActiveRoute(endpoint).finally(() => {
+      this.pendingRehydrations.delete(endpoint);
+    });
+    this.pendingRehydrations.set(endpoint, rehydration);
+    return rehydration;
+  }
+
+  private async loadActiveRoute(endpoint: string): Promise<ActiveRoute | null> {
+    try {
+      const routeResult =
+        await this.routeManager.findActiveRouteByEndpoint(endpoint);
+      if (!routeResult.success || !routeResult.data) {
+        return null;
+      }
+
+      const compileResult = await this.codeExecutor.compileHonoRoute(
+        routeResult.data.code,
+      );
+      if (!compileResult.success || !compileResult.data) {
+        console.warn("Route rehydration failed:", compileResult.error);
+        return null;
+      }
+
+      const registrationResult = await this.registerDynamicRoute(
+        routeResult.data.metadata.apiId,
+        routeResult.data.metadata.endpoint,
+        compileResult.data,
+        routeResult.data.metadata.version,
+        routeResult.data.metadata,
+      );
+      if (!registrationResult.success) {
+        console.warn("Route rehydration failed:", registrationResult.error);
+        return null;
+      }
+      await this.rehydrateCanary(routeResult.data.metadata);
+
+      this.cacheStats.rehydrated++;
+      return this.routeCache.get(endpoint) ?? null;
+    } catch (error) {
+      console.warn("Route rehydration failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 公開中のルートがカナリアリリース中であれば、カナリアもKVから読み込んでキャッシュに追加する
+   * カナリアを読み込めない場合は安定版のみに振り分ける
+   */
+  private async rehydrateCanary(metadata: DynamicRouteMetadata): Promise<void> {
+    const canaryResult = await this.routeManager.loadCanary(
+      metadata.userId,
+      metadata.apiId,
+    );
+    const config = canaryResult.data;
+    if (!config || config.stableVersion !== metadata.version) {
+      return;
+    }
+
+    const routeResult = await this.routeManager.loadRoute(
+      config.userId,
+      config.apiId,
+      config.canaryVersion,
+    );
+    if (!routeResult.data) {
+      console.warn("Canary rehydration failed:", routeResult.error);
+      return;
+    }
+    const compileResult = await this.codeExecutor.compileHonoRoute(
+      routeResult.data.code,
+    );
+    if (!compileResult.success || !compileResult.data) {
+      console.warn("Canary rehydration failed:", compileResult.error);
+      return;
+    }
+    this.attachCanary(
+      metadata.endpoint,
+      config,
+      DynamicDeploymentService.deployedAppOf(compileResult.data),
+      routeResult.data.metadata,
+    );
+  }
+
+  // メタデータのうち支払いの検証に使う価格だけをキャッシュに持つ
+  private static pricingOf({ price, endpoints }: RoutePricing): RoutePricing {
+    return { price, endpoints };
+  }
+
+  /**
+   * リクエスト（パスはマウント先からの相対パス）の価格
+   * 複数ルートのAPIは一致するルートの価格で、どのルートにも一致しなければ最も高いルートの価格にする
+   * （宣言していないルートを支払いなしで公開しない）
+   */
+  private static priceOf(
+    pricing: RoutePricing,
+    method: string,
+    path: string,
+  ): string | undefined {
+    if (!pricing.endpoints?.length) {
+      return pricing.price;
+    }
+    const matched = pricing.endpoints.find(
+      (route) =>
+        route.method === method &&
+        DynamicDeploymentService.routePattern(route.path).test(path),
+    );
+    if (matched) {
+      return matched.price;
+    }
+    return pricing.endpoints.reduce(
+      (highest, route) =>
+        Number(route.price) > Number(highest) ? route.price : highest,
+      pricing.endpoints[0].price,
+    );
+  }
+
+  // Honoのルートのパス（:name・*）に一致する正規表現
+  private static routePattern(routePath: string): RegExp {
+    const source = routePath
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => {
+        if (segment === "*") {
+          return ".*";
+        }
+        if (segment.startsWith(":")) {
+          return "[^/]+";
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("/");
+    return new RegExp(`^/${source}/?$`);
+  }
+
+  // サンドボックスで評価したアプリはVMを解放する
+  private static disposeApp(honoApp: object): void {
+    if ("dispose" in honoApp && typeof honoApp.dispose === "function") {
+      honoApp.dispose();
+    }
+  }
+
+  private static disposeRoute(route: ActiveRoute): void {
+    DynamicDeploymentService.disposeApp(route.app);
+    if (route.canary) {
+      DynamicDeploymentService.disposeApp(route.canary.app);
+    }
+  }
+
+  private static deployedAppOf(honoApp: object): DeployedApp {
+    if (
+      !("fetch" in honoApp) ||
+      typeof (honoApp as DeployedApp).fetch !== "function"
+    ) {
+      throw new Error("Invalid Hono application object");
+    }
+    return honoApp as DeployedApp;
+  }
+
   /**
    * 動的ルートを登録
+   * 既存のルートは1回の置き換えで切り替わるため、処理中のリクエスト以外は新しいアプリに振り分けられる
    */
   private async registerDynamicRoute(
     apiId: string,
     endpoint: string,
     honoApp: object,
+    version: number,
+    pricing: RoutePricing,
   ): Promise<DynamicRouteResult<void>> {
     try {
-      // 既存ルートがある場合は削除
-      if (this.routeRegistrations.has(apiId)) {
-        await this.unregisterDynamicRoute(apiId);
-      }
-
-      // 新しいルートを登録
-      this.deployedRoutes.set(apiId, honoApp);
-      this.routeRegistrations.set(apiId, endpoint);
-
-      // メインアプリにルートを動的追加
-      // テスト環境では動的ルート登録をスキップ
-      if (process.env.NODE_ENV !== "test") {
-        if (typeof honoApp === 'object' && honoApp && 'fetch' in honoApp) {
-          this.mainApp.route(endpoint, honoApp as never);
-        } else {
-          throw new Error("Invalid Hono application object");
-        }
-      }
+      const app = DynamicDeploymentService.deployedAppOf(honoApp);
+
+      // 同じAPIの旧バージョン（マウント先が変わった場合を含む）を置き換える
+      const mountedAt = endpoint.replace(/\/+$/, "");
+      this.routeCache.deleteWhere((route) => route.apiId === apiId);
+      this.routeCache.set(mountedAt, {
+        apiId,
+        endpoint: mountedAt,
+        version,
+        app,
+        pricing: DynamicDeploymentService.pricingOf(pricing),
+        validatedAt: Date.now(),
+      });
 
       return { success: true };
     } catch (error) {
@@ -381,11 +1590,8 @@ export class DynamicDeploymentService {
     apiId: string,
   ): Promise<DynamicRouteResult<void>> {
     try {
-      this.deployedRoutes.delete(apiId);
-      this.routeRegistrations.delete(apiId);
-
-      // 注意: Honoでは動的ルート削除は制限されているため、
-      // 実際の実装では無効化フラグを使用するかルートハンドラーで404を返す
+      // ディスパッチャーが参照しなくなるため、次のリクエストから404になる
+      this.routeCache.deleteWhere((route) => route.apiId === apiId);
 
       return { success: true };
     } catch (error) {
@@ -401,7 +1607,6 @@ export class DynamicDeploymentService {
    */
   async cleanup(): Promise<void> {
     await this.codeExecutor.cleanup();
-    this.deployedRoutes.clear();
-    this.routeRegistrations.clear();
+    this.routeCache.clear();
   }
 }
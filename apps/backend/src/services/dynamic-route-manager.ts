@@ -1,11 +1,19 @@
 import type {
+  CanaryConfig,
+  CanaryMetricsSample,
   CodeValidationResult,
   DynamicRouteEntry,
   DynamicRouteMetadata,
   DynamicRouteResult,
+  EndpointIndexEntry,
 } from "../types/dynamic-routes";
 import { KVHelper, KVKeys } from "../utils/workers-env";
 
+// ドラフト・無効化したバージョンの保存期間（30日）
+const EXPIRING_ROUTE_TTL = 86400 * 30;
+// カナリアリリース中のisolateごとの累計の保存期間（保存し直すたびに延びる）
+const CANARY_METRICS_TTL = 86400 * 7;
+
 export class DynamicRouteManager {
   private kvHelper: KVHelper;
 
@@ -36,10 +44,16 @@ export class DynamicRouteManager {
         routeEntry.metadata.version,
       );
 
-      // KVに保存（30日間有効）
-      const saved = await this.kvHelper.put(key, routeEntry, {
-        expirationTtl: 86400 * 30,
-      });
+      // 公開中・カナリアのバージョンは索引・カナリアの設定から参照されるため期限を設けない
+      // （期限切れになると、DBでは公開中のAPIが新しいisolateで404になる）
+      const { status } = routeEntry.metadata;
+      const saved = await this.kvHelper.put(
+        key,
+        routeEntry,
+        status === "draft" || status === "inactive"
+          ? { expirationTtl: EXPIRING_ROUTE_TTL }
+          : undefined,
+      );
 
       if (!saved) {
         return {
@@ -50,6 +64,7 @@ export class DynamicRouteManager {
 
       // メタデータも別途保存（検索用）
       await this.saveRouteMetadata(routeEntry.metadata);
+      await this.updateEndpointIndex(routeEntry.metadata);
 
       return {
         success: true,
@@ -98,6 +113,185 @@ export class DynamicRouteManager {
     }
   }
 
+  /**
+   * エンドポイントの索引（公開中のAPIとバージョン、無ければnull）
+   * キャッシュしたルートが他のisolateで置き換えられていないかの照合に使う
+   */
+  async findEndpointIndex(
+    endpoint: string,
+  ): Promise<DynamicRouteResult<EndpointIndexEntry | null>> {
+    try {
+      const entry = await this.kvHelper.get<EndpointIndexEntry>(
+        KVKeys.endpointIndex(DynamicRouteManager.normalizeEndpoint(endpoint)),
+      );
+      return { success: true, data: entry };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Find endpoint index failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * エンドポイントで公開中のルートをKVから読み込む（コールドスタート時の復元用）
+   * 索引が古い場合に備え、読み込んだルートが公開中で同じエンドポイントの場合のみ返す
+   */
+  async findActiveRouteByEndpoint(
+    endpoint: string,
+  ): Promise<DynamicRouteResult<DynamicRouteEntry | null>> {
+    try {
+      const normalized = DynamicRouteManager.normalizeEndpoint(endpoint);
+      const indexEntry = await this.kvHelper.get<EndpointIndexEntry>(
+        KVKeys.endpointIndex(normalized),
+      );
+      if (!indexEntry) {
+        return { success: true, data: null };
+      }
+
+      const routeEntry = await this.kvHelper.get<DynamicRouteEntry>(
+        KVKeys.dynamicRoute(
+          indexEntry.userId,
+          indexEntry.apiId,
+          indexEntry.version,
+        ),
+      );
+      const isActive =
+        routeEntry?.metadata.status === "active" &&
+        DynamicRouteManager.normalizeEndpoint(routeEntry.metadata.endpoint) ===
+          normalized;
+      return { success: true, data: isActive ? routeEntry : null };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Find route by endpoint failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * カナリアリリースの設定を保存（終了するまで削除しない）
+   */
+  async saveCanary(
+    config: CanaryConfig,
+  ): Promise<DynamicRouteResult<CanaryConfig>> {
+    try {
+      const saved = await this.kvHelper.put(
+        KVKeys.canaryRelease(config.userId, config.apiId),
+        config,
+      );
+      if (!saved) {
+        return {
+          success: false,
+          error: "Failed to save canary to KV storage",
+        };
+      }
+
+      return { success: true, data: config };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Save canary failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * 進行中のカナリアリリース（無ければnull）
+   */
+  async loadCanary(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<CanaryConfig | null>> {
+    try {
+      const config = await this.kvHelper.get<CanaryConfig>(
+        KVKeys.canaryRelease(userId, apiId),
+      );
+      return { success: true, data: config };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Load canary failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  async deleteCanary(
+    userId: string,
+    apiId: string,
+  ): Promise<DynamicRouteResult<boolean>> {
+    try {
+      const deleted = await this.kvHelper.delete(
+        KVKeys.canaryRelease(userId, apiId),
+      );
+      return { success: true, data: deleted };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Delete canary failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * このisolateで数えたカナリアリリース中の累計を保存する
+   * isolateごとのキーに累計を上書きするため、他のisolateと同時に保存しても失われない
+   */
+  async saveCanaryMetrics(
+    config: CanaryConfig,
+    isolateId: string,
+    sample: CanaryMetricsSample,
+  ): Promise<DynamicRouteResult<CanaryMetricsSample>> {
+    const saved = await this.kvHelper.put(
+      `${KVKeys.canaryMetrics(config.userId, config.apiId, config.startedAt)}${isolateId}`,
+      sample,
+      { expirationTtl: CANARY_METRICS_TTL },
+    );
+    if (!saved) {
+      return {
+        success: false,
+        error: "Failed to save canary metrics to KV storage",
+      };
+    }
+    return { success: true, data: sample };
+  }
+
+  /**
+   * 各isolateが保存したカナリアリリース中の累計（isolateのID -> 累計）
+   */
+  async loadCanaryMetrics(
+    config: CanaryConfig,
+  ): Promise<DynamicRouteResult<Record<string, CanaryMetricsSample>>> {
+    try {
+      const prefix = KVKeys.canaryMetrics(
+        config.userId,
+        config.apiId,
+        config.startedAt,
+      );
+      const keys = await this.kvHelper.list({ prefix });
+      const samples: Record<string, CanaryMetricsSample> = {};
+      for (const key of keys) {
+        const sample = await this.kvHelper.get<CanaryMetricsSample>(key);
+        if (sample) {
+          samples[key.slice(prefix.length)] = sample;
+        }
+      }
+      return { success: true, data: samples };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Load canary metrics failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  /**
+   * エンドポイントの表記ゆれ（末尾のスラッシュ）をそろえる
+   */
+  static normalizeEndpoint(endpoint: string): string {
+    return endpoint.replace(/\/+$/, "");
+  }
+
   /**
    * ユーザーのすべてのルートを一覧表示
    */
@@ -215,8 +409,12 @@ export class DynamicRouteManager {
           await this.kvHelper.delete(key);
         }
 
-        // メタデータも削除
+        // メタデータと索引も削除
         const metaKey = KVKeys.routeMetadata(userId, apiId);
+        const metadata = await this.kvHelper.get<DynamicRouteMetadata>(metaKey);
+        if (metadata) {
+          await this.removeEndpointIndex(metadata);
+        }
         await this.kvHelper.delete(metaKey);
 
         return { success: true, data: true };
@@ -327,4 +525,41 @@ export class DynamicRouteManager {
     const key = KVKeys.routeMetadata(metadata.userId, metadata.apiId);
     await this.kvHelper.put(key, metadata);
   }
+
+  /**
+   * 公開したルートを索引に登録し、無効化したルートは索引から外す
+   * ドラフト・カナリアの保存では公開中の旧バージョンの索引を残す
+   */
+  private async updateEndpointIndex(
+    metadata: DynamicRouteMetadata,
+  ): Promise<void> {
+    if (metadata.status === "active") {
+      const entry: EndpointIndexEntry = {
+        userId: metadata.userId,
+        apiId: metadata.apiId,
+        version: metadata.version,
+      };
+      await this.kvHelper.put(
+        KVKeys.endpointIndex(
+          DynamicRouteManager.normalizeEndpoint(metadata.endpoint),
+        ),
+        entry,
+      );
+    } else if (metadata.status === "inactive") {
+      await this.removeEndpointIndex(metadata);
+    }
+  }
+
+  // 他のAPIが同じエンドポイントで公開している場合は索引を残す
+  private async removeEndpointIndex(
+    metadata: DynamicRouteMetadata,
+  ): Promise<void> {
+    const key = KVKeys.endpointIndex(
+      DynamicRouteManager.normalizeEndpoint(metadata.endpoint),
+    );
+    const entry = await this.kvHelper.get<EndpointIndexEntry>(key);
+    if (entry?.apiId === metadata.apiId) {
+      await this.kvHelper.delete(key);
+    }
+  }
 }
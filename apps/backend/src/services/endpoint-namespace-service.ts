@@ -0,0 +1,108 @@
+import { type Database, GeneratedApiOperations } from "@repo/db";
+import { ConflictError } from "../middleware/error-handler";
+
+// マウント先を割り当てる作成者（組織のAPIは組織の名前空間に置く）
+export interface EndpointOwner {
+  userId: string;
+  organizationId?: string | null;
+}
+
+const MAX_SLUG_LENGTH = 64;
+const FALLBACK_SLUG = "api";
+// 自動のslugが使われている場合に試す連番の上限（slug-2 〜 slug-50）
+const MAX_SLUG_SUFFIX = 50;
+// generated_apis.endpoint の一意インデックス（確認と保存の間の競合はこの制約で検出する）
+const ENDPOINT_UNIQUE_INDEX = "generated_apis_endpoint_idx";
+
+/**
+ * 生成APIのマウント先を作成者ごとの名前空間に割り当て、他のAPIとの衝突を確認する
+ * マウント先は /u/:userId/:slug（組織のAPIは /o/:organizationId/:slug）で、
+ * slugは指定が無ければLLMが提案したエンドポイント（/api/weather など）から作る
+ */
+export class EndpointNamespaceService {
+  private generatedApiOperations: InstanceType<typeof GeneratedApiOperations>;
+
+  constructor(database: Database) {
+    this.generatedApiOperations = new GeneratedApiOperations(database);
+  }
+
+  /**
+   * 作成者の名前空間でのマウント先
+   */
+  static mountPath(owner: EndpointOwner, slug: string): string {
+    return owner.organizationId
+      ? `/o/${owner.organizationId}/${slug}`
+      : `/u/${owner.userId}/${slug}`;
+  }
+
+  /**
+   * エンドポイントをマウント先の最後のセグメントに使えるslugにする
+   * 例: /api/weather-forecast/current → weather-forecast-current
+   */
+  static slugify(endpoint: string): string {
+    const slug = endpoint
+      .toLowerCase()
+      .replace(/^\/?api(?:\/|$)/, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .slice(0, MAX_SLUG_LENGTH)
+      .replace(/^-+|-+$/g, "");
+    return slug || FALLBACK_SLUG;
+  }
+
+  /**
+   * 保存・更新の失敗がマウント先の一意制約違反によるものか
+   */
+  static isEndpointConflict(error: unknown): boolean {
+    return (
+      error instanceof Error && error.message.includes(ENDPOINT_UNIQUE_INDEX)
+    );
+  }
+
+  /**
+   * 自動で作ったslugのマウント先を割り当てる
+   * 使われていれば slug-2, slug-3, ... と空いている連番を探す
+   */
+  async availableEndpoint(owner: EndpointOwner, slug: string): Promise<string> {
+    for (let suffix = 1; suffix <= MAX_SLUG_SUFFIX; suffix++) {
+      const endpoint = EndpointNamespaceService.mountPath(
+        owner,
+        suffix === 1 ? slug : EndpointNamespaceService.withSuffix(slug, suffix),
+      );
+      const result = await this.generatedApiOperations.findByEndpoint(endpoint);
+      if (!result.success) {
+        throw new Error("Failed to check endpoint availability");
+      }
+      if (!result.data) {
+        return endpoint;
+      }
+    }
+    throw new ConflictError(
+      `No available endpoint for ${EndpointNamespaceService.mountPath(owner, slug)}`,
+    );
+  }
+
+  // 連番を付けてもslugの長さの上限を超えないよう切り詰める
+  private static withSuffix(slug: string, suffix: number): string {
+    const tail = `-${suffix}`;
+    const head = slug
+      .slice(0, MAX_SLUG_LENGTH - tail.length)
+      .replace(/-+$/, "");
+    return `${head || FALLBACK_SLUG}${tail}`;
+  }
+
+  /**
+   * マウント先が他のAPIに使われていないことを確認する
+   * apiIdを指定した場合はそのAPI自身の使用を衝突とみなさない（再デプロイ時）
+   */
+  async ensureAvailable(endpoint: string, apiId?: string): Promise<void> {
+    const result = await this.generatedApiOperations.findByEndpoint(endpoint);
+    if (!result.success) {
+      throw new Error("Failed to check endpoint availability");
+    }
+    if (result.data && result.data.id !== apiId) {
+      throw new ConflictError(
+        `Endpoint ${endpoint} is already in use by another API`,
+      );
+    }
+  }
+}
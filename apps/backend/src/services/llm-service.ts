@@ -1,5 +1,28 @@
-import type { NaturalLanguageInput } from "@repo/shared/api";
+import {
+  type ApiTestCase,
+  apiTestSuiteSchema,
+  type CodeImprovementRequest,
+  type LLMProvider,
+  type NaturalLanguageInput,
+} from "@repo/shared/api";
+import { AnthropicClient } from "../utils/anthropic-client";
 import { GeminiClient } from "../utils/gemini-client";
+import {
+  type LLMClient,
+  type LLMCompletion,
+  type LLMPrompt,
+  LLMProviderError,
+} from "../utils/llm-provider";
+import { OpenAICompatibleClient } from "../utils/openai-client";
+import { RecordedLLMClient } from "../utils/recorded-llm-client";
+
+// 複数ルートを持つAPIの各ルート（pathはendpointからの相対パス）
+export interface GeneratedEndpointSpec {
+  method: GeneratedApiSpec["method"];
+  path: string;
+  price: string;
+  description?: string;
+}
 
 export interface GeneratedApiSpec {
   name: string;
@@ -9,6 +32,34 @@ export interface GeneratedApiSpec {
   price: string;
   generatedCode: string;
   documentation: string;
+  provider?: LLMProvider; // 生成に使用したプロバイダーとモデル
+  model?: string;
+  testCases?: ApiTestCase[]; // デプロイ前に実行するテスト
+  endpoints?: GeneratedEndpointSpec[]; // 複数ルートで生成した場合のみ
+}
+
+// 既存コードの改善に渡す情報
+export interface CodeImprovementInput {
+  name: string;
+  description: string;
+  generatedCode: string;
+  documentation: string;
+  improvementPrompt: string;
+  focusAreas: CodeImprovementRequest["focusAreas"];
+}
+
+export interface ImprovedCode {
+  generatedCode: string;
+  documentation: string;
+  summary: string; // 変更内容の要約
+  provider?: LLMProvider;
+  model?: string;
+}
+
+// テスト生成の対象（extractRouteMetadataで抽出したエンドポイント）
+export interface TestTargetEndpoint {
+  method: string;
+  path: string;
 }
 
 export interface LLMResult<T> {
@@ -22,15 +73,133 @@ export interface SafetyValidationResult {
   violations?: string[];
 }
 
+export type LLMClientRegistry = Partial<Record<LLMProvider, LLMClient>>;
+
+export interface GenerationOptions {
+  organizationProvider?: LLMProvider | null; // 組織で設定されたプロバイダー
+  // 指定するとプロバイダーのストリーミングAPIを使い、生成途中のテキストを順に渡す
+  onToken?: (text: string) => void | Promise<void>;
+}
+
+// モデルが価格を返さなかった場合の複雑度ごとの既定価格
+const DEFAULT_PRICES = {
+  simple: "0.01",
+  medium: "0.05",
+  complex: "0.10",
+} as const;
+
+// サンドボックスで実現できない依頼（外部サービスの呼び出しが必要なものなど）へのエラー
+export const SANDBOX_UNSUPPORTED_ERROR = "API cannot run in the sandbox";
+
+// 生成コードを評価するサンドボックス（utils/sandbox-modules.ts）で使える機能
+const SANDBOX_CONTRACT = `The code runs in an isolated JavaScript sandbox, not on Cloudflare Workers or Node.js:
+- The only importable modules are "hono" (Hono, HTTPException), "hono/http-exception" (HTTPException) and "x402-hono", whose only export is the x402(price) middleware (e.g. app.get("/", x402("$0.01"), handler)); payments go to the platform wallet, so never write a wallet address
+- Register every route directly on the exported app with app.get, app.post, app.put, app.delete or app.patch; app.all, app.on, app.route, app.basePath and app.mount are rejected
+- Only standard JavaScript globals (JSON, Math, Date, Map, Promise, ...) and Response exist: there is no fetch or other network access, no setTimeout or setInterval, no URL, crypto, TextEncoder or Intl, no file system, no Node.js built-ins and no eval or dynamic code execution
+- Values kept in module variables live in memory only and may be reset at any time
+If the request cannot work without calling external services (for example a proxy for another API), respond with {"error": "<why it cannot be built>"} instead.`;
+
+const API_SPEC_SYSTEM_PROMPT = `You generate paid HTTP APIs for the x402 payment protocol.
+Respond with a single JSON object and nothing else, using exactly these keys:
+- "name": short human readable API name
+- "description": one or two sentences describing the API
+- "endpoint": path starting with "/api/" (lowercase, hyphen separated)
+- "method": one of "GET", "POST", "PUT", "DELETE", "PATCH"
+- "price": price per request in USDC as a decimal string (e.g. "0.01")
+- "generatedCode": TypeScript source of a Hono app that registers the endpoint and ends with \`export default app\`
+- "documentation": Markdown documentation covering parameters, response format and pricing
+${SANDBOX_CONTRACT}`;
+
+// 1つのリソースに対して生成するルート数の上限
+const MAX_GENERATED_ENDPOINTS = 8;
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"];
+
+const PRICE_PATTERN = /^\d+(\.\d{1,6})?$/;
+
+const MULTI_ENDPOINT_SYSTEM_PROMPT = `You generate paid HTTP APIs for the x402 payment protocol.
+The API is a small resource with several routes (for example list, get, create, update and delete).
+Respond with a single JSON object and nothing else, using exactly these keys:
+- "name": short human readable API name
+- "description": one or two sentences describing the API
+- "endpoint": base path of the resource starting with "/api/" (lowercase, hyphen separated)
+- "endpoints": 2 to ${MAX_GENERATED_ENDPOINTS} routes, each {"method", "path", "price", "description"} where "method" is one of "GET", "POST", "PUT", "DELETE", "PATCH", "path" is relative to the base path (e.g. "/" or "/:id") and "price" is the price per request in USDC as a decimal string (e.g. "0.01")
+- "generatedCode": TypeScript source of a Hono app that registers every route with its relative path and ends with \`export default app\`
+- "documentation": Markdown documentation covering each route's parameters, response format and pricing
+${SANDBOX_CONTRACT}`;
+
+const CODE_IMPROVEMENT_SYSTEM_PROMPT = `You improve existing paid HTTP APIs built with Hono for the x402 payment protocol.
+Keep the endpoint path, HTTP method and response format compatible unless the request explicitly asks to change them.
+Respond with a single JSON object and nothing else, using exactly these keys:
+- "generatedCode": the complete improved TypeScript source, still ending with \`export default app\`
+- "documentation": the complete Markdown documentation updated to match the code
+- "summary": a short description of what was changed and why
+${SANDBOX_CONTRACT}`;
+
+const TEST_GENERATION_SYSTEM_PROMPT = `You write request/response test cases for HTTP APIs built with Hono.
+The tests call the app's fetch handler directly: there is no network access and no payment header is sent.
+Respond with a single JSON object and nothing else: {"testCases": [...]}, where each test case has:
+- "name": short description of the case
+- "request": {"method", "path" (as registered in the app, starting with "/"), optional "query" (string values), optional "headers", optional "body" (JSON)}
+- "expect": {"status", optional "contentType", optional "bodyContains" (substrings of the body), optional "jsonKeys" (top-level keys of the JSON body)}
+Write a success case and an invalid input case for every listed endpoint, at most 20 cases in total.
+Endpoints protected by x402 payment middleware respond with status 402 when no payment is sent.
+Only assert on deterministic values: no timestamps, random values or data from external services.`;
+
+/**
+ * 環境変数から各プロバイダーのクライアントを生成する
+ * APIキー未設定のプロバイダーは呼び出し時に not_configured エラーになる
+ */
+export function createDefaultLLMClients(): LLMClientRegistry {
+  const openAIOptions = {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL,
+  };
+
+  return {
+    "gemini-pro": new GeminiClient({
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_MODEL,
+    }),
+    "gpt-4": new OpenAICompatibleClient("gpt-4", {
+      ...openAIOptions,
+      model: process.env.OPENAI_MODEL,
+    }),
+    "gpt-3.5-turbo": new OpenAICompatibleClient("gpt-3.5-turbo", openAIOptions),
+    "claude-3": new AnthropicClient({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: process.env.ANTHROPIC_MODEL,
+    }),
+    recorded: RecordedLLMClient.fromJSON(process.env.LLM_RECORDINGS),
+  };
+}
+
 export class LLMService {
-  private geminiClient: GeminiClient;
+  private clients: LLMClientRegistry;
+  private defaultProvider: LLMProvider;
 
-  constructor() {
-    this.geminiClient = new GeminiClient();
+  constructor(
+    clients: LLMClientRegistry = createDefaultLLMClients(),
+    defaultProvider: LLMProvider = (process.env.LLM_PROVIDER as LLMProvider) ||
+      "gemini-pro",
+  ) {
+    this.clients = clients;
+    this.defaultProvider = defaultProvider;
+  }
+
+  /**
+   * 使用するプロバイダーを決定する（リクエスト指定 > 組織設定 > サーバー既定）
+   */
+  selectProvider(
+    requested?: LLMProvider,
+    organizationProvider?: LLMProvider | null,
+  ): LLMProvider {
+    return requested ?? organizationProvider ?? this.defaultProvider;
   }
 
   async generateApiFromNaturalLanguage(
     input: NaturalLanguageInput,
+    options: GenerationOptions = {},
   ): Promise<LLMResult<GeneratedApiSpec>> {
     try {
       // コンテンツポリシー違反チェック
@@ -49,11 +218,34 @@ export class LLMService {
         };
       }
 
-      // Gemini APIでコード生成
-      const geminiResponse = await this.geminiClient.generateCode(input);
+      const client =
+        this.clients[
+          this.selectProvider(input.provider, options.organizationProvider)
+        ];
+      if (!client) {
+        return {
+          success: false,
+          error: "LLM provider not configured",
+        };
+      }
+
+      // 選択したプロバイダーでコード生成
+      const completion = await this.runCompletion(
+        client,
+        this.buildGenerationPrompt(input),
+        options,
+      );
+      const unsupported = this.sandboxUnsupportedReason(completion.text);
+      if (unsupported) {
+        return {
+          success: false,
+          error: `${SANDBOX_UNSUPPORTED_ERROR}: ${unsupported}`,
+        };
+      }
+      const spec = this.parseApiSpec(completion.text, input);
 
       // レスポンス検証
-      if (!this.isValidApiSpec(geminiResponse)) {
+      if (!this.isValidApiSpec(spec)) {
         return {
           success: false,
           error: "Invalid API specification generated",
@@ -62,16 +254,206 @@ export class LLMService {
 
       return {
         success: true,
-        data: geminiResponse,
+        data: {
+          ...spec,
+          provider: completion.provider,
+          model: completion.model,
+        },
       };
-    } catch (_error) {
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * 既存のコードを改善依頼に沿って書き換える（コード全体とドキュメントを再生成）
+   */
+  async improveCode(
+    input: CodeImprovementInput,
+    options: GenerationOptions = {},
+  ): Promise<LLMResult<ImprovedCode>> {
+    try {
+      if (this.containsInappropriateContent(input.improvementPrompt)) {
+        return {
+          success: false,
+          error: "Content policy violation detected",
+        };
+      }
+
+      const client =
+        this.clients[
+          this.selectProvider(undefined, options.organizationProvider)
+        ];
+      if (!client) {
+        return {
+          success: false,
+          error: "LLM provider not configured",
+        };
+      }
+
+      const completion = await this.runCompletion(
+        client,
+        this.buildImprovementPrompt(input),
+        options,
+      );
+      const unsupported = this.sandboxUnsupportedReason(completion.text);
+      if (unsupported) {
+        return {
+          success: false,
+          error: `${SANDBOX_UNSUPPORTED_ERROR}: ${unsupported}`,
+        };
+      }
+      const improved = this.extractJsonObject(completion.text);
+      if (
+        typeof improved?.generatedCode !== "string" ||
+        typeof improved.documentation !== "string"
+      ) {
+        return {
+          success: false,
+          error: "Invalid improvement generated",
+        };
+      }
+
       return {
-        success: false,
-        error: "LLM generation failed",
+        success: true,
+        data: {
+          generatedCode: improved.generatedCode,
+          documentation: improved.documentation,
+          summary: typeof improved.summary === "string" ? improved.summary : "",
+          provider: completion.provider,
+          model: completion.model,
+        },
       };
+    } catch (error) {
+      return this.failure(error);
     }
   }
 
+  /**
+   * 生成したAPIのエンドポイントごとにリクエスト・レスポンスのテストケースを生成する
+   */
+  async generateTestCases(
+    spec: GeneratedApiSpec,
+    endpoints: TestTargetEndpoint[],
+    options: GenerationOptions = {},
+  ): Promise<LLMResult<ApiTestCase[]>> {
+    try {
+      if (endpoints.length === 0) {
+        return {
+          success: false,
+          error: "No endpoints to test",
+        };
+      }
+
+      const client =
+        this.clients[
+          this.selectProvider(spec.provider, options.organizationProvider)
+        ];
+      if (!client) {
+        return {
+          success: false,
+          error: "LLM provider not configured",
+        };
+      }
+
+      const completion = await this.runCompletion(
+        client,
+        this.buildTestGenerationPrompt(spec, endpoints),
+        options,
+      );
+      const parsed = apiTestSuiteSchema.safeParse(
+        this.extractJsonObject(completion.text)?.testCases,
+      );
+      if (!parsed.success || parsed.data.length === 0) {
+        return {
+          success: false,
+          error: "Invalid test cases generated",
+        };
+      }
+
+      return {
+        success: true,
+        data: parsed.data,
+      };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * API生成用のプロンプト（recordedプロバイダーの記録キーにもなる）
+   */
+  buildGenerationPrompt(input: NaturalLanguageInput): LLMPrompt {
+    const lines = [
+      `Description: ${input.description}`,
+      `Category: ${input.category}`,
+      `Complexity: ${input.complexityLevel}`,
+    ];
+    if (input.expectedPrice) {
+      lines.push(`Price per request (USDC): ${input.expectedPrice}`);
+    }
+    if (input.externalApis && input.externalApis.length > 0) {
+      lines.push(
+        `External APIs mentioned (not reachable from the sandbox): ${input.externalApis.join(", ")}`,
+      );
+    }
+
+    return {
+      system: input.multiEndpoint
+        ? MULTI_ENDPOINT_SYSTEM_PROMPT
+        : API_SPEC_SYSTEM_PROMPT,
+      user: lines.join("\n"),
+      responseFormat: "json",
+      temperature: 0.2,
+    };
+  }
+
+  /**
+   * コード改善用のプロンプト（recordedプロバイダーの記録キーにもなる）
+   */
+  buildImprovementPrompt(input: CodeImprovementInput): LLMPrompt {
+    return {
+      system: CODE_IMPROVEMENT_SYSTEM_PROMPT,
+      user: [
+        `API: ${input.name}`,
+        `Description: ${input.description}`,
+        `Focus areas: ${input.focusAreas.join(", ")}`,
+        `Improvement request: ${input.improvementPrompt}`,
+        "",
+        "Current code:",
+        input.generatedCode,
+        "",
+        "Current documentation:",
+        input.documentation,
+      ].join("\n"),
+      responseFormat: "json",
+      temperature: 0.2,
+    };
+  }
+
+  /**
+   * テスト生成用のプロンプト（recordedプロバイダーの記録キーにもなる）
+   */
+  buildTestGenerationPrompt(
+    spec: GeneratedApiSpec,
+    endpoints: TestTargetEndpoint[],
+  ): LLMPrompt {
+    return {
+      system: TEST_GENERATION_SYSTEM_PROMPT,
+      user: [
+        `API: ${spec.name}`,
+        `Description: ${spec.description}`,
+        "Endpoints:",
+        ...endpoints.map((endpoint) => `- ${endpoint.method} ${endpoint.path}`),
+        "",
+        "Code:",
+        spec.generatedCode,
+      ].join("\n"),
+      responseFormat: "json",
+      temperature: 0,
+    };
+  }
+
   async validateApiSafety(
     code: string,
   ): Promise<LLMResult<SafetyValidationResult>> {
@@ -118,6 +500,47 @@ export class LLMService {
     }
   }
 
+  // onTokenが指定されていればストリーミングで生成する
+  private async runCompletion(
+    client: LLMClient,
+    prompt: LLMPrompt,
+    options: GenerationOptions,
+  ): Promise<LLMCompletion> {
+    return options.onToken
+      ? await this.completeStreaming(client, prompt, options.onToken)
+      : await client.complete(prompt);
+  }
+
+  // プロバイダー未設定のみ区別し、それ以外は生成失敗として返す
+  private failure(error: unknown): LLMResult<never> {
+    if (error instanceof LLMProviderError && error.code === "not_configured") {
+      return {
+        success: false,
+        error: "LLM provider not configured",
+      };
+    }
+    return {
+      success: false,
+      error: "LLM generation failed",
+    };
+  }
+
+  /**
+   * ストリーミングで生成し、断片を連結して通常の生成結果と同じ形にする
+   */
+  private async completeStreaming(
+    client: LLMClient,
+    prompt: LLMPrompt,
+    onToken: (text: string) => void | Promise<void>,
+  ): Promise<LLMCompletion> {
+    let text = "";
+    for await (const chunk of client.stream(prompt)) {
+      text += chunk;
+      await onToken(chunk);
+    }
+    return { text, provider: client.provider, model: client.model };
+  }
+
   private containsInappropriateContent(description: string): boolean {
     const inappropriateKeywords = [
       "マルウェア",
@@ -137,6 +560,112 @@ export class LLMService {
     );
   }
 
+  /**
+   * モデルの出力からJSONオブジェクトを取り出す（コードフェンスや前後の説明文は除去）
+   */
+  private extractJsonObject(text: string): Record<string, unknown> | null {
+    // ドキュメント内のコードフェンスと区別するため、全体を囲むフェンスのみ除去
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start === -1 || end < start) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(candidate.slice(start, end + 1));
+      return typeof parsed === "object" && parsed !== null
+        ? (parsed as Record<string, unknown>)
+        : null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  /**
+   * サンドボックスで実現できないとしてモデルが返した理由（{"error": "..."}の形式）
+   */
+  private sandboxUnsupportedReason(text: string): string | undefined {
+    const output = this.extractJsonObject(text);
+    return typeof output?.error === "string" &&
+      typeof output.generatedCode !== "string"
+      ? output.error
+      : undefined;
+  }
+
+  /**
+   * モデルの出力からAPI仕様を取り出す
+   * 希望価格が指定されていればモデルの提示価格より優先する
+   */
+  private parseApiSpec(text: string, input: NaturalLanguageInput): unknown {
+    const spec = this.extractJsonObject(text);
+    if (!spec) {
+      return null;
+    }
+    if (input.multiEndpoint) {
+      return this.parseMultiEndpointSpec(spec, input);
+    }
+
+    return {
+      ...spec,
+      method: this.normalizeMethod(spec.method),
+      price:
+        input.expectedPrice ||
+        this.normalizePrice(spec.price) ||
+        DEFAULT_PRICES[input.complexityLevel],
+      endpoints: undefined,
+    };
+  }
+
+  /**
+   * 複数ルートのAPI仕様を取り出す
+   * ルートごとの価格はモデルの提示価格を優先し、無ければ希望価格・既定価格を使う
+   * API全体のメソッドは先頭のルート、価格は最も安いルートのものにする
+   */
+  private parseMultiEndpointSpec(
+    spec: Record<string, unknown>,
+    input: NaturalLanguageInput,
+  ): unknown {
+    if (!Array.isArray(spec.endpoints) || spec.endpoints.length === 0) {
+      return null;
+    }
+
+    const fallbackPrice =
+      input.expectedPrice || DEFAULT_PRICES[input.complexityLevel];
+    const endpoints = spec.endpoints.map((endpoint: unknown) => {
+      const route = (endpoint ?? {}) as Record<string, unknown>;
+      return {
+        method: this.normalizeMethod(route.method),
+        path: route.path,
+        price: this.normalizePrice(route.price) || fallbackPrice,
+        ...(typeof route.description === "string"
+          ? { description: route.description }
+          : {}),
+      };
+    });
+    const lowestPrice = endpoints
+      .map((endpoint) => endpoint.price)
+      .reduce((lowest, price) =>
+        Number(price) < Number(lowest) ? price : lowest,
+      );
+
+    return {
+      ...spec,
+      method: endpoints[0].method,
+      price: lowestPrice,
+      endpoints,
+    };
+  }
+
+  private normalizeMethod(method: unknown): string | undefined {
+    return typeof method === "string" ? method.toUpperCase() : undefined;
+  }
+
+  private normalizePrice(price: unknown): unknown {
+    return typeof price === "number" ? price.toString() : price;
+  }
+
   private isValidApiSpec(spec: unknown): spec is GeneratedApiSpec {
     return (
       typeof spec === "object" &&
@@ -148,9 +677,37 @@ export class LLMService {
       typeof (spec as GeneratedApiSpec).price === "string" &&
       typeof (spec as GeneratedApiSpec).generatedCode === "string" &&
       typeof (spec as GeneratedApiSpec).documentation === "string" &&
-      ["GET", "POST", "PUT", "DELETE", "PATCH"].includes(
-        (spec as GeneratedApiSpec).method,
-      )
+      HTTP_METHODS.includes((spec as GeneratedApiSpec).method) &&
+      this.isValidEndpointList((spec as GeneratedApiSpec).endpoints)
     );
   }
+
+  // ルートは上限数以内で、メソッドとパスの組み合わせが重複しないこと
+  private isValidEndpointList(endpoints: unknown): boolean {
+    if (endpoints === undefined) {
+      return true;
+    }
+    if (
+      !Array.isArray(endpoints) ||
+      endpoints.length === 0 ||
+      endpoints.length > MAX_GENERATED_ENDPOINTS
+    ) {
+      return false;
+    }
+
+    const routes = new Set<string>();
+    for (const endpoint of endpoints as GeneratedEndpointSpec[]) {
+      if (
+        !HTTP_METHODS.includes(endpoint.method) ||
+        typeof endpoint.path !== "string" ||
+        !endpoint.path.startsWith("/") ||
+        typeof endpoint.price !== "string" ||
+        !PRICE_PATTERN.test(endpoint.price)
+      ) {
+        return false;
+      }
+      routes.add(`${endpoint.method} ${endpoint.path}`);
+    }
+    return routes.size === endpoints.length;
+  }
 }
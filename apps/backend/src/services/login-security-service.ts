@@ -0,0 +1,286 @@
+import {
+  type Database,
+  type LoginHistoryDB,
+  LoginHistoryOperations,
+  UserOperations,
+} from "@repo/db";
+import type { MailTransport } from "./mail-service";
+import type { SessionContext } from "./session-service";
+
+export type LoginMethod = "password" | "siwe";
+
+export type LoginFailureReason =
+  | "invalid_password"
+  | "invalid_two_factor_code"
+  | "account_locked";
+
+export interface LoginSecurityResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  retryAfter: number; // ロック解除までの秒数（ロックされていなければ0）
+}
+
+export interface LoginHistoryEntry {
+  id: string;
+  method: string;
+  success: boolean;
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  newIp: boolean;
+  createdAt: Date;
+}
+
+// 過去に成功ログインのないIPからのログイン
+export interface NewIpLoginEvent {
+  userId: string;
+  email: string;
+  name: string;
+  method: LoginMethod;
+  ipAddress: string;
+  userAgent?: string;
+  occurredAt: Date;
+}
+
+/**
+ * 不審なログインの通知先（メール通知・監視基盤への連携など）
+ */
+export interface LoginAnomalyHook {
+  onNewIpLogin(event: NewIpLoginEvent): Promise<void>;
+}
+
+/**
+ * 新しいIPアドレスからのログインをメールでユーザーに通知する
+ */
+export class MailLoginAlertHook implements LoginAnomalyHook {
+  constructor(private mailTransport: MailTransport) {}
+
+  async onNewIpLogin(event: NewIpLoginEvent): Promise<void> {
+    await this.mailTransport.send({
+      to: event.email,
+      subject: "新しいIPアドレスからのログイン",
+      text: [
+        `${event.name} 様`,
+        "これまでに使用されていないIPアドレスからアカウントへのログインがありました。",
+        `日時: ${event.occurredAt.toISOString()}`,
+        `IPアドレス: ${event.ipAddress}`,
+        `ユーザーエージェント: ${event.userAgent ?? "不明"}`,
+        "心当たりがない場合は、直ちにパスワードを変更し、二要素認証を有効にしてください。",
+      ].join("\n"),
+    });
+  }
+}
+
+/**
+ * アカウント単位の連続失敗カウント・段階的ロックアウトとログイン履歴の記録
+ * IP単位のレート制限（middleware/rate-limiter.ts）を分散IPから回避する総当たりを防ぐ
+ */
+export class LoginSecurityService {
+  static readonly LOCKOUT_THRESHOLD = 5; // この回数連続で失敗するとロック
+  static readonly BASE_LOCKOUT_SECONDS = 60;
+  static readonly MAX_LOCKOUT_SECONDS = 60 * 60;
+
+  private userOperations: InstanceType<typeof UserOperations>;
+  private historyOperations: InstanceType<typeof LoginHistoryOperations>;
+  private hooks: LoginAnomalyHook[];
+
+  constructor(database: Database, hooks: LoginAnomalyHook[] = []) {
+    this.userOperations = new UserOperations(database);
+    this.historyOperations = new LoginHistoryOperations(database);
+    this.hooks = hooks;
+  }
+
+  /**
+   * 連続失敗回数に応じたロック期間（秒）。閾値以降は失敗ごとに倍増し、上限で頭打ち
+   */
+  static lockoutDuration(failedAttempts: number): number {
+    if (failedAttempts < LoginSecurityService.LOCKOUT_THRESHOLD) {
+      return 0;
+    }
+    const exponent = failedAttempts - LoginSecurityService.LOCKOUT_THRESHOLD;
+    return Math.min(
+      LoginSecurityService.BASE_LOCKOUT_SECONDS * 2 ** exponent,
+      LoginSecurityService.MAX_LOCKOUT_SECONDS,
+    );
+  }
+
+  checkLockout(user: { lockedUntil?: Date | null }): LockoutStatus {
+    const remainingMs = user.lockedUntil
+      ? user.lockedUntil.getTime() - Date.now()
+      : 0;
+    if (remainingMs <= 0) {
+      return { locked: false, retryAfter: 0 };
+    }
+    return { locked: true, retryAfter: Math.ceil(remainingMs / 1000) };
+  }
+
+  /**
+   * 認証失敗を記録し、閾値に達していればアカウントをロックする
+   */
+  async recordFailure(
+    userId: string,
+    context: SessionContext,
+    method: LoginMethod,
+    reason: LoginFailureReason,
+  ): Promise<LockoutStatus> {
+    await this.record(userId, context, method, {
+      success: false,
+      failureReason: reason,
+    });
+
+    const attemptsResult =
+      await this.userOperations.incrementFailedLoginAttempts(userId);
+    if (!attemptsResult.success) {
+      return { locked: false, retryAfter: 0 };
+    }
+
+    const duration = LoginSecurityService.lockoutDuration(attemptsResult.data);
+    if (duration === 0) {
+      return { locked: false, retryAfter: 0 };
+    }
+
+    await this.userOperations.lockUntil(
+      userId,
+      new Date(Date.now() + duration * 1000),
+    );
+    return { locked: true, retryAfter: duration };
+  }
+
+  /**
+   * ロック中のログイン試行を記録する（失敗回数は加算しない）
+   */
+  async recordLocked(
+    userId: string,
+    context: SessionContext,
+    method: LoginMethod,
+  ): Promise<void> {
+    await this.record(userId, context, method, {
+      success: false,
+      failureReason: "account_locked",
+    });
+  }
+
+  /**
+   * ログイン成功を記録し、失敗回数をリセットする
+   * 過去に成功ログインのあるユーザーが未知のIPからログインした場合はフックに通知する
+   */
+  async recordSuccess(
+    user: {
+      id: string;
+      email: string;
+      name: string;
+      failedLoginAttempts?: number;
+      lockedUntil?: Date | null;
+    },
+    context: SessionContext,
+    method: LoginMethod,
+  ): Promise<{ newIp: boolean }> {
+    if (user.failedLoginAttempts || user.lockedUntil) {
+      await this.userOperations.resetFailedLoginAttempts(user.id);
+    }
+
+    const newIp = await this.isNewIp(user.id, context.ipAddress);
+    await this.record(user.id, context, method, { success: true, newIp });
+
+    if (newIp && context.ipAddress) {
+      const event: NewIpLoginEvent = {
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        method,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        occurredAt: new Date(),
+      };
+      for (const hook of this.hooks) {
+        // 通知の失敗でログイン自体を失敗させない
+        await hook.onNewIpLogin(event).catch((error) => {
+          console.error("Login anomaly hook failed:", error);
+        });
+      }
+    }
+
+    return { newIp };
+  }
+
+  async listHistory(
+    userId: string,
+    limit = 20,
+  ): Promise<LoginSecurityResult<LoginHistoryEntry[]>> {
+    try {
+      const result = await this.historyOperations.listByUser(userId, limit);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.map((entry) => this.toHistoryEntry(entry)),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to list login history",
+      };
+    }
+  }
+
+  // 初回ログイン（履歴なし）は比較対象がないため通知しない
+  private async isNewIp(userId: string, ipAddress?: string): Promise<boolean> {
+    if (!ipAddress) {
+      return false;
+    }
+
+    const seenResult = await this.historyOperations.hasSuccessfulLoginFromIp(
+      userId,
+      ipAddress,
+    );
+    if (!seenResult.success || seenResult.data) {
+      return false;
+    }
+
+    const anyResult = await this.historyOperations.hasSuccessfulLogin(userId);
+    return anyResult.success && anyResult.data;
+  }
+
+  private async record(
+    userId: string,
+    context: SessionContext,
+    method: LoginMethod,
+    outcome: { success: boolean; failureReason?: string; newIp?: boolean },
+  ): Promise<void> {
+    const result = await this.historyOperations.create({
+      userId,
+      method,
+      success: outcome.success,
+      failureReason: outcome.failureReason ?? null,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      newIp: outcome.newIp ?? false,
+    });
+    if (!result.success) {
+      console.error("Failed to record login history:", result.error);
+    }
+  }
+
+  private toHistoryEntry(entry: LoginHistoryDB): LoginHistoryEntry {
+    return {
+      id: entry.id,
+      method: entry.method,
+      success: entry.success,
+      failureReason: entry.failureReason,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      newIp: entry.newIp,
+      createdAt: entry.createdAt,
+    };
+  }
+}
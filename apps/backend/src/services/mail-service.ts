@@ -0,0 +1,113 @@
+// メール送信の抽象化 - 本番では実際の配信サービス実装に差し替える
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * ローカル開発用：送信内容をコンソールに出力する
+ * リセットコードや招待トークンがログに残るため、本番環境では送信を拒否する
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private nodeEnv = process.env.NODE_ENV) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (this.nodeEnv === "production") {
+      throw new Error("ConsoleMailTransport cannot be used in production");
+    }
+    console.log(
+      `[mail] to=${message.to} subject=${message.subject}\n${message.text}`,
+    );
+  }
+}
+
+/**
+ * テスト用：送信内容をメモリ上に保持する
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly outbox: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  lastMessageTo(to: string): MailMessage | undefined {
+    return this.outbox.filter((message) => message.to === to).at(-1);
+  }
+}
+
+export interface HttpMailTransportOptions {
+  apiKey: string;
+  from: string;
+  endpoint?: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch; // テストで差し替える
+}
+
+/**
+ * 本番用：配信サービスのHTTP API（Resend互換）に送信内容をPOSTする
+ */
+export class HttpMailTransport implements MailTransport {
+  static readonly DEFAULT_ENDPOINT = "https://api.resend.com/emails";
+  static readonly DEFAULT_TIMEOUT_MS = 10_000;
+
+  private apiKey: string;
+  private from: string;
+  private endpoint: string;
+  private timeoutMs: number;
+  private fetchFn: typeof fetch;
+
+  constructor(options: HttpMailTransportOptions) {
+    this.apiKey = options.apiKey;
+    this.from = options.from;
+    this.endpoint = options.endpoint || HttpMailTransport.DEFAULT_ENDPOINT;
+    this.timeoutMs = options.timeoutMs ?? HttpMailTransport.DEFAULT_TIMEOUT_MS;
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await this.fetchFn(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed with status ${response.status}`);
+    }
+  }
+}
+
+/**
+ * 環境変数から送信手段を選ぶ
+ * MAIL_API_KEY があれば配信サービス、無ければローカル開発用のコンソール出力
+ * （本番環境のコンソール出力は送信を拒否するため、配信サービスの設定が無ければメールは送られない）
+ */
+export function createMailTransport(
+  env: Record<string, string | undefined> = process.env,
+): MailTransport {
+  if (env.MAIL_API_KEY) {
+    if (!env.MAIL_FROM) {
+      throw new Error("MAIL_FROM is required when MAIL_API_KEY is set");
+    }
+    return new HttpMailTransport({
+      apiKey: env.MAIL_API_KEY,
+      from: env.MAIL_FROM,
+      endpoint: env.MAIL_API_URL,
+    });
+  }
+  return new ConsoleMailTransport(env.NODE_ENV);
+}
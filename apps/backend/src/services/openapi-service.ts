@@ -0,0 +1,325 @@
+import {
+  type Database,
+  type GeneratedApiDB,
+  type GeneratedApiEndpointDB,
+  GeneratedApiEndpointOperations,
+  GeneratedApiOperations,
+} from "@repo/db";
+import { BASE_SEPOLIA_CONFIG } from "@repo/shared/x402";
+import type {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+} from "../types/openapi";
+import { DynamicDeploymentService } from "./dynamic-deployment-service";
+import { SecureCodeExecutor } from "./secure-code-executor";
+
+export interface OpenApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface OpenApiOptions {
+  serverUrl?: string; // 生成APIを公開しているオリジン
+  payTo?: string; // 支払いを受け取るプラットフォームのウォレット
+}
+
+// 生成APIの決済はBase SepoliaのUSDCで受け付ける
+const PAYMENT_NETWORK = "base-sepolia";
+const PAYMENT_SCHEME = "exact";
+const PAYMENT_HEADER = "X-PAYMENT";
+
+const BODY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+
+// ドキュメントに載せるルート（pathは公開パス）
+interface DocumentedRoute {
+  method: string;
+  path: string;
+  price: string;
+  description?: string | null;
+}
+
+// 402レスポンス（x402の支払い要求）のスキーマ
+const PAYMENT_COMPONENTS: OpenApiDocument["components"] = {
+  schemas: {
+    X402PaymentRequirements: {
+      type: "object",
+      required: [
+        "scheme",
+        "network",
+        "maxAmountRequired",
+        "resource",
+        "payTo",
+        "asset",
+      ],
+      properties: {
+        scheme: { type: "string", examples: [PAYMENT_SCHEME] },
+        network: { type: "string", examples: [PAYMENT_NETWORK] },
+        maxAmountRequired: {
+          type: "string",
+          description: "Amount in the asset's smallest unit",
+        },
+        resource: { type: "string", format: "uri" },
+        description: { type: "string" },
+        mimeType: { type: "string" },
+        payTo: { type: "string", pattern: "^0x[a-fA-F0-9]{40}$" },
+        maxTimeoutSeconds: { type: "integer" },
+        asset: { type: "string", pattern: "^0x[a-fA-F0-9]{40}$" },
+        extra: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            version: { type: "string" },
+          },
+        },
+      },
+    },
+    X402PaymentRequired: {
+      type: "object",
+      required: ["x402Version", "accepts"],
+      properties: {
+        x402Version: { type: "integer", const: 1 },
+        error: { type: "string" },
+        accepts: {
+          type: "array",
+          items: { $ref: "#/components/schemas/X402PaymentRequirements" },
+        },
+      },
+    },
+  },
+  responses: {
+    PaymentRequired: {
+      description: `Payment required. Retry the request with an ${PAYMENT_HEADER} header that satisfies one of the listed requirements.`,
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/X402PaymentRequired" },
+        },
+      },
+    },
+  },
+  securitySchemes: {
+    x402: {
+      type: "apiKey",
+      in: "header",
+      name: PAYMENT_HEADER,
+      description: "Base64-encoded x402 payment payload",
+    },
+  },
+};
+
+/**
+ * 生成APIのOpenAPI 3.1ドキュメントを組み立てる
+ * パスは生成コードに登録されたルートから求め、価格・ネットワークはベンダー拡張（x-x402-*）で示す
+ * 複数ルートのAPIはルートごとの価格・説明を使う
+ */
+export class OpenApiService {
+  private generatedApiOperations: InstanceType<typeof GeneratedApiOperations>;
+  private endpointOperations: InstanceType<
+    typeof GeneratedApiEndpointOperations
+  >;
+
+  constructor(database: Database) {
+    this.generatedApiOperations = new GeneratedApiOperations(database);
+    this.endpointOperations = new GeneratedApiEndpointOperations(database);
+  }
+
+  /**
+   * USDCの金額（小数表記）を最小単位の整数文字列に変換する
+   */
+  static toAtomicAmount(price: string): string {
+    const [whole, fraction = ""] = price.split(".");
+    const decimals = BASE_SEPOLIA_CONFIG.usdcContract.decimals;
+    const atomic = `${whole}${fraction.padEnd(decimals, "0").slice(0, decimals)}`;
+    return BigInt(atomic).toString();
+  }
+
+  /**
+   * 1つの生成APIのドキュメント
+   */
+  static document(
+    api: GeneratedApiDB,
+    options: OpenApiOptions = {},
+    endpoints: GeneratedApiEndpointDB[] = [],
+  ): OpenApiDocument {
+    return {
+      ...OpenApiService.baseDocument(options),
+      info: {
+        title: api.name,
+        version: `${api.currentRevision}`,
+        description: api.documentation,
+        "x-generated-api-id": api.id,
+      },
+      paths: OpenApiService.paths(api, endpoints, options.payTo),
+    };
+  }
+
+  /**
+   * 複数の生成APIをまとめたドキュメント（APIごとにタグを付ける）
+   */
+  static aggregate(
+    apis: GeneratedApiDB[],
+    options: OpenApiOptions = {},
+    endpoints: GeneratedApiEndpointDB[] = [],
+  ): OpenApiDocument {
+    const paths: Record<string, OpenApiPathItem> = {};
+    for (const api of apis) {
+      const apiEndpoints = endpoints.filter(
+        (endpoint) => endpoint.apiId === api.id,
+      );
+      for (const [path, item] of Object.entries(
+        OpenApiService.paths(api, apiEndpoints, options.payTo),
+      )) {
+        paths[path] = { ...paths[path], ...item };
+      }
+    }
+    return {
+      ...OpenApiService.baseDocument(options),
+      info: {
+        title: "Generated APIs",
+        version: "1.0.0",
+        description: "Active generated APIs, paid per request with x402.",
+      },
+      tags: apis.map((api) => ({
+        name: api.name,
+        description: api.description,
+      })),
+      paths,
+    };
+  }
+
+  /**
+   * ユーザーの公開中（active）の生成APIをまとめたドキュメント
+   */
+  async forActiveApis(
+    userId: string,
+    options: OpenApiOptions = {},
+  ): Promise<OpenApiResult<OpenApiDocument>> {
+    const result = await this.generatedApiOperations.findByUser(userId);
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch APIs" };
+    }
+    const activeApis = result.data.filter((api) => api.status === "active");
+    const endpointsResult = await this.endpointOperations.listByApis(
+      activeApis.map((api) => api.id),
+    );
+    if (!endpointsResult.success) {
+      return { success: false, error: "Failed to fetch API endpoints" };
+    }
+    return {
+      success: true,
+      data: OpenApiService.aggregate(activeApis, options, endpointsResult.data),
+    };
+  }
+
+  private static baseDocument(
+    options: OpenApiOptions,
+  ): Omit<OpenApiDocument, "info" | "paths"> {
+    return {
+      openapi: "3.1.0",
+      ...(options.serverUrl ? { servers: [{ url: options.serverUrl }] } : {}),
+      components: PAYMENT_COMPONENTS,
+    };
+  }
+
+  // 複数ルートのAPIは保存されたルート、それ以外は生成コードに登録されたルート
+  // （見つからなければ保存されたエンドポイント）のパス
+  private static paths(
+    api: GeneratedApiDB,
+    endpoints: GeneratedApiEndpointDB[],
+    payTo?: string,
+  ): Record<string, OpenApiPathItem> {
+    const routes = new SecureCodeExecutor().extractRouteMetadata(
+      api.generatedCode,
+    );
+    const documented: DocumentedRoute[] =
+      endpoints.length > 0
+        ? endpoints
+        : (routes?.endpoints ?? []).map((route) => ({
+            ...route,
+            price: api.price,
+          }));
+    if (documented.length === 0) {
+      documented.push({
+        method: api.method.toUpperCase(),
+        path: "/",
+        price: api.price,
+      });
+    }
+
+    const paths: Record<string, OpenApiPathItem> = {};
+    for (const route of documented) {
+      const path = DynamicDeploymentService.mountedPath(
+        api.endpoint,
+        route.path,
+      ).replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+      paths[path] = {
+        ...paths[path],
+        [route.method.toLowerCase()]: OpenApiService.operation(
+          api,
+          { ...route, path },
+          payTo,
+        ),
+      };
+    }
+    return paths;
+  }
+
+  private static operation(
+    api: GeneratedApiDB,
+    route: DocumentedRoute,
+    payTo?: string,
+  ): OpenApiOperation {
+    const { method, path, price } = route;
+    const parameters: OpenApiParameter[] = [
+      ...path.matchAll(/\{([A-Za-z0-9_]+)\}/g),
+    ].map((match) => ({
+      name: match[1],
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+
+    return {
+      operationId: OpenApiService.operationId(method, path),
+      summary: api.name,
+      description: route.description || api.description,
+      tags: [api.name],
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(BODY_METHODS.has(method)
+        ? {
+            requestBody: {
+              required: true,
+              content: { "application/json": { schema: { type: "object" } } },
+            },
+          }
+        : {}),
+      responses: {
+        "200": {
+          description: "Successful response",
+          content: { "application/json": { schema: {} } },
+        },
+        "402": { $ref: "#/components/responses/PaymentRequired" },
+      },
+      security: [{ x402: [] }],
+      "x-x402-price": price,
+      "x-x402-currency": api.currency,
+      "x-x402-max-amount-required": OpenApiService.toAtomicAmount(price),
+      "x-x402-network": PAYMENT_NETWORK,
+      "x-x402-chain-id": BASE_SEPOLIA_CONFIG.chainId,
+      "x-x402-asset": BASE_SEPOLIA_CONFIG.usdcContract.address,
+      "x-x402-scheme": PAYMENT_SCHEME,
+      ...(payTo ? { "x-x402-pay-to": payTo } : {}),
+      "x-generated-api-id": api.id,
+    };
+  }
+
+  private static operationId(method: string, path: string): string {
+    const segments = path
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => segment.replace(/[{}]/g, "").replace(/\W+/g, "_"));
+    return [method.toLowerCase(), ...segments].join("_");
+  }
+}
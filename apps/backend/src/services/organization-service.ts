@@ -0,0 +1,779 @@
+import {
+  type Database,
+  OrganizationInvitationOperations,
+  OrganizationMemberOperations,
+  type OrganizationMemberWithUser,
+  OrganizationOperations,
+  UserOperations,
+  type UserOrganizationMembership,
+} from "@repo/db";
+import { LLMProvider } from "@repo/shared/api";
+import {
+  type AcceptInvitationInput,
+  acceptInvitationSchema,
+  type CreateOrganizationInput,
+  createOrganizationSchema,
+  type InviteMemberInput,
+  inviteMemberSchema,
+  type OrganizationRole,
+  organizationRoleSchema,
+  type UpdateMemberRoleInput,
+  type UpdateOrganizationSettingsInput,
+  updateMemberRoleSchema,
+  updateOrganizationSettingsSchema,
+} from "@repo/shared/auth";
+import { RefreshTokenUtils } from "../utils/refresh-token";
+import { ConsoleMailTransport, type MailTransport } from "./mail-service";
+
+export interface OrganizationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  domain: string | null;
+  role: OrganizationRole; // リクエストユーザーのロール
+}
+
+export interface OrganizationDetail extends OrganizationSummary {
+  llmProvider: LLMProvider | null;
+  createdAt: Date;
+  members: OrganizationMember[];
+}
+
+export interface OrganizationSettings {
+  llmProvider: LLMProvider | null; // nullはサーバーの既定プロバイダー
+}
+
+export interface OrganizationMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+// 平文トークンを含まない招待情報
+export interface InvitationSummary {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: Date;
+}
+
+// ロールの強さ（数値が大きいほど権限が強い）
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+  viewer: 0,
+};
+
+export class OrganizationService {
+  static readonly INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7日
+
+  private organizationOperations: InstanceType<typeof OrganizationOperations>;
+  private memberOperations: InstanceType<typeof OrganizationMemberOperations>;
+  private invitationOperations: InstanceType<
+    typeof OrganizationInvitationOperations
+  >;
+  private userOperations: InstanceType<typeof UserOperations>;
+  // 招待トークンもリフレッシュトークンと同じく256ビット乱数＋SHA-256ハッシュで管理
+  private tokenUtils: RefreshTokenUtils;
+  private mailTransport: MailTransport;
+
+  constructor(
+    database: Database,
+    mailTransport: MailTransport = new ConsoleMailTransport(),
+  ) {
+    this.organizationOperations = new OrganizationOperations(database);
+    this.memberOperations = new OrganizationMemberOperations(database);
+    this.invitationOperations = new OrganizationInvitationOperations(database);
+    this.userOperations = new UserOperations(database);
+    this.tokenUtils = new RefreshTokenUtils();
+    this.mailTransport = mailTransport;
+  }
+
+  /**
+   * ロールが要求ロール以上の権限を持つか判定する
+   */
+  static hasRole(role: OrganizationRole, required: OrganizationRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+  }
+
+  /**
+   * 組織を作成し、作成者をオーナーとして登録する
+   */
+  async createOrganization(
+    userId: string,
+    input: CreateOrganizationInput,
+  ): Promise<OrganizationResult<OrganizationSummary>> {
+    try {
+      const validationResult = createOrganizationSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { name, domain } = validationResult.data;
+
+      if (domain) {
+        const existingResult =
+          await this.organizationOperations.findByDomain(domain);
+        if (existingResult.success && existingResult.data) {
+          return {
+            success: false,
+            error: "Domain already in use",
+          };
+        }
+      }
+
+      const orgResult = await this.organizationOperations.create({
+        name,
+        domain: domain ?? null,
+      });
+      if (!orgResult.success) {
+        return {
+          success: false,
+          error: "Organization creation failed",
+        };
+      }
+
+      const memberResult = await this.memberOperations.create({
+        organizationId: orgResult.data.id,
+        userId,
+        role: "owner",
+      });
+      if (!memberResult.success) {
+        // オーナー不在の組織を残さない
+        await this.organizationOperations.delete(orgResult.data.id);
+        return {
+          success: false,
+          error: "Organization creation failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: orgResult.data.id,
+          name: orgResult.data.name,
+          domain: orgResult.data.domain,
+          role: "owner",
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Organization creation failed",
+      };
+    }
+  }
+
+  async listOrganizations(
+    userId: string,
+  ): Promise<OrganizationResult<OrganizationSummary[]>> {
+    try {
+      const result = await this.memberOperations.listByUser(userId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Failed to fetch organizations",
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.map((membership) => this.toSummary(membership)),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to fetch organizations",
+      };
+    }
+  }
+
+  /**
+   * 組織の詳細とメンバー一覧（メンバーのみ閲覧可能）
+   */
+  async getOrganization(
+    userId: string,
+    organizationId: string,
+  ): Promise<OrganizationResult<OrganizationDetail>> {
+    try {
+      const role = await this.findRole(organizationId, userId);
+      if (!role) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      const [orgResult, membersResult] = await Promise.all([
+        this.organizationOperations.findById(organizationId),
+        this.memberOperations.listByOrganization(organizationId),
+      ]);
+      if (!orgResult.success || !membersResult.success) {
+        return {
+          success: false,
+          error: "Failed to fetch organization",
+        };
+      }
+      if (!orgResult.data) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: orgResult.data.id,
+          name: orgResult.data.name,
+          domain: orgResult.data.domain,
+          role,
+          llmProvider: this.parseLlmProvider(orgResult.data.llmProvider),
+          createdAt: orgResult.data.createdAt,
+          members: membersResult.data.map((member) => this.toMember(member)),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to fetch organization",
+      };
+    }
+  }
+
+  /**
+   * メールアドレス宛に招待リンクを送信する（admin以上）
+   * acceptUrlはフロントエンドの招待承諾ページ
+   */
+  async inviteMember(
+    userId: string,
+    organizationId: string,
+    input: InviteMemberInput,
+    acceptUrl: string,
+  ): Promise<OrganizationResult<InvitationSummary>> {
+    try {
+      const validationResult = inviteMemberSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { email, role } = validationResult.data;
+
+      const actorRole = await this.findRole(organizationId, userId);
+      if (!actorRole) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+      if (!this.canAssign(actorRole, role)) {
+        return {
+          success: false,
+          error: "Insufficient organization role",
+        };
+      }
+
+      // 既存メンバーは招待しない
+      const inviteeResult = await this.userOperations.findByEmail(email);
+      if (inviteeResult.success && inviteeResult.data) {
+        const existingRole = await this.findRole(
+          organizationId,
+          inviteeResult.data.id,
+        );
+        if (existingRole) {
+          return {
+            success: false,
+            error: "User is already a member",
+          };
+        }
+      }
+
+      const orgResult =
+        await this.organizationOperations.findById(organizationId);
+      if (!orgResult.success || !orgResult.data) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      const { token, tokenHash } = await this.tokenUtils.generate();
+      const invitationResult = await this.invitationOperations.create({
+        organizationId,
+        email: email.toLowerCase(),
+        role,
+        tokenHash,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + OrganizationService.INVITATION_TTL_MS),
+      });
+      if (!invitationResult.success) {
+        return {
+          success: false,
+          error: "Invitation creation failed",
+        };
+      }
+
+      await this.mailTransport.send({
+        to: email,
+        subject: `${orgResult.data.name} への招待`,
+        text: [
+          `${orgResult.data.name} に ${role} として招待されました。`,
+          "以下のリンクから招待を承諾してください。",
+          `${acceptUrl}?token=${encodeURIComponent(token)}`,
+          "このリンクの有効期限は7日間です。",
+        ].join("\n"),
+      });
+
+      const invitation = invitationResult.data;
+      return {
+        success: true,
+        data: {
+          id: invitation.id,
+          organizationId: invitation.organizationId,
+          email: invitation.email,
+          role: this.parseRole(invitation.role),
+          expiresAt: invitation.expiresAt,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Invitation creation failed",
+      };
+    }
+  }
+
+  /**
+   * 招待を承諾してメンバーになる（招待先メールアドレスのユーザーのみ）
+   */
+  async acceptInvitation(
+    userId: string,
+    input: AcceptInvitationInput,
+  ): Promise<OrganizationResult<OrganizationSummary>> {
+    try {
+      const validationResult = acceptInvitationSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const tokenHash = await this.tokenUtils.hash(validationResult.data.token);
+      const invitationResult =
+        await this.invitationOperations.findByTokenHash(tokenHash);
+      if (!invitationResult.success) {
+        return {
+          success: false,
+          error: "Invitation acceptance failed",
+        };
+      }
+
+      const invitation = invitationResult.data;
+      if (
+        !invitation ||
+        invitation.acceptedAt ||
+        invitation.expiresAt <= new Date()
+      ) {
+        return {
+          success: false,
+          error: "Invalid or expired invitation",
+        };
+      }
+
+      const userResult = await this.userOperations.findById(userId);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: "User not found",
+        };
+      }
+      if (userResult.data.email.toLowerCase() !== invitation.email) {
+        return {
+          success: false,
+          error: "Invitation was issued for a different email",
+        };
+      }
+
+      const existingRole = await this.findRole(
+        invitation.organizationId,
+        userId,
+      );
+      if (existingRole) {
+        return {
+          success: false,
+          error: "User is already a member",
+        };
+      }
+
+      // 同じ招待の二重承諾を防ぐため、先に承諾済みにする
+      const acceptResult = await this.invitationOperations.markAccepted(
+        invitation.id,
+      );
+      if (!acceptResult.success || !acceptResult.data) {
+        return {
+          success: false,
+          error: "Invalid or expired invitation",
+        };
+      }
+
+      const memberResult = await this.memberOperations.create({
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+      });
+      if (!memberResult.success) {
+        return {
+          success: false,
+          error: "Invitation acceptance failed",
+        };
+      }
+
+      const orgResult = await this.organizationOperations.findById(
+        invitation.organizationId,
+      );
+      if (!orgResult.success || !orgResult.data) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: orgResult.data.id,
+          name: orgResult.data.name,
+          domain: orgResult.data.domain,
+          role: this.parseRole(memberResult.data.role),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Invitation acceptance failed",
+      };
+    }
+  }
+
+  /**
+   * メンバーのロール変更（adminはmember/viewerのみ、ownerは全ロールを操作可能）
+   */
+  async updateMemberRole(
+    userId: string,
+    organizationId: string,
+    targetUserId: string,
+    input: UpdateMemberRoleInput,
+  ): Promise<OrganizationResult<OrganizationMember>> {
+    try {
+      const validationResult = updateMemberRoleSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { role } = validationResult.data;
+
+      const actorRole = await this.findRole(organizationId, userId);
+      if (!actorRole) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      const targetRole = await this.findRole(organizationId, targetUserId);
+      if (!targetRole) {
+        return {
+          success: false,
+          error: "Member not found",
+        };
+      }
+
+      if (
+        !this.canAssign(actorRole, targetRole) ||
+        !this.canAssign(actorRole, role)
+      ) {
+        return {
+          success: false,
+          error: "Insufficient organization role",
+        };
+      }
+
+      if (targetRole === "owner" && role !== "owner") {
+        const lastOwnerCheck = await this.ensureNotLastOwner(organizationId);
+        if (lastOwnerCheck) {
+          return lastOwnerCheck;
+        }
+      }
+
+      const updateResult = await this.memberOperations.updateRole(
+        organizationId,
+        targetUserId,
+        role,
+      );
+      if (!updateResult.success || !updateResult.data) {
+        return {
+          success: false,
+          error: "Role update failed",
+        };
+      }
+
+      const membersResult =
+        await this.memberOperations.listByOrganization(organizationId);
+      const member = membersResult.success
+        ? membersResult.data.find((m) => m.userId === targetUserId)
+        : undefined;
+      if (!member) {
+        return {
+          success: false,
+          error: "Role update failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toMember(member),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Role update failed",
+      };
+    }
+  }
+
+  /**
+   * 組織設定の更新（admin以上）
+   */
+  async updateSettings(
+    userId: string,
+    organizationId: string,
+    input: UpdateOrganizationSettingsInput,
+  ): Promise<OrganizationResult<OrganizationSettings>> {
+    try {
+      const validationResult =
+        updateOrganizationSettingsSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const actorRole = await this.findRole(organizationId, userId);
+      if (!actorRole) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+      if (!OrganizationService.hasRole(actorRole, "admin")) {
+        return {
+          success: false,
+          error: "Insufficient organization role",
+        };
+      }
+
+      const updateResult = await this.organizationOperations.update(
+        organizationId,
+        { llmProvider: validationResult.data.llmProvider },
+      );
+      if (!updateResult.success || !updateResult.data) {
+        return {
+          success: false,
+          error: "Settings update failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          llmProvider: this.parseLlmProvider(updateResult.data.llmProvider),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Settings update failed",
+      };
+    }
+  }
+
+  /**
+   * 組織で設定されたLLMプロバイダー（未設定・取得失敗時はnull）
+   */
+  async findLlmProvider(organizationId: string): Promise<LLMProvider | null> {
+    const result = await this.organizationOperations.findById(organizationId);
+    if (!result.success || !result.data) {
+      return null;
+    }
+    return this.parseLlmProvider(result.data.llmProvider);
+  }
+
+  /**
+   * メンバーの削除（自分自身の脱退はロールに関係なく可能）
+   */
+  async removeMember(
+    userId: string,
+    organizationId: string,
+    targetUserId: string,
+  ): Promise<OrganizationResult<{ userId: string }>> {
+    try {
+      const actorRole = await this.findRole(organizationId, userId);
+      if (!actorRole) {
+        return {
+          success: false,
+          error: "Organization not found",
+        };
+      }
+
+      const targetRole = await this.findRole(organizationId, targetUserId);
+      if (!targetRole) {
+        return {
+          success: false,
+          error: "Member not found",
+        };
+      }
+
+      if (userId !== targetUserId && !this.canAssign(actorRole, targetRole)) {
+        return {
+          success: false,
+          error: "Insufficient organization role",
+        };
+      }
+
+      if (targetRole === "owner") {
+        const lastOwnerCheck = await this.ensureNotLastOwner(organizationId);
+        if (lastOwnerCheck) {
+          return lastOwnerCheck;
+        }
+      }
+
+      const removeResult = await this.memberOperations.remove(
+        organizationId,
+        targetUserId,
+      );
+      if (!removeResult.success || !removeResult.data) {
+        return {
+          success: false,
+          error: "Member removal failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: { userId: targetUserId },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Member removal failed",
+      };
+    }
+  }
+
+  /**
+   * 組織内のロールを取得（非メンバーはnull）
+   */
+  async findRole(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationRole | null> {
+    const result = await this.memberOperations.findMembership(
+      organizationId,
+      userId,
+    );
+    if (!result.success || !result.data) {
+      return null;
+    }
+    return this.parseRole(result.data.role);
+  }
+
+  /**
+   * ownerは全ロール、adminはmember/viewerのみ付与・操作できる
+   */
+  private canAssign(
+    actorRole: OrganizationRole,
+    role: OrganizationRole,
+  ): boolean {
+    if (actorRole === "owner") {
+      return true;
+    }
+    return (
+      OrganizationService.hasRole(actorRole, "admin") &&
+      ROLE_RANK[role] < ROLE_RANK.admin
+    );
+  }
+
+  private async ensureNotLastOwner(
+    organizationId: string,
+  ): Promise<OrganizationResult<never> | null> {
+    const countResult = await this.memberOperations.countByRole(
+      organizationId,
+      "owner",
+    );
+    if (!countResult.success) {
+      return {
+        success: false,
+        error: "Failed to verify organization owners",
+      };
+    }
+    if (countResult.data <= 1) {
+      return {
+        success: false,
+        error: "Organization must have at least one owner",
+      };
+    }
+    return null;
+  }
+
+  // 不明なロールは最小権限として扱う
+  private parseLlmProvider(provider: string | null): LLMProvider | null {
+    const parsed = LLMProvider.safeParse(provider);
+    return parsed.success ? parsed.data : null;
+  }
+
+  private parseRole(role: string): OrganizationRole {
+    const parsed = organizationRoleSchema.safeParse(role);
+    return parsed.success ? parsed.data : "viewer";
+  }
+
+  private toSummary(
+    membership: UserOrganizationMembership,
+  ): OrganizationSummary {
+    return {
+      id: membership.organizationId,
+      name: membership.name,
+      domain: membership.domain,
+      role: this.parseRole(membership.role),
+    };
+  }
+
+  private toMember(member: OrganizationMemberWithUser): OrganizationMember {
+    return {
+      userId: member.userId,
+      name: member.name,
+      email: member.email,
+      role: this.parseRole(member.role),
+      joinedAt: member.joinedAt,
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  type Database,
+  type PromptTemplateDB,
+  PromptTemplateOperations,
+} from "@repo/db";
+import {
+  type GenerateFromTemplateInput,
+  type NaturalLanguageInput,
+  naturalLanguageInputSchema,
+  type PromptTemplateInput,
+  type PromptTemplateUpdate,
+  type PromptTemplateVariable,
+} from "@repo/shared/api";
+import { type ZodIssue, z } from "zod";
+
+export interface PromptTemplateResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  // 入力エラーの内訳（テンプレート定義の不備・変数のバリデーションエラー）
+  details?: string[] | ZodIssue[];
+}
+
+// 本文中の変数参照 {{name}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// 変数の型ごとの値のスキーマ
+function variableValueSchema(variable: PromptTemplateVariable): z.ZodTypeAny {
+  switch (variable.type) {
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "url":
+      return z.string().url();
+    case "enum":
+      return z.enum((variable.options ?? [""]) as [string, ...string[]]);
+    default:
+      return z.string().min(1).max(2000);
+  }
+}
+
+/**
+ * 組織で共有するAPI生成用のプロンプトテンプレート
+ * 本文の{{変数名}}を検証済みの値で置き換えて生成リクエストの説明にする
+ */
+export class PromptTemplateService {
+  private templateOperations: InstanceType<typeof PromptTemplateOperations>;
+
+  constructor(database: Database) {
+    this.templateOperations = new PromptTemplateOperations(database);
+  }
+
+  /**
+   * 本文で参照している変数名（重複なし、出現順）
+   */
+  static placeholders(template: string): string[] {
+    const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map(
+      (match) => match[1],
+    );
+    return [...new Set(names)];
+  }
+
+  /**
+   * テンプレート定義の不備を列挙する（問題がなければ空配列）
+   */
+  static definitionErrors(
+    template: string,
+    variables: PromptTemplateVariable[],
+  ): string[] {
+    const errors: string[] = [];
+    const declared = new Set<string>();
+    for (const variable of variables) {
+      if (declared.has(variable.name)) {
+        errors.push(`Duplicate variable: ${variable.name}`);
+      }
+      declared.add(variable.name);
+
+      if (variable.type === "enum" && !variable.options?.length) {
+        errors.push(`Enum variable requires options: ${variable.name}`);
+      }
+      if (
+        variable.default !== undefined &&
+        !variableValueSchema(variable).safeParse(variable.default).success
+      ) {
+        errors.push(`Invalid default value: ${variable.name}`);
+      }
+    }
+    for (const name of PromptTemplateService.placeholders(template)) {
+      if (!declared.has(name)) {
+        errors.push(`Undeclared variable: ${name}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * 変数定義から値を検証するスキーマを組み立てる（未定義の変数は受け付けない）
+   */
+  static variablesSchema(variables: PromptTemplateVariable[]) {
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const variable of variables) {
+      const schema = variableValueSchema(variable);
+      if (variable.default !== undefined) {
+        shape[variable.name] = schema.default(variable.default);
+      } else {
+        shape[variable.name] = variable.required ? schema : schema.optional();
+      }
+    }
+    return z.object(shape).strict();
+  }
+
+  /**
+   * 本文の変数参照を値で置き換える（値のない任意の変数は空文字）
+   */
+  static render(template: string, values: Record<string, unknown>): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      const value = values[name];
+      return value === undefined ? "" : String(value);
+    });
+  }
+
+  /**
+   * 変数を検証してテンプレートから生成リクエストを組み立てる
+   * リクエストで指定しなかった項目はテンプレートの既定値を使う
+   */
+  static buildGenerationInput(
+    template: PromptTemplateDB,
+    input: GenerateFromTemplateInput,
+  ): PromptTemplateResult<NaturalLanguageInput> {
+    const variablesResult = PromptTemplateService.variablesSchema(
+      template.variables,
+    ).safeParse(input.variables);
+    if (!variablesResult.success) {
+      return {
+        success: false,
+        error: "Invalid template variables",
+        details: variablesResult.error.issues,
+      };
+    }
+
+    const { variables: _variables, ...options } = input;
+    const generationResult = naturalLanguageInputSchema.safeParse({
+      description: PromptTemplateService.render(
+        template.template,
+        variablesResult.data,
+      ).trim(),
+      category: template.category,
+      complexityLevel: template.complexityLevel ?? undefined,
+      expectedPrice: template.expectedPrice ?? undefined,
+      externalApis: template.externalApis ?? undefined,
+      ...options,
+    });
+    if (!generationResult.success) {
+      return {
+        success: false,
+        error: "Invalid template variables",
+        details: generationResult.error.issues,
+      };
+    }
+    return { success: true, data: generationResult.data };
+  }
+
+  async list(
+    organizationId: string,
+  ): Promise<PromptTemplateResult<PromptTemplateDB[]>> {
+    const result =
+      await this.templateOperations.listByOrganization(organizationId);
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch templates" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  async get(id: string): Promise<PromptTemplateResult<PromptTemplateDB>> {
+    const result = await this.templateOperations.findById(id);
+    if (!result.success) {
+      return { success: false, error: "Failed to fetch template" };
+    }
+    if (!result.data) {
+      return { success: false, error: "Template not found" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  async create(
+    organizationId: string,
+    createdBy: string,
+    input: PromptTemplateInput,
+  ): Promise<PromptTemplateResult<PromptTemplateDB>> {
+    const checkResult = await this.checkDefinition(
+      organizationId,
+      input.name,
+      input.template,
+      input.variables,
+    );
+    if (!checkResult.success) {
+      return checkResult;
+    }
+
+    const result = await this.templateOperations.create({
+      ...input,
+      organizationId,
+      createdBy,
+    });
+    if (!result.success) {
+      return { success: false, error: "Failed to create template" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * 本文・変数の一方だけを変更する場合も、変更後の組み合わせで定義を検証する
+   */
+  async update(
+    template: PromptTemplateDB,
+    input: PromptTemplateUpdate,
+  ): Promise<PromptTemplateResult<PromptTemplateDB>> {
+    const checkResult = await this.checkDefinition(
+      template.organizationId,
+      input.name ?? template.name,
+      input.template ?? template.template,
+      input.variables ?? template.variables,
+      template.id,
+    );
+    if (!checkResult.success) {
+      return checkResult;
+    }
+
+    const result = await this.templateOperations.update(template.id, input);
+    if (!result.success) {
+      return { success: false, error: "Failed to update template" };
+    }
+    return { success: true, data: result.data };
+  }
+
+  async remove(id: string): Promise<PromptTemplateResult<void>> {
+    const result = await this.templateOperations.delete(id);
+    if (!result.success) {
+      return { success: false, error: "Failed to delete template" };
+    }
+    if (!result.data) {
+      return { success: false, error: "Template not found" };
+    }
+    return { success: true };
+  }
+
+  /**
+   * テンプレートから生成したAPIを保存できたときに利用回数を数える
+   */
+  async recordUsage(id: string): Promise<PromptTemplateResult<number>> {
+    const result = await this.templateOperations.incrementUsage(id);
+    if (!result.success) {
+      return { success: false, error: "Failed to record template usage" };
+    }
+    return { success: true, data: result.data.usageCount };
+  }
+
+  // 定義の不備と、組織内での名前の重複を確認する
+  private async checkDefinition(
+    organizationId: string,
+    name: string,
+    template: string,
+    variables: PromptTemplateVariable[],
+    currentId?: string,
+  ): Promise<PromptTemplateResult<never>> {
+    const errors = PromptTemplateService.definitionErrors(template, variables);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: "Invalid template definition",
+        details: errors,
+      };
+    }
+
+    const existing = await this.templateOperations.findByName(
+      organizationId,
+      name,
+    );
+    if (!existing.success) {
+      return { success: false, error: "Failed to check template name" };
+    }
+    if (existing.data && existing.data.id !== currentId) {
+      return { success: false, error: "Template name already exists" };
+    }
+    return { success: true };
+  }
+}
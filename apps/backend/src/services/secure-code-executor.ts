@@ -6,27 +6,26 @@ import type {
   SandboxExecutionResult,
   SecurityPolicy,
 } from "../types/dynamic-routes";
-
+import { CodeSandbox, SandboxError } from "../utils/code-sandbox";
+import { SANDBOX_MODULES } from "../utils/sandbox-modules";
+
+// メタデータに登録したルートを抽出できない登録の形式（価格を判定できないため受け付けない）
+const UNSUPPORTED_ROUTE_REGISTRATION =
+  /\bapp\.(all|on|route|basePath|mount)\s*\(/g;
+
+/**
+ * 生成コードの検証と実行
+ * コードはQuickJS（WASM）のサンドボックスで評価し、ホストのグローバルやモジュールには触れさせない
+ * CPU時間・命令数・ヒープ・スタックの上限は ResourceLimits をサンドボックスのランタイムに設定して強制する
+ */
 export class SecureCodeExecutor {
   private readonly securityPolicy: SecurityPolicy;
   private readonly resourceLimits: ResourceLimits;
-  private activeSandboxes: Map<string, AbortController>;
+  private activeSandboxes: Set<string>;
 
   constructor() {
     this.securityPolicy = {
-      allowedImports: ["hono", "x402-hono", "@repo/shared", "@repo/db"],
-      forbiddenFunctions: [
-        "eval",
-        "Function",
-        "setTimeout",
-        "setInterval",
-        "process.exit",
-        "require",
-        "import.meta",
-        "globalThis",
-        "global",
-        "window",
-      ],
+      allowedImports: Object.keys(SANDBOX_MODULES),
       maxCodeLength: 50000, // 50KB
       maxExecutionTime: 5000, // 5秒
       maxMemoryUsage: 10 * 1024 * 1024, // 10MB
@@ -41,7 +40,8 @@ export class SecureCodeExecutor {
       },
       memory: {
         maxHeapSize: 10 * 1024 * 1024, // 10MB
-        maxStackSize: 1024 * 1024, // 1MB
+        // QuickJSの再帰はホストのネイティブスタックも消費するため、ホストより先に上限に達する大きさにする
+        maxStackSize: 256 * 1024, // 256KB
       },
       concurrency: {
         maxConcurrentExecutions: 3,
@@ -49,20 +49,21 @@ export class SecureCodeExecutor {
       },
     };
 
-    this.activeSandboxes = new Map();
+    this.activeSandboxes = new Set();
   }
 
   /**
-   * コードの安全性検証
+   * コードの事前検証
+   * 危険な関数の利用はサンドボックスが遮断するため、ここでは生成コードとしての形だけを確認する
    */
   validateCode(code: string): CodeValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     this.validateCodeLength(code, errors);
-    this.validateForbiddenFunctions(code, errors);
     this.validateImports(code, errors);
     this.validateHonoStructure(code, errors);
+    this.validateRouteRegistration(code, errors);
     this.validatePotentialIssues(code, warnings);
 
     return {
@@ -78,15 +79,6 @@ export class SecureCodeExecutor {
     }
   }
 
-  private validateForbiddenFunctions(code: string, errors: string[]): void {
-    for (const forbidden of this.securityPolicy.forbiddenFunctions) {
-      const regex = new RegExp(`\\b${forbidden}\\b`, "g");
-      if (regex.test(code)) {
-        errors.push(`Forbidden function: ${forbidden}`);
-      }
-    }
-  }
-
   private validateImports(code: string, errors: string[]): void {
     // インポート文の検証
     const importRegex = /import\s+.*?from\s+['"](.*?)['"]/g;
@@ -121,6 +113,20 @@ export class SecureCodeExecutor {
     }
   }
 
+  // ルートは app.get/post/put/delete/patch でのみ登録できる（extractRouteMetadata が抽出する形式）
+  private validateRouteRegistration(code: string, errors: string[]): void {
+    const forms = new Set(
+      [...code.matchAll(UNSUPPORTED_ROUTE_REGISTRATION)].map(
+        (match) => match[1],
+      ),
+    );
+    for (const form of forms) {
+      errors.push(
+        `Unsupported route registration: app.${form}() (use app.get, app.post, app.put, app.delete or app.patch)`,
+      );
+    }
+  }
+
   private validatePotentialIssues(code: string, warnings: string[]): void {
     if (code.includes("while (true)") || code.includes("for (;;)")) {
       warnings.push("Potential infinite loop detected");
@@ -132,303 +138,136 @@ export class SecureCodeExecutor {
   }
 
   /**
-   * セキュアなサンドボックス実行
+   * サンドボックスでコードを評価し、デフォルトエクスポートをJSONとして受け取る
    */
   async executeInSandbox<T = unknown>(
     code: string,
     options: SandboxExecutionOptions = {},
   ): Promise<SandboxExecutionResult<T>> {
-    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-    const timeout = options.timeout || this.securityPolicy.maxExecutionTime;
-
-    try {
-      // 同時実行数制限チェック
-      if (
-        this.activeSandboxes.size >=
-        this.resourceLimits.concurrency.maxConcurrentExecutions
-      ) {
-        return {
-          success: false,
-          error: "Rate limit exceeded: too many concurrent executions",
-        };
-      }
-
-      // AbortControllerで実行制御
-      const abortController = new AbortController();
-      this.activeSandboxes.set(executionId, abortController);
-
-      // タイムアウト設定
-      const timeoutId = setTimeout(() => {
-        abortController.abort();
-      }, timeout);
-
+    return this.withExecutionSlot(async () => {
+      const startedAt = Date.now();
       try {
-        // セキュアなコード実行（Cloudflare Workers V8環境）
-        const result = await this.executeSecurely<T>(
+        const data = await CodeSandbox.evaluate<T>(
           code,
-          abortController.signal,
+          this.limitsFor(options),
         );
-
-        clearTimeout(timeoutId);
-        this.activeSandboxes.delete(executionId);
-
         return {
           success: true,
-          data: result,
-          executionTime: Date.now() % 10000, // 簡易実行時間
+          data,
+          executionTime: Date.now() - startedAt,
         };
       } catch (error) {
-        clearTimeout(timeoutId);
-        this.activeSandboxes.delete(executionId);
-
-        if (abortController.signal.aborted) {
-          return {
-            success: false,
-            error: "Execution timeout",
-          };
-        }
-
         return {
           success: false,
           error: error instanceof Error ? error.message : "Execution failed",
         };
       }
-    } catch (error) {
-      this.activeSandboxes.delete(executionId);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Sandbox setup failed",
-      };
-    }
+    });
   }
 
   /**
    * Honoアプリケーションのコンパイル
+   * 返すアプリはサンドボックスの中で動き、fetch でリクエストを処理する
    */
   async compileHonoRoute(code: string): Promise<CompiledRoute> {
-    try {
-      // コードバリデーション
-      const validation = this.validateCode(code);
-      if (!validation.isValid) {
-        return {
-          success: false,
-          error: `Code validation failed: ${validation.errors.join(", ")}`,
-        };
-      }
-
-      // コードを安全に実行してHonoアプリインスタンスを取得
-      const executionResult = await this.executeInSandbox(code);
-      if (!executionResult.success) {
-        return {
-          success: false,
-          error: `Code execution failed: ${executionResult.error}`,
-        };
-      }
-
-      const honoApp = executionResult.data;
+    // コードバリデーション
+    const validation = this.validateCode(code);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: `Code validation failed: ${validation.errors.join(", ")}`,
+      };
+    }
 
-      // Honoアプリケーションかどうか検証
-      if (!this.isValidHonoApp(honoApp)) {
+    const result = await this.withExecutionSlot<CompiledRoute>(async () => {
+      try {
+        const app = await CodeSandbox.compile(code, this.resourceLimits);
+        return { success: true, data: app };
+      } catch (error) {
+        if (error instanceof SandboxError && error.code === "invalid_app") {
+          return { success: false, error: "Invalid Hono application" };
+        }
         return {
           success: false,
-          error: "Invalid Hono application",
+          error: `Code execution failed: ${error instanceof Error ? error.message : "Compilation failed"}`,
         };
       }
-
-      // メタデータ抽出
-      const metadata = this.extractRouteMetadata(code);
-
-      return {
-        success: true,
-        data: honoApp as object,
-        metadata,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Compilation failed",
-      };
+    });
+    if (!result.success) {
+      return result;
     }
+
+    return {
+      ...result,
+      metadata: this.extractRouteMetadata(code),
+    };
   }
 
   /**
    * リソースクリーンアップ
+   * 評価は同期的に終わるため、実行枠の記録だけを破棄する
    */
   async cleanup(): Promise<void> {
-    // アクティブなサンドボックスを停止
-    for (const [id, controller] of this.activeSandboxes) {
-      controller.abort();
-      this.activeSandboxes.delete(id);
-    }
-  }
-
-  /**
-   * 許可されたインポートかどうか判定
-   */
-  private isAllowedImport(importPath: string): boolean {
-    // 相対インポートは許可
-    if (importPath.startsWith("./") || importPath.startsWith("../")) {
-      return true;
-    }
-
-    // 許可されたパッケージリストをチェック
-    return this.securityPolicy.allowedImports.some(
-      (allowed) =>
-        importPath === allowed || importPath.startsWith(`${allowed}/`),
-    );
+    this.activeSandboxes.clear();
   }
 
   /**
-   * セキュアなコード実行（Workers V8環境）
+   * 同時実行数の上限内で実行する（上限に達していればRate limitとして失敗させる）
+   * 枠の確保は最初のawaitより前に行う
    */
-  private async executeSecurely<T>(
-    code: string,
-    signal: AbortSignal,
-  ): Promise<T> {
-    if (signal.aborted) {
-      throw new Error("Execution aborted");
-    }
-
-    // テスト環境・開発環境用の簡易実装
+  private async withExecutionSlot<
+    R extends { success: boolean; error?: string },
+  >(execute: () => Promise<R>): Promise<R | { success: false; error: string }> {
     if (
-      process.env.NODE_ENV === "test" ||
-      process.env.NODE_ENV === "development"
+      this.activeSandboxes.size >=
+      this.resourceLimits.concurrency.maxConcurrentExecutions
     ) {
-      return this.executeForTesting<T>(code, signal);
-    }
-
-    // 本番環境: Cloudflare Workers V8 isolatesを使用
-    return this.executeInProduction<T>(code, signal);
-  }
-
-  /**
-   * テスト環境用の簡易実行
-   */
-  private async executeForTesting<T>(
-    code: string,
-    signal: AbortSignal,
-  ): Promise<T> {
-    if (signal.aborted) {
-      throw new Error("Execution aborted");
-    }
-
-    try {
-      // テスト環境ではモックのHonoアプリを返す
-      if (code.includes("Hono") || code.includes("hono")) {
-        const mockHonoApp = {
-          fetch: () => Promise.resolve(new Response("mock")),
-          route: () => mockHonoApp,
-          get: () => mockHonoApp,
-          post: () => mockHonoApp,
-          put: () => mockHonoApp,
-          delete: () => mockHonoApp,
-          patch: () => mockHonoApp,
-        };
-        return mockHonoApp as T;
-      }
-
-      // その他のコードは基本的な実行を試行
-      // module.exportsのサポート
-      const moduleScope = { exports: {} };
-      const func = new Function('module', 'exports', `${code}; return module.exports;`);
-      const result = func(moduleScope, moduleScope.exports);
-      return result as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Test execution error: ${error.message}`);
-      }
-      throw new Error("Unknown test execution error");
+      return {
+        success: false,
+        error: "Rate limit exceeded: too many concurrent executions",
+      };
     }
-  }
-
-  /**
-   * 本番環境用のセキュア実行
-   */
-  private async executeInProduction<T>(
-    code: string,
-    signal: AbortSignal,
-  ): Promise<T> {
-    // サンドボックス化されたグローバルコンテキスト作成
-    const sandboxGlobals = this.createSandboxGlobals();
-
-    // コードを即座実行関数として包装
-    const wrappedCode = `
-      (function(globals) {
-        "use strict";
-        ${Object.keys(sandboxGlobals)
-          .map((key) => `const ${key} = globals.${key};`)
-          .join("\n")}
-        
-        ${code}
-        
-        return typeof module !== 'undefined' && module.exports ? module.exports : 
-               typeof exports !== 'undefined' ? exports :
-               undefined;
-      })
-    `;
 
+    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.activeSandboxes.add(executionId);
     try {
-      // 関数として評価・実行
-      const func = new Function(`return ${wrappedCode}`)();
-      const result = func(sandboxGlobals);
-
-      if (signal.aborted) {
-        throw new Error("Execution aborted");
-      }
-
-      return result as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes("aborted")) {
-          throw error;
-        }
-        throw new Error(`Production execution error: ${error.message}`);
-      }
-      throw new Error("Unknown production execution error");
+      return await execute();
+    } finally {
+      this.activeSandboxes.delete(executionId);
     }
   }
 
   /**
-   * サンドボックス用のグローバルオブジェクト作成
+   * 実行オプションで上書きした上限（タイムアウトとヒープのみ上書きできる）
    */
-  private createSandboxGlobals(): Record<string, unknown> {
+  private limitsFor(options: SandboxExecutionOptions): ResourceLimits {
     return {
-      console: {
-        log: (...args: unknown[]) => console.log("[SANDBOX]", ...args),
-        error: (...args: unknown[]) => console.error("[SANDBOX]", ...args),
-        warn: (...args: unknown[]) => console.warn("[SANDBOX]", ...args),
+      ...this.resourceLimits,
+      cpu: {
+        ...this.resourceLimits.cpu,
+        maxExecutionTime:
+          options.timeout || this.resourceLimits.cpu.maxExecutionTime,
+      },
+      memory: {
+        ...this.resourceLimits.memory,
+        maxHeapSize:
+          options.memoryLimit || this.resourceLimits.memory.maxHeapSize,
       },
-      JSON,
-      Date,
-      Math,
-      Promise,
-      setTimeout: undefined, // 無効化
-      setInterval: undefined, // 無効化
-      eval: undefined, // 無効化
-      Function: undefined, // 無効化
-      module: { exports: {} },
-      exports: {},
-      require: undefined, // 無効化
     };
   }
 
   /**
-   * Honoアプリケーションかどうか検証
+   * 許可されたインポートかどうか判定
+   * サンドボックスが読み込めるモジュールだけを許可する（相対インポートも読み込めない）
    */
-  private isValidHonoApp(app: unknown): boolean {
-    if (!app || typeof app !== "object") {
-      return false;
-    }
-
-    const honoApp = app as Record<string, unknown>;
-    // Honoアプリは必須メソッドfetchを持つべき
-    return typeof honoApp.fetch === "function";
+  private isAllowedImport(importPath: string): boolean {
+    return this.securityPolicy.allowedImports.includes(importPath);
   }
 
   /**
-   * ルートメタデータを抽出
+   * ルートメタデータを抽出（決済設定と登録されているエンドポイント）
    */
-  private extractRouteMetadata(
+  extractRouteMetadata(
     code: string,
   ): CompiledRoute["metadata"] {
     const metadata: CompiledRoute["metadata"] = {
@@ -440,15 +279,13 @@ export class SecureCodeExecutor {
     if (code.includes("x402(")) {
       metadata.hasPayment = true;
 
-      // 価格情報の抽出（x402の引数順序: walletAddress, price）
-      const priceMatch = code.match(/x402\([^,]+,\s*['"]\$?([\d.]+)['"]/i);
-      const walletMatch = code.match(/x402\(['"]([^'"]+)['"],/i);
+      // 価格情報の抽出（x402(price)、以前の形式の x402(walletAddress, price) は支払先を無視する）
+      const priceMatch = code.match(
+        /x402\(\s*(?:['"][^'"]*['"]\s*,\s*)?['"]\$?([\d.]+)['"]/i,
+      );
 
-      if (priceMatch && walletMatch) {
-        metadata.paymentConfig = {
-          price: priceMatch[1],
-          walletAddress: walletMatch[1],
-        };
+      if (priceMatch) {
+        metadata.paymentConfig = { price: priceMatch[1] };
       }
     }
 
@@ -0,0 +1,388 @@
+import {
+  type Database,
+  OrganizationMemberOperations,
+  type SessionDB,
+  SessionOperations,
+  UserOperations,
+} from "@repo/db";
+import { ALL_API_SCOPES } from "@repo/shared/auth";
+import { type JwtPayload, JwtUtils } from "../utils/jwt";
+import { RefreshTokenUtils } from "../utils/refresh-token";
+import { TokenDenylist } from "../utils/token-denylist";
+
+// セッション発行時のクライアント情報
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// リフレッシュトークンのハッシュを含まないセッション情報
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  current: boolean;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // アクセストークンの有効期間（秒）
+  session: SessionSummary;
+}
+
+export interface SessionResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+type SessionUser = Pick<JwtPayload, "userId" | "email" | "organizationId">;
+
+export class SessionService {
+  static readonly ACCESS_TOKEN_TTL = 15 * 60; // 15分
+  static readonly REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // 30日
+
+  private sessionOperations: InstanceType<typeof SessionOperations>;
+  private userOperations: InstanceType<typeof UserOperations>;
+  private memberOperations: InstanceType<typeof OrganizationMemberOperations>;
+  private jwtUtils: JwtUtils;
+  private refreshTokenUtils: RefreshTokenUtils;
+  private denylist: TokenDenylist;
+
+  constructor(database: Database, jwtSecret: string, denylist?: TokenDenylist) {
+    this.sessionOperations = new SessionOperations(database);
+    this.userOperations = new UserOperations(database);
+    this.memberOperations = new OrganizationMemberOperations(database);
+    this.jwtUtils = new JwtUtils(jwtSecret);
+    this.refreshTokenUtils = new RefreshTokenUtils();
+    this.denylist = denylist ?? new TokenDenylist();
+  }
+
+  /**
+   * 新しいセッションを作成し、アクセストークンとリフレッシュトークンを発行する
+   */
+  async createSession(
+    user: SessionUser,
+    context: SessionContext = {},
+  ): Promise<SessionResult<SessionTokens>> {
+    try {
+      const sessionId = crypto.randomUUID();
+      const jti = crypto.randomUUID();
+      const refresh = await this.refreshTokenUtils.generate();
+
+      const createResult = await this.sessionOperations.create({
+        id: sessionId,
+        userId: user.userId,
+        refreshTokenHash: refresh.tokenHash,
+        accessTokenJti: jti,
+        userAgent: context.userAgent ?? null,
+        ipAddress: context.ipAddress ?? null,
+        expiresAt: this.refreshTokenExpiry(),
+      });
+
+      if (!createResult.success) {
+        return {
+          success: false,
+          error: "Session creation failed",
+        };
+      }
+
+      const accessToken = await this.signAccessToken(user, sessionId, jti);
+
+      return {
+        success: true,
+        data: {
+          accessToken,
+          refreshToken: refresh.token,
+          expiresIn: SessionService.ACCESS_TOKEN_TTL,
+          session: this.toSummary(createResult.data, sessionId),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Session creation failed",
+      };
+    }
+  }
+
+  /**
+   * リフレッシュトークンをローテーションし、新しいトークンの組を発行する
+   */
+  async refresh(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<SessionResult<SessionTokens>> {
+    try {
+      const tokenHash = await this.refreshTokenUtils.hash(refreshToken);
+      const sessionResult =
+        await this.sessionOperations.findByRefreshTokenHash(tokenHash);
+      if (!sessionResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      // ローテーション済み・失効済み・期限切れのトークンは同じエラーで拒否
+      const session = sessionResult.data;
+      if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+        return {
+          success: false,
+          error: "Invalid or expired refresh token",
+        };
+      }
+
+      const userResult = await this.userOperations.findById(session.userId);
+      if (!userResult.success || !userResult.data) {
+        return {
+          success: false,
+          error: "Invalid or expired refresh token",
+        };
+      }
+
+      // 所属組織の変更をリフレッシュ時に反映する
+      const organizationResult =
+        await this.memberOperations.findPrimaryOrganizationId(
+          userResult.data.id,
+        );
+      if (!organizationResult.success) {
+        return {
+          success: false,
+          error: "Session refresh failed",
+        };
+      }
+
+      const jti = crypto.randomUUID();
+      const rotated = await this.refreshTokenUtils.generate();
+      const updateResult = await this.sessionOperations.update(session.id, {
+        refreshTokenHash: rotated.tokenHash,
+        accessTokenJti: jti,
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+        lastUsedAt: new Date(),
+        expiresAt: this.refreshTokenExpiry(),
+      });
+
+      if (!updateResult.success || !updateResult.data) {
+        return {
+          success: false,
+          error: "Session refresh failed",
+        };
+      }
+
+      const accessToken = await this.signAccessToken(
+        {
+          userId: userResult.data.id,
+          email: userResult.data.email,
+          organizationId: organizationResult.data,
+        },
+        session.id,
+        jti,
+      );
+
+      return {
+        success: true,
+        data: {
+          accessToken,
+          refreshToken: rotated.token,
+          expiresIn: SessionService.ACCESS_TOKEN_TTL,
+          session: this.toSummary(updateResult.data, session.id),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Session refresh failed",
+      };
+    }
+  }
+
+  /**
+   * 現在のアクセストークンを即時失効させ、発行元セッションも終了する
+   */
+  async logout(
+    user: JwtPayload,
+  ): Promise<SessionResult<{ sessionId: string | null }>> {
+    try {
+      if (user.jti) {
+        await this.denylist.revoke(user.jti, user.exp);
+      }
+
+      // セッションに紐づかない旧トークンは失効リスト登録のみ
+      if (!user.sid) {
+        return {
+          success: true,
+          data: { sessionId: null },
+        };
+      }
+
+      const revokeResult = await this.revokeSession(user.userId, user.sid);
+      if (!revokeResult.success) {
+        return { success: false, error: revokeResult.error };
+      }
+
+      return {
+        success: true,
+        data: { sessionId: user.sid },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Logout failed",
+      };
+    }
+  }
+
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResult<SessionSummary[]>> {
+    try {
+      const result = await this.sessionOperations.findActiveByUser(userId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Failed to fetch sessions",
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.map((session) =>
+          this.toSummary(session, currentSessionId),
+        ),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to fetch sessions",
+      };
+    }
+  }
+
+  /**
+   * セッションを失効させ、そのセッションの最新アクセストークンも失効リストに登録する
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<SessionResult<{ id: string }>> {
+    try {
+      const sessionResult = await this.sessionOperations.findById(sessionId);
+      if (!sessionResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      // 他ユーザーのセッションは存在しないものとして扱う
+      const session = sessionResult.data;
+      if (!session || session.userId !== userId || session.revokedAt) {
+        return {
+          success: false,
+          error: "Session not found",
+        };
+      }
+
+      const revokeResult = await this.sessionOperations.revoke(sessionId);
+      if (!revokeResult.success) {
+        return {
+          success: false,
+          error: "Session revocation failed",
+        };
+      }
+
+      // 最新アクセストークンの有効期限は発行時刻から最大ACCESS_TOKEN_TTL
+      await this.denylist.revoke(
+        session.accessTokenJti,
+        Math.floor(Date.now() / 1000) + SessionService.ACCESS_TOKEN_TTL,
+      );
+
+      return {
+        success: true,
+        data: { id: sessionId },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Session revocation failed",
+      };
+    }
+  }
+
+  /**
+   * ユーザーのすべてのセッションを失効させ、各セッションの最新アクセストークンも失効リストに登録する
+   */
+  async revokeAllSessions(
+    userId: string,
+  ): Promise<SessionResult<{ count: number }>> {
+    try {
+      const revokeResult = await this.sessionOperations.revokeAllByUser(userId);
+      if (!revokeResult.success) {
+        return {
+          success: false,
+          error: "Session revocation failed",
+        };
+      }
+
+      const exp =
+        Math.floor(Date.now() / 1000) + SessionService.ACCESS_TOKEN_TTL;
+      for (const session of revokeResult.data) {
+        await this.denylist.revoke(session.accessTokenJti, exp);
+      }
+
+      return {
+        success: true,
+        data: { count: revokeResult.data.length },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Session revocation failed",
+      };
+    }
+  }
+
+  private async signAccessToken(
+    user: SessionUser,
+    sessionId: string,
+    jti: string,
+  ): Promise<string> {
+    return this.jwtUtils.sign(
+      {
+        userId: user.userId,
+        email: user.email,
+        organizationId: user.organizationId,
+        scopes: [...ALL_API_SCOPES],
+        jti,
+        sid: sessionId,
+      },
+      { expiresIn: SessionService.ACCESS_TOKEN_TTL },
+    );
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + SessionService.REFRESH_TOKEN_TTL * 1000);
+  }
+
+  private toSummary(
+    session: SessionDB,
+    currentSessionId?: string,
+  ): SessionSummary {
+    return {
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      expiresAt: session.expiresAt,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      current: session.id === currentSessionId,
+    };
+  }
+}
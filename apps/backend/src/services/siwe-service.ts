@@ -0,0 +1,146 @@
+import { type SiweVerifyInput, siweVerifySchema } from "@repo/shared/auth";
+import { BASE_SEPOLIA_CONFIG } from "@repo/shared/x402";
+import { EthereumSignatureUtils } from "../utils/ethereum-signature";
+import { SiweUtils } from "../utils/siwe";
+import { SiweNonceStore } from "../utils/siwe-nonce-store";
+
+export interface SiweResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface SiweOptions {
+  domain: string; // メッセージに含まれるべきドメイン（フロントエンドのホスト）
+  chainIds: number[]; // 受け付けるチェーンID
+}
+
+export interface VerifiedWallet {
+  address: string; // EIP-55チェックサム付き
+  chainId: number;
+}
+
+/**
+ * Sign-In With Ethereum（EIP-4361）の検証
+ * 署名はEIP-191としてローカルで検証し、nonceは一度だけ使用できる
+ */
+export class SiweService {
+  static readonly DEFAULT_CHAIN_IDS = [BASE_SEPOLIA_CONFIG.chainId];
+
+  private options: SiweOptions;
+  private nonceStore: SiweNonceStore;
+  private siweUtils: SiweUtils;
+  private signatureUtils: EthereumSignatureUtils;
+
+  constructor(
+    options: Partial<SiweOptions> = {},
+    nonceStore: SiweNonceStore = new SiweNonceStore(),
+  ) {
+    this.options = {
+      domain:
+        options.domain ??
+        new URL(process.env.FRONTEND_URL || "http://localhost:3000").host,
+      chainIds: options.chainIds ?? SiweService.DEFAULT_CHAIN_IDS,
+    };
+    this.nonceStore = nonceStore;
+    this.siweUtils = new SiweUtils();
+    this.signatureUtils = new EthereumSignatureUtils();
+  }
+
+  async issueNonce(): Promise<
+    SiweResult<{ nonce: string; expiresIn: number }>
+  > {
+    try {
+      return {
+        success: true,
+        data: {
+          nonce: await this.nonceStore.issue(),
+          expiresIn: SiweNonceStore.NONCE_TTL,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Nonce generation failed",
+      };
+    }
+  }
+
+  async verify(input: SiweVerifyInput): Promise<SiweResult<VerifiedWallet>> {
+    try {
+      const validationResult = siweVerifySchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const { message, signature } = validationResult.data;
+
+      let parsed: ReturnType<SiweUtils["parse"]>;
+      try {
+        parsed = this.siweUtils.parse(message);
+      } catch (_error) {
+        return {
+          success: false,
+          error: "Invalid SIWE message",
+        };
+      }
+
+      // 他サイト向けに署名されたメッセージの流用を防ぐ
+      if (
+        parsed.domain !== this.options.domain ||
+        !this.options.chainIds.includes(parsed.chainId) ||
+        this.signatureUtils.toChecksumAddress(parsed.address) !== parsed.address
+      ) {
+        return {
+          success: false,
+          error: "Invalid SIWE message",
+        };
+      }
+
+      const now = Date.now();
+      if (
+        (parsed.expirationTime && Date.parse(parsed.expirationTime) <= now) ||
+        (parsed.notBefore && Date.parse(parsed.notBefore) > now)
+      ) {
+        return {
+          success: false,
+          error: "SIWE message is not valid at this time",
+        };
+      }
+
+      const signer = this.signatureUtils.recoverMessageAddress(
+        message,
+        signature,
+      );
+      if (signer !== parsed.address) {
+        return {
+          success: false,
+          error: "Invalid signature",
+        };
+      }
+
+      if (!(await this.nonceStore.consume(parsed.nonce))) {
+        return {
+          success: false,
+          error: "Invalid or expired nonce",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          address: parsed.address,
+          chainId: parsed.chainId,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "SIWE verification failed",
+      };
+    }
+  }
+}
@@ -0,0 +1,378 @@
+import {
+  type Database,
+  TwoFactorCredentialOperations,
+  TwoFactorRecoveryCodeOperations,
+  UserOperations,
+} from "@repo/db";
+import {
+  type TwoFactorCodeInput,
+  twoFactorCodeSchema,
+} from "@repo/shared/auth";
+import { RecoveryCodeUtils } from "../utils/recovery-code";
+import { SecretBoxUtils } from "../utils/secret-box";
+import { TotpUtils } from "../utils/totp";
+
+export interface TwoFactorResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string; // 手入力用のBase32シークレット
+  otpauthUri: string; // QRコード表示用
+}
+
+export interface TwoFactorRecoveryCodes {
+  recoveryCodes: string[]; // 平文は発行時の一度だけ返却
+}
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+export class TwoFactorService {
+  static readonly ISSUER = "x402 Learning Lab";
+
+  private credentialOperations: InstanceType<
+    typeof TwoFactorCredentialOperations
+  >;
+  private recoveryCodeOperations: InstanceType<
+    typeof TwoFactorRecoveryCodeOperations
+  >;
+  private userOperations: InstanceType<typeof UserOperations>;
+  private totpUtils: TotpUtils;
+  private secretBox: SecretBoxUtils;
+  private recoveryCodeUtils: RecoveryCodeUtils;
+
+  constructor(database: Database, secretKey: string) {
+    this.credentialOperations = new TwoFactorCredentialOperations(database);
+    this.recoveryCodeOperations = new TwoFactorRecoveryCodeOperations(database);
+    this.userOperations = new UserOperations(database);
+    this.totpUtils = new TotpUtils();
+    this.secretBox = new SecretBoxUtils(secretKey, "two-factor-secret");
+    this.recoveryCodeUtils = new RecoveryCodeUtils(secretKey);
+  }
+
+  async isEnabled(userId: string): Promise<TwoFactorResult<boolean>> {
+    const credentialResult = await this.credentialOperations.findByUser(userId);
+    if (!credentialResult.success) {
+      return {
+        success: false,
+        error: "Database error",
+      };
+    }
+
+    return {
+      success: true,
+      data: Boolean(credentialResult.data?.enabledAt),
+    };
+  }
+
+  /**
+   * シークレットを発行する。confirmEnrollmentでコードを確認するまで有効化されない
+   */
+  async beginEnrollment(
+    userId: string,
+  ): Promise<TwoFactorResult<TwoFactorEnrollment>> {
+    try {
+      const userResult = await this.userOperations.findById(userId);
+      if (!userResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (!userResult.data) {
+        return {
+          success: false,
+          error: "User not found",
+        };
+      }
+
+      const enabledResult = await this.isEnabled(userId);
+      if (!enabledResult.success) {
+        return {
+          success: false,
+          error: enabledResult.error,
+        };
+      }
+      if (enabledResult.data) {
+        return {
+          success: false,
+          error: "Two-factor authentication already enabled",
+        };
+      }
+
+      const secret = this.totpUtils.generateSecret();
+      const saveResult = await this.credentialOperations.savePending(
+        userId,
+        await this.secretBox.encrypt(secret),
+      );
+      if (!saveResult.success) {
+        return {
+          success: false,
+          error: "Two-factor enrollment failed",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUri: this.totpUtils.provisioningUri(
+            secret,
+            userResult.data.email,
+            TwoFactorService.ISSUER,
+          ),
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Two-factor enrollment failed",
+      };
+    }
+  }
+
+  /**
+   * 認証アプリのコードを確認して有効化し、リカバリーコードを発行する
+   */
+  async confirmEnrollment(
+    userId: string,
+    input: TwoFactorCodeInput,
+  ): Promise<TwoFactorResult<TwoFactorRecoveryCodes>> {
+    try {
+      const validationResult = twoFactorCodeSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const credentialResult =
+        await this.credentialOperations.findByUser(userId);
+      if (!credentialResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      const credential = credentialResult.data;
+      if (!credential) {
+        return {
+          success: false,
+          error: "Two-factor enrollment not started",
+        };
+      }
+      if (credential.enabledAt) {
+        return {
+          success: false,
+          error: "Two-factor authentication already enabled",
+        };
+      }
+
+      const step = await this.totpUtils.verify(
+        await this.secretBox.decrypt(credential.encryptedSecret),
+        validationResult.data.code,
+      );
+      if (step === null) {
+        return {
+          success: false,
+          error: "Invalid two-factor code",
+        };
+      }
+
+      const enableResult = await this.credentialOperations.enable(userId, step);
+      if (!enableResult.success || !enableResult.data) {
+        return {
+          success: false,
+          error: "Two-factor enrollment failed",
+        };
+      }
+
+      return await this.issueRecoveryCodes(userId);
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Two-factor enrollment failed",
+      };
+    }
+  }
+
+  /**
+   * 現在のコード（またはリカバリーコード）を確認したうえで無効化する
+   */
+  async disable(
+    userId: string,
+    input: TwoFactorCodeInput,
+  ): Promise<TwoFactorResult<{ message: string }>> {
+    try {
+      const validationResult = twoFactorCodeSchema.safeParse(input);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: "Validation failed",
+        };
+      }
+
+      const verifyResult = await this.verifyCode(
+        userId,
+        validationResult.data.code,
+      );
+      if (!verifyResult.success) {
+        return {
+          success: false,
+          error: verifyResult.error,
+        };
+      }
+
+      await this.recoveryCodeOperations.deleteByUser(userId);
+      const deleteResult = await this.credentialOperations.deleteByUser(userId);
+      if (!deleteResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          message: "Two-factor authentication has been disabled",
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Two-factor disable failed",
+      };
+    }
+  }
+
+  /**
+   * TOTPコードまたはリカバリーコードを検証する
+   * 同じタイムステップのコードとリカバリーコードは一度しか使えない
+   */
+  async verifyCode(
+    userId: string,
+    code: string,
+  ): Promise<TwoFactorResult<{ method: TwoFactorMethod }>> {
+    try {
+      const credentialResult =
+        await this.credentialOperations.findByUser(userId);
+      if (!credentialResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      const credential = credentialResult.data;
+      if (!credential?.enabledAt) {
+        return {
+          success: false,
+          error: "Two-factor authentication not enabled",
+        };
+      }
+
+      const normalizedCode = code.trim();
+      if (/^\d+$/.test(normalizedCode)) {
+        const step = await this.totpUtils.verify(
+          await this.secretBox.decrypt(credential.encryptedSecret),
+          normalizedCode,
+        );
+        if (step === null) {
+          return {
+            success: false,
+            error: "Invalid two-factor code",
+          };
+        }
+
+        const consumeResult = await this.credentialOperations.consumeStep(
+          userId,
+          step,
+        );
+        if (!consumeResult.success || !consumeResult.data) {
+          return {
+            success: false,
+            error: "Invalid two-factor code",
+          };
+        }
+
+        return {
+          success: true,
+          data: { method: "totp" },
+        };
+      }
+
+      const codesResult =
+        await this.recoveryCodeOperations.findUnusedByUser(userId);
+      if (!codesResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      const codeHash = await this.recoveryCodeUtils.hash(
+        userId,
+        normalizedCode,
+      );
+      const matchedCode = codesResult.data.find(
+        (recoveryCode) => recoveryCode.codeHash === codeHash,
+      );
+      if (!matchedCode) {
+        return {
+          success: false,
+          error: "Invalid two-factor code",
+        };
+      }
+
+      const markResult = await this.recoveryCodeOperations.markUsed(
+        matchedCode.id,
+      );
+      if (!markResult.success || !markResult.data) {
+        return {
+          success: false,
+          error: "Invalid two-factor code",
+        };
+      }
+
+      return {
+        success: true,
+        data: { method: "recovery_code" },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Two-factor verification failed",
+      };
+    }
+  }
+
+  private async issueRecoveryCodes(
+    userId: string,
+  ): Promise<TwoFactorResult<TwoFactorRecoveryCodes>> {
+    const recoveryCodes = this.recoveryCodeUtils.generate();
+    const codeHashes = await Promise.all(
+      recoveryCodes.map((code) => this.recoveryCodeUtils.hash(userId, code)),
+    );
+
+    const replaceResult = await this.recoveryCodeOperations.replaceAll(
+      userId,
+      codeHashes,
+    );
+    if (!replaceResult.success) {
+      return {
+        success: false,
+        error: "Database error",
+      };
+    }
+
+    return {
+      success: true,
+      data: { recoveryCodes },
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  type Database,
+  type WalletLinkDB,
+  WalletLinkOperations,
+} from "@repo/db";
+import type { SiweVerifyInput } from "@repo/shared/auth";
+import { EthereumSignatureUtils } from "../utils/ethereum-signature";
+import { SiweService } from "./siwe-service";
+
+export interface WalletResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface LinkedWallet {
+  id: string;
+  address: string; // EIP-55チェックサム付き
+  chainId: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export class WalletService {
+  private walletLinkOperations: InstanceType<typeof WalletLinkOperations>;
+  private siweService: SiweService;
+  private signatureUtils: EthereumSignatureUtils;
+
+  constructor(
+    database: Database,
+    siweService: SiweService = new SiweService(),
+  ) {
+    this.walletLinkOperations = new WalletLinkOperations(database);
+    this.siweService = siweService;
+    this.signatureUtils = new EthereumSignatureUtils();
+  }
+
+  async listWallets(userId: string): Promise<WalletResult<LinkedWallet[]>> {
+    try {
+      const result = await this.walletLinkOperations.listByUser(userId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.map((wallet) => this.toLinkedWallet(wallet)),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to list wallets",
+      };
+    }
+  }
+
+  /**
+   * SIWE署名でウォレットの所有を確認し、ログイン中のアカウントにリンクする
+   */
+  async linkWallet(
+    userId: string,
+    input: SiweVerifyInput,
+  ): Promise<WalletResult<LinkedWallet>> {
+    try {
+      const verifyResult = await this.siweService.verify(input);
+      if (!verifyResult.success || !verifyResult.data) {
+        return {
+          success: false,
+          error: verifyResult.error,
+        };
+      }
+
+      const { address, chainId } = verifyResult.data;
+
+      const existingResult =
+        await this.walletLinkOperations.findByAddress(address);
+      if (!existingResult.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (existingResult.data) {
+        return {
+          success: false,
+          error:
+            existingResult.data.userId === userId
+              ? "Wallet already linked"
+              : "Wallet is linked to another account",
+        };
+      }
+
+      const createResult = await this.walletLinkOperations.create({
+        userId,
+        address,
+        chainId,
+      });
+      if (!createResult.success) {
+        return {
+          success: false,
+          error: "Failed to link wallet",
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toLinkedWallet(createResult.data),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to link wallet",
+      };
+    }
+  }
+
+  async unlinkWallet(
+    userId: string,
+    walletId: string,
+  ): Promise<WalletResult<{ message: string }>> {
+    try {
+      const result = await this.walletLinkOperations.delete(walletId, userId);
+      if (!result.success) {
+        return {
+          success: false,
+          error: "Database error",
+        };
+      }
+      if (!result.data) {
+        return {
+          success: false,
+          error: "Wallet not found",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          message: "Wallet has been unlinked",
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        error: "Failed to unlink wallet",
+      };
+    }
+  }
+
+  private toLinkedWallet(wallet: WalletLinkDB): LinkedWallet {
+    return {
+      id: wallet.id,
+      address: this.signatureUtils.toChecksumAddress(wallet.address),
+      chainId: wallet.chainId,
+      lastUsedAt: wallet.lastUsedAt,
+      createdAt: wallet.createdAt,
+    };
+  }
+}
@@ -1,5 +1,7 @@
 // 動的ルート管理に関する型定義
 
+import type { VersionCounters, VersionMetrics } from "./monitoring";
+
 export interface DynamicRouteEntry {
   code: string;
   metadata: DynamicRouteMetadata;
@@ -8,11 +10,28 @@ export interface DynamicRouteEntry {
 export interface DynamicRouteMetadata {
   endpoint: string;
   method: string;
-  status: "active" | "inactive" | "draft";
+  status: "active" | "inactive" | "draft" | "canary";
   createdAt: string;
   version: number;
   userId: string;
   apiId: string;
+  price?: string; // 1リクエストの価格（USDC、複数ルートのAPIはendpointsの各ルートの価格）
+  endpoints?: DeployedEndpoint[]; // 複数ルートのAPIのみ（pathはendpointからの相対パス）
+  revision?: number; // デプロイしたリビジョン（記録する前にデプロイしたルートには無い）
+}
+
+// エンドポイントの索引に保存する生成APIと公開中のバージョン
+export interface EndpointIndexEntry {
+  userId: string;
+  apiId: string;
+  version: number;
+}
+
+// 複数ルートのAPIで公開している各ルートと価格
+export interface DeployedEndpoint {
+  method: string;
+  path: string;
+  price: string;
 }
 
 export interface DynamicRouteResult<T = unknown> {
@@ -43,20 +62,116 @@ export interface SandboxExecutionResult<T = unknown> {
 
 export interface DeploymentInfo {
   deploymentId: string;
-  status: "deployed" | "undeployed" | "error" | "rolled_back";
+  status: "deployed" | "undeployed" | "error" | "rolled_back" | "canary";
   endpoint: string;
   version: number;
   createdAt: string;
   updatedAt: string;
+  endpoints?: DeployedEndpoint[]; // 複数ルートのAPIのみ（pathは公開パス）
+  revision?: number; // ルートに記録したリビジョン（ロールバック時にAPIの現在のコードを戻す）
+  canary?: CanaryConfig; // カナリアリリース中のみ
   metadata?: {
     hasPayment?: boolean;
     paymentConfig?: {
       price: string;
-      walletAddress: string;
     };
   };
 }
 
+// デプロイ前に実行する生成テストの結果
+export interface ApiTestCaseResult {
+  name: string;
+  passed: boolean;
+  status?: number; // 実際のレスポンスステータス（リクエスト失敗時はなし）
+  durationMs: number;
+  failures: string[]; // 期待と異なった点
+}
+
+export interface ApiTestRunResult {
+  passed: boolean;
+  total: number;
+  failed: number;
+  results: ApiTestCaseResult[];
+}
+
+export interface DeploymentOptions {
+  allowFailingTests?: boolean; // テストが失敗してもデプロイする（結果は返す）
+  revision?: number; // デプロイするリビジョン（ルートに記録する。カナリアは昇格時にAPIの現在のコードを切り替える）
+}
+
+// カナリアを自動で昇格・ロールバックする閾値
+export interface CanaryThresholds {
+  minRequests: number; // 判定に必要なカナリアへのリクエスト数
+  maxErrorRateIncrease: number; // 安定版に対して許容するエラー率の増加幅（0〜1）
+  maxLatencyRatio: number; // 安定版の平均応答時間に対して許容する倍率
+}
+
+// ヘッダーまたはCookieの値がvalueと一致するリクエストは割合に関係なくカナリアに振り分ける
+export interface CanaryCohort {
+  header?: string;
+  cookie?: string;
+  value: string;
+}
+
+export interface CanaryOptions extends DeploymentOptions {
+  percentage: number; // カナリアに振り分けるリクエストの割合（0〜100）
+  cohort?: CanaryCohort;
+  thresholds?: Partial<CanaryThresholds>;
+}
+
+// 進行中のカナリアリリース（KVに保存）
+export interface CanaryConfig {
+  userId: string;
+  apiId: string;
+  stableVersion: number;
+  canaryVersion: number;
+  percentage: number;
+  cohort?: CanaryCohort;
+  thresholds: CanaryThresholds;
+  revision?: number;
+  startedAt: string;
+}
+
+export interface CanaryEvaluation {
+  decision: "pending" | "promote" | "rollback";
+  reason: string;
+  stable: VersionMetrics;
+  canary: VersionMetrics;
+}
+
+// カナリアリリース中に1つのisolateで数えた安定版とカナリアの累計
+export interface CanaryMetricsSample {
+  stable: VersionCounters;
+  canary: VersionCounters;
+}
+
+// 進行中のカナリアリリースと現時点のメトリクスによる判定
+export interface CanaryStatus {
+  config: CanaryConfig;
+  evaluation: CanaryEvaluation;
+}
+
+// 昇格またはロールバックで終了したカナリアリリース
+export interface CanaryCompletion {
+  config: CanaryConfig;
+  decision: "promote" | "rollback";
+  evaluation?: CanaryEvaluation; // 閾値による自動判定の場合のみ
+}
+
+// コンパイル済みアプリのキャッシュの統計（/health/detailed で公開）
+export interface RouteCacheStats {
+  size: number;
+  capacity: number;
+  hits: number; // キャッシュから振り分けたリクエスト
+  misses: number; // KVの索引を引いたリクエスト
+  rehydrated: number; // KVから復元してコンパイルしたルート
+  evictions: number;
+}
+
+export interface DeploymentResult extends DynamicRouteResult<DeploymentInfo> {
+  testRun?: ApiTestRunResult; // テストケースがある場合のみ
+}
+
 export interface CompiledRoute {
   success: boolean;
   data?: object; // Honoアプリインスタンス
@@ -65,7 +180,6 @@ export interface CompiledRoute {
     hasPayment: boolean;
     paymentConfig?: {
       price: string;
-      walletAddress: string;
     };
     endpoints: Array<{
       path: string;
@@ -94,7 +208,6 @@ export interface RouteRegistryStats {
 // セキュリティ関連の型
 export interface SecurityPolicy {
   allowedImports: string[];
-  forbiddenFunctions: string[];
   maxCodeLength: number;
   maxExecutionTime: number;
   maxMemoryUsage: number;
@@ -1,5 +1,7 @@
 // エラーハンドリング・モニタリング用の型定義
 
+import type { RouteCacheStats } from './dynamic-routes';
+
 export interface AppError {
   code: string;
   message: string;
@@ -34,6 +36,23 @@ export interface ApiMetrics {
   userAgent?: string;
   ipAddress?: string;
   errorCode?: string;
+  apiId?: string; // デプロイ中の生成APIへのリクエストのみ
+  apiVersion?: number; // 振り分けたデプロイのバージョン
+}
+
+// isolateで数えたバージョンごとの累計（isolateをまたいで合計してからVersionMetricsにする）
+export interface VersionCounters {
+  requests: number;
+  errors: number;
+  totalResponseTime: number;
+}
+
+// 生成APIのデプロイのバージョンごとの集計（エラーは5xxのみ）
+export interface VersionMetrics {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  averageResponseTime: number;
 }
 
 export interface HealthCheckResult {
@@ -50,6 +69,7 @@ export interface HealthCheckResult {
     memory: number;
     responseTime: number;
   };
+  routeCache?: RouteCacheStats; // 詳細チェックのみ
 }
 
 export interface RateLimitConfig {
@@ -0,0 +1,56 @@
+// 生成APIのOpenAPI 3.1ドキュメントの型定義（使用する範囲のみ）
+
+// x- で始まるベンダー拡張
+export type OpenApiExtensions = { [extension: `x-${string}`]: unknown };
+
+export type OpenApiSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: OpenApiSchema;
+  description?: string;
+}
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, { schema: OpenApiSchema | OpenApiReference }>;
+}
+
+export type OpenApiOperation = OpenApiExtensions & {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: OpenApiSchema }>;
+  };
+  responses: Record<string, OpenApiResponse | OpenApiReference>;
+  security?: Record<string, string[]>[];
+};
+
+export type OpenApiPathItem = Record<string, OpenApiOperation>;
+
+export type OpenApiDocument = OpenApiExtensions & {
+  openapi: "3.1.0";
+  info: OpenApiExtensions & {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    schemas: Record<string, OpenApiSchema>;
+    responses: Record<string, OpenApiResponse>;
+    securitySchemes: Record<string, OpenApiSchema>;
+  };
+};
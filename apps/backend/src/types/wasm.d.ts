@@ -0,0 +1,5 @@
+// wranglerは.wasmのインポートをコンパイル済みのWebAssembly.Moduleとしてバンドルする
+declare module "@jitl/quickjs-wasmfile-release-sync/wasm" {
+  const wasmModule: WebAssembly.Module;
+  export default wasmModule;
+}
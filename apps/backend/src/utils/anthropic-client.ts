@@ -0,0 +1,85 @@
+// Anthropic（Messages API）アダプター
+import {
+  HttpLLMClient,
+  type HttpLLMClientOptions,
+  type LLMHttpRequest,
+  type LLMPrompt,
+} from "./llm-provider";
+
+interface MessagesResponse {
+  content?: { type: string; text?: string }[];
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+}
+
+export class AnthropicClient extends HttpLLMClient {
+  static readonly API_VERSION = "2023-06-01";
+  static readonly DEFAULT_MAX_TOKENS = 4096; // Messages APIでは必須
+
+  readonly provider = "claude-3";
+
+  constructor(options: HttpLLMClientOptions = {}) {
+    super(options, {
+      model: "claude-3-5-sonnet-latest",
+      baseUrl: "https://api.anthropic.com/v1",
+    });
+  }
+
+  protected buildRequest(prompt: LLMPrompt, apiKey: string): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/messages`,
+      headers: this.buildHeaders(apiKey),
+      body: this.buildBody(prompt),
+    };
+  }
+
+  protected buildStreamRequest(
+    prompt: LLMPrompt,
+    apiKey: string,
+  ): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/messages`,
+      headers: this.buildHeaders(apiKey),
+      body: { ...this.buildBody(prompt), stream: true },
+    };
+  }
+
+  protected extractText(body: unknown): string | null {
+    const blocks = (body as MessagesResponse).content ?? [];
+    return (
+      blocks
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("") || null
+    );
+  }
+
+  // テキストの追加はcontent_block_deltaイベントのtext_deltaで届く
+  protected extractDelta(event: unknown): string | null {
+    const { type, delta } = event as MessagesStreamEvent;
+    if (type !== "content_block_delta" || delta?.type !== "text_delta") {
+      return null;
+    }
+    return delta.text || null;
+  }
+
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return {
+      "x-api-key": apiKey,
+      "anthropic-version": AnthropicClient.API_VERSION,
+    };
+  }
+
+  private buildBody(prompt: LLMPrompt) {
+    return {
+      model: this.model,
+      system: prompt.system,
+      messages: [{ role: "user", content: prompt.user }],
+      max_tokens: prompt.maxTokens ?? AnthropicClient.DEFAULT_MAX_TOKENS,
+      temperature: prompt.temperature,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+// APIキー生成・ハッシュ化ユーティリティ - Web Crypto API使用
+export interface GeneratedApiKey {
+  key: string; // 平文キー（発行時に一度だけ返却）
+  keyHash: string; // DB保存用のSHA-256ハッシュ
+  keyPrefix: string; // 一覧表示用のプレフィックス
+}
+
+export class ApiKeyUtils {
+  static readonly KEY_PREFIX = "x402_";
+  private static readonly KEY_BYTES = 32; // 256ビット
+  private static readonly DISPLAY_PREFIX_LENGTH = 10; // api_keys.key_prefix の長さ
+
+  async generate(): Promise<GeneratedApiKey> {
+    // 暗号学的に安全な乱数からキーを生成
+    const randomBytes = crypto.getRandomValues(
+      new Uint8Array(ApiKeyUtils.KEY_BYTES),
+    );
+    const key = `${ApiKeyUtils.KEY_PREFIX}${this.toHex(randomBytes)}`;
+
+    return {
+      key,
+      keyHash: await this.hash(key),
+      keyPrefix: key.slice(0, ApiKeyUtils.DISPLAY_PREFIX_LENGTH),
+    };
+  }
+
+  async hash(key: string): Promise<string> {
+    // 高エントロピーなランダムキーのためソルトなしSHA-256で十分
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+    return this.toHex(new Uint8Array(digest));
+  }
+
+  isApiKeyFormat(value: string): boolean {
+    return (
+      value.startsWith(ApiKeyUtils.KEY_PREFIX) &&
+      value.length === ApiKeyUtils.KEY_PREFIX.length + ApiKeyUtils.KEY_BYTES * 2
+    );
+  }
+
+  private toHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+}
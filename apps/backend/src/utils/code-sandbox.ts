@@ -0,0 +1,473 @@
+// 生成コードをQuickJS（WASM）のインタープリターで隔離して実行するサンドボックス
+import {
+  getQuickJS,
+  newQuickJSWASMModuleFromVariant,
+  newVariant,
+  type QuickJSContext,
+  type QuickJSHandle,
+  type QuickJSRuntime,
+  type QuickJSWASMModule,
+  type VmCallResult,
+} from "quickjs-emscripten";
+import { transform } from "sucrase";
+import type { ResourceLimits } from "../types/dynamic-routes";
+import { SANDBOX_MODULES, SANDBOX_PRELUDE } from "./sandbox-modules";
+
+export type SandboxErrorCode =
+  | "syntax_error" // TypeScriptとして解析できない
+  | "evaluation_failed" // 評価中の例外・読み込めないモジュール
+  | "timeout" // cpu.maxExecutionTime を超えた
+  | "instruction_limit" // cpu.maxInstructions を超えた
+  | "memory_limit" // memory.maxHeapSize を超えた
+  | "stack_limit" // memory.maxStackSize を超えた
+  | "invalid_app" // デフォルトエクスポートがHonoアプリではない
+  | "invalid_response"; // アプリのレスポンスが不正
+
+export class SandboxError extends Error {
+  constructor(
+    public code: SandboxErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SandboxError";
+  }
+}
+
+// QuickJSは約1万命令ごとに割り込みハンドラを呼ぶため、命令数の上限は呼び出し回数で数える
+const INSTRUCTIONS_PER_INTERRUPT = 10000;
+const APP_MODULE = "sandbox:app";
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+// Honoアプリとして評価するエントリーモジュール（リクエストはJSONで受け渡す）
+const APP_ENTRY = `
+import { Hono } from "hono";
+import app from "${APP_MODULE}";
+export const isApp = app instanceof Hono;
+export function dispatch(input) {
+  return app._dispatch(input);
+}
+`;
+
+// 値として評価するエントリーモジュール（デフォルトエクスポートをJSONで受け取る）
+const VALUE_ENTRY = `
+import value from "${APP_MODULE}";
+export const json = JSON.stringify(value);
+`;
+
+const LIMIT_MESSAGES: Record<
+  Extract<
+    SandboxErrorCode,
+    "timeout" | "instruction_limit" | "memory_limit" | "stack_limit"
+  >,
+  string
+> = {
+  timeout: "Execution timeout",
+  instruction_limit: "Instruction limit exceeded",
+  memory_limit: "Memory limit exceeded",
+  stack_limit: "Stack size limit exceeded",
+};
+
+interface ExecutionBudget {
+  deadline: number;
+  remainingInterrupts: number;
+  exceeded?: "timeout" | "instruction_limit";
+}
+
+interface SandboxResponse {
+  status: number;
+  headers: [string, string][];
+  body: string | null;
+}
+
+let quickJSModule: Promise<QuickJSWASMModule> | undefined;
+
+// Workersではwasmをfetch・ファイルから読み込めないため、wranglerがモジュールとして
+// バンドルしたWebAssembly.Moduleを渡してQuickJSを初期化する
+function loadQuickJS(): Promise<QuickJSWASMModule> {
+  quickJSModule ??=
+    (globalThis as { navigator?: { userAgent?: string } }).navigator
+      ?.userAgent === "Cloudflare-Workers"
+      ? Promise.all([
+          import("@jitl/quickjs-wasmfile-release-sync"),
+          import("@jitl/quickjs-wasmfile-release-sync/wasm"),
+        ]).then(([variant, wasm]) =>
+          newQuickJSWASMModuleFromVariant(
+            newVariant(variant.default, { wasmModule: wasm.default }),
+          ),
+        )
+      : getQuickJS();
+  return quickJSModule;
+}
+
+/**
+ * QuickJSのランタイム1つ分（ヒープ・スタック・割り込みの上限はランタイムごとに設定する）
+ * ホストの機能はconsoleだけを渡し、モジュールはサンドボックス用に用意したものしか読み込めない
+ */
+class SandboxVm {
+  private readonly budget: ExecutionBudget = {
+    deadline: 0,
+    remainingInterrupts: Number.POSITIVE_INFINITY,
+  };
+  private namespace: QuickJSHandle | undefined;
+
+  private constructor(
+    private readonly runtime: QuickJSRuntime,
+    private readonly context: QuickJSContext,
+    private readonly limits: ResourceLimits,
+  ) {
+    runtime.setInterruptHandler(() => {
+      if (Date.now() > this.budget.deadline) {
+        this.budget.exceeded = "timeout";
+      } else if (--this.budget.remainingInterrupts < 0) {
+        this.budget.exceeded = "instruction_limit";
+      }
+      return this.budget.exceeded !== undefined;
+    });
+  }
+
+  static async create(
+    appSource: string,
+    entrySource: string,
+    limits: ResourceLimits,
+  ): Promise<SandboxVm> {
+    const QuickJS = await loadQuickJS();
+    const runtime = QuickJS.newRuntime();
+    runtime.setMemoryLimit(limits.memory.maxHeapSize);
+    if (limits.memory.maxStackSize) {
+      runtime.setMaxStackSize(limits.memory.maxStackSize);
+    }
+    runtime.setModuleLoader((name) => {
+      if (name === APP_MODULE) {
+        return appSource;
+      }
+      if (Object.hasOwn(SANDBOX_MODULES, name)) {
+        return SANDBOX_MODULES[name];
+      }
+      return {
+        error: new Error(`Module not available in the sandbox: ${name}`),
+      };
+    });
+
+    const vm = new SandboxVm(runtime, runtime.newContext(), limits);
+    try {
+      vm.installConsole();
+      vm.execute(() =>
+        vm.context.evalCode(SANDBOX_PRELUDE, "sandbox:prelude"),
+      ).dispose();
+      vm.namespace = vm.execute(() =>
+        vm.context.evalCode(entrySource, "sandbox:entry", { type: "module" }),
+      );
+    } catch (error) {
+      vm.dispose();
+      throw error;
+    }
+    return vm;
+  }
+
+  /**
+   * エントリーモジュールのエクスポートをホストの値として読む
+   */
+  read(name: string): unknown {
+    return this.exported(name).consume((handle) => this.context.dump(handle));
+  }
+
+  /**
+   * エントリーモジュールがエクスポートする関数を文字列の引数で呼ぶ
+   */
+  call(name: string, input: string): unknown {
+    const fn = this.exported(name);
+    const arg = this.context.newString(input);
+    try {
+      return this.execute(() =>
+        this.context.callFunction(fn, this.context.undefined, arg),
+      ).consume((handle) => this.context.dump(handle));
+    } finally {
+      arg.dispose();
+      fn.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.namespace?.dispose();
+    this.namespace = undefined;
+    this.context.dispose();
+    this.runtime.dispose();
+  }
+
+  private exported(name: string): QuickJSHandle {
+    if (!this.namespace) {
+      throw new SandboxError("evaluation_failed", "Sandbox is not initialized");
+    }
+    return this.context.getProp(this.namespace, name);
+  }
+
+  // サンドボックスのログは[SANDBOX]を付けてホストのconsoleに出す
+  private installConsole(): void {
+    const sandboxConsole = this.context.newObject();
+    for (const level of ["log", "warn", "error"] as const) {
+      const fn = this.context.newFunction(level, (...args) => {
+        console[level](
+          "[SANDBOX]",
+          ...args.map((arg) => this.context.dump(arg)),
+        );
+      });
+      this.context.setProp(sandboxConsole, level, fn);
+      fn.dispose();
+    }
+    this.context.setProp(this.context.global, "console", sandboxConsole);
+    sandboxConsole.dispose();
+  }
+
+  /**
+   * 実行のたびに時間と命令数の上限をリセットして評価し、Promiseは決着するまで進める
+   * 非同期関数内で割り込まれるとアプリ側で捕捉できるPromiseの失敗になるため、上限の超過は評価後にも確認する
+   */
+  private execute(evaluate: () => VmCallResult<QuickJSHandle>): QuickJSHandle {
+    this.budget.deadline = Date.now() + this.limits.cpu.maxExecutionTime;
+    this.budget.remainingInterrupts = this.limits.cpu.maxInstructions
+      ? Math.ceil(this.limits.cpu.maxInstructions / INSTRUCTIONS_PER_INTERRUPT)
+      : Number.POSITIVE_INFINITY;
+    this.budget.exceeded = undefined;
+
+    try {
+      const result = this.settle(this.unwrap(evaluate()));
+      if (this.budget.exceeded) {
+        result.dispose();
+        throw new SandboxError(
+          this.budget.exceeded,
+          LIMIT_MESSAGES[this.budget.exceeded],
+        );
+      }
+      return result;
+    } catch (error) {
+      throw this.toSandboxError(error);
+    }
+  }
+
+  /**
+   * サンドボックスにタイマーや通信は無いため、保留中のジョブを処理しても決着しないPromiseは失敗とする
+   */
+  private settle(handle: QuickJSHandle): QuickJSHandle {
+    const jobs = this.runtime.executePendingJobs();
+    if (jobs.error) {
+      handle.dispose();
+      throw this.vmError(jobs.error);
+    }
+
+    const state = this.context.getPromiseState(handle);
+    if (state.type === "fulfilled") {
+      if (state.value !== handle) {
+        handle.dispose();
+      }
+      return state.value;
+    }
+    handle.dispose();
+    if (state.type === "rejected") {
+      throw this.vmError(state.error);
+    }
+    throw new SandboxError(
+      "evaluation_failed",
+      "Sandboxed code did not settle (timers and network are not available)",
+    );
+  }
+
+  private unwrap(result: VmCallResult<QuickJSHandle>): QuickJSHandle {
+    if (result.error) {
+      throw this.vmError(result.error);
+    }
+    return result.value;
+  }
+
+  private vmError(handle: QuickJSHandle): Error {
+    const cause = handle.consume((error) => this.context.dump(error));
+    const error = new Error(
+      typeof cause?.message === "string" ? cause.message : String(cause),
+    );
+    if (typeof cause?.name === "string") {
+      error.name = cause.name;
+    }
+    return error;
+  }
+
+  private toSandboxError(error: unknown): SandboxError {
+    if (error instanceof SandboxError) {
+      return error;
+    }
+    if (this.budget.exceeded) {
+      return new SandboxError(
+        this.budget.exceeded,
+        LIMIT_MESSAGES[this.budget.exceeded],
+      );
+    }
+    // QuickJSより先にホストのネイティブスタックが尽きた場合
+    if (error instanceof RangeError) {
+      return new SandboxError("stack_limit", LIMIT_MESSAGES.stack_limit);
+    }
+
+    const { name, message } =
+      error instanceof Error ? error : new Error(String(error));
+    if (message === "out of memory") {
+      return new SandboxError("memory_limit", LIMIT_MESSAGES.memory_limit);
+    }
+    if (message === "stack overflow") {
+      return new SandboxError("stack_limit", LIMIT_MESSAGES.stack_limit);
+    }
+    return new SandboxError("evaluation_failed", `${name}: ${message}`);
+  }
+}
+
+// 破棄されずに参照が無くなったサンドボックスのランタイムを解放する
+const vmRegistry = new FinalizationRegistry<SandboxVm>((vm) => vm.dispose());
+
+/**
+ * サンドボックスで評価したHonoアプリ
+ * 状態を持つAPIのため、リクエストをまたいで同じランタイムを使う
+ * 上限を超えたランタイムは状態が壊れている可能性があるため、次のリクエストで評価し直す
+ */
+export class CodeSandbox {
+  private vm: Promise<SandboxVm> | undefined;
+
+  private constructor(
+    private readonly appSource: string,
+    private readonly limits: ResourceLimits,
+  ) {}
+
+  /**
+   * 生成コード（TypeScript）を評価し、デフォルトエクスポートのHonoアプリを呼び出せるようにする
+   */
+  static async compile(
+    code: string,
+    limits: ResourceLimits,
+  ): Promise<CodeSandbox> {
+    const sandbox = new CodeSandbox(transpile(code), limits);
+    const vm = await sandbox.ensureVm();
+    if (vm.read("isApp") !== true) {
+      sandbox.dispose();
+      throw new SandboxError(
+        "invalid_app",
+        "Default export is not a Hono application",
+      );
+    }
+    return sandbox;
+  }
+
+  /**
+   * 生成コードを評価し、デフォルトエクスポートをJSONとして受け取る
+   */
+  static async evaluate<T = unknown>(
+    code: string,
+    limits: ResourceLimits,
+  ): Promise<T | undefined> {
+    const vm = await SandboxVm.create(transpile(code), VALUE_ENTRY, limits);
+    try {
+      const json = vm.read("json");
+      return typeof json === "string" ? (JSON.parse(json) as T) : undefined;
+    } finally {
+      vm.dispose();
+    }
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const input = JSON.stringify({
+      method: request.method,
+      url: request.url,
+      path: url.pathname,
+      query: [...url.searchParams],
+      headers: [...request.headers],
+      body: request.body ? await request.text() : "",
+    });
+
+    const vm = await this.ensureVm();
+    let output: unknown;
+    try {
+      output = vm.call("dispatch", input);
+    } catch (error) {
+      this.dispose();
+      throw error;
+    }
+    return toResponse(output);
+  }
+
+  dispose(): void {
+    const vm = this.vm;
+    this.vm = undefined;
+    vm?.then(
+      (instance) => {
+        vmRegistry.unregister(instance);
+        instance.dispose();
+      },
+      () => undefined,
+    );
+  }
+
+  private ensureVm(): Promise<SandboxVm> {
+    if (!this.vm) {
+      const vm = SandboxVm.create(this.appSource, APP_ENTRY, this.limits);
+      this.vm = vm;
+      vm.then(
+        (instance) => vmRegistry.register(this, instance, instance),
+        () => {
+          if (this.vm === vm) {
+            this.vm = undefined;
+          }
+        },
+      );
+    }
+    return this.vm;
+  }
+}
+
+function transpile(code: string): string {
+  try {
+    return transform(code, {
+      transforms: ["typescript"],
+      disableESTransforms: true,
+    }).code;
+  } catch (error) {
+    throw new SandboxError(
+      "syntax_error",
+      `Syntax error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function isSandboxResponse(value: unknown): value is SandboxResponse {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const { status, headers, body } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(status) &&
+    (status as number) >= 200 &&
+    (status as number) <= 599 &&
+    Array.isArray(headers) &&
+    headers.every(
+      (header) =>
+        Array.isArray(header) &&
+        header.length === 2 &&
+        header.every((part) => typeof part === "string"),
+    ) &&
+    (body === null || typeof body === "string")
+  );
+}
+
+function toResponse(output: unknown): Response {
+  try {
+    const parsed: unknown =
+      typeof output === "string" ? JSON.parse(output) : undefined;
+    if (isSandboxResponse(parsed)) {
+      const { status, headers, body } = parsed;
+      return new Response(NULL_BODY_STATUSES.has(status) ? null : body, {
+        status,
+        headers,
+      });
+    }
+  } catch (_error) {
+    // 不正なJSON・ヘッダーは下で失敗として扱う
+  }
+  throw new SandboxError(
+    "invalid_response",
+    "Sandboxed app returned an invalid response",
+  );
+}
@@ -0,0 +1,22 @@
+import { SignedTokenUtils } from "./signed-token";
+
+// メールアドレス確認トークン（確認リンクに埋め込む）
+export interface EmailVerificationClaims {
+  userId: string;
+  email: string;
+}
+
+export class EmailVerificationUtils extends SignedTokenUtils<EmailVerificationClaims> {
+  static readonly DEFAULT_TTL = 24 * 60 * 60; // 24時間
+
+  constructor(secretKey: string) {
+    super(secretKey, "email-verification");
+  }
+
+  override async sign(
+    claims: EmailVerificationClaims,
+    expiresIn: number = EmailVerificationUtils.DEFAULT_TTL,
+  ): Promise<string> {
+    return super.sign(claims, expiresIn);
+  }
+}
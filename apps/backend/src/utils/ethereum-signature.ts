@@ -0,0 +1,97 @@
+// Ethereumメッセージ署名（EIP-191 personal_sign）ユーティリティ
+// RPCノードに問い合わせず、署名者のアドレスをローカルで復元する
+import { keccak256 } from "./keccak";
+import { type AffinePoint, Secp256k1Utils } from "./secp256k1";
+
+export class EthereumSignatureUtils {
+  private secp256k1 = new Secp256k1Utils();
+
+  /**
+   * EIP-191（version 0x45）のプレフィックスを付けたメッセージハッシュ
+   */
+  hashMessage(message: string): Uint8Array {
+    const messageBytes = new TextEncoder().encode(message);
+    const prefix = new TextEncoder().encode(
+      `\x19Ethereum Signed Message:\n${messageBytes.length}`,
+    );
+    const data = new Uint8Array(prefix.length + messageBytes.length);
+    data.set(prefix);
+    data.set(messageBytes, prefix.length);
+    return keccak256(data);
+  }
+
+  /**
+   * 署名（65バイトのhex、vは27/28または0/1）から署名者のアドレスを復元する
+   * 不正な署名の場合はnull
+   */
+  recoverMessageAddress(message: string, signature: string): string | null {
+    if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+      return null;
+    }
+
+    const r = BigInt(`0x${signature.slice(2, 66)}`);
+    const s = BigInt(`0x${signature.slice(66, 130)}`);
+    const v = Number.parseInt(signature.slice(130, 132), 16);
+    const recovery = v >= 27 ? v - 27 : v;
+
+    const publicKey = this.secp256k1.recoverPublicKey(
+      this.hashMessage(message),
+      { r, s, recovery },
+    );
+    return publicKey ? this.publicKeyToAddress(publicKey) : null;
+  }
+
+  /**
+   * personal_sign相当の署名を作成する（テスト・開発用）
+   */
+  signMessage(message: string, privateKey: string): string {
+    const { r, s, recovery } = this.secp256k1.sign(
+      this.hashMessage(message),
+      BigInt(privateKey),
+    );
+    return `0x${this.toHex(r)}${this.toHex(s)}${(27 + recovery).toString(16)}`;
+  }
+
+  privateKeyToAddress(privateKey: string): string {
+    return this.publicKeyToAddress(
+      this.secp256k1.getPublicKey(BigInt(privateKey)),
+    );
+  }
+
+  /**
+   * EIP-55のチェックサム付きアドレスに変換する
+   */
+  toChecksumAddress(address: string): string {
+    const lower = address.toLowerCase().replace(/^0x/, "");
+    const hash = keccak256(new TextEncoder().encode(lower));
+
+    let checksummed = "0x";
+    for (let i = 0; i < lower.length; i++) {
+      const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+      checksummed += nibble >= 8 ? lower[i].toUpperCase() : lower[i];
+    }
+    return checksummed;
+  }
+
+  private publicKeyToAddress(publicKey: AffinePoint): string {
+    const bytes = new Uint8Array(64);
+    bytes.set(this.toBytes(publicKey.x));
+    bytes.set(this.toBytes(publicKey.y), 32);
+    const hash = keccak256(bytes);
+    const address = Array.from(hash.slice(12))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    return this.toChecksumAddress(address);
+  }
+
+  private toHex(value: bigint): string {
+    return value.toString(16).padStart(64, "0");
+  }
+
+  private toBytes(value: bigint): Uint8Array {
+    const hex = this.toHex(value);
+    return Uint8Array.from({ length: 32 }, (_, i) =>
+      Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16),
+    );
+  }
+}
@@ -1,167 +1,68 @@
-import type { NaturalLanguageInput } from "@repo/shared/api";
-import type { GeneratedApiSpec } from "../services/llm-service";
-
-export class GeminiClient {
-  async generateCode(input: NaturalLanguageInput): Promise<GeneratedApiSpec> {
-    // 実際の実装では、Gemini Pro APIを呼び出します
-    // 現在はテスト用のモック実装
-
-    // 複雑度に応じた価格設定
-    const priceMapping = {
-      simple: "0.01",
-      medium: "0.05",
-      complex: "0.10",
+// Google Gemini（generateContent API）アダプター
+import {
+  HttpLLMClient,
+  type HttpLLMClientOptions,
+  type LLMHttpRequest,
+  type LLMPrompt,
+} from "./llm-provider";
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
     };
+  }[];
+}
 
-    // メソッドの推定
-    const method = this.inferHttpMethod(input.description);
+export class GeminiClient extends HttpLLMClient {
+  readonly provider = "gemini-pro";
 
-    // エンドポイントの生成
-    const endpoint = this.generateEndpoint(input.description, input.category);
+  constructor(options: HttpLLMClientOptions = {}) {
+    super(options, {
+      model: "gemini-1.5-pro",
+      baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    });
+  }
 
-    const mockSpec: GeneratedApiSpec = {
-      name: this.generateApiName(input.description),
-      description: `Generated API for: ${input.description}`,
-      endpoint,
-      method,
-      price:
-        input.expectedPrice || priceMapping[input.complexityLevel] || "0.05",
-      generatedCode: this.generateHonoCode(endpoint, method, input),
-      documentation: this.generateDocumentation(endpoint, method, input),
+  protected buildRequest(prompt: LLMPrompt, apiKey: string): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/models/${this.model}:generateContent`,
+      headers: { "x-goog-api-key": apiKey },
+      body: this.buildBody(prompt),
     };
-
-    // 実際の実装では非同期処理とエラーハンドリング
-    await new Promise((resolve) => setTimeout(resolve, 100)); // APIコール模擬
-
-    return mockSpec;
   }
 
-  private generateApiName(description: string): string {
-    // 簡単な名前生成ロジック
-    if (description.includes("天気") || description.includes("weather")) {
-      return "Weather Information API";
-    }
-    if (description.includes("翻訳") || description.includes("translate")) {
-      return "Translation API";
-    }
-    if (description.includes("画像") || description.includes("image")) {
-      return "Image Processing API";
-    }
-    return "Generated API";
+  protected buildStreamRequest(
+    prompt: LLMPrompt,
+    apiKey: string,
+  ): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse`,
+      headers: { "x-goog-api-key": apiKey },
+      body: this.buildBody(prompt),
+    };
   }
 
-  private inferHttpMethod(
-    description: string,
-  ): "GET" | "POST" | "PUT" | "DELETE" | "PATCH" {
-    const lowerDesc = description.toLowerCase();
-    if (
-      lowerDesc.includes("取得") ||
-      lowerDesc.includes("get") ||
-      lowerDesc.includes("fetch")
-    ) {
-      return "GET";
-    }
-    if (
-      lowerDesc.includes("作成") ||
-      lowerDesc.includes("create") ||
-      lowerDesc.includes("post")
-    ) {
-      return "POST";
-    }
-    if (
-      lowerDesc.includes("更新") ||
-      lowerDesc.includes("update") ||
-      lowerDesc.includes("put")
-    ) {
-      return "PUT";
-    }
-    if (lowerDesc.includes("削除") || lowerDesc.includes("delete")) {
-      return "DELETE";
-    }
-    return "GET"; // デフォルト
+  protected extractText(body: unknown): string | null {
+    const parts = (body as GeminiResponse).candidates?.[0]?.content?.parts;
+    return parts?.map((part) => part.text ?? "").join("") || null;
   }
 
-  private generateEndpoint(description: string, category: string): string {
-    const lowerDesc = description.toLowerCase();
-
-    if (lowerDesc.includes("天気") || lowerDesc.includes("weather")) {
-      return "/api/weather";
-    }
-    if (lowerDesc.includes("翻訳") || lowerDesc.includes("translate")) {
-      return "/api/translate";
-    }
-    if (lowerDesc.includes("画像") || lowerDesc.includes("image")) {
-      return "/api/image";
-    }
-
-    // カテゴリベースのフォールバック
-    return `/api/${category}`;
+  // ストリームの各チャンクも通常のレスポンスと同じ形式
+  protected extractDelta(event: unknown): string | null {
+    return this.extractText(event);
   }
 
-  private generateHonoCode(
-    endpoint: string,
-    method: string,
-    input: NaturalLanguageInput,
-  ): string {
-    const price = input.expectedPrice || "0.01";
-
-    return `import { Hono } from 'hono'
-import { x402 } from 'x402-hono'
-
-const app = new Hono()
-
-app.${method.toLowerCase()}('${endpoint}', 
-  x402('0x1234567890123456789012345678901234567890', '$${price}'),
-  async (c) => {
-    try {
-      // Generated API implementation
-      const result = {
-        success: true,
-        data: {
-          message: 'API response generated from: ${input.description}',
-          timestamp: new Date().toISOString()
-        }
-      }
-      
-      return c.json(result)
-    } catch (error) {
-      return c.json({ error: 'Processing failed' }, 500)
-    }
-  }
-)
-
-export default app`;
-  }
-
-  private generateDocumentation(
-    endpoint: string,
-    method: string,
-    input: NaturalLanguageInput,
-  ): string {
-    const price = input.expectedPrice || "0.01";
-
-    return `# Generated API Documentation
-
-## Overview
-${input.description}
-
-## Endpoint
-- **${method}** \`${endpoint}\`
-
-## Description
-This API was automatically generated based on the user's natural language description.
-
-## Pricing
-- Cost: $${price} USDC per request
-- Payment via x402 protocol on Base Sepolia
-
-## Category
-${input.category}
-
-## Complexity Level
-${input.complexityLevel}
-
-${input.externalApis ? `## External APIs Used\n${input.externalApis.map((api) => `- ${api}`).join("\n")}` : ""}
-`;
+  private buildBody(prompt: LLMPrompt) {
+    return {
+      systemInstruction: { parts: [{ text: prompt.system }] },
+      contents: [{ role: "user", parts: [{ text: prompt.user }] }],
+      generationConfig: {
+        temperature: prompt.temperature,
+        maxOutputTokens: prompt.maxTokens,
+        responseMimeType:
+          prompt.responseFormat === "json" ? "application/json" : undefined,
+      },
+    };
   }
 }
@@ -1,8 +1,13 @@
 // JWT ユーティリティクラス - Web Crypto API使用
+import type { ApiScope } from "@repo/shared/auth";
+
 export interface JwtPayload {
   userId: string;
   email: string;
   organizationId: string | null;
+  scopes?: ApiScope[]; // 未設定はスコープ導入前に発行されたトークン
+  jti?: string; // トークン識別子（失効リストの照合に使用）
+  sid?: string; // 発行元セッションID（リフレッシュトークン経由の場合）
   iat: number;
   exp: number;
 }
@@ -27,6 +32,7 @@ export class JwtUtils {
 
     const fullPayload: JwtPayload = {
       ...payload,
+      jti: payload.jti ?? crypto.randomUUID(),
       iat: now,
       exp: now + expiresIn,
     };
@@ -0,0 +1,128 @@
+// Keccak-256（Ethereumで使われるSHA-3標準化前のパディング版）
+// Web Crypto APIはKeccakを提供しないため、Workers上で依存なしに動くよう実装する
+const ROUNDS = 24;
+const RATE_BYTES = 136; // 1088ビット（容量512ビット）
+const MASK_64 = (1n << 64n) - 1n;
+
+// ラウンド定数（ι）
+const ROUND_CONSTANTS = [
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+];
+
+// 回転量（ρ）。インデックスは x + 5 * y
+const ROTATION_OFFSETS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+function rotateLeft(value: bigint, shift: number): bigint {
+  if (shift === 0) {
+    return value;
+  }
+  const bits = BigInt(shift);
+  return ((value << bits) | (value >> (64n - bits))) & MASK_64;
+}
+
+// θ: 各レーンに隣接する列のパリティを加える
+function theta(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  for (let x = 0; x < 5; x++) {
+    c[x] =
+      state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+  }
+  for (let x = 0; x < 5; x++) {
+    const d = c[(x + 4) % 5] ^ rotateLeft(c[(x + 1) % 5], 1);
+    for (let y = 0; y < 25; y += 5) {
+      state[x + y] ^= d;
+    }
+  }
+}
+
+// ρ と π: レーンを回転させて並べ替える
+function rhoPi(state: bigint[]): bigint[] {
+  const b = new Array<bigint>(25);
+  for (let x = 0; x < 5; x++) {
+    for (let y = 0; y < 5; y++) {
+      b[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(
+        state[x + 5 * y],
+        ROTATION_OFFSETS[x + 5 * y],
+      );
+    }
+  }
+  return b;
+}
+
+// χ: 行ごとの非線形変換
+function chi(state: bigint[], b: bigint[]): void {
+  for (let y = 0; y < 25; y += 5) {
+    for (let x = 0; x < 5; x++) {
+      state[x + y] =
+        b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK_64 & b[((x + 2) % 5) + y]);
+    }
+  }
+}
+
+function keccakF(state: bigint[]): void {
+  for (let round = 0; round < ROUNDS; round++) {
+    theta(state);
+    chi(state, rhoPi(state));
+    // ι
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+export function keccak256(data: Uint8Array): Uint8Array {
+  // マルチレートパディング（Keccakは0x01、SHA-3は0x06）
+  const paddedLength =
+    Math.floor(data.length / RATE_BYTES) * RATE_BYTES + RATE_BYTES;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[paddedLength - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < paddedLength; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      let value = 0n;
+      for (let byte = 7; byte >= 0; byte--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF(state);
+  }
+
+  // 先頭256ビットをリトルエンディアンで出力
+  const output = new Uint8Array(32);
+  for (let lane = 0; lane < 4; lane++) {
+    let value = state[lane];
+    for (let byte = 0; byte < 8; byte++) {
+      output[lane * 8 + byte] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  }
+  return output;
+}
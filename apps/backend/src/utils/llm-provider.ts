@@ -0,0 +1,224 @@
+// LLMプロバイダーの共通インターフェースとHTTPアダプターの基底クラス
+import type { LLMProvider } from "@repo/shared/api";
+
+// プロバイダーに送るプロンプト（systemは指示、userは依頼内容）
+export interface LLMPrompt {
+  system: string;
+  user: string;
+  responseFormat?: "json" | "text";
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProvider;
+  model: string;
+}
+
+export type LLMProviderErrorCode =
+  | "not_configured" // APIキー未設定
+  | "request_failed" // 通信エラー・タイムアウト・エラーステータス
+  | "invalid_response" // 想定外のレスポンス形式
+  | "not_recorded"; // 記録済みレスポンスなし（recordedのみ）
+
+export class LLMProviderError extends Error {
+  constructor(
+    public code: LLMProviderErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+/**
+ * プロンプトを送り、生成されたテキストを受け取るLLMクライアント
+ */
+export interface LLMClient {
+  readonly provider: LLMProvider;
+  readonly model: string;
+  complete(prompt: LLMPrompt): Promise<LLMCompletion>;
+  // 生成されたテキストを断片ごとに返す（連結するとcompleteの結果と同じになる）
+  stream(prompt: LLMPrompt): AsyncIterable<string>;
+}
+
+// レスポンスボディを行単位に分割する（改行で終わらない最終行も返す）
+async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    // 末尾の行は途中で切れている可能性があるため次のチャンクと連結する
+    buffer = lines.pop() ?? "";
+    yield* lines;
+  }
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Server-Sent Eventsのレスポンスボディから各イベントのdataを取り出す
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  let data: string[] = [];
+  for await (const line of readLines(body)) {
+    if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart());
+    } else if (line === "" && data.length > 0) {
+      yield data.join("\n");
+      data = [];
+    }
+  }
+  if (data.length > 0) {
+    yield data.join("\n");
+  }
+}
+
+export interface HttpLLMClientOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch; // テストで差し替える
+}
+
+// HTTPリクエストの組み立て結果
+export interface LLMHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * HTTP APIを呼ぶアダプターの共通処理（認証情報の確認・タイムアウト・エラー変換）
+ * 各プロバイダーはリクエストの組み立てとレスポンスからのテキスト抽出のみ実装する
+ */
+export abstract class HttpLLMClient implements LLMClient {
+  static readonly DEFAULT_TIMEOUT_MS = 60_000;
+
+  abstract readonly provider: LLMProvider;
+  readonly model: string;
+  protected baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private fetchFn: typeof fetch;
+
+  constructor(
+    options: HttpLLMClientOptions,
+    defaults: { model: string; baseUrl: string },
+  ) {
+    this.apiKey = options.apiKey;
+    this.model = options.model || defaults.model;
+    this.baseUrl = (options.baseUrl || defaults.baseUrl).replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? HttpLLMClient.DEFAULT_TIMEOUT_MS;
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete(prompt: LLMPrompt): Promise<LLMCompletion> {
+    const response = await this.send((apiKey) =>
+      this.buildRequest(prompt, apiKey),
+    );
+
+    const body: unknown = await response.json().catch(() => null);
+    const text = body === null ? null : this.extractText(body);
+    if (!text) {
+      throw new LLMProviderError(
+        "invalid_response",
+        `${this.provider} returned no text content`,
+      );
+    }
+
+    return { text, provider: this.provider, model: this.model };
+  }
+
+  async *stream(prompt: LLMPrompt): AsyncGenerator<string> {
+    const response = await this.send((apiKey) =>
+      this.buildStreamRequest(prompt, apiKey),
+    );
+    if (!response.body) {
+      throw new LLMProviderError(
+        "invalid_response",
+        `${this.provider} returned an empty stream`,
+      );
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") {
+        return;
+      }
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch (_error) {
+        continue; // JSON以外のイベント（keep-aliveなど）は無視
+      }
+      const text = this.extractDelta(event);
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private async send(
+    build: (apiKey: string) => LLMHttpRequest,
+  ): Promise<Response> {
+    if (!this.apiKey) {
+      throw new LLMProviderError(
+        "not_configured",
+        `API key for ${this.provider} is not configured`,
+      );
+    }
+
+    const request = build(this.apiKey);
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(request.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...request.headers },
+        body: JSON.stringify(request.body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new LLMProviderError(
+        "request_failed",
+        `${this.provider} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok) {
+      throw new LLMProviderError(
+        "request_failed",
+        `${this.provider} responded with status ${response.status}`,
+      );
+    }
+    return response;
+  }
+
+  protected abstract buildRequest(
+    prompt: LLMPrompt,
+    apiKey: string,
+  ): LLMHttpRequest;
+
+  protected abstract extractText(body: unknown): string | null;
+
+  // ストリーミング用のリクエスト（SSEで断片を返すエンドポイント・パラメーター）
+  protected abstract buildStreamRequest(
+    prompt: LLMPrompt,
+    apiKey: string,
+  ): LLMHttpRequest;
+
+  // ストリームの各イベントから追加されたテキストを取り出す
+  protected abstract extractDelta(event: unknown): string | null;
+}
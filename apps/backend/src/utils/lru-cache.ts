@@ -0,0 +1,87 @@
+/**
+ * 最近使われていないものから追い出す固定容量のキャッシュ
+ * Mapの挿入順を利用し、取得・更新した要素を末尾に移す
+ * 容量超過・削除でキャッシュから外れた要素は onEvict に渡す（同じキーへのsetによる置き換えは渡さない）
+ */
+export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+  private evictionCount = 0;
+
+  constructor(
+    readonly capacity: number,
+    private readonly onEvict?: (value: V, key: K) => void,
+  ) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error("LRU cache capacity must be a positive integer");
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // 容量超過で追い出した累計数
+  get evictions(): number {
+    return this.evictionCount;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * 取得した要素を最近使ったものとして扱う
+   */
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.capacity) {
+      const [oldest, value] = this.entries.entries().next().value as [K, V];
+      this.entries.delete(oldest);
+      this.evictionCount++;
+      this.onEvict?.(value, oldest);
+    }
+  }
+
+  delete(key: K): boolean {
+    const value = this.entries.get(key);
+    if (!this.entries.delete(key)) {
+      return false;
+    }
+    this.onEvict?.(value as V, key);
+    return true;
+  }
+
+  /**
+   * 条件に一致する要素をすべて削除する
+   */
+  deleteWhere(predicate: (value: V, key: K) => boolean): number {
+    let deleted = 0;
+    for (const [key, value] of this.entries) {
+      if (predicate(value, key)) {
+        this.entries.delete(key);
+        deleted++;
+        this.onEvict?.(value, key);
+      }
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    const entries = [...this.entries];
+    this.entries.clear();
+    for (const [key, value] of entries) {
+      this.onEvict?.(value, key);
+    }
+  }
+}
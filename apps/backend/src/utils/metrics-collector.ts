@@ -1,4 +1,8 @@
-import type { ApiMetrics } from "../types/monitoring";
+import type {
+  ApiMetrics,
+  VersionCounters,
+  VersionMetrics,
+} from "../types/monitoring";
 import { logger } from "./logger";
 
 export interface MetricsSummary {
@@ -26,6 +30,10 @@ export class MetricsCollector {
   private bufferSize: number = 100;
   private flushInterval: number = 60000; // 1分
   private flushTimer?: ReturnType<typeof setTimeout>;
+  // apiId:version -> 生成APIのバージョンごとの集計（isolate内のみ）
+  private versionStats = new Map<string, VersionCounters>();
+  // apiId -> 集計を始めたカナリアリリースの開始時刻
+  private versionWindows = new Map<string, string>();
 
   private constructor(kvNamespace?: KVNamespace) {
     this.kvNamespace = kvNamespace;
@@ -55,6 +63,7 @@ export class MetricsCollector {
   public async recordMetric(metric: ApiMetrics): Promise<void> {
     // バッファに追加
     this.metricsBuffer.push(metric);
+    this.recordVersionMetric(metric);
 
     // バッファサイズに達したら即座にフラッシュ
     if (this.metricsBuffer.length >= this.bufferSize) {
@@ -62,6 +71,79 @@ export class MetricsCollector {
     }
   }
 
+  // デプロイ中の生成APIへのリクエストをバージョンごとに集計する（カナリアリリースの比較用）
+  private recordVersionMetric(metric: ApiMetrics): void {
+    if (!metric.apiId || metric.apiVersion === undefined) {
+      return;
+    }
+
+    const key = `${metric.apiId}:${metric.apiVersion}`;
+    const stats = this.versionStats.get(key) || {
+      requests: 0,
+      errors: 0,
+      totalResponseTime: 0,
+    };
+    stats.requests++;
+    if (metric.statusCode >= 500) {
+      stats.errors++;
+    }
+    stats.totalResponseTime += metric.responseTime;
+    this.versionStats.set(key, stats);
+  }
+
+  public getVersionMetrics(apiId: string, version: number): VersionMetrics {
+    return MetricsCollector.toVersionMetrics(
+      this.getVersionCounters(apiId, version),
+    );
+  }
+
+  /**
+   * このisolateで数えたバージョンの累計（他のisolateの累計と合計する）
+   */
+  public getVersionCounters(apiId: string, version: number): VersionCounters {
+    const stats = this.versionStats.get(`${apiId}:${version}`);
+    return stats
+      ? { ...stats }
+      : { requests: 0, errors: 0, totalResponseTime: 0 };
+  }
+
+  public static toVersionMetrics(counters: VersionCounters): VersionMetrics {
+    if (counters.requests === 0) {
+      return { requests: 0, errors: 0, errorRate: 0, averageResponseTime: 0 };
+    }
+
+    return {
+      requests: counters.requests,
+      errors: counters.errors,
+      errorRate: counters.errors / counters.requests,
+      averageResponseTime: counters.totalResponseTime / counters.requests,
+    };
+  }
+
+  /**
+   * 生成APIのすべてのバージョンの集計を破棄する
+   */
+  public resetVersionMetrics(apiId: string): void {
+    this.versionWindows.delete(apiId);
+    for (const key of this.versionStats.keys()) {
+      if (key.startsWith(`${apiId}:`)) {
+        this.versionStats.delete(key);
+      }
+    }
+  }
+
+  /**
+   * カナリアリリースの集計を始める（startedAtが変わったときだけ以前の集計を破棄する）
+   * 各isolateはカナリアを初めて振り分ける前に呼び、開始前のリクエストを比較に含めない
+   */
+  public beginVersionWindow(apiId: string, startedAt: string): void {
+    if (this.versionWindows.get(apiId) === startedAt) {
+      return;
+    }
+    this.resetVersionMetrics(apiId);
+    this.versionWindows.set(apiId, startedAt);
+  }
+
   private async flushMetrics(): Promise<void> {
     if (this.metricsBuffer.length === 0 || !this.kvNamespace) {
       return;
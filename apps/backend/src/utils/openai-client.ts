@@ -0,0 +1,75 @@
+// OpenAI互換（Chat Completions API）アダプター
+// baseUrlを変えればAzure OpenAI・OpenRouter・ローカルLLMサーバーなどにも接続できる
+import {
+  HttpLLMClient,
+  type HttpLLMClientOptions,
+  type LLMHttpRequest,
+  type LLMPrompt,
+} from "./llm-provider";
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null };
+  }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: { content?: string | null };
+  }[];
+}
+
+export class OpenAICompatibleClient extends HttpLLMClient {
+  readonly provider: "gpt-4" | "gpt-3.5-turbo";
+
+  constructor(
+    provider: "gpt-4" | "gpt-3.5-turbo",
+    options: HttpLLMClientOptions = {},
+  ) {
+    super(options, { model: provider, baseUrl: "https://api.openai.com/v1" });
+    this.provider = provider;
+  }
+
+  protected buildRequest(prompt: LLMPrompt, apiKey: string): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      headers: { Authorization: `Bearer ${apiKey}` },
+      body: this.buildBody(prompt),
+    };
+  }
+
+  protected buildStreamRequest(
+    prompt: LLMPrompt,
+    apiKey: string,
+  ): LLMHttpRequest {
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      headers: { Authorization: `Bearer ${apiKey}` },
+      body: { ...this.buildBody(prompt), stream: true },
+    };
+  }
+
+  protected extractText(body: unknown): string | null {
+    return (
+      (body as ChatCompletionResponse).choices?.[0]?.message?.content || null
+    );
+  }
+
+  protected extractDelta(event: unknown): string | null {
+    return (event as ChatCompletionChunk).choices?.[0]?.delta?.content || null;
+  }
+
+  private buildBody(prompt: LLMPrompt) {
+    return {
+      model: this.model,
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user },
+      ],
+      temperature: prompt.temperature,
+      max_tokens: prompt.maxTokens,
+      response_format:
+        prompt.responseFormat === "json" ? { type: "json_object" } : undefined,
+    };
+  }
+}
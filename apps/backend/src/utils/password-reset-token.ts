@@ -0,0 +1,51 @@
+// パスワードリセットコード生成・ハッシュ化ユーティリティ - Web Crypto API使用
+export class PasswordResetTokenUtils {
+  private static readonly CODE_DIGITS = 6;
+  private secretKey: string;
+
+  constructor(secretKey: string) {
+    this.secretKey = secretKey;
+  }
+
+  /**
+   * 6桁の数字コードを暗号学的に安全な乱数から生成
+   */
+  generate(): string {
+    const range = 10 ** PasswordResetTokenUtils.CODE_DIGITS;
+    // 剰余による偏りを避けるため、rangeの倍数未満の値のみ採用
+    const limit = Math.floor(0x100000000 / range) * range;
+    const buffer = new Uint32Array(1);
+    do {
+      crypto.getRandomValues(buffer);
+    } while (buffer[0] >= limit);
+
+    return (buffer[0] % range)
+      .toString()
+      .padStart(PasswordResetTokenUtils.CODE_DIGITS, "0");
+  }
+
+  /**
+   * コードは桁数が少なく総当たりが容易なため、サーバー秘密鍵によるHMACでハッシュ化
+   * メールアドレスも含めることで他アカウントのコードとして使えないようにする
+   */
+  async hash(email: string, code: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(this.secretKey),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      cryptoKey,
+      encoder.encode(`${email.toLowerCase()}:${code}`),
+    );
+
+    return Array.from(new Uint8Array(signature))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+}
@@ -0,0 +1,86 @@
+// 記録済みレスポンスを再生するLLMクライアント（オフラインでのテスト・デモ用）
+// プロンプトのフィンガープリントごとにレスポンスを保持するため、同じ入力には常に同じ結果を返す
+import {
+  type LLMClient,
+  type LLMCompletion,
+  type LLMPrompt,
+  LLMProviderError,
+} from "./llm-provider";
+
+export class RecordedLLMClient implements LLMClient {
+  static readonly STREAM_CHUNK_SIZE = 64; // stream()で返す断片の文字数
+
+  readonly provider = "recorded";
+  readonly model = "recorded";
+
+  private recordings: Map<string, string>;
+
+  // recordings: フィンガープリント → レスポンステキスト
+  constructor(recordings: Record<string, string> = {}) {
+    this.recordings = new Map(Object.entries(recordings));
+  }
+
+  /**
+   * JSON文字列（フィンガープリント → レスポンス）から生成する。不正な場合は空
+   */
+  static fromJSON(json?: string): RecordedLLMClient {
+    if (!json) {
+      return new RecordedLLMClient();
+    }
+    try {
+      const parsed: unknown = JSON.parse(json);
+      if (typeof parsed !== "object" || parsed === null) {
+        return new RecordedLLMClient();
+      }
+      return new RecordedLLMClient(
+        Object.fromEntries(
+          Object.entries(parsed).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string",
+          ),
+        ),
+      );
+    } catch (_error) {
+      return new RecordedLLMClient();
+    }
+  }
+
+  /**
+   * プロンプトのフィンガープリント（system・userのSHA-256）
+   */
+  static async fingerprint(prompt: LLMPrompt): Promise<string> {
+    const data = new TextEncoder().encode(
+      JSON.stringify([prompt.system, prompt.user]),
+    );
+    const hash = await crypto.subtle.digest("SHA-256", data);
+    return Array.from(new Uint8Array(hash))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  async record(prompt: LLMPrompt, text: string): Promise<void> {
+    this.recordings.set(await RecordedLLMClient.fingerprint(prompt), text);
+  }
+
+  async complete(prompt: LLMPrompt): Promise<LLMCompletion> {
+    const fingerprint = await RecordedLLMClient.fingerprint(prompt);
+    const text = this.recordings.get(fingerprint);
+    if (text === undefined) {
+      throw new LLMProviderError(
+        "not_recorded",
+        `No recorded response for prompt ${fingerprint}`,
+      );
+    }
+    return { text, provider: this.provider, model: this.model };
+  }
+
+  async *stream(prompt: LLMPrompt): AsyncGenerator<string> {
+    const { text } = await this.complete(prompt);
+    for (
+      let offset = 0;
+      offset < text.length;
+      offset += RecordedLLMClient.STREAM_CHUNK_SIZE
+    ) {
+      yield text.slice(offset, offset + RecordedLLMClient.STREAM_CHUNK_SIZE);
+    }
+  }
+}
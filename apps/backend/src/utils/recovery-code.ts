@@ -0,0 +1,59 @@
+// 二要素認証リカバリーコード生成・ハッシュ化ユーティリティ - Web Crypto API使用
+export class RecoveryCodeUtils {
+  static readonly DEFAULT_COUNT = 10;
+  // 読み間違えやすい文字（0/o, 1/l/i）を除いた英数字
+  private static readonly ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+  private static readonly GROUP_LENGTH = 5;
+  private secretKey: string;
+
+  constructor(secretKey: string) {
+    this.secretKey = secretKey;
+  }
+
+  /**
+   * `xxxxx-xxxxx` 形式のコードを生成
+   */
+  generate(count: number = RecoveryCodeUtils.DEFAULT_COUNT): string[] {
+    return Array.from({ length: count }, () =>
+      [this.randomGroup(), this.randomGroup()].join("-"),
+    );
+  }
+
+  /**
+   * ユーザーIDを含めたHMACでハッシュ化（他アカウントのコードとして使えないようにする）
+   */
+  async hash(userId: string, code: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(this.secretKey),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      cryptoKey,
+      encoder.encode(`${userId}:${code.trim().toLowerCase()}`),
+    );
+    return Array.from(new Uint8Array(signature))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  private randomGroup(): string {
+    const alphabet = RecoveryCodeUtils.ALPHABET;
+    // 剰余による偏りを避けるため、alphabet長の倍数未満の値のみ採用
+    const limit = Math.floor(256 / alphabet.length) * alphabet.length;
+    let group = "";
+    const buffer = new Uint8Array(1);
+    while (group.length < RecoveryCodeUtils.GROUP_LENGTH) {
+      crypto.getRandomValues(buffer);
+      if (buffer[0] < limit) {
+        group += alphabet[buffer[0] % alphabet.length];
+      }
+    }
+    return group;
+  }
+}
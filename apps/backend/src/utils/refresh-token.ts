@@ -0,0 +1,35 @@
+// リフレッシュトークン生成・ハッシュ化ユーティリティ - Web Crypto API使用
+export interface GeneratedRefreshToken {
+  token: string; // 平文トークン（クライアントにのみ返却）
+  tokenHash: string; // DB保存用のSHA-256ハッシュ
+}
+
+export class RefreshTokenUtils {
+  private static readonly TOKEN_BYTES = 32; // 256ビット
+
+  async generate(): Promise<GeneratedRefreshToken> {
+    const randomBytes = crypto.getRandomValues(
+      new Uint8Array(RefreshTokenUtils.TOKEN_BYTES),
+    );
+    const token = this.toHex(randomBytes);
+
+    return {
+      token,
+      tokenHash: await this.hash(token),
+    };
+  }
+
+  async hash(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(token),
+    );
+    return this.toHex(new Uint8Array(digest));
+  }
+
+  private toHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+}
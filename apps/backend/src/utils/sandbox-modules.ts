@@ -0,0 +1,441 @@
+import { BASE_SEPOLIA_CONFIG } from "@repo/shared/x402";
+
+// 生成コードのサンドボックス（QuickJS）内で評価するJavaScriptのソース
+// ホストのオブジェクトには触れず、生成APIが使うHonoのAPIの範囲だけをサンドボックス内で実装する
+
+/**
+ * ホストが用意したconsole以外のグローバルを作らずに評価するスクリプト
+ * レスポンスのクラスを定義し、ホストから渡した機能とあわせて書き換えられないよう凍結する
+ */
+export const SANDBOX_PRELUDE = `
+class Response {
+  constructor(body, init) {
+    const options = init || {};
+    this.body = body === undefined || body === null ? null : String(body);
+    this.status = options.status === undefined ? 200 : options.status;
+    this.headers = Response.normalizeHeaders(options.headers);
+  }
+  get ok() {
+    return this.status >= 200 && this.status < 300;
+  }
+  async text() {
+    return this.body === null ? "" : this.body;
+  }
+  async json() {
+    return JSON.parse(this.body);
+  }
+  static json(data, init) {
+    const options = init || {};
+    return new Response(JSON.stringify(data), {
+      status: options.status,
+      headers: Object.assign(
+        { "content-type": "application/json" },
+        Response.normalizeHeaders(options.headers),
+      ),
+    });
+  }
+  static normalizeHeaders(headers) {
+    const normalized = {};
+    const entries = Array.isArray(headers)
+      ? headers
+      : Object.entries(headers || {});
+    for (const [name, value] of entries) {
+      normalized[String(name).toLowerCase()] = String(value);
+    }
+    return normalized;
+  }
+}
+for (const name of ["console", "Response"]) {
+  Object.freeze(globalThis[name]);
+  Object.defineProperty(globalThis, name, {
+    value: globalThis[name],
+    writable: false,
+    configurable: false,
+  });
+}
+Object.freeze(Response.prototype);
+`;
+
+// hono: ルーティング・ミドルウェア・Context・HTTPException
+const HONO_MODULE = String.raw`
+const METHODS = ["get", "post", "put", "delete", "patch", "options"];
+
+export class HTTPException extends Error {
+  constructor(status, options) {
+    const init = options || {};
+    super(init.message || "HTTP Exception");
+    this.status = status === undefined ? 500 : status;
+    this.res = init.res;
+  }
+  getResponse() {
+    return this.res || new Response(this.message, { status: this.status });
+  }
+}
+
+function joinPaths(base, path) {
+  const joined = (base.replace(/\/+$/, "") + "/" + path.replace(/^\/+/, ""))
+    .replace(/\/+$/, "");
+  return joined === "" ? "/" : joined;
+}
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^$()|[\]\\{}]/g, "\\$&");
+}
+
+// :name、:name?、:name{正規表現}、* を含むパスの照合
+function compilePath(path) {
+  const names = [];
+  let source = "";
+  for (const segment of path.split("/").filter(Boolean)) {
+    if (segment === "*") {
+      source += "(?:/.*)?";
+      continue;
+    }
+    const param = /^:([A-Za-z0-9_]+)(?:\{(.+)\})?(\?)?$/.exec(segment);
+    if (!param) {
+      source += "/" + escapeRegExp(segment);
+      continue;
+    }
+    names.push(param[1]);
+    const pattern = param[2] || "[^/]+";
+    source += param[3] ? "(?:/(" + pattern + "))?" : "/(" + pattern + ")";
+  }
+  return { regexp: new RegExp("^" + (source || "/") + "/?$"), names };
+}
+
+function decode(value) {
+  try {
+    return decodeURIComponent(value);
+  } catch (_error) {
+    return value;
+  }
+}
+
+class HonoRequest {
+  constructor(input) {
+    this.method = input.method;
+    this.url = input.url;
+    this.path = input.path;
+    this._query = input.query;
+    this._headers = {};
+    for (const [name, value] of input.headers) {
+      this._headers[name.toLowerCase()] = value;
+    }
+    this._body = input.body;
+    this._params = {};
+  }
+  param(name) {
+    return name === undefined ? Object.assign({}, this._params) : this._params[name];
+  }
+  query(name) {
+    if (name !== undefined) {
+      const entry = this._query.find((pair) => pair[0] === name);
+      return entry ? entry[1] : undefined;
+    }
+    const query = {};
+    for (const [key, value] of this._query) {
+      if (!Object.prototype.hasOwnProperty.call(query, key)) {
+        query[key] = value;
+      }
+    }
+    return query;
+  }
+  queries(name) {
+    const queries = {};
+    for (const [key, value] of this._query) {
+      (queries[key] = queries[key] || []).push(value);
+    }
+    return name === undefined ? queries : queries[name];
+  }
+  header(name) {
+    return name === undefined
+      ? Object.assign({}, this._headers)
+      : this._headers[name.toLowerCase()];
+  }
+  async text() {
+    return this._body;
+  }
+  async json() {
+    return JSON.parse(this._body);
+  }
+  async parseBody() {
+    const type = this._headers["content-type"] || "";
+    if (!type.includes("application/x-www-form-urlencoded")) {
+      return {};
+    }
+    const body = {};
+    for (const pair of this._body.split("&").filter(Boolean)) {
+      const [key, value] = pair.split("=");
+      body[decode(key.replace(/\+/g, " "))] = decode((value || "").replace(/\+/g, " "));
+    }
+    return body;
+  }
+}
+
+class Context {
+  constructor(req, app) {
+    this.req = req;
+    this.env = {};
+    this.error = undefined;
+    this.res = undefined;
+    this._app = app;
+    this._status = 200;
+    this._headers = {};
+    this._vars = {};
+  }
+  get var() {
+    return Object.assign({}, this._vars);
+  }
+  set(key, value) {
+    this._vars[key] = value;
+  }
+  get(key) {
+    return this._vars[key];
+  }
+  status(status) {
+    this._status = status;
+  }
+  header(name, value, options) {
+    const key = name.toLowerCase();
+    const targets = this.res ? [this._headers, this.res.headers] : [this._headers];
+    for (const headers of targets) {
+      if (value === undefined) {
+        delete headers[key];
+      } else if (options && options.append && headers[key]) {
+        headers[key] = headers[key] + ", " + value;
+      } else {
+        headers[key] = String(value);
+      }
+    }
+  }
+  newResponse(body, arg, headers) {
+    const init = typeof arg === "object" && arg !== null ? arg : { status: arg };
+    return new Response(body, {
+      status: init.status === undefined ? this._status : init.status,
+      headers: Object.assign(
+        {},
+        this._headers,
+        Response.normalizeHeaders(init.headers),
+        Response.normalizeHeaders(headers),
+      ),
+    });
+  }
+  body(data, arg, headers) {
+    return this.newResponse(data, arg, headers);
+  }
+  text(text, arg, headers) {
+    return this.withType("text/plain; charset=UTF-8", text, arg, headers);
+  }
+  json(object, arg, headers) {
+    return this.withType("application/json", JSON.stringify(object), arg, headers);
+  }
+  html(html, arg, headers) {
+    return this.withType("text/html; charset=UTF-8", html, arg, headers);
+  }
+  redirect(location, status) {
+    return this.newResponse(null, status || 302, { location: String(location) });
+  }
+  notFound() {
+    return this._app._notFoundHandler(this);
+  }
+  withType(type, body, arg, headers) {
+    const response = this.newResponse(body, arg, headers);
+    response.headers["content-type"] = response.headers["content-type"] || type;
+    return response;
+  }
+}
+
+async function compose(c, entries, notFound) {
+  let index = -1;
+  const dispatch = async (i) => {
+    if (i <= index) {
+      throw new Error("next() called multiple times");
+    }
+    index = i;
+    const entry = entries[i];
+    if (!entry) {
+      if (c.res === undefined) {
+        c.res = await notFound(c);
+      }
+      return;
+    }
+    c.req._params = entry.params;
+    let nextCalled = false;
+    const result = await entry.handler(c, async () => {
+      nextCalled = true;
+      await dispatch(i + 1);
+    });
+    if (result instanceof Response) {
+      c.res = result;
+    } else if (!nextCalled && c.res === undefined) {
+      throw new Error(
+        "Context is not finalized. Did you forget to return a Response object or await next()?",
+      );
+    }
+  };
+  await dispatch(0);
+}
+
+export class Hono {
+  constructor() {
+    this._base = "/";
+    this._routes = [];
+    this._lastPath = "/";
+    this._errorHandler = (error, c) =>
+      error instanceof HTTPException
+        ? error.getResponse()
+        : c.text("Internal Server Error", 500);
+    this._notFoundHandler = (c) => c.text("404 Not Found", 404);
+    for (const method of METHODS) {
+      this[method] = (...args) => this._add(method.toUpperCase(), args);
+    }
+  }
+  all(...args) {
+    return this._add("ALL", args);
+  }
+  on(methods, path, ...handlers) {
+    for (const method of [].concat(methods)) {
+      this._add(String(method).toUpperCase(), [path, ...handlers]);
+    }
+    return this;
+  }
+  use(...args) {
+    const [path, handlers] =
+      typeof args[0] === "string" ? [args[0], args.slice(1)] : ["*", args];
+    this._register("ALL", path, handlers);
+    return this;
+  }
+  route(path, app) {
+    for (const route of app._routes) {
+      this._register(route.method, joinPaths(path, route.path), route.handlers);
+    }
+    return this;
+  }
+  basePath(path) {
+    const app = new Hono();
+    app._base = joinPaths(this._base, path);
+    app._routes = this._routes;
+    return app;
+  }
+  notFound(handler) {
+    this._notFoundHandler = handler;
+    return this;
+  }
+  onError(handler) {
+    this._errorHandler = handler;
+    return this;
+  }
+  _add(method, args) {
+    if (typeof args[0] === "string") {
+      this._lastPath = args[0];
+      this._register(method, args[0], args.slice(1));
+    } else {
+      this._register(method, this._lastPath, args);
+    }
+    return this;
+  }
+  _register(method, path, handlers) {
+    const fullPath = joinPaths(this._base, path);
+    this._routes.push({
+      method,
+      path: fullPath,
+      matcher: compilePath(fullPath),
+      handlers,
+    });
+  }
+  // ホストから渡されたリクエスト（JSON）を処理し、レスポンスをJSONで返す
+  async _dispatch(input) {
+    const req = new HonoRequest(JSON.parse(input));
+    const c = new Context(req, this);
+    const entries = [];
+    for (const route of this._routes) {
+      const methodMatches =
+        route.method === "ALL" ||
+        route.method === req.method ||
+        (req.method === "HEAD" && route.method === "GET");
+      const match = methodMatches && route.matcher.regexp.exec(req.path);
+      if (!match) {
+        continue;
+      }
+      const params = {};
+      route.matcher.names.forEach((name, i) => {
+        if (match[i + 1] !== undefined) {
+          params[name] = decode(match[i + 1]);
+        }
+      });
+      for (const handler of route.handlers) {
+        entries.push({ handler, params });
+      }
+    }
+    try {
+      await compose(c, entries, this._notFoundHandler);
+    } catch (error) {
+      c.error = error;
+      try {
+        c.res = await this._errorHandler(error, c);
+      } catch (_handlerError) {
+        c.res = new Response("Internal Server Error", { status: 500 });
+      }
+    }
+    const res = c.res instanceof Response
+      ? c.res
+      : new Response("Internal Server Error", { status: 500 });
+    return JSON.stringify({
+      status: res.status,
+      headers: Object.entries(res.headers),
+      body: res.body,
+    });
+  }
+}
+`;
+
+// x402-hono: 支払いが無いリクエストに402を返す
+// サンドボックスにはネットワークが無いため、支払いはディスパッチャーがホストで検証し、プラットフォームのウォレットで受け取る
+// X-PAYMENTヘッダーはホストが検証した場合にだけ渡されるため、ここではヘッダーの有無のみ確認する
+// 支払先はコードでは指定しない（以前の x402(payTo, price) の形式は支払先を無視する）
+const X402_MODULE = String.raw`
+const DECIMALS = ${BASE_SEPOLIA_CONFIG.usdcContract.decimals};
+
+function toAtomicAmount(price) {
+  const [whole, fraction] = String(price).replace(/^\$/, "").split(".");
+  const padded = ((fraction || "") + "0".repeat(DECIMALS)).slice(0, DECIMALS);
+  return BigInt(whole + padded).toString();
+}
+
+export function x402(...args) {
+  const maxAmountRequired = toAtomicAmount(args[args.length - 1]);
+  return async (c, next) => {
+    if (!c.req.header("x-payment")) {
+      return c.json(
+        {
+          x402Version: 1,
+          error: "X-PAYMENT header is required",
+          accepts: [
+            {
+              scheme: "exact",
+              network: "base-sepolia",
+              maxAmountRequired,
+              resource: c.req.url,
+              description: "",
+              mimeType: "application/json",
+              maxTimeoutSeconds: 60,
+              asset: ${JSON.stringify(BASE_SEPOLIA_CONFIG.usdcContract.address)},
+            },
+          ],
+        },
+        402,
+      );
+    }
+    await next();
+  };
+}
+`;
+
+/**
+ * 生成コードがインポートできるモジュール（これ以外のインポートは読み込みに失敗する）
+ */
+export const SANDBOX_MODULES: Readonly<Record<string, string>> = {
+  hono: HONO_MODULE,
+  "hono/http-exception": 'export { HTTPException } from "hono";',
+  "x402-hono": X402_MODULE,
+};
@@ -0,0 +1,240 @@
+// secp256k1楕円曲線演算（ECDSA署名・公開鍵復元） - BigIntのみで実装
+// Ethereumの署名（EIP-191 / ecrecover相当）をサーバー側でローカルに検証するために使用する
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: AffinePoint = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+export interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+export interface RecoverableSignature {
+  r: bigint;
+  s: bigint;
+  recovery: number; // 0 または 1（Rのy座標の偶奇）
+}
+
+// ヤコビアン座標（逆元計算をスカラー倍の最後の1回に抑える）
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+const INFINITY: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+
+function mod(value: bigint, modulus: bigint = P): bigint {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = mod(base, modulus);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+// 素数を法とする逆元（フェルマーの小定理）
+function modInverse(value: bigint, modulus: bigint = P): bigint {
+  if (mod(value, modulus) === 0n) {
+    throw new Error("No modular inverse");
+  }
+  return modPow(value, modulus - 2n, modulus);
+}
+
+function toJacobian(point: AffinePoint): JacobianPoint {
+  return { x: point.x, y: point.y, z: 1n };
+}
+
+function toAffine(point: JacobianPoint): AffinePoint | null {
+  if (point.z === 0n) {
+    return null;
+  }
+  const zInverse = modInverse(point.z);
+  const zInverse2 = mod(zInverse * zInverse);
+  return {
+    x: mod(point.x * zInverse2),
+    y: mod(point.y * zInverse2 * zInverse),
+  };
+}
+
+function double(point: JacobianPoint): JacobianPoint {
+  if (point.z === 0n || point.y === 0n) {
+    return INFINITY;
+  }
+  const ySquared = mod(point.y * point.y);
+  const s = mod(4n * point.x * ySquared);
+  const m = mod(3n * point.x * point.x); // a = 0
+  const x = mod(m * m - 2n * s);
+  return {
+    x,
+    y: mod(m * (s - x) - 8n * ySquared * ySquared),
+    z: mod(2n * point.y * point.z),
+  };
+}
+
+function add(p1: JacobianPoint, p2: JacobianPoint): JacobianPoint {
+  if (p1.z === 0n) {
+    return p2;
+  }
+  if (p2.z === 0n) {
+    return p1;
+  }
+
+  const z1Squared = mod(p1.z * p1.z);
+  const z2Squared = mod(p2.z * p2.z);
+  const u1 = mod(p1.x * z2Squared);
+  const u2 = mod(p2.x * z1Squared);
+  const s1 = mod(p1.y * z2Squared * p2.z);
+  const s2 = mod(p2.y * z1Squared * p1.z);
+
+  if (u1 === u2) {
+    return s1 === s2 ? double(p1) : INFINITY;
+  }
+
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  const hSquared = mod(h * h);
+  const hCubed = mod(hSquared * h);
+  const u1hSquared = mod(u1 * hSquared);
+  const x = mod(r * r - hCubed - 2n * u1hSquared);
+  return {
+    x,
+    y: mod(r * (u1hSquared - x) - s1 * hCubed),
+    z: mod(h * p1.z * p2.z),
+  };
+}
+
+function multiply(point: AffinePoint, scalar: bigint): JacobianPoint {
+  let result = INFINITY;
+  let addend = toJacobian(point);
+  let k = scalar;
+  while (k > 0n) {
+    if (k & 1n) {
+      result = add(result, addend);
+    }
+    addend = double(addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+function isInRange(value: bigint): boolean {
+  return value > 0n && value < N;
+}
+
+export class Secp256k1Utils {
+  static readonly CURVE_ORDER = N;
+
+  getPublicKey(privateKey: bigint): AffinePoint {
+    if (!isInRange(privateKey)) {
+      throw new Error("Invalid private key");
+    }
+    const point = toAffine(multiply(G, privateKey));
+    if (!point) {
+      throw new Error("Invalid private key");
+    }
+    return point;
+  }
+
+  /**
+   * メッセージハッシュに署名する（sはEIP-2に従い下半分に正規化）
+   * テストや開発用ツールでウォレット署名を再現するために使用する
+   */
+  sign(hash: Uint8Array, privateKey: bigint): RecoverableSignature {
+    const e = this.hashToScalar(hash);
+
+    for (;;) {
+      const k = this.randomScalar();
+      const point = toAffine(multiply(G, k));
+      if (!point) {
+        continue;
+      }
+
+      const r = mod(point.x, N);
+      if (r === 0n || point.x >= N) {
+        // x座標がNを超える場合は復元IDが2以上になるため再試行
+        continue;
+      }
+
+      let s = mod(modInverse(k, N) * (e + r * privateKey), N);
+      if (s === 0n) {
+        continue;
+      }
+
+      let recovery = Number(point.y & 1n);
+      if (s > N / 2n) {
+        s = N - s;
+        recovery ^= 1;
+      }
+      return { r, s, recovery };
+    }
+  }
+
+  /**
+   * 署名から公開鍵を復元する（不正な署名の場合はnull）
+   */
+  recoverPublicKey(
+    hash: Uint8Array,
+    signature: RecoverableSignature,
+  ): AffinePoint | null {
+    const { r, s, recovery } = signature;
+    if (!isInRange(r) || !isInRange(s) || (recovery !== 0 && recovery !== 1)) {
+      return null;
+    }
+
+    // y^2 = x^3 + 7 からRを復元（P ≡ 3 mod 4 なので平方根は (P+1)/4 乗）
+    const ySquared = mod(r * r * r + 7n);
+    let y = modPow(ySquared, (P + 1n) / 4n, P);
+    if (mod(y * y) !== ySquared) {
+      return null;
+    }
+    if (Number(y & 1n) !== recovery) {
+      y = P - y;
+    }
+
+    // Q = r^-1 (sR - eG)
+    const e = this.hashToScalar(hash);
+    const rInverse = modInverse(r, N);
+    const point = add(
+      multiply({ x: r, y }, mod(s * rInverse, N)),
+      multiply(G, mod(-e * rInverse, N)),
+    );
+    return toAffine(point);
+  }
+
+  private hashToScalar(hash: Uint8Array): bigint {
+    return mod(this.bytesToBigInt(hash), N);
+  }
+
+  private randomScalar(): bigint {
+    for (;;) {
+      const value = this.bytesToBigInt(
+        crypto.getRandomValues(new Uint8Array(32)),
+      );
+      if (isInRange(value)) {
+        return value;
+      }
+    }
+  }
+
+  private bytesToBigInt(bytes: Uint8Array): bigint {
+    let value = 0n;
+    for (const byte of bytes) {
+      value = (value << 8n) | BigInt(byte);
+    }
+    return value;
+  }
+}
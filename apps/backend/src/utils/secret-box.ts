@@ -0,0 +1,65 @@
+// サーバー秘密鍵による対称暗号化ユーティリティ（AES-GCM） - Web Crypto API使用
+// TOTPシークレットなど、照合時に平文が必要な値をDBに保存する際に使用する
+export class SecretBoxUtils {
+  private static readonly IV_BYTES = 12;
+  private secretKey: string;
+  private context: string;
+
+  constructor(secretKey: string, context: string) {
+    this.secretKey = secretKey;
+    this.context = context;
+  }
+
+  /**
+   * `iv.ciphertext`（いずれもbase64url）の形式で返す
+   */
+  async encrypt(plaintext: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(SecretBoxUtils.IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await this.deriveKey(),
+      new TextEncoder().encode(plaintext),
+    );
+
+    return `${this.base64urlEncode(iv)}.${this.base64urlEncode(new Uint8Array(ciphertext))}`;
+  }
+
+  async decrypt(payload: string): Promise<string> {
+    const [encodedIv, encodedCiphertext, ...rest] = payload.split(".");
+    if (!encodedIv || !encodedCiphertext || rest.length > 0) {
+      throw new Error("Invalid encrypted payload");
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: this.base64urlDecode(encodedIv) },
+      await this.deriveKey(),
+      this.base64urlDecode(encodedCiphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  // 用途ごとに異なる鍵となるよう、秘密鍵とコンテキストから導出する
+  private async deriveKey() {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(`${this.context}:${this.secretKey}`),
+    );
+    return crypto.subtle.importKey("raw", digest, { name: "AES-GCM" }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  }
+
+  private base64urlEncode(bytes: Uint8Array): string {
+    const base64 = btoa(String.fromCharCode(...bytes));
+    return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+  }
+
+  private base64urlDecode(str: string): Uint8Array {
+    let base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+    while (base64.length % 4) {
+      base64 += "=";
+    }
+    return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,83 @@
+// 用途別の署名付きトークンユーティリティ - Web Crypto API使用
+// アクセストークンとして流用されないよう、JWTとは別形式・用途ごとの署名コンテキストで発行する
+export type SignedTokenClaims<T> = T & {
+  exp: number; // UNIX秒
+};
+
+export class SignedTokenUtils<T extends object> {
+  private secretKey: string;
+  private context: string;
+
+  constructor(secretKey: string, context: string) {
+    this.secretKey = secretKey;
+    this.context = context;
+  }
+
+  async sign(claims: T, expiresIn: number): Promise<string> {
+    const payload: SignedTokenClaims<T> = {
+      ...claims,
+      exp: Math.floor(Date.now() / 1000) + expiresIn,
+    };
+    const encodedPayload = this.base64urlEncode(
+      new TextEncoder().encode(JSON.stringify(payload)),
+    );
+    const signature = await this.createSignature(encodedPayload);
+
+    return `${encodedPayload}.${signature}`;
+  }
+
+  async verify(token: string): Promise<SignedTokenClaims<T>> {
+    const [encodedPayload, signature, ...rest] = token.split(".");
+    if (!encodedPayload || !signature || rest.length > 0) {
+      throw new Error("Invalid token");
+    }
+
+    const expectedSignature = await this.createSignature(encodedPayload);
+    if (signature !== expectedSignature) {
+      throw new Error("Invalid token");
+    }
+
+    const claims: SignedTokenClaims<T> = JSON.parse(
+      this.base64urlDecode(encodedPayload),
+    );
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error("Token has expired");
+    }
+
+    return claims;
+  }
+
+  private async createSignature(data: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(this.secretKey),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      cryptoKey,
+      encoder.encode(`${this.context}.${data}`),
+    );
+    return this.base64urlEncode(new Uint8Array(signature));
+  }
+
+  private base64urlEncode(bytes: Uint8Array): string {
+    const base64 = btoa(String.fromCharCode(...bytes));
+    return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+  }
+
+  private base64urlDecode(str: string): string {
+    let base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+    while (base64.length % 4) {
+      base64 += "=";
+    }
+    const binary = atob(base64);
+    return new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+    );
+  }
+}
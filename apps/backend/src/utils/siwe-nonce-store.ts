@@ -0,0 +1,44 @@
+// SIWEのnonce管理 - KVに発行済みnonceを保存し、検証時に一度だけ消費する
+import { KVHelper, KVKeys } from "./workers-env";
+
+export class SiweNonceStore {
+  static readonly NONCE_TTL = 10 * 60; // 10分（KVのexpirationTtl下限60秒以上）
+  private static readonly NONCE_BYTES = 16;
+  private kvHelper: KVHelper;
+
+  constructor(kv?: KVNamespace) {
+    this.kvHelper = new KVHelper(kv);
+  }
+
+  /**
+   * EIP-4361の要件（8文字以上の英数字）を満たすnonceを発行する
+   */
+  async issue(): Promise<string> {
+    const nonce = Array.from(
+      crypto.getRandomValues(new Uint8Array(SiweNonceStore.NONCE_BYTES)),
+    )
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+    const stored = await this.kvHelper.put(
+      KVKeys.siweNonce(nonce),
+      { issuedAt: new Date().toISOString() },
+      { expirationTtl: SiweNonceStore.NONCE_TTL },
+    );
+    if (!stored) {
+      throw new Error("Failed to store nonce");
+    }
+    return nonce;
+  }
+
+  /**
+   * 未使用のnonceであればtrueを返し、再利用できないよう削除する
+   */
+  async consume(nonce: string): Promise<boolean> {
+    const key = KVKeys.siweNonce(nonce);
+    if (!(await this.kvHelper.exists(key))) {
+      return false;
+    }
+    return this.kvHelper.delete(key);
+  }
+}
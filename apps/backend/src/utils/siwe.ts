@@ -0,0 +1,162 @@
+// Sign-In With Ethereum（EIP-4361）メッセージの組み立て・解析
+export interface SiweMessage {
+  domain: string;
+  address: string; // EIP-55チェックサム付き
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+// ヘッダー・アドレス・ステートメント以降の「キー: 値」フィールド（順序固定）
+const FIELDS = [
+  ["uri", "URI"],
+  ["version", "Version"],
+  ["chainId", "Chain ID"],
+  ["nonce", "Nonce"],
+  ["issuedAt", "Issued At"],
+  ["expirationTime", "Expiration Time"],
+  ["notBefore", "Not Before"],
+  ["requestId", "Request ID"],
+] as const;
+
+const REQUIRED_FIELDS = new Set([
+  "uri",
+  "version",
+  "chainId",
+  "nonce",
+  "issuedAt",
+]);
+
+export class SiweUtils {
+  /**
+   * EIP-4361の形式でメッセージを組み立てる（ウォレットに署名させる文字列）
+   */
+  format(message: SiweMessage): string {
+    const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ""];
+    if (message.statement) {
+      lines.push(message.statement);
+    }
+    lines.push("");
+
+    for (const [key, label] of FIELDS) {
+      const value = message[key];
+      if (value !== undefined) {
+        lines.push(`${label}: ${value}`);
+      }
+    }
+
+    if (message.resources && message.resources.length > 0) {
+      lines.push("Resources:");
+      for (const resource of message.resources) {
+        lines.push(`- ${resource}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * メッセージを解析する。形式が不正な場合は例外を投げる
+   */
+  parse(text: string): SiweMessage {
+    const lines = text.split("\n");
+    const { domain, address, statement, index } = this.parsePreamble(lines);
+    const { values, resources } = this.parseFields(lines, index);
+
+    if (!this.hasValidValues(values)) {
+      throw new Error("Invalid SIWE message");
+    }
+
+    return {
+      domain,
+      address,
+      statement,
+      uri: values.uri,
+      version: "1",
+      chainId: Number(values.chainId),
+      nonce: values.nonce,
+      issuedAt: values.issuedAt,
+      expirationTime: values.expirationTime,
+      notBefore: values.notBefore,
+      requestId: values.requestId,
+      resources,
+    };
+  }
+
+  // ヘッダー行・アドレス・任意のステートメント（前後の空行を含む）
+  private parsePreamble(lines: string[]) {
+    const header = lines[0] ?? "";
+    const domain = header.slice(0, -HEADER_SUFFIX.length);
+    const address = lines[1] ?? "";
+    if (
+      !header.endsWith(HEADER_SUFFIX) ||
+      !domain ||
+      !/^0x[0-9a-fA-F]{40}$/.test(address) ||
+      lines[2] !== ""
+    ) {
+      throw new Error("Invalid SIWE message");
+    }
+
+    if (lines[3] === "") {
+      return { domain, address, statement: undefined, index: 4 };
+    }
+    if (lines[4] !== "") {
+      throw new Error("Invalid SIWE message");
+    }
+    return { domain, address, statement: lines[3], index: 5 };
+  }
+
+  // 「キー: 値」フィールドと任意のリソース一覧（メッセージ末尾まで）
+  private parseFields(lines: string[], start: number) {
+    let index = start;
+    const values: Record<string, string> = {};
+    for (const [key, label] of FIELDS) {
+      const line = lines[index];
+      if (line?.startsWith(`${label}: `)) {
+        values[key] = line.slice(label.length + 2);
+        index++;
+      } else if (REQUIRED_FIELDS.has(key)) {
+        throw new Error("Invalid SIWE message");
+      }
+    }
+
+    let resources: string[] | undefined;
+    if (lines[index] === "Resources:") {
+      index++;
+      resources = [];
+      while (lines[index]?.startsWith("- ")) {
+        resources.push(lines[index++].slice(2));
+      }
+    }
+
+    if (index !== lines.length) {
+      throw new Error("Invalid SIWE message");
+    }
+    return { values, resources };
+  }
+
+  private hasValidValues(values: Record<string, string>): boolean {
+    return (
+      values.version === "1" &&
+      /^\d+$/.test(values.chainId) &&
+      /^[a-zA-Z0-9]{8,}$/.test(values.nonce) &&
+      this.isTimestamp(values.issuedAt) &&
+      (values.expirationTime === undefined ||
+        this.isTimestamp(values.expirationTime)) &&
+      (values.notBefore === undefined || this.isTimestamp(values.notBefore))
+    );
+  }
+
+  private isTimestamp(value: string | undefined): boolean {
+    return value !== undefined && !Number.isNaN(Date.parse(value));
+  }
+}
@@ -0,0 +1,34 @@
+// アクセストークン失効リスト - KVにjtiを保存し、トークンの有効期限まで保持
+import { KVHelper, KVKeys } from "./workers-env";
+
+export class TokenDenylist {
+  private static readonly MIN_TTL_SECONDS = 60; // KVのexpirationTtl下限
+  private kvHelper: KVHelper;
+
+  constructor(kv?: KVNamespace) {
+    this.kvHelper = new KVHelper(kv);
+  }
+
+  /**
+   * トークンを失効させる（expはトークンの有効期限、UNIX秒）
+   */
+  async revoke(jti: string, exp: number): Promise<boolean> {
+    const remaining = exp - Math.floor(Date.now() / 1000);
+    if (remaining <= 0) {
+      // 既に期限切れのトークンは登録不要
+      return true;
+    }
+
+    return this.kvHelper.put(
+      KVKeys.revokedToken(jti),
+      { revokedAt: new Date().toISOString() },
+      {
+        expirationTtl: Math.max(remaining, TokenDenylist.MIN_TTL_SECONDS),
+      },
+    );
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return this.kvHelper.exists(KVKeys.revokedToken(jti));
+  }
+}
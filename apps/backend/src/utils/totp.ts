@@ -0,0 +1,131 @@
+// TOTP（RFC 6238）ユーティリティ - Web Crypto API使用
+// 一般的な認証アプリ互換のため HMAC-SHA1 / 6桁 / 30秒ステップ固定
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export class TotpUtils {
+  static readonly DIGITS = 6;
+  static readonly PERIOD = 30; // 秒
+  private static readonly SECRET_BYTES = 20; // 160ビット（RFC 4226推奨）
+  private static readonly WINDOW = 1; // 前後1ステップ分の時刻ずれを許容
+
+  /**
+   * Base32エンコード済みのランダムなシークレットを生成
+   */
+  generateSecret(): string {
+    const bytes = crypto.getRandomValues(
+      new Uint8Array(TotpUtils.SECRET_BYTES),
+    );
+    return this.base32Encode(bytes);
+  }
+
+  /**
+   * 認証アプリ登録用のotpauth URI（QRコードにエンコードして表示する）
+   */
+  provisioningUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: "SHA1",
+      digits: String(TotpUtils.DIGITS),
+      period: String(TotpUtils.PERIOD),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  timeStep(timestampMs: number = Date.now()): number {
+    return Math.floor(timestampMs / 1000 / TotpUtils.PERIOD);
+  }
+
+  async generate(secret: string, step: number): Promise<string> {
+    const counter = new Uint8Array(8);
+    new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      this.base32Decode(secret),
+      { name: "HMAC", hash: "SHA-1" },
+      false,
+      ["sign"],
+    );
+    const hmac = new Uint8Array(
+      await crypto.subtle.sign("HMAC", cryptoKey, counter),
+    );
+
+    // RFC 4226 の dynamic truncation
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** TotpUtils.DIGITS)
+      .toString()
+      .padStart(TotpUtils.DIGITS, "0");
+  }
+
+  /**
+   * コードが一致したタイムステップを返す（不一致ならnull）
+   * 再利用防止のため、呼び出し側で使用済みステップと比較すること
+   */
+  async verify(
+    secret: string,
+    code: string,
+    timestampMs: number = Date.now(),
+  ): Promise<number | null> {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const currentStep = this.timeStep(timestampMs);
+    for (
+      let step = currentStep - TotpUtils.WINDOW;
+      step <= currentStep + TotpUtils.WINDOW;
+      step++
+    ) {
+      if ((await this.generate(secret, step)) === code) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  private base32Encode(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 0x1f];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 0x1f];
+    }
+    return output;
+  }
+
+  private base32Decode(input: string): Uint8Array {
+    const normalized = input.toUpperCase().replace(/=+$/, "");
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of normalized) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error("Invalid base32 secret");
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return new Uint8Array(bytes);
+  }
+}
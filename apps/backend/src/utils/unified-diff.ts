@@ -0,0 +1,147 @@
+// 行単位の差分をunified diff形式で出力する（git diff / patch で扱える形式）
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string; // --- 行に表示する名前
+  newLabel?: string; // +++ 行に表示する名前
+  context?: number; // 変更行の前後に含める行数
+}
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+// 末尾の改行の有無は区別しない
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+/**
+ * 最長共通部分列で行の差分を求める
+ * 共通の先頭・末尾を除いてから計算するため、部分的な修正なら表は小さく済む
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const common = (lines: string[]) =>
+    lines.map((line): DiffOp => ({ type: " ", line }));
+
+  return [
+    ...common(a.slice(0, prefix)),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...common(a.slice(a.length - suffix)),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  // lcs[i * width + j] = a[i..] と b[j..] の最長共通部分列の長さ
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i++] });
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    ops.push({ type: "-", line: a[i++] });
+  }
+  while (j < b.length) {
+    ops.push({ type: "+", line: b[j++] });
+  }
+  return ops;
+}
+
+// 前後の文脈が重なる変更をまとめ、ハンクごとの操作範囲 [start, end) を返す
+function groupHunks(ops: DiffOp[], context: number): [number, number][] {
+  const hunks: [number, number][] = [];
+  ops.forEach((op, index) => {
+    if (op.type === " ") {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+  return hunks;
+}
+
+// 範囲の行数が0の場合、開始行は直前の行番号で表す
+function formatRange(start: number, length: number): string {
+  return `${length === 0 ? start - 1 : start},${length}`;
+}
+
+/**
+ * 2つのテキストのunified diffを返す。差分がなければ空文字列
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  const { oldLabel = "a", newLabel = "b", context = 3 } = options;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks = groupHunks(ops, context);
+  if (hunks.length === 0) {
+    return "";
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  // 各操作の直前までの旧・新の行数
+  let oldLine = 0;
+  let newLine = 0;
+  let position = 0;
+  for (const [start, end] of hunks) {
+    for (; position < start; position++) {
+      oldLine++;
+      newLine++;
+    }
+
+    const lines = ops.slice(start, end);
+    const oldLength = lines.filter((op) => op.type !== "+").length;
+    const newLength = lines.filter((op) => op.type !== "-").length;
+    output.push(
+      `@@ -${formatRange(oldLine + 1, oldLength)} +${formatRange(newLine + 1, newLength)} @@`,
+      ...lines.map((op) => `${op.type}${op.line}`),
+    );
+
+    oldLine += oldLength;
+    newLine += newLength;
+    position = end;
+  }
+  return `${output.join("\n")}\n`;
+}
@@ -103,11 +103,26 @@ export const KVKeys = {
 
   routeMetadata: (userId: string, apiId: string) => `meta:${userId}:${apiId}`,
 
+  // 公開中のエンドポイント（マウント先のパス）から生成APIを引く索引
+  endpointIndex: (endpoint: string) => `endpoint:${endpoint}`,
+
+  // 進行中のカナリアリリース（APIごとに1つ）
+  canaryRelease: (userId: string, apiId: string) =>
+    `canary:${userId}:${apiId}`,
+
+  // カナリアリリース中に各isolateが保存するバージョンごとの累計（末尾にisolateのIDを付ける）
+  canaryMetrics: (userId: string, apiId: string, startedAt: string) =>
+    `canary-metrics:${userId}:${apiId}:${startedAt}:`,
+
   deploymentInfo: (deploymentId: string) => `deploy:${deploymentId}`,
 
   systemHealth: () => "system:health",
 
   routeStats: (userId: string, apiId: string) => `stats:${userId}:${apiId}`,
+
+  revokedToken: (jti: string) => `revoked:${jti}`,
+
+  siweNonce: (nonce: string) => `siwe:nonce:${nonce}`,
 } as const;
 
 // KV操作のヘルパー
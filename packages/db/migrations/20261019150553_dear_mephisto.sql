@@ -0,0 +1,2 @@
+ALTER TABLE "api_keys" ADD COLUMN "scopes" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "api_keys" SET "scopes" = '["generator:read","generator:create","generator:deploy","generator:delete","profile:read","profile:write","billing:read","analytics:read"]'::jsonb;
@@ -0,0 +1,56 @@
+CREATE TABLE IF NOT EXISTS "organization_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(20) DEFAULT 'member' NOT NULL,
+	"token_hash" varchar(255) NOT NULL,
+	"invited_by" uuid,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "organization_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(20) DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" DROP CONSTRAINT "users_organization_id_organizations_id_fk";
+--> statement-breakpoint
+DROP INDEX IF EXISTS "users_organization_idx";--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_invitations" ADD CONSTRAINT "organization_invitations_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_invitations" ADD CONSTRAINT "organization_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "organization_invitations_organization_idx" ON "organization_invitations" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "organization_invitations_token_hash_idx" ON "organization_invitations" USING btree ("token_hash");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "organization_members_organization_user_idx" ON "organization_members" USING btree ("organization_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "organization_members_user_idx" ON "organization_members" USING btree ("user_id");--> statement-breakpoint
+INSERT INTO "organization_members" ("organization_id", "user_id", "role", "created_at", "updated_at")
+SELECT "organization_id", "id", CASE WHEN row_number() OVER (PARTITION BY "organization_id" ORDER BY "created_at") = 1 THEN 'owner' ELSE 'member' END, "created_at", "created_at"
+FROM "users" WHERE "organization_id" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "organization_id";
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "generated_apis_organization_idx" ON "generated_apis" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "wallet_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"address" varchar(42) NOT NULL,
+	"chain_id" integer NOT NULL,
+	"last_used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_links" ADD CONSTRAINT "wallet_links_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "wallet_links_address_idx" ON "wallet_links" USING btree ("address");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_links_user_idx" ON "wallet_links" USING btree ("user_id");
\ No newline at end of file
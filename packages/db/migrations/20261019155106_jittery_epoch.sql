@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "login_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"method" varchar(20) NOT NULL,
+	"success" boolean NOT NULL,
+	"failure_reason" varchar(50),
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"new_ip" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "locked_until" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "login_history" ADD CONSTRAINT "login_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "login_history_user_created_idx" ON "login_history" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "login_history_user_ip_idx" ON "login_history" USING btree ("user_id","ip_address");
\ No newline at end of file
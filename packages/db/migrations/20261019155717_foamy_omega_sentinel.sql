@@ -0,0 +1 @@
+ALTER TABLE "organizations" ADD COLUMN "llm_provider" varchar(30);
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS "generated_api_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"base_revision" integer,
+	"source" varchar(20) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text NOT NULL,
+	"endpoint" varchar(500) NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"price" numeric(18, 6) NOT NULL,
+	"generated_code" text NOT NULL,
+	"documentation" text NOT NULL,
+	"prompt" text,
+	"summary" text,
+	"diff" text,
+	"metadata" jsonb,
+	"author_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_apis" ADD COLUMN "current_revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_revisions" ADD CONSTRAINT "generated_api_revisions_api_id_generated_apis_id_fk" FOREIGN KEY ("api_id") REFERENCES "public"."generated_apis"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_revisions" ADD CONSTRAINT "generated_api_revisions_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "generated_api_revisions_api_revision_idx" ON "generated_api_revisions" USING btree ("api_id","revision");
\ No newline at end of file
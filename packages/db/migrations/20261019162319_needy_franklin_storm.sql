@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS "generated_api_test_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"passed" boolean NOT NULL,
+	"total" integer NOT NULL,
+	"failed" integer NOT NULL,
+	"results" jsonb NOT NULL,
+	"overridden" boolean DEFAULT false NOT NULL,
+	"triggered_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_test_runs" ADD CONSTRAINT "generated_api_test_runs_api_id_generated_apis_id_fk" FOREIGN KEY ("api_id") REFERENCES "public"."generated_apis"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_test_runs" ADD CONSTRAINT "generated_api_test_runs_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "generated_api_test_runs_api_idx" ON "generated_api_test_runs" USING btree ("api_id","created_at");
\ No newline at end of file
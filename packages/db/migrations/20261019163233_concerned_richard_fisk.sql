@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "generated_api_evaluations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"revision" integer NOT NULL,
+	"rating" integer NOT NULL,
+	"is_working" boolean NOT NULL,
+	"feedback" text,
+	"improvement_suggestions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_apis" ADD COLUMN "quality_score" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_evaluations" ADD CONSTRAINT "generated_api_evaluations_api_id_generated_apis_id_fk" FOREIGN KEY ("api_id") REFERENCES "public"."generated_apis"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_evaluations" ADD CONSTRAINT "generated_api_evaluations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "generated_api_evaluations_api_user_idx" ON "generated_api_evaluations" USING btree ("api_id","user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "generated_apis_search_idx" ON "generated_apis" USING gin ((setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'B') || setweight(to_tsvector('simple', coalesce("documentation", '')), 'C') || setweight(to_tsvector('simple', coalesce("generated_code", '')), 'D')));
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "generated_api_endpoints" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_id" uuid NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(500) NOT NULL,
+	"price" numeric(18, 6) NOT NULL,
+	"description" text,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generated_api_endpoints" ADD CONSTRAINT "generated_api_endpoints_api_id_generated_apis_id_fk" FOREIGN KEY ("api_id") REFERENCES "public"."generated_apis"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "generated_api_endpoints_api_route_idx" ON "generated_api_endpoints" USING btree ("api_id","method","path");
\ No newline at end of file
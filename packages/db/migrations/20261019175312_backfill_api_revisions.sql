@@ -0,0 +1,35 @@
+-- Backfill the revision history for APIs created before generated_api_revisions existed.
+-- The current code of each API becomes its current revision (revision 1 for existing APIs).
+INSERT INTO "generated_api_revisions" ("api_id", "revision", "source", "name", "description", "endpoint", "method", "price", "generated_code", "documentation", "metadata", "author_id", "created_at")
+SELECT "api"."id", "api"."current_revision", 'generated', "api"."name", "api"."description", "api"."endpoint", "api"."method", "api"."price", "api"."generated_code", "api"."documentation", "api"."metadata" - 'revisions' - 'currentRevision', "api"."user_id", "api"."created_at"
+FROM "generated_apis" AS "api"
+WHERE NOT EXISTS (
+	SELECT 1 FROM "generated_api_revisions" AS "existing"
+	WHERE "existing"."api_id" = "api"."id" AND "existing"."revision" = "api"."current_revision"
+);
+--> statement-breakpoint
+-- Move improvement revisions stored in generated_apis.metadata->'revisions' into the revision table.
+INSERT INTO "generated_api_revisions" ("api_id", "revision", "base_revision", "source", "name", "description", "endpoint", "method", "price", "generated_code", "documentation", "prompt", "summary", "metadata", "author_id", "created_at")
+SELECT
+	"api"."id",
+	("stored"->>'revision')::integer,
+	("stored"->>'baseRevision')::integer,
+	'improved',
+	"api"."name",
+	"api"."description",
+	"api"."endpoint",
+	"api"."method",
+	"api"."price",
+	"stored"->>'generatedCode',
+	"stored"->>'documentation',
+	"stored"->>'improvementPrompt',
+	"stored"->>'summary',
+	jsonb_strip_nulls(jsonb_build_object('focusAreas', "stored"->'focusAreas', 'llmProvider', "stored"->'llmProvider', 'llmModel', "stored"->'llmModel')),
+	(SELECT "users"."id" FROM "users" WHERE "users"."id"::text = "stored"->>'createdBy'),
+	COALESCE(("stored"->>'createdAt')::timestamp, "api"."created_at")
+FROM "generated_apis" AS "api"
+CROSS JOIN LATERAL jsonb_array_elements("api"."metadata"->'revisions') AS "stored"
+WHERE jsonb_typeof("api"."metadata"->'revisions') = 'array'
+ON CONFLICT ("api_id", "revision") DO NOTHING;
+--> statement-breakpoint
+UPDATE "generated_apis" SET "metadata" = "metadata" - 'revisions' - 'currentRevision' WHERE "metadata" ? 'revisions' OR "metadata" ? 'currentRevision';
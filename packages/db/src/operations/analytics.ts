@@ -4,6 +4,7 @@ import {
   billingRecords,
   generatedApis,
   learningProgress,
+  organizationMembers,
   organizations,
   tutorials,
   users,
@@ -229,7 +230,11 @@ export class DatabaseAnalytics {
             ),
         })
         .from(organizations)
-        .leftJoin(users, eq(organizations.id, users.organizationId))
+        .leftJoin(
+          organizationMembers,
+          eq(organizations.id, organizationMembers.organizationId),
+        )
+        .leftJoin(users, eq(organizationMembers.userId, users.id))
         .leftJoin(generatedApis, eq(users.id, generatedApis.userId))
         .leftJoin(billingRecords, eq(users.id, billingRecords.userId))
         .groupBy(organizations.id, organizations.name, organizations.domain);
@@ -0,0 +1,63 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import {
+  type GeneratedApiEndpointDB,
+  generatedApiEndpoints,
+  type NewGeneratedApiEndpointDB,
+} from "../../schema";
+import type { Database } from "../../types";
+import { type Result, tryAsync } from "../../utils/result";
+
+// =============================================================================
+// GENERATED API ENDPOINT OPERATIONS - 複数ルートを持つ生成APIの各ルート
+// =============================================================================
+
+export class GeneratedApiEndpointOperations {
+  constructor(private db: Database) {}
+
+  /**
+   * APIのルートをまとめて置き換える（配列の順に並び順を振る。空配列の場合は削除のみ）
+   */
+  async replaceForApi(
+    apiId: string,
+    endpoints: Omit<NewGeneratedApiEndpointDB, 'apiId' | 'position'>[],
+  ): Promise<Result<GeneratedApiEndpointDB[]>> {
+    return tryAsync(async () => {
+      return await this.db.transaction(async (tx) => {
+        await tx.delete(generatedApiEndpoints).where(eq(generatedApiEndpoints.apiId, apiId));
+        if (endpoints.length === 0) {
+          return [];
+        }
+        return await tx
+          .insert(generatedApiEndpoints)
+          .values(endpoints.map((endpoint, position) => ({ ...endpoint, apiId, position })))
+          .returning();
+      });
+    }, { operation: 'replace_generated_api_endpoints', apiId, count: endpoints.length });
+  }
+
+  /**
+   * 並び順に取得
+   */
+  async listByApi(apiId: string): Promise<Result<GeneratedApiEndpointDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(generatedApiEndpoints)
+        .where(eq(generatedApiEndpoints.apiId, apiId))
+        .orderBy(asc(generatedApiEndpoints.position));
+    }, { operation: 'list_generated_api_endpoints', apiId });
+  }
+
+  async listByApis(apiIds: string[]): Promise<Result<GeneratedApiEndpointDB[]>> {
+    return tryAsync(async () => {
+      if (apiIds.length === 0) {
+        return [];
+      }
+      return await this.db
+        .select()
+        .from(generatedApiEndpoints)
+        .where(inArray(generatedApiEndpoints.apiId, apiIds))
+        .orderBy(asc(generatedApiEndpoints.apiId), asc(generatedApiEndpoints.position));
+    }, { operation: 'list_generated_api_endpoints_by_apis', count: apiIds.length });
+  }
+}
@@ -0,0 +1,151 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  type GeneratedApiEvaluationDB,
+  generatedApiEvaluations,
+  generatedApis,
+  type NewGeneratedApiEvaluationDB,
+} from "../../schema";
+import type { Database } from "../../types";
+import type {
+  ApiEvaluationSummary,
+  ApiQualityStats,
+} from "../../types/metrics";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// 品質統計の集計軸（generated_apis.metadata のキー）
+export type ApiQualityDimension = 'llmProvider' | 'category';
+
+// =============================================================================
+// GENERATED API EVALUATION OPERATIONS - 生成APIの評価
+// =============================================================================
+
+export class GeneratedApiEvaluationOperations {
+  constructor(private db: Database) {}
+
+  /**
+   * 評価を保存（同じユーザーの評価があれば上書き）
+   */
+  async upsert(data: NewGeneratedApiEvaluationDB): Promise<Result<GeneratedApiEvaluationDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['apiId', 'userId', 'revision', 'rating']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db
+        .insert(generatedApiEvaluations)
+        .values(data)
+        .onConflictDoUpdate({
+          target: [generatedApiEvaluations.apiId, generatedApiEvaluations.userId],
+          set: {
+            revision: data.revision,
+            rating: data.rating,
+            isWorking: data.isWorking,
+            feedback: data.feedback ?? null,
+            improvementSuggestions: data.improvementSuggestions ?? [],
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      const firstResult = getFirstResult(result, "Failed to save generated API evaluation");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'upsert_generated_api_evaluation', apiId: data.apiId, userId: data.userId });
+  }
+
+  /**
+   * 新しい順に取得
+   */
+  async listByApi(apiId: string, limit = 50): Promise<Result<GeneratedApiEvaluationDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(generatedApiEvaluations)
+        .where(eq(generatedApiEvaluations.apiId, apiId))
+        .orderBy(desc(generatedApiEvaluations.updatedAt))
+        .limit(limit);
+    }, { operation: 'list_generated_api_evaluations', apiId, limit });
+  }
+
+  /**
+   * 削除した場合はtrue
+   */
+  async delete(apiId: string, userId: string): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(generatedApiEvaluations)
+        .where(
+          and(
+            eq(generatedApiEvaluations.apiId, apiId),
+            eq(generatedApiEvaluations.userId, userId),
+          ),
+        )
+        .returning({ id: generatedApiEvaluations.id });
+      return result.length > 0;
+    }, { operation: 'delete_generated_api_evaluation', apiId, userId });
+  }
+
+  async summarizeByApi(apiId: string): Promise<Result<ApiEvaluationSummary>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select({
+          evaluationCount: sql<number>`count(*)::int`.as("evaluation_count"),
+          averageRating:
+            sql<number>`coalesce(avg(${generatedApiEvaluations.rating}), 0)::float`.as(
+              "average_rating",
+            ),
+          workingRate:
+            sql<number>`coalesce(avg(case when ${generatedApiEvaluations.isWorking} then 1 else 0 end), 0)::float`.as(
+              "working_rate",
+            ),
+        })
+        .from(generatedApiEvaluations)
+        .where(eq(generatedApiEvaluations.apiId, apiId));
+      const firstResult = getFirstResult(result, "Failed to summarize generated API evaluations");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'summarize_generated_api_evaluations', apiId });
+  }
+
+  /**
+   * 生成時に記録したLLMプロバイダー・カテゴリごとの評価集計（評価の多い順）
+   */
+  async getQualityStats(dimension: ApiQualityDimension): Promise<Result<ApiQualityStats[]>> {
+    return tryAsync(async () => {
+      const key = sql<string | null>`${generatedApis.metadata} ->> ${dimension}`;
+      return await this.db
+        .select({
+          key: key.as("key"),
+          apiCount: sql<number>`count(distinct ${generatedApiEvaluations.apiId})::int`.as(
+            "api_count",
+          ),
+          evaluationCount: sql<number>`count(*)::int`.as("evaluation_count"),
+          averageRating: sql<number>`avg(${generatedApiEvaluations.rating})::float`.as(
+            "average_rating",
+          ),
+          workingRate:
+            sql<number>`avg(case when ${generatedApiEvaluations.isWorking} then 1 else 0 end)::float`.as(
+              "working_rate",
+            ),
+        })
+        .from(generatedApiEvaluations)
+        .innerJoin(generatedApis, eq(generatedApiEvaluations.apiId, generatedApis.id))
+        .groupBy(key)
+        .orderBy(desc(sql`count(*)`));
+    }, { operation: 'get_generated_api_quality_stats', dimension });
+  }
+}
@@ -1,8 +1,9 @@
-import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { type AnyColumn, and, desc, eq, gte, lte, or, type SQL, sql } from "drizzle-orm";
 import {
   type GeneratedApiDB,
   type NewGeneratedApiDB,
   apiUsage,
+  generatedApiSearchVector,
   generatedApis,
 } from "../../schema";
 import type { Database } from "../../types";
@@ -17,6 +18,66 @@ import {
   validateRequired,
 } from "../../utils/result";
 
+// 全文検索の条件（queryは websearch_to_tsquery の構文）
+export interface GeneratedApiSearchFilters {
+  query?: string;
+  // 作成者本人のAPIと、指定した組織のAPIのみを対象にする
+  visibleTo: { userId: string; organizationId?: string | null };
+  llmProvider?: string;
+  category?: string;
+  status?: string;
+  minQualityScore?: number;
+  dateFrom?: Date;
+  dateTo?: Date;
+  limit: number;
+  offset: number;
+}
+
+// 一致箇所の前後に入る区切り文字（エスケープ前の本文と区別するため制御文字を使う）
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+export type GeneratedApiSearchHit = Pick<
+  GeneratedApiDB,
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'endpoint'
+  | 'method'
+  | 'price'
+  | 'currency'
+  | 'status'
+  | 'qualityScore'
+  | 'currentRevision'
+  | 'userId'
+  | 'organizationId'
+  | 'metadata'
+  | 'createdAt'
+  | 'updatedAt'
+> & {
+  rank: number;
+  // 一致箇所の抜粋（キーワード検索時のみ）
+  snippets: {
+    description: string;
+    documentation: string;
+    code: string;
+  } | null;
+};
+
+export interface SearchFacetCount {
+  value: string | null;
+  count: number;
+}
+
+export interface GeneratedApiSearchPage {
+  items: GeneratedApiSearchHit[];
+  total: number;
+  facets: {
+    category: SearchFacetCount[];
+    status: SearchFacetCount[];
+  };
+}
+
 // =============================================================================
 // GENERATED API OPERATIONS - 生成API管理
 // =============================================================================
@@ -77,6 +138,18 @@ export class GeneratedApiOperations {
     }, { operation: 'find_generated_apis_by_user', userId, limit });
   }
 
+  async findByOrganization(organizationId: string, limit?: number): Promise<Result<GeneratedApiDB[]>> {
+    return tryAsync(async () => {
+      const query = this.db
+        .select()
+        .from(generatedApis)
+        .where(eq(generatedApis.organizationId, organizationId))
+        .orderBy(desc(generatedApis.createdAt));
+
+      return limit ? await query.limit(limit) : await query;
+    }, { operation: 'find_generated_apis_by_organization', organizationId, limit });
+  }
+
   async findByStatus(
     status: string,
     limit?: number,
@@ -130,19 +203,114 @@ export class GeneratedApiOperations {
     }, { operation: 'delete_generated_api', id });
   }
 
-  async search(query: string, limit?: number): Promise<Result<GeneratedApiDB[]>> {
+  /**
+   * 名前・説明・ドキュメント・コードの全文検索
+   * キーワードがあれば関連度順、なければ新しい順。ファセットは同じ条件で集計する
+   */
+  async search(filters: GeneratedApiSearchFilters): Promise<Result<GeneratedApiSearchPage>> {
     return tryAsync(async () => {
-      const searchQuery = `%${query}%`;
-      const searchDbQuery = this.db
-        .select()
-        .from(generatedApis)
-        .where(
-          sql`(${generatedApis.name} ilike ${searchQuery} or ${generatedApis.description} ilike ${searchQuery})`,
-        )
-        .orderBy(desc(generatedApis.createdAt));
+      const query = filters.query?.trim();
+      const tsQuery = query ? sql`websearch_to_tsquery('simple', ${query})` : null;
+      const vector = generatedApiSearchVector(generatedApis);
+      const where = and(...this.searchConditions(filters, tsQuery, vector));
+
+      const category = sql<string | null>`${generatedApis.metadata} ->> 'category'`;
+      const facet = (value: SQL) =>
+        this.db
+          .select({
+            value: sql<string | null>`${value}`.as("value"),
+            count: sql<number>`count(*)::int`.as("count"),
+          })
+          .from(generatedApis)
+          .where(where)
+          .groupBy(value)
+          .orderBy(desc(sql`count(*)`));
+
+      const [items, totalResult, categoryFacet, statusFacet] = await Promise.all([
+        this.db
+          .select({
+            id: generatedApis.id,
+            name: generatedApis.name,
+            description: generatedApis.description,
+            endpoint: generatedApis.endpoint,
+            method: generatedApis.method,
+            price: generatedApis.price,
+            currency: generatedApis.currency,
+            status: generatedApis.status,
+            qualityScore: generatedApis.qualityScore,
+            currentRevision: generatedApis.currentRevision,
+            userId: generatedApis.userId,
+            organizationId: generatedApis.organizationId,
+            metadata: generatedApis.metadata,
+            createdAt: generatedApis.createdAt,
+            updatedAt: generatedApis.updatedAt,
+            rank: tsQuery
+              ? sql<number>`ts_rank(${vector}, ${tsQuery})::float`
+              : sql<number>`0::float`,
+            snippets: tsQuery
+              ? sql<GeneratedApiSearchHit['snippets']>`json_build_object(
+                  'description', ${this.headline(generatedApis.description, tsQuery, 'MaxFragments=1, MaxWords=30, MinWords=10')},
+                  'documentation', ${this.headline(generatedApis.documentation, tsQuery, 'MaxFragments=2, MaxWords=20, MinWords=5')},
+                  'code', ${this.headline(generatedApis.generatedCode, tsQuery, 'MaxFragments=1, MaxWords=15, MinWords=5')}
+                )`
+              : sql<GeneratedApiSearchHit['snippets']>`null`,
+          })
+          .from(generatedApis)
+          .where(where)
+          .orderBy(
+            ...(tsQuery ? [desc(sql`ts_rank(${vector}, ${tsQuery})`)] : []),
+            desc(generatedApis.createdAt),
+          )
+          .limit(filters.limit)
+          .offset(filters.offset),
+        this.db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(generatedApis)
+          .where(where),
+        facet(category),
+        facet(sql`${generatedApis.status}`),
+      ]);
+
+      return {
+        items,
+        total: totalResult[0]?.count ?? 0,
+        facets: { category: categoryFacet, status: statusFacet },
+      };
+    }, { operation: 'search_generated_apis', query: filters.query, limit: filters.limit });
+  }
+
+  private searchConditions(
+    filters: GeneratedApiSearchFilters,
+    tsQuery: SQL | null,
+    vector: SQL,
+  ): (SQL | undefined)[] {
+    const { visibleTo } = filters;
+    return [
+      visibleTo.organizationId
+        ? or(
+            eq(generatedApis.userId, visibleTo.userId),
+            eq(generatedApis.organizationId, visibleTo.organizationId),
+          )
+        : eq(generatedApis.userId, visibleTo.userId),
+      tsQuery ? sql`${vector} @@ ${tsQuery}` : undefined,
+      filters.llmProvider
+        ? sql`${generatedApis.metadata} ->> 'llmProvider' = ${filters.llmProvider}`
+        : undefined,
+      filters.category
+        ? sql`${generatedApis.metadata} ->> 'category' = ${filters.category}`
+        : undefined,
+      filters.status ? eq(generatedApis.status, filters.status) : undefined,
+      filters.minQualityScore !== undefined
+        ? gte(generatedApis.qualityScore, filters.minQualityScore)
+        : undefined,
+      filters.dateFrom ? gte(generatedApis.createdAt, filters.dateFrom) : undefined,
+      filters.dateTo ? lte(generatedApis.createdAt, filters.dateTo) : undefined,
+    ];
+  }
 
-      return limit ? await searchDbQuery.limit(limit) : await searchDbQuery;
-    }, { operation: 'search_generated_apis', query, limit });
+  private headline(column: AnyColumn, tsQuery: SQL, options: string): SQL {
+    const selectors = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, ${options}`;
+    return sql`ts_headline('simple', ${column}, ${tsQuery}, ${selectors})`;
   }
 
   async getApiMetrics(apiId: string, days: number = 30): Promise<Result<ApiMetrics[]>> {
@@ -0,0 +1,89 @@
+import { and, desc, eq } from "drizzle-orm";
+import {
+  type GeneratedApiRevisionDB,
+  generatedApiRevisions,
+  type NewGeneratedApiRevisionDB,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// GENERATED API REVISION OPERATIONS - 生成APIのリビジョン履歴
+// =============================================================================
+
+export class GeneratedApiRevisionOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewGeneratedApiRevisionDB): Promise<Result<GeneratedApiRevisionDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['apiId', 'revision', 'source', 'generatedCode']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db.insert(generatedApiRevisions).values(data).returning();
+      const firstResult = getFirstResult(result, "Failed to create generated API revision");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_generated_api_revision', apiId: data.apiId, revision: data.revision });
+  }
+
+  /**
+   * 新しいリビジョン順に取得
+   */
+  async listByApi(apiId: string, limit?: number): Promise<Result<GeneratedApiRevisionDB[]>> {
+    return tryAsync(async () => {
+      const query = this.db
+        .select()
+        .from(generatedApiRevisions)
+        .where(eq(generatedApiRevisions.apiId, apiId))
+        .orderBy(desc(generatedApiRevisions.revision));
+
+      return limit ? await query.limit(limit) : await query;
+    }, { operation: 'list_generated_api_revisions', apiId, limit });
+  }
+
+  async findByRevision(
+    apiId: string,
+    revision: number,
+  ): Promise<Result<GeneratedApiRevisionDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(generatedApiRevisions)
+        .where(
+          and(
+            eq(generatedApiRevisions.apiId, apiId),
+            eq(generatedApiRevisions.revision, revision),
+          ),
+        )
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_generated_api_revision', apiId, revision });
+  }
+
+  async findLatest(apiId: string): Promise<Result<GeneratedApiRevisionDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(generatedApiRevisions)
+        .where(eq(generatedApiRevisions.apiId, apiId))
+        .orderBy(desc(generatedApiRevisions.revision))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_latest_generated_api_revision', apiId });
+  }
+}
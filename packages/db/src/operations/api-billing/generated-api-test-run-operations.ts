@@ -0,0 +1,69 @@
+import { desc, eq } from "drizzle-orm";
+import {
+  type GeneratedApiTestRunDB,
+  generatedApiTestRuns,
+  type NewGeneratedApiTestRunDB,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// GENERATED API TEST RUN OPERATIONS - 生成テストの実行結果
+// =============================================================================
+
+export class GeneratedApiTestRunOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewGeneratedApiTestRunDB): Promise<Result<GeneratedApiTestRunDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['apiId', 'revision', 'results']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db.insert(generatedApiTestRuns).values(data).returning();
+      const firstResult = getFirstResult(result, "Failed to record generated API test run");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_generated_api_test_run', apiId: data.apiId });
+  }
+
+  /**
+   * 新しい順に取得
+   */
+  async listByApi(apiId: string, limit = 20): Promise<Result<GeneratedApiTestRunDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(generatedApiTestRuns)
+        .where(eq(generatedApiTestRuns.apiId, apiId))
+        .orderBy(desc(generatedApiTestRuns.createdAt))
+        .limit(limit);
+    }, { operation: 'list_generated_api_test_runs', apiId, limit });
+  }
+
+  async findLatest(apiId: string): Promise<Result<GeneratedApiTestRunDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(generatedApiTestRuns)
+        .where(eq(generatedApiTestRuns.apiId, apiId))
+        .orderBy(desc(generatedApiTestRuns.createdAt))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_latest_generated_api_test_run', apiId });
+  }
+}
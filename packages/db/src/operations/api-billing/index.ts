@@ -2,7 +2,23 @@
 // API & BILLING DOMAIN EXPORTS
 // =============================================================================
 
-export { GeneratedApiOperations } from "./generated-api-operations";
+export {
+  type GeneratedApiSearchFilters,
+  type GeneratedApiSearchHit,
+  type GeneratedApiSearchPage,
+  GeneratedApiOperations,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  type SearchFacetCount,
+} from "./generated-api-operations";
+export { GeneratedApiEndpointOperations } from "./generated-api-endpoint-operations";
+export { GeneratedApiRevisionOperations } from "./generated-api-revision-operations";
+export {
+  type ApiQualityDimension,
+  GeneratedApiEvaluationOperations,
+} from "./generated-api-evaluation-operations";
+export { GeneratedApiTestRunOperations } from "./generated-api-test-run-operations";
+export { PromptTemplateOperations } from "./prompt-template-operations";
 export { PaymentRequestOperations } from "./payment-request-operations";
 export { BillingRecordOperations } from "./billing-record-operations";
 export { ApiUsageOperations } from "./api-usage-operations";
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import {
+  type NewPromptTemplateDB,
+  type PromptTemplateDB,
+  promptTemplates,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// PROMPT TEMPLATE OPERATIONS - 組織のAPI生成テンプレート
+// =============================================================================
+
+export class PromptTemplateOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewPromptTemplateDB): Promise<Result<PromptTemplateDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['organizationId', 'name', 'template', 'category']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db.insert(promptTemplates).values(data).returning();
+      const firstResult = getFirstResult(result, "Failed to create prompt template");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_prompt_template', organizationId: data.organizationId, name: data.name });
+  }
+
+  async findById(id: string): Promise<Result<PromptTemplateDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(promptTemplates)
+        .where(eq(promptTemplates.id, id))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_prompt_template_by_id', id });
+  }
+
+  async findByName(organizationId: string, name: string): Promise<Result<PromptTemplateDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(promptTemplates)
+        .where(
+          and(
+            eq(promptTemplates.organizationId, organizationId),
+            eq(promptTemplates.name, name),
+          ),
+        )
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_prompt_template_by_name', organizationId, name });
+  }
+
+  /**
+   * 名前順に取得
+   */
+  async listByOrganization(organizationId: string): Promise<Result<PromptTemplateDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(promptTemplates)
+        .where(eq(promptTemplates.organizationId, organizationId))
+        .orderBy(asc(promptTemplates.name));
+    }, { operation: 'list_prompt_templates', organizationId });
+  }
+
+  async update(id: string, data: Partial<NewPromptTemplateDB>): Promise<Result<PromptTemplateDB>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(promptTemplates)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      const firstResult = getFirstResult(result, `Prompt template with id ${id} not found`);
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'update_prompt_template', id });
+  }
+
+  /**
+   * 削除した場合はtrue
+   */
+  async delete(id: string): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(promptTemplates)
+        .where(eq(promptTemplates.id, id))
+        .returning({ id: promptTemplates.id });
+      return result.length > 0;
+    }, { operation: 'delete_prompt_template', id });
+  }
+
+  /**
+   * 利用回数を1増やす（同時に使われても取りこぼさないようにSQL側で加算する）
+   */
+  async incrementUsage(id: string): Promise<Result<PromptTemplateDB>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(promptTemplates)
+        .set({
+          usageCount: sql`${promptTemplates.usageCount} + 1`,
+          lastUsedAt: new Date(),
+        })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      const firstResult = getFirstResult(result, `Prompt template with id ${id} not found`);
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'increment_prompt_template_usage', id });
+  }
+}
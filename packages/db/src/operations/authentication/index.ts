@@ -4,4 +4,16 @@
 
 export { UserOperations } from "./user-operations";
 export { OrganizationOperations } from "./organization-operations";
-export { ApiKeyOperations } from "./api-key-operations";
\ No newline at end of file
+export {
+  OrganizationMemberOperations,
+  type OrganizationMemberWithUser,
+  type UserOrganizationMembership,
+} from "./organization-member-operations";
+export { OrganizationInvitationOperations } from "./organization-invitation-operations";
+export { ApiKeyOperations } from "./api-key-operations";
+export { SessionOperations } from "./session-operations";
+export { PasswordResetTokenOperations } from "./password-reset-token-operations";
+export { TwoFactorCredentialOperations } from "./two-factor-credential-operations";
+export { TwoFactorRecoveryCodeOperations } from "./two-factor-recovery-code-operations";
+export { WalletLinkOperations } from "./wallet-link-operations";
+export { LoginHistoryOperations } from "./login-history-operations";
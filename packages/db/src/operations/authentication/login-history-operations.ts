@@ -0,0 +1,90 @@
+import { and, desc, eq } from "drizzle-orm";
+import {
+  type LoginHistoryDB,
+  loginHistory,
+  type NewLoginHistoryDB,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// LOGIN HISTORY OPERATIONS - ログイン履歴管理
+// =============================================================================
+
+export class LoginHistoryOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewLoginHistoryDB): Promise<Result<LoginHistoryDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['userId', 'method', 'success']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db.insert(loginHistory).values(data).returning();
+      const firstResult = getFirstResult(result, "Failed to record login history");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_login_history', userId: data.userId });
+  }
+
+  /**
+   * 新しい順に取得
+   */
+  async listByUser(
+    userId: string,
+    limit = 20,
+  ): Promise<Result<LoginHistoryDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(loginHistory)
+        .where(eq(loginHistory.userId, userId))
+        .orderBy(desc(loginHistory.createdAt))
+        .limit(limit);
+    }, { operation: 'list_login_history_by_user', userId, limit });
+  }
+
+  async hasSuccessfulLogin(userId: string): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select({ id: loginHistory.id })
+        .from(loginHistory)
+        .where(and(eq(loginHistory.userId, userId), eq(loginHistory.success, true)))
+        .limit(1);
+      return result.length > 0;
+    }, { operation: 'has_successful_login', userId });
+  }
+
+  async hasSuccessfulLoginFromIp(
+    userId: string,
+    ipAddress: string,
+  ): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select({ id: loginHistory.id })
+        .from(loginHistory)
+        .where(
+          and(
+            eq(loginHistory.userId, userId),
+            eq(loginHistory.ipAddress, ipAddress),
+            eq(loginHistory.success, true),
+          ),
+        )
+        .limit(1);
+      return result.length > 0;
+    }, { operation: 'has_successful_login_from_ip', userId });
+  }
+}
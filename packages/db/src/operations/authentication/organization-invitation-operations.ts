@@ -0,0 +1,103 @@
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import {
+  type NewOrganizationInvitationDB,
+  type OrganizationInvitationDB,
+  organizationInvitations,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// ORGANIZATION INVITATION OPERATIONS - 組織招待管理
+// =============================================================================
+
+export class OrganizationInvitationOperations {
+  constructor(private db: Database) {}
+
+  async create(
+    data: NewOrganizationInvitationDB,
+  ): Promise<Result<OrganizationInvitationDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['organizationId', 'email', 'role', 'tokenHash', 'expiresAt']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db
+        .insert(organizationInvitations)
+        .values(data)
+        .returning();
+      const firstResult = getFirstResult(
+        result,
+        "Failed to create organization invitation",
+      );
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_organization_invitation', organizationId: data.organizationId });
+  }
+
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<Result<OrganizationInvitationDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(organizationInvitations)
+        .where(eq(organizationInvitations.tokenHash, tokenHash))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_organization_invitation_by_token_hash' });
+  }
+
+  /**
+   * 未承諾かつ有効期限内の招待を取得
+   */
+  async findPendingByOrganization(
+    organizationId: string,
+  ): Promise<Result<OrganizationInvitationDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(organizationInvitations)
+        .where(
+          and(
+            eq(organizationInvitations.organizationId, organizationId),
+            isNull(organizationInvitations.acceptedAt),
+            gt(organizationInvitations.expiresAt, new Date()),
+          ),
+        )
+        .orderBy(desc(organizationInvitations.createdAt));
+    }, { operation: 'find_pending_organization_invitations', organizationId });
+  }
+
+  async markAccepted(
+    id: string,
+  ): Promise<Result<OrganizationInvitationDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(organizationInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(
+          and(
+            eq(organizationInvitations.id, id),
+            isNull(organizationInvitations.acceptedAt),
+          ),
+        )
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'accept_organization_invitation', id });
+  }
+}
@@ -0,0 +1,205 @@
+import { and, asc, eq } from "drizzle-orm";
+import {
+  type NewOrganizationMemberDB,
+  type OrganizationMemberDB,
+  organizationMembers,
+  organizations,
+  users,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// ORGANIZATION MEMBER OPERATIONS - 組織メンバーシップ管理
+// =============================================================================
+
+export interface OrganizationMemberWithUser {
+  userId: string;
+  name: string;
+  email: string;
+  role: string;
+  joinedAt: Date;
+}
+
+export interface UserOrganizationMembership {
+  organizationId: string;
+  name: string;
+  domain: string | null;
+  role: string;
+  joinedAt: Date;
+}
+
+export class OrganizationMemberOperations {
+  constructor(private db: Database) {}
+
+  async create(
+    data: NewOrganizationMemberDB,
+  ): Promise<Result<OrganizationMemberDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['organizationId', 'userId', 'role']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db
+        .insert(organizationMembers)
+        .values(data)
+        .returning();
+      const firstResult = getFirstResult(
+        result,
+        "Failed to create organization member",
+      );
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_organization_member', organizationId: data.organizationId, userId: data.userId });
+  }
+
+  async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<Result<OrganizationMemberDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.userId, userId),
+          ),
+        )
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_organization_membership', organizationId, userId });
+  }
+
+  async listByOrganization(
+    organizationId: string,
+  ): Promise<Result<OrganizationMemberWithUser[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select({
+          userId: users.id,
+          name: users.name,
+          email: users.email,
+          role: organizationMembers.role,
+          joinedAt: organizationMembers.createdAt,
+        })
+        .from(organizationMembers)
+        .innerJoin(users, eq(organizationMembers.userId, users.id))
+        .where(eq(organizationMembers.organizationId, organizationId))
+        .orderBy(asc(organizationMembers.createdAt));
+    }, { operation: 'list_organization_members', organizationId });
+  }
+
+  /**
+   * ユーザーの所属組織を参加日時の古い順に取得（先頭がプライマリ組織）
+   */
+  async listByUser(
+    userId: string,
+  ): Promise<Result<UserOrganizationMembership[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select({
+          organizationId: organizations.id,
+          name: organizations.name,
+          domain: organizations.domain,
+          role: organizationMembers.role,
+          joinedAt: organizationMembers.createdAt,
+        })
+        .from(organizationMembers)
+        .innerJoin(
+          organizations,
+          eq(organizationMembers.organizationId, organizations.id),
+        )
+        .where(eq(organizationMembers.userId, userId))
+        .orderBy(asc(organizationMembers.createdAt));
+    }, { operation: 'list_user_organizations', userId });
+  }
+
+  /**
+   * JWTのorganizationIdクレームに使うプライマリ組織（最初に参加した組織）
+   */
+  async findPrimaryOrganizationId(
+    userId: string,
+  ): Promise<Result<string | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select({ organizationId: organizationMembers.organizationId })
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, userId))
+        .orderBy(asc(organizationMembers.createdAt))
+        .limit(1);
+      return result[0]?.organizationId ?? null;
+    }, { operation: 'find_primary_organization', userId });
+  }
+
+  async countByRole(
+    organizationId: string,
+    role: string,
+  ): Promise<Result<number>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select({ id: organizationMembers.id })
+        .from(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.role, role),
+          ),
+        );
+      return result.length;
+    }, { operation: 'count_organization_members_by_role', organizationId, role });
+  }
+
+  async updateRole(
+    organizationId: string,
+    userId: string,
+    role: string,
+  ): Promise<Result<OrganizationMemberDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(organizationMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.userId, userId),
+          ),
+        )
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'update_organization_member_role', organizationId, userId, role });
+  }
+
+  async remove(
+    organizationId: string,
+    userId: string,
+  ): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.userId, userId),
+          ),
+        )
+        .returning({ id: organizationMembers.id });
+      return result.length > 0;
+    }, { operation: 'remove_organization_member', organizationId, userId });
+  }
+}
@@ -0,0 +1,120 @@
+import { and, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import {
+  type NewPasswordResetTokenDB,
+  type PasswordResetTokenDB,
+  passwordResetTokens,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// PASSWORD RESET TOKEN OPERATIONS - パスワードリセットトークン管理
+// =============================================================================
+
+export class PasswordResetTokenOperations {
+  constructor(private db: Database) {}
+
+  async create(
+    data: NewPasswordResetTokenDB,
+  ): Promise<Result<PasswordResetTokenDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['userId', 'email', 'tokenHash', 'expiresAt']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db
+        .insert(passwordResetTokens)
+        .values(data)
+        .returning();
+      const firstResult = getFirstResult(
+        result,
+        "Failed to create password reset token",
+      );
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_password_reset_token', userId: data.userId });
+  }
+
+  /**
+   * 未使用かつ有効期限内のトークンを取得
+   */
+  async findActiveByEmail(
+    email: string,
+  ): Promise<Result<PasswordResetTokenDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(passwordResetTokens)
+        .where(
+          and(
+            eq(passwordResetTokens.email, email),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, new Date()),
+          ),
+        )
+        .orderBy(desc(passwordResetTokens.createdAt));
+    }, { operation: 'find_active_password_reset_tokens', email });
+  }
+
+  /**
+   * 有効なトークンすべての試行回数を加算し、加算後の最大値を返す
+   */
+  async incrementAttempts(email: string): Promise<Result<number>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(passwordResetTokens)
+        .set({ attempts: sql`${passwordResetTokens.attempts} + 1` })
+        .where(
+          and(
+            eq(passwordResetTokens.email, email),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, new Date()),
+          ),
+        )
+        .returning({ attempts: passwordResetTokens.attempts });
+      return result.reduce((max, row) => Math.max(max, row.attempts), 0);
+    }, { operation: 'increment_password_reset_attempts', email });
+  }
+
+  /**
+   * 未使用のトークンをすべて使用済みにする（使用後・試行上限到達時）
+   */
+  async invalidateAllByEmail(email: string): Promise<Result<number>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(passwordResetTokens.email, email),
+            isNull(passwordResetTokens.usedAt),
+          ),
+        )
+        .returning({ id: passwordResetTokens.id });
+      return result.length;
+    }, { operation: 'invalidate_password_reset_tokens', email });
+  }
+
+  async deleteExpired(): Promise<Result<number>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(passwordResetTokens)
+        .where(lt(passwordResetTokens.expiresAt, new Date()))
+        .returning({ id: passwordResetTokens.id });
+      return result.length;
+    }, { operation: 'delete_expired_password_reset_tokens' });
+  }
+}
@@ -0,0 +1,116 @@
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { type NewSessionDB, type SessionDB, sessions } from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// SESSION OPERATIONS - 認証セッション（リフレッシュトークン）管理
+// =============================================================================
+
+export class SessionOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewSessionDB): Promise<Result<SessionDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['userId', 'refreshTokenHash', 'accessTokenJti', 'expiresAt']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db.insert(sessions).values(data).returning();
+      const firstResult = getFirstResult(result, "Failed to create session");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_session', userId: data.userId });
+  }
+
+  async findById(id: string): Promise<Result<SessionDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.id, id))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_session_by_id', id });
+  }
+
+  async findByRefreshTokenHash(
+    refreshTokenHash: string,
+  ): Promise<Result<SessionDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.refreshTokenHash, refreshTokenHash))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_session_by_refresh_token_hash' });
+  }
+
+  async findActiveByUser(userId: string): Promise<Result<SessionDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(sessions)
+        .where(
+          and(
+            eq(sessions.userId, userId),
+            isNull(sessions.revokedAt),
+            gt(sessions.expiresAt, new Date()),
+          ),
+        )
+        .orderBy(desc(sessions.createdAt));
+    }, { operation: 'find_active_sessions_by_user', userId });
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewSessionDB>,
+  ): Promise<Result<SessionDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(sessions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(sessions.id, id))
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'update_session', id });
+  }
+
+  async revoke(id: string): Promise<Result<SessionDB | null>> {
+    return tryAsync(async () => {
+      const now = new Date();
+      const result = await this.db
+        .update(sessions)
+        .set({ revokedAt: now, updatedAt: now })
+        .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)))
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'revoke_session', id });
+  }
+
+  async revokeAllByUser(userId: string): Promise<Result<SessionDB[]>> {
+    return tryAsync(async () => {
+      const now = new Date();
+      return await this.db
+        .update(sessions)
+        .set({ revokedAt: now, updatedAt: now })
+        .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+        .returning();
+    }, { operation: 'revoke_all_sessions_by_user', userId });
+  }
+}
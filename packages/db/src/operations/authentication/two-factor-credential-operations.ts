@@ -0,0 +1,111 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import {
+  type TwoFactorCredentialDB,
+  twoFactorCredentials,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+} from "../../utils/result";
+
+// =============================================================================
+// TWO-FACTOR CREDENTIAL OPERATIONS - TOTP二要素認証の登録情報管理
+// =============================================================================
+
+export class TwoFactorCredentialOperations {
+  constructor(private db: Database) {}
+
+  async findByUser(
+    userId: string,
+  ): Promise<Result<TwoFactorCredentialDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(twoFactorCredentials)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_two_factor_credential_by_user', userId });
+  }
+
+  /**
+   * 登録途中（未有効化）のシークレットを保存する。既存の登録は置き換える
+   */
+  async savePending(
+    userId: string,
+    encryptedSecret: string,
+  ): Promise<Result<TwoFactorCredentialDB>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .insert(twoFactorCredentials)
+        .values({ userId, encryptedSecret })
+        .onConflictDoUpdate({
+          target: twoFactorCredentials.userId,
+          set: {
+            encryptedSecret,
+            enabledAt: null,
+            lastUsedStep: null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      const firstResult = getFirstResult(
+        result,
+        "Failed to save two-factor credential",
+      );
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'save_pending_two_factor_credential', userId });
+  }
+
+  async enable(
+    userId: string,
+    step: number,
+  ): Promise<Result<TwoFactorCredentialDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(twoFactorCredentials)
+        .set({ enabledAt: new Date(), lastUsedStep: step, updatedAt: new Date() })
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'enable_two_factor_credential', userId });
+  }
+
+  /**
+   * 使用済みタイムステップを記録する。既に同じか新しいステップが使われていればfalse
+   */
+  async consumeStep(userId: string, step: number): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(twoFactorCredentials)
+        .set({ lastUsedStep: step, updatedAt: new Date() })
+        .where(
+          and(
+            eq(twoFactorCredentials.userId, userId),
+            or(
+              isNull(twoFactorCredentials.lastUsedStep),
+              lt(twoFactorCredentials.lastUsedStep, step),
+            ),
+          ),
+        )
+        .returning({ id: twoFactorCredentials.id });
+      return result.length > 0;
+    }, { operation: 'consume_two_factor_step', userId, step });
+  }
+
+  async deleteByUser(userId: string): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(twoFactorCredentials)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning({ id: twoFactorCredentials.id });
+      return result.length > 0;
+    }, { operation: 'delete_two_factor_credential', userId });
+  }
+}
@@ -0,0 +1,89 @@
+import { and, eq, isNull } from "drizzle-orm";
+import {
+  type TwoFactorRecoveryCodeDB,
+  twoFactorRecoveryCodes,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  getFirstOrNull,
+  type Result,
+  tryAsync,
+} from "../../utils/result";
+
+// =============================================================================
+// TWO-FACTOR RECOVERY CODE OPERATIONS - リカバリーコード管理
+// =============================================================================
+
+export class TwoFactorRecoveryCodeOperations {
+  constructor(private db: Database) {}
+
+  /**
+   * ユーザーのリカバリーコードをすべて置き換える（再発行時は旧コードを無効化）
+   */
+  async replaceAll(
+    userId: string,
+    codeHashes: string[],
+  ): Promise<Result<TwoFactorRecoveryCodeDB[]>> {
+    return tryAsync(async () => {
+      await this.db
+        .delete(twoFactorRecoveryCodes)
+        .where(eq(twoFactorRecoveryCodes.userId, userId));
+
+      if (codeHashes.length === 0) {
+        return [];
+      }
+
+      return await this.db
+        .insert(twoFactorRecoveryCodes)
+        .values(codeHashes.map((codeHash) => ({ userId, codeHash })))
+        .returning();
+    }, { operation: 'replace_two_factor_recovery_codes', userId, count: codeHashes.length });
+  }
+
+  async findUnusedByUser(
+    userId: string,
+  ): Promise<Result<TwoFactorRecoveryCodeDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(twoFactorRecoveryCodes)
+        .where(
+          and(
+            eq(twoFactorRecoveryCodes.userId, userId),
+            isNull(twoFactorRecoveryCodes.usedAt),
+          ),
+        );
+    }, { operation: 'find_unused_two_factor_recovery_codes', userId });
+  }
+
+  /**
+   * 未使用のコードのみ使用済みにする（同時使用時は一方のみ成功）
+   */
+  async markUsed(
+    id: string,
+  ): Promise<Result<TwoFactorRecoveryCodeDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(twoFactorRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(twoFactorRecoveryCodes.id, id),
+            isNull(twoFactorRecoveryCodes.usedAt),
+          ),
+        )
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'mark_two_factor_recovery_code_used', id });
+  }
+
+  async deleteByUser(userId: string): Promise<Result<number>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(twoFactorRecoveryCodes)
+        .where(eq(twoFactorRecoveryCodes.userId, userId))
+        .returning({ id: twoFactorRecoveryCodes.id });
+      return result.length;
+    }, { operation: 'delete_two_factor_recovery_codes', userId });
+  }
+}
@@ -1,6 +1,7 @@
-import { desc, eq } from "drizzle-orm";
+import { desc, eq, sql } from "drizzle-orm";
 import {
   type NewUserDB,
+  organizationMembers,
   type UserDB,
   users,
 } from "../../schema";
@@ -31,7 +32,6 @@ export class UserOperations {
 
         const insertData = {
           ...validationResult.data,
-          organizationId: validationResult.data.organizationId || null,
           emailVerified: validationResult.data.emailVerified ?? false,
         };
         const result = await this.db.insert(users).values(insertData).returning();
@@ -90,6 +90,51 @@ export class UserOperations {
     );
   }
 
+  /**
+   * 連続ログイン失敗回数を加算し、加算後の回数を返す（同時リクエストでも取りこぼさない）
+   */
+  async incrementFailedLoginAttempts(id: string): Promise<Result<number>> {
+    return tryAsync(
+      async () => {
+        const result = await this.db
+          .update(users)
+          .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+          .where(eq(users.id, id))
+          .returning({ failedLoginAttempts: users.failedLoginAttempts });
+        return result[0]?.failedLoginAttempts ?? 0;
+      },
+      { operation: "increment_failed_login_attempts", id },
+    );
+  }
+
+  async lockUntil(id: string, lockedUntil: Date): Promise<Result<boolean>> {
+    return tryAsync(
+      async () => {
+        const result = await this.db
+          .update(users)
+          .set({ lockedUntil })
+          .where(eq(users.id, id))
+          .returning({ id: users.id });
+        return result.length > 0;
+      },
+      { operation: "lock_user", id, lockedUntil },
+    );
+  }
+
+  async resetFailedLoginAttempts(id: string): Promise<Result<boolean>> {
+    return tryAsync(
+      async () => {
+        const result = await this.db
+          .update(users)
+          .set({ failedLoginAttempts: 0, lockedUntil: null })
+          .where(eq(users.id, id))
+          .returning({ id: users.id });
+        return result.length > 0;
+      },
+      { operation: "reset_failed_login_attempts", id },
+    );
+  }
+
   async delete(id: string): Promise<Result<boolean>> {
     return tryAsync(
       async () => {
@@ -110,9 +155,20 @@ export class UserOperations {
     return tryAsync(
       async () => {
         const query = this.db
-          .select()
-          .from(users)
-          .where(eq(users.organizationId, organizationId))
+          .select({
+            id: users.id,
+            email: users.email,
+            name: users.name,
+            passwordHash: users.passwordHash,
+            emailVerified: users.emailVerified,
+            failedLoginAttempts: users.failedLoginAttempts,
+            lockedUntil: users.lockedUntil,
+            createdAt: users.createdAt,
+            updatedAt: users.updatedAt,
+          })
+          .from(organizationMembers)
+          .innerJoin(users, eq(organizationMembers.userId, users.id))
+          .where(eq(organizationMembers.organizationId, organizationId))
           .orderBy(desc(users.createdAt));
 
         return limit ? await query.limit(limit) : await query;
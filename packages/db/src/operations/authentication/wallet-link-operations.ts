@@ -0,0 +1,91 @@
+import { and, asc, eq } from "drizzle-orm";
+import {
+  type NewWalletLinkDB,
+  type WalletLinkDB,
+  walletLinks,
+} from "../../schema";
+import type { Database } from "../../types";
+import {
+  DatabaseError,
+  DatabaseErrorType,
+  getFirstOrNull,
+  getFirstResult,
+  type Result,
+  tryAsync,
+  validateRequired,
+} from "../../utils/result";
+
+// =============================================================================
+// WALLET LINK OPERATIONS - SIWEログイン用ウォレットのリンク管理
+// =============================================================================
+
+export class WalletLinkOperations {
+  constructor(private db: Database) {}
+
+  async create(data: NewWalletLinkDB): Promise<Result<WalletLinkDB>> {
+    return tryAsync(async () => {
+      const validationResult = validateRequired(data, ['userId', 'address', 'chainId']);
+      if (!validationResult.success) {
+        throw new DatabaseError(
+          DatabaseErrorType.VALIDATION_ERROR,
+          validationResult.error.message
+        );
+      }
+
+      const result = await this.db
+        .insert(walletLinks)
+        .values({ ...data, address: data.address.toLowerCase() })
+        .returning();
+      const firstResult = getFirstResult(result, "Failed to create wallet link");
+      if (!firstResult.success) {
+        throw firstResult.error;
+      }
+      return firstResult.data;
+    }, { operation: 'create_wallet_link', userId: data.userId });
+  }
+
+  async findByAddress(address: string): Promise<Result<WalletLinkDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .select()
+        .from(walletLinks)
+        .where(eq(walletLinks.address, address.toLowerCase()))
+        .limit(1);
+      return getFirstOrNull(result);
+    }, { operation: 'find_wallet_link_by_address', address });
+  }
+
+  async listByUser(userId: string): Promise<Result<WalletLinkDB[]>> {
+    return tryAsync(async () => {
+      return await this.db
+        .select()
+        .from(walletLinks)
+        .where(eq(walletLinks.userId, userId))
+        .orderBy(asc(walletLinks.createdAt));
+    }, { operation: 'list_wallet_links_by_user', userId });
+  }
+
+  async markUsed(id: string): Promise<Result<WalletLinkDB | null>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .update(walletLinks)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(walletLinks.id, id))
+        .returning();
+      return getFirstOrNull(result);
+    }, { operation: 'mark_wallet_link_used', id });
+  }
+
+  /**
+   * 所有ユーザーのリンクのみ削除する
+   */
+  async delete(id: string, userId: string): Promise<Result<boolean>> {
+    return tryAsync(async () => {
+      const result = await this.db
+        .delete(walletLinks)
+        .where(and(eq(walletLinks.id, id), eq(walletLinks.userId, userId)))
+        .returning({ id: walletLinks.id });
+      return result.length > 0;
+    }, { operation: 'delete_wallet_link', id, userId });
+  }
+}
@@ -4,6 +4,7 @@ import {
   billingRecords,
   generatedApis,
   learningProgress,
+  organizationMembers,
   organizations,
   paymentRequests,
   tutorials,
@@ -28,7 +29,11 @@ export class CrossTableQueries {
           userId: users.id,
           userName: users.name,
           userEmail: users.email,
-          organizationName: organizations.name,
+          organizationNames: sql<
+            string | null
+          >`string_agg(distinct ${organizations.name}, ', ')`.as(
+            "organization_names",
+          ),
 
           // Learning Stats
           totalTutorials:
@@ -101,12 +106,16 @@ export class CrossTableQueries {
             ),
         })
         .from(users)
-        .leftJoin(organizations, eq(users.organizationId, organizations.id))
+        .leftJoin(organizationMembers, eq(users.id, organizationMembers.userId))
+        .leftJoin(
+          organizations,
+          eq(organizationMembers.organizationId, organizations.id),
+        )
         .leftJoin(learningProgress, eq(users.id, learningProgress.userId))
         .leftJoin(generatedApis, eq(users.id, generatedApis.userId))
         .leftJoin(apiUsage, eq(generatedApis.id, apiUsage.apiId))
         .leftJoin(billingRecords, eq(users.id, billingRecords.userId))
-        .groupBy(users.id, users.name, users.email, organizations.name);
+        .groupBy(users.id, users.name, users.email);
 
       if (userId) {
         return await baseQuery.where(eq(users.id, userId));
@@ -218,7 +227,10 @@ export class CrossTableQueries {
         })
         .from(generatedApis)
         .innerJoin(users, eq(generatedApis.userId, users.id))
-        .leftJoin(organizations, eq(users.organizationId, organizations.id))
+        .leftJoin(
+          organizations,
+          eq(generatedApis.organizationId, organizations.id),
+        )
         .leftJoin(apiUsage, eq(generatedApis.id, apiUsage.apiId))
         .leftJoin(billingRecords, eq(generatedApis.id, billingRecords.apiId))
         .leftJoin(paymentRequests, eq(generatedApis.id, paymentRequests.apiId))
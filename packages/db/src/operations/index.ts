@@ -3,28 +3,67 @@ import { DatabaseAnalytics } from "./analytics";
 import {
   ApiUsageOperations,
   BillingRecordOperations,
+  GeneratedApiEndpointOperations,
+  GeneratedApiEvaluationOperations,
   GeneratedApiOperations,
+  GeneratedApiRevisionOperations,
+  GeneratedApiTestRunOperations,
   PaymentRequestOperations,
+  PromptTemplateOperations,
 } from "./api-billing";
 // Domain-based imports
 import {
   ApiKeyOperations,
+  LoginHistoryOperations,
+  OrganizationInvitationOperations,
+  OrganizationMemberOperations,
   OrganizationOperations,
+  PasswordResetTokenOperations,
+  SessionOperations,
+  TwoFactorCredentialOperations,
+  TwoFactorRecoveryCodeOperations,
   UserOperations,
+  WalletLinkOperations,
 } from "./authentication";
 import { CrossTableQueries } from "./cross-table";
 import { LearningProgressOperations, TutorialOperations } from "./learning";
 import { SimulationActionOperations, SimulationOperations } from "./simulation";
 import { TransactionProcessor } from "./transactions";
 
+export type {
+  OrganizationMemberWithUser,
+  UserOrganizationMembership,
+} from "./authentication";
+export type {
+  ApiQualityDimension,
+  GeneratedApiSearchFilters,
+  GeneratedApiSearchHit,
+  GeneratedApiSearchPage,
+  SearchFacetCount,
+} from "./api-billing";
+export { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from "./api-billing";
+
 // Re-export all classes
 export {
   UserOperations,
   OrganizationOperations,
+  OrganizationMemberOperations,
+  OrganizationInvitationOperations,
   ApiKeyOperations,
+  SessionOperations,
+  PasswordResetTokenOperations,
+  TwoFactorCredentialOperations,
+  TwoFactorRecoveryCodeOperations,
+  WalletLinkOperations,
+  LoginHistoryOperations,
   LearningProgressOperations,
   TutorialOperations,
   GeneratedApiOperations,
+  GeneratedApiEndpointOperations,
+  GeneratedApiRevisionOperations,
+  GeneratedApiTestRunOperations,
+  GeneratedApiEvaluationOperations,
+  PromptTemplateOperations,
   PaymentRequestOperations,
   BillingRecordOperations,
   ApiUsageOperations,
@@ -51,7 +90,15 @@ export function createDatabaseOperations(db: Database) {
     // Authentication & Organization Domain
     users: new UserOperations(db),
     organizations: new OrganizationOperations(db),
+    organizationMembers: new OrganizationMemberOperations(db),
+    organizationInvitations: new OrganizationInvitationOperations(db),
     apiKeys: new ApiKeyOperations(db),
+    sessions: new SessionOperations(db),
+    passwordResetTokens: new PasswordResetTokenOperations(db),
+    twoFactorCredentials: new TwoFactorCredentialOperations(db),
+    twoFactorRecoveryCodes: new TwoFactorRecoveryCodeOperations(db),
+    walletLinks: new WalletLinkOperations(db),
+    loginHistory: new LoginHistoryOperations(db),
 
     // Learning Domain
     learningProgress: new LearningProgressOperations(db),
@@ -59,6 +106,11 @@ export function createDatabaseOperations(db: Database) {
 
     // API & Billing Domain
     generatedApis: new GeneratedApiOperations(db),
+    generatedApiEndpoints: new GeneratedApiEndpointOperations(db),
+    generatedApiRevisions: new GeneratedApiRevisionOperations(db),
+    generatedApiTestRuns: new GeneratedApiTestRunOperations(db),
+    generatedApiEvaluations: new GeneratedApiEvaluationOperations(db),
+    promptTemplates: new PromptTemplateOperations(db),
     paymentRequests: new PaymentRequestOperations(db),
     billingRecords: new BillingRecordOperations(db),
     apiUsage: new ApiUsageOperations(db),
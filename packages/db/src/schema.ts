@@ -1,4 +1,5 @@
-import { relations } from "drizzle-orm";
+import type { PromptTemplateVariable } from "@repo/shared";
+import { type AnyColumn, relations, type SQL, sql } from "drizzle-orm";
 import {
   boolean,
   decimal,
@@ -20,6 +21,8 @@ export const organizations = pgTable(
     id: uuid("id").primaryKey().defaultRandom(),
     name: varchar("name", { length: 255 }).notNull(),
     domain: varchar("domain", { length: 255 }),
+    // API生成に使うLLMプロバイダー（nullはサーバーの既定）
+    llmProvider: varchar("llm_provider", { length: 30 }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -35,14 +38,66 @@ export const users = pgTable(
     email: varchar("email", { length: 255 }).notNull().unique(),
     name: varchar("name", { length: 255 }).notNull(),
     passwordHash: varchar("password_hash", { length: 255 }).notNull(),
-    organizationId: uuid("organization_id").references(() => organizations.id),
     emailVerified: boolean("email_verified").default(false).notNull(),
+    // 連続ログイン失敗回数とロック期限（成功時にリセット）
+    failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+    lockedUntil: timestamp("locked_until"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => ({
     emailIdx: uniqueIndex("users_email_idx").on(table.email),
-    organizationIdx: index("users_organization_idx").on(table.organizationId),
+  }),
+);
+
+// Organization Memberships（1ユーザーが複数組織に所属できる）
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    role: varchar("role", { length: 20 }).default("member").notNull(), // owner, admin, member, viewer
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationUserIdx: uniqueIndex(
+      "organization_members_organization_user_idx",
+    ).on(table.organizationId, table.userId),
+    userIdx: index("organization_members_user_idx").on(table.userId),
+  }),
+);
+
+// Organization Invitations（招待トークンはハッシュのみ保存）
+export const organizationInvitations = pgTable(
+  "organization_invitations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    role: varchar("role", { length: 20 }).default("member").notNull(),
+    tokenHash: varchar("token_hash", { length: 255 }).notNull(),
+    invitedBy: uuid("invited_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationIdx: index("organization_invitations_organization_idx").on(
+      table.organizationId,
+    ),
+    tokenHashIdx: uniqueIndex("organization_invitations_token_hash_idx").on(
+      table.tokenHash,
+    ),
   }),
 );
 
@@ -55,6 +110,7 @@ export const apiKeys = pgTable(
     description: text("description"),
     keyHash: varchar("key_hash", { length: 255 }).notNull(),
     keyPrefix: varchar("key_prefix", { length: 10 }).notNull(),
+    scopes: jsonb("scopes").$type<string[]>().default([]).notNull(),
     userId: uuid("user_id")
       .references(() => users.id, { onDelete: "cascade" })
       .notNull(),
@@ -70,6 +126,149 @@ export const apiKeys = pgTable(
   }),
 );
 
+// Authentication Sessions（リフレッシュトークンのローテーションと失効管理）
+export const sessions = pgTable(
+  "sessions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    refreshTokenHash: varchar("refresh_token_hash", { length: 255 }).notNull(),
+    accessTokenJti: varchar("access_token_jti", { length: 64 }).notNull(),
+    userAgent: text("user_agent"),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    expiresAt: timestamp("expires_at").notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index("sessions_user_idx").on(table.userId),
+    refreshTokenHashIdx: uniqueIndex("sessions_refresh_token_hash_idx").on(
+      table.refreshTokenHash,
+    ),
+  }),
+);
+
+// Password Reset Tokens（トークンはハッシュのみ保存）
+export const passwordResetTokens = pgTable(
+  "password_reset_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 255 }).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    emailIdx: index("password_reset_tokens_email_idx").on(table.email),
+    userIdx: index("password_reset_tokens_user_idx").on(table.userId),
+  }),
+);
+
+// Two-Factor Authentication（TOTPシークレットは暗号化して保存）
+export const twoFactorCredentials = pgTable(
+  "two_factor_credentials",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    encryptedSecret: text("encrypted_secret").notNull(),
+    enabledAt: timestamp("enabled_at"), // 確認コード検証前はnull（登録途中）
+    lastUsedStep: integer("last_used_step"), // 同一コードの再利用防止
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: uniqueIndex("two_factor_credentials_user_idx").on(table.userId),
+  }),
+);
+
+// Two-Factor Recovery Codes（コードはハッシュのみ保存、使い捨て）
+export const twoFactorRecoveryCodes = pgTable(
+  "two_factor_recovery_codes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    codeHash: varchar("code_hash", { length: 255 }).notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId),
+  }),
+);
+
+// ログイン履歴（成功・失敗の両方を記録）
+export const loginHistory = pgTable(
+  "login_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    method: varchar("method", { length: 20 }).notNull(), // password, siwe
+    success: boolean("success").notNull(),
+    failureReason: varchar("failure_reason", { length: 50 }),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    userAgent: text("user_agent"),
+    newIp: boolean("new_ip").default(false).notNull(), // 過去に成功ログインのないIP
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userCreatedIdx: index("login_history_user_created_idx").on(
+      table.userId,
+      table.createdAt,
+    ),
+    userIpIdx: index("login_history_user_ip_idx").on(
+      table.userId,
+      table.ipAddress,
+    ),
+  }),
+);
+
+// SIWE（EIP-4361）でログインに使うウォレット。1ユーザーに複数リンク可能
+export const walletLinks = pgTable(
+  "wallet_links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    address: varchar("address", { length: 42 }).notNull(), // 小文字で保存
+    chainId: integer("chain_id").notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    addressIdx: uniqueIndex("wallet_links_address_idx").on(table.address),
+    userIdx: index("wallet_links_user_idx").on(table.userId),
+  }),
+);
+
+/**
+ * 生成APIの全文検索用ベクトル（名前 > 説明 > ドキュメント > コードの順に重み付け）
+ * 検索クエリとGINインデックスで同じ式を使う必要がある
+ */
+export function generatedApiSearchVector(columns: {
+  name: AnyColumn;
+  description: AnyColumn;
+  documentation: AnyColumn;
+  generatedCode: AnyColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('simple', coalesce(${columns.name}, '')), 'A') || setweight(to_tsvector('simple', coalesce(${columns.description}, '')), 'B') || setweight(to_tsvector('simple', coalesce(${columns.documentation}, '')), 'C') || setweight(to_tsvector('simple', coalesce(${columns.generatedCode}, '')), 'D'))`;
+}
+
 export const generatedApis = pgTable(
   "generated_apis",
   {
@@ -84,6 +283,10 @@ export const generatedApis = pgTable(
     testCode: text("test_code"),
     documentation: text("documentation").notNull(),
     status: varchar("status", { length: 20 }).default("draft").notNull(),
+    // 現在のコードに対応するリビジョン番号（generated_api_revisions.revision）
+    currentRevision: integer("current_revision").default(1).notNull(),
+    // 利用者の評価を集計した品質スコア（0〜100、評価がなければnull）
+    qualityScore: integer("quality_score"),
     userId: uuid("user_id")
       .references(() => users.id, { onDelete: "cascade" })
       .notNull(),
@@ -94,8 +297,168 @@ export const generatedApis = pgTable(
   },
   (table) => ({
     userIdx: index("generated_apis_user_idx").on(table.userId),
+    organizationIdx: index("generated_apis_organization_idx").on(
+      table.organizationId,
+    ),
     statusIdx: index("generated_apis_status_idx").on(table.status),
     endpointIdx: uniqueIndex("generated_apis_endpoint_idx").on(table.endpoint),
+    searchIdx: index("generated_apis_search_idx").using(
+      "gin",
+      generatedApiSearchVector(table),
+    ),
+  }),
+);
+
+// 複数のルートを持つ生成APIの各ルート（パスはAPIのendpointからの相対パス、価格はルートごと）
+export const generatedApiEndpoints = pgTable(
+  "generated_api_endpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    apiId: uuid("api_id")
+      .references(() => generatedApis.id, { onDelete: "cascade" })
+      .notNull(),
+    method: varchar("method", { length: 10 }).notNull(),
+    path: varchar("path", { length: 500 }).notNull(),
+    price: decimal("price", { precision: 18, scale: 6 }).notNull(),
+    description: text("description"),
+    position: integer("position").notNull(), // 生成時のルートの並び順
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    apiRouteIdx: uniqueIndex("generated_api_endpoints_api_route_idx").on(
+      table.apiId,
+      table.method,
+      table.path,
+    ),
+  }),
+);
+
+// 生成APIのリビジョン履歴（コード・仕様の変更ごとに1行追加し、更新はしない）
+export const generatedApiRevisions = pgTable(
+  "generated_api_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    apiId: uuid("api_id")
+      .references(() => generatedApis.id, { onDelete: "cascade" })
+      .notNull(),
+    revision: integer("revision").notNull(),
+    baseRevision: integer("base_revision"), // 変更の元にしたリビジョン
+    source: varchar("source", { length: 20 }).notNull(), // generated, improved
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description").notNull(),
+    endpoint: varchar("endpoint", { length: 500 }).notNull(),
+    method: varchar("method", { length: 10 }).notNull(),
+    price: decimal("price", { precision: 18, scale: 6 }).notNull(),
+    generatedCode: text("generated_code").notNull(),
+    documentation: text("documentation").notNull(),
+    prompt: text("prompt"), // 生成・改善の依頼内容
+    summary: text("summary"),
+    diff: text("diff"), // baseRevisionに対するunified diff
+    metadata: jsonb("metadata"), // 改善領域・LLMプロバイダーなど
+    authorId: uuid("author_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    apiRevisionIdx: uniqueIndex("generated_api_revisions_api_revision_idx").on(
+      table.apiId,
+      table.revision,
+    ),
+  }),
+);
+
+// デプロイ前に実行した生成テストの結果
+export const generatedApiTestRuns = pgTable(
+  "generated_api_test_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    apiId: uuid("api_id")
+      .references(() => generatedApis.id, { onDelete: "cascade" })
+      .notNull(),
+    revision: integer("revision").notNull(), // テスト対象のリビジョン
+    passed: boolean("passed").notNull(),
+    total: integer("total").notNull(),
+    failed: integer("failed").notNull(),
+    results: jsonb("results").notNull(), // テストケースごとの結果
+    // 失敗したがオーバーライドしてデプロイした
+    overridden: boolean("overridden").default(false).notNull(),
+    triggeredBy: uuid("triggered_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    apiIdx: index("generated_api_test_runs_api_idx").on(
+      table.apiId,
+      table.createdAt,
+    ),
+  }),
+);
+
+// 生成APIに対する利用者の評価（1ユーザー1件、再評価は上書き）
+export const generatedApiEvaluations = pgTable(
+  "generated_api_evaluations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    apiId: uuid("api_id")
+      .references(() => generatedApis.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    revision: integer("revision").notNull(), // 評価したときのリビジョン
+    rating: integer("rating").notNull(), // 1〜5
+    isWorking: boolean("is_working").notNull(),
+    feedback: text("feedback"),
+    improvementSuggestions: jsonb("improvement_suggestions")
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    apiUserIdx: uniqueIndex("generated_api_evaluations_api_user_idx").on(
+      table.apiId,
+      table.userId,
+    ),
+  }),
+);
+
+// 組織で共有するAPI生成用のプロンプトテンプレート（本文の{{変数名}}を生成時に置き換える）
+export const promptTemplates = pgTable(
+  "prompt_templates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    template: text("template").notNull(),
+    variables: jsonb("variables")
+      .$type<PromptTemplateVariable[]>()
+      .default([])
+      .notNull(),
+    // 生成リクエストの既定値
+    category: varchar("category", { length: 20 }).notNull(),
+    complexityLevel: varchar("complexity_level", { length: 20 }),
+    expectedPrice: varchar("expected_price", { length: 50 }),
+    externalApis: jsonb("external_apis").$type<string[]>(),
+    usageCount: integer("usage_count").default(0).notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex("prompt_templates_organization_name_idx").on(
+      table.organizationId,
+      table.name,
+    ),
   }),
 );
 
@@ -279,17 +642,22 @@ export const simulationActions = pgTable(
 
 // Relations
 export const organizationsRelations = relations(organizations, ({ many }) => ({
-  users: many(users),
+  members: many(organizationMembers),
+  invitations: many(organizationInvitations),
   apiKeys: many(apiKeys),
   generatedApis: many(generatedApis),
+  promptTemplates: many(promptTemplates),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
-  organization: one(organizations, {
-    fields: [users.organizationId],
-    references: [organizations.id],
-  }),
+  memberships: many(organizationMembers),
   apiKeys: many(apiKeys),
+  sessions: many(sessions),
+  passwordResetTokens: many(passwordResetTokens),
+  twoFactorCredential: one(twoFactorCredentials),
+  twoFactorRecoveryCodes: many(twoFactorRecoveryCodes),
+  walletLinks: many(walletLinks),
+  loginHistory: many(loginHistory),
   generatedApis: many(generatedApis),
   apiUsage: many(apiUsage),
   billingRecords: many(billingRecords),
@@ -298,6 +666,34 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   simulations: many(simulations),
 }));
 
+export const organizationMembersRelations = relations(
+  organizationMembers,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationMembers.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(users, {
+      fields: [organizationMembers.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const organizationInvitationsRelations = relations(
+  organizationInvitations,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationInvitations.organizationId],
+      references: [organizations.id],
+    }),
+    inviter: one(users, {
+      fields: [organizationInvitations.invitedBy],
+      references: [users.id],
+    }),
+  }),
+);
+
 export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
   user: one(users, {
     fields: [apiKeys.userId],
@@ -309,6 +705,57 @@ export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
   }),
 }));
 
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(
+  passwordResetTokens,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [passwordResetTokens.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const twoFactorCredentialsRelations = relations(
+  twoFactorCredentials,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [twoFactorCredentials.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const twoFactorRecoveryCodesRelations = relations(
+  twoFactorRecoveryCodes,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [twoFactorRecoveryCodes.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const loginHistoryRelations = relations(loginHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [loginHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+export const walletLinksRelations = relations(walletLinks, ({ one }) => ({
+  user: one(users, {
+    fields: [walletLinks.userId],
+    references: [users.id],
+  }),
+}));
+
 export const generatedApisRelations = relations(
   generatedApis,
   ({ one, many }) => ({
@@ -320,12 +767,82 @@ export const generatedApisRelations = relations(
       fields: [generatedApis.organizationId],
       references: [organizations.id],
     }),
+    endpoints: many(generatedApiEndpoints),
+    revisions: many(generatedApiRevisions),
+    testRuns: many(generatedApiTestRuns),
+    evaluations: many(generatedApiEvaluations),
     apiUsage: many(apiUsage),
     billingRecords: many(billingRecords),
     paymentRequests: many(paymentRequests),
   }),
 );
 
+export const generatedApiEndpointsRelations = relations(
+  generatedApiEndpoints,
+  ({ one }) => ({
+    api: one(generatedApis, {
+      fields: [generatedApiEndpoints.apiId],
+      references: [generatedApis.id],
+    }),
+  }),
+);
+
+export const generatedApiEvaluationsRelations = relations(
+  generatedApiEvaluations,
+  ({ one }) => ({
+    api: one(generatedApis, {
+      fields: [generatedApiEvaluations.apiId],
+      references: [generatedApis.id],
+    }),
+    user: one(users, {
+      fields: [generatedApiEvaluations.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const generatedApiTestRunsRelations = relations(
+  generatedApiTestRuns,
+  ({ one }) => ({
+    api: one(generatedApis, {
+      fields: [generatedApiTestRuns.apiId],
+      references: [generatedApis.id],
+    }),
+    triggeredByUser: one(users, {
+      fields: [generatedApiTestRuns.triggeredBy],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const generatedApiRevisionsRelations = relations(
+  generatedApiRevisions,
+  ({ one }) => ({
+    api: one(generatedApis, {
+      fields: [generatedApiRevisions.apiId],
+      references: [generatedApis.id],
+    }),
+    author: one(users, {
+      fields: [generatedApiRevisions.authorId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const promptTemplatesRelations = relations(
+  promptTemplates,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [promptTemplates.organizationId],
+      references: [organizations.id],
+    }),
+    creator: one(users, {
+      fields: [promptTemplates.createdBy],
+      references: [users.id],
+    }),
+  }),
+);
+
 export const tutorialsRelations = relations(tutorials, ({ many }) => ({
   learningProgress: many(learningProgress),
 }));
@@ -369,12 +886,59 @@ export type NewUserDB = typeof users.$inferInsert;
 export type OrganizationDB = typeof organizations.$inferSelect;
 export type NewOrganizationDB = typeof organizations.$inferInsert;
 
+export type OrganizationMemberDB = typeof organizationMembers.$inferSelect;
+export type NewOrganizationMemberDB = typeof organizationMembers.$inferInsert;
+
+export type OrganizationInvitationDB =
+  typeof organizationInvitations.$inferSelect;
+export type NewOrganizationInvitationDB =
+  typeof organizationInvitations.$inferInsert;
+
 export type ApiKeyDB = typeof apiKeys.$inferSelect;
 export type NewApiKeyDB = typeof apiKeys.$inferInsert;
 
+export type SessionDB = typeof sessions.$inferSelect;
+export type NewSessionDB = typeof sessions.$inferInsert;
+
+export type PasswordResetTokenDB = typeof passwordResetTokens.$inferSelect;
+export type NewPasswordResetTokenDB = typeof passwordResetTokens.$inferInsert;
+
+export type TwoFactorCredentialDB = typeof twoFactorCredentials.$inferSelect;
+export type NewTwoFactorCredentialDB = typeof twoFactorCredentials.$inferInsert;
+
+export type TwoFactorRecoveryCodeDB =
+  typeof twoFactorRecoveryCodes.$inferSelect;
+export type NewTwoFactorRecoveryCodeDB =
+  typeof twoFactorRecoveryCodes.$inferInsert;
+
+export type LoginHistoryDB = typeof loginHistory.$inferSelect;
+export type NewLoginHistoryDB = typeof loginHistory.$inferInsert;
+
+export type WalletLinkDB = typeof walletLinks.$inferSelect;
+export type NewWalletLinkDB = typeof walletLinks.$inferInsert;
+
 export type GeneratedApiDB = typeof generatedApis.$inferSelect;
 export type NewGeneratedApiDB = typeof generatedApis.$inferInsert;
 
+export type GeneratedApiEndpointDB = typeof generatedApiEndpoints.$inferSelect;
+export type NewGeneratedApiEndpointDB =
+  typeof generatedApiEndpoints.$inferInsert;
+
+export type GeneratedApiRevisionDB = typeof generatedApiRevisions.$inferSelect;
+export type NewGeneratedApiRevisionDB =
+  typeof generatedApiRevisions.$inferInsert;
+
+export type GeneratedApiTestRunDB = typeof generatedApiTestRuns.$inferSelect;
+export type NewGeneratedApiTestRunDB = typeof generatedApiTestRuns.$inferInsert;
+
+export type GeneratedApiEvaluationDB =
+  typeof generatedApiEvaluations.$inferSelect;
+export type NewGeneratedApiEvaluationDB =
+  typeof generatedApiEvaluations.$inferInsert;
+
+export type PromptTemplateDB = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplateDB = typeof promptTemplates.$inferInsert;
+
 export type ApiUsageDB = typeof apiUsage.$inferSelect;
 export type NewApiUsageDB = typeof apiUsage.$inferInsert;
 
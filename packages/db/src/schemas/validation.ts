@@ -12,7 +12,6 @@ export const createUserSchema = z.object({
   email: z.string().email("Invalid email format"),
   name: z.string().min(1, "Name is required").max(255, "Name too long"),
   passwordHash: z.string().min(1, "Password hash is required"),
-  organizationId: z.string().uuid("Invalid organization ID").nullable().optional(),
   emailVerified: z.boolean().default(false),
 });
 
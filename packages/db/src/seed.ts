@@ -8,6 +8,7 @@ import {
   apiKeys,
   generatedApis,
   learningProgress,
+  organizationMembers,
   organizations,
   tutorials,
   users,
@@ -282,18 +283,19 @@ export async function seedDatabase() {
       .values(seedOrganizations)
       .returning();
 
-    // 2. ユーザーデータを投入（最初の組織に所属）
+    // 2. ユーザーデータを投入（管理者ユーザーを最初の組織のオーナーにする）
     console.log("👥 Seeding users...");
-    const usersWithOrg = seedUsers.map((user, index) => ({
-      ...user,
-      organizationId: index === 0 ? insertedOrgs[0]?.id || null : null,
-    }));
-
     const insertedUsers = await db
       .insert(users)
-      .values(usersWithOrg)
+      .values(seedUsers)
       .returning();
 
+    await db.insert(organizationMembers).values({
+      organizationId: insertedOrgs[0]?.id ?? '',
+      userId: insertedUsers[0]?.id ?? '',
+      role: "owner",
+    });
+
     // 3. チュートリアルデータを投入
     console.log("📚 Seeding tutorials...");
     const insertedTutorials = await db
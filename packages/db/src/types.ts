@@ -65,6 +65,12 @@ export interface QueryMetrics {
   error?: string;
 }
 
+// 集計結果の型
+export type {
+  ApiEvaluationSummary,
+  ApiQualityStats,
+} from "./types/metrics";
+
 // Re-export types from @repo/shared as the single source of truth
 export type {
   ApiKey,
@@ -82,22 +88,48 @@ export type {
   ApiUsageDB,
   BillingRecordDB,
   GeneratedApiDB,
+  GeneratedApiEndpointDB,
+  GeneratedApiEvaluationDB,
+  GeneratedApiRevisionDB,
+  GeneratedApiTestRunDB,
   LearningProgressDB,
+  LoginHistoryDB,
   NewApiKeyDB,
   NewApiUsageDB,
   NewBillingRecordDB,
   NewGeneratedApiDB,
+  NewGeneratedApiEndpointDB,
+  NewGeneratedApiEvaluationDB,
+  NewGeneratedApiRevisionDB,
+  NewGeneratedApiTestRunDB,
   NewLearningProgressDB,
+  NewLoginHistoryDB,
   NewOrganizationDB,
+  NewOrganizationInvitationDB,
+  NewOrganizationMemberDB,
+  NewPasswordResetTokenDB,
   NewPaymentRequestDB,
+  NewPromptTemplateDB,
+  NewSessionDB,
   NewSimulationActionDB,
   NewSimulationDB,
   NewTutorialDB,
+  NewTwoFactorCredentialDB,
+  NewTwoFactorRecoveryCodeDB,
   NewUserDB,
+  NewWalletLinkDB,
   OrganizationDB,
+  OrganizationInvitationDB,
+  OrganizationMemberDB,
+  PasswordResetTokenDB,
   PaymentRequestDB,
+  PromptTemplateDB,
+  SessionDB,
   SimulationActionDB,
   SimulationDB,
   TutorialDB,
+  TwoFactorCredentialDB,
+  TwoFactorRecoveryCodeDB,
   UserDB,
+  WalletLinkDB,
 } from "./schema";
@@ -95,4 +95,20 @@ export interface ApiMetrics {
   averageResponseTime: number;
   totalErrors: number;
   errorRate: number;
-}
\ No newline at end of file
+}
+/**
+ * API評価集計の型定義
+ */
+export interface ApiEvaluationSummary {
+  evaluationCount: number;
+  averageRating: number;
+  workingRate: number; // 0〜1
+}
+
+/**
+ * LLMプロバイダー・カテゴリ別の品質統計の型定義
+ */
+export interface ApiQualityStats extends ApiEvaluationSummary {
+  key: string | null; // プロバイダー名またはカテゴリ（未記録はnull）
+  apiCount: number;
+}
@@ -1,10 +1,30 @@
 import { z } from "zod";
+import { apiScopeSchema } from "./auth";
+import {
+  type CodeEvaluationInput,
+  type CodeImprovementRequest,
+  codeEvaluationSchema,
+  codeImprovementRequestSchema,
+  codeSearchSchema,
+  LLMProvider,
+} from "./schemas/llm-integration";
+
+export {
+  type CodeEvaluationInput,
+  type CodeImprovementRequest,
+  codeEvaluationSchema,
+  codeImprovementRequestSchema,
+  LLMProvider,
+};
 
 // API Key management schemas
 export const createApiKeySchema = z.object({
   name: z.string().min(1, "API key name is required"),
   description: z.string().optional(),
-  expiresAt: z.date().optional(),
+  // JSONリクエストではISO文字列で受け取るためDateに変換
+  expiresAt: z.coerce.date().optional(),
+  // 省略時は全スコープを付与
+  scopes: z.array(apiScopeSchema).min(1).optional(),
 });
 
 export const apiKeySchema = z.object({
@@ -12,6 +32,7 @@ export const apiKeySchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
   key: z.string(),
+  scopes: z.array(apiScopeSchema),
   userId: z.string().uuid(),
   organizationId: z.string().uuid().nullable(),
   expiresAt: z.date().nullable(),
@@ -28,6 +49,155 @@ export const naturalLanguageInputSchema = z.object({
   externalApis: z.array(z.string()).optional(),
   complexityLevel: z.enum(["simple", "medium", "complex"]).default("medium"),
   autoDeploy: z.boolean().optional().default(true),
+  // 省略時は組織の設定、未設定ならサーバーの既定プロバイダーを使用
+  provider: LLMProvider.optional(),
+  // Generate request/response test cases and run them before deploying (default: true)
+  includeTests: z.boolean().optional(),
+  // Deploy even if the generated tests fail (results are still recorded)
+  allowFailingTests: z.boolean().optional(),
+  // Generate a small resource with several routes (list, get, create, ...),
+  // each priced separately and deployed together under one base path
+  multiEndpoint: z.boolean().optional(),
+  // Last segment of the mount path. Generated APIs are mounted under the creator's
+  // namespace (/u/:userId/:slug, or /o/:organizationId/:slug for organization APIs).
+  // Derived from the generated endpoint when omitted
+  slug: z
+    .string()
+    .max(64)
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Slug must be lowercase letters, digits and single hyphens",
+    )
+    .optional(),
+});
+
+// Request/response test case run against a generated API before deploy
+export const apiTestCaseSchema = z.object({
+  name: z.string().min(1),
+  request: z.object({
+    method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH"]),
+    path: z.string().startsWith("/"),
+    query: z.record(z.string()).optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.unknown().optional(),
+  }),
+  expect: z.object({
+    status: z.number().int().min(100).max(599),
+    contentType: z.string().optional(),
+    // Substrings the response body must contain
+    bodyContains: z.array(z.string()).optional(),
+    // Top-level keys the JSON response body must have
+    jsonKeys: z.array(z.string()).optional(),
+  }),
+});
+
+export const apiTestSuiteSchema = z.array(apiTestCaseSchema).max(20);
+
+// Prompt template schemas (organization-wide, parameterized generation requests)
+// Variables are referenced from the template body as {{name}}
+export const promptTemplateVariableSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Use letters, digits and underscores")
+    .max(50),
+  type: z.enum(["string", "number", "boolean", "url", "enum"]),
+  description: z.string().max(500).optional(),
+  required: z.boolean().default(true),
+  // Allowed values for enum variables
+  options: z.array(z.string().min(1).max(100)).min(1).max(50).optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export const promptTemplateInputSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  template: z.string().min(10).max(10000),
+  variables: z.array(promptTemplateVariableSchema).max(20).default([]),
+  category: naturalLanguageInputSchema.shape.category,
+  complexityLevel: z.enum(["simple", "medium", "complex"]).optional(),
+  expectedPrice: z.string().optional(),
+  externalApis: z.array(z.string()).optional(),
+});
+
+export const promptTemplateUpdateSchema = promptTemplateInputSchema.partial();
+
+// Generation request from a template. The rendered template becomes the description
+export const generateFromTemplateSchema = naturalLanguageInputSchema
+  .pick({
+    expectedPrice: true,
+    complexityLevel: true,
+    autoDeploy: true,
+    provider: true,
+    includeTests: true,
+    allowFailingTests: true,
+    multiEndpoint: true,
+    slug: true,
+  })
+  .partial()
+  .extend({
+    variables: z.record(z.unknown()).default({}),
+  });
+
+// Generated API listing and deployment schemas
+export const generatedApiListQuerySchema = z.object({
+  // own: APIs created by the user, org: APIs shared within an organization
+  scope: z.enum(["own", "org"]).default("own"),
+  organizationId: z.string().uuid().optional(),
+});
+
+export const rollbackDeploymentSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+// Canary deployment of a revision. `percentage` of requests go to the canary, and so
+// do requests whose cohort header or cookie equals `value`. The canary is promoted
+// or rolled back automatically once it has served `minRequests` requests
+export const canaryDeploymentSchema = z.object({
+  percentage: z.number().min(0).max(100).default(10),
+  cohort: z
+    .object({
+      header: z.string().min(1).max(100).optional(),
+      cookie: z.string().min(1).max(100).optional(),
+      value: z.string().min(1).max(200),
+    })
+    .refine(({ header, cookie }) => header || cookie, {
+      message: "header or cookie is required",
+    })
+    .optional(),
+  thresholds: z
+    .object({
+      minRequests: z.number().int().positive(),
+      // Allowed increase of the 5xx rate over the stable version (0-1)
+      maxErrorRateIncrease: z.number().min(0).max(1),
+      // Allowed ratio of the canary's average latency to the stable version's
+      maxLatencyRatio: z.number().min(1),
+    })
+    .partial()
+    .optional(),
+});
+
+// Query parameters for the generated API catalog search. Based on codeSearchSchema
+// with numbers and dates coerced from strings, plus category and deployment status
+export const codeSearchQuerySchema = codeSearchSchema
+  .extend({
+    query: z.string().trim().max(200).optional(),
+    minQualityScore: z.coerce.number().min(0).max(100).optional(),
+    dateFrom: z.coerce.date().optional(),
+    dateTo: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    offset: z.coerce.number().int().min(0).default(0),
+    category: naturalLanguageInputSchema.shape.category.optional(),
+    apiStatus: z.enum(["draft", "active", "inactive"]).optional(),
+  })
+  .refine(
+    ({ dateFrom, dateTo }) => !dateFrom || !dateTo || dateFrom <= dateTo,
+    { message: "dateFrom must not be after dateTo", path: ["dateTo"] },
+  );
+
+// Query parameters are strings, so revision numbers are coerced
+export const revisionCompareQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
 });
 
 export const generatedApiSpecSchema = z.object({
@@ -99,6 +269,20 @@ export const learningProgressSchema = z.object({
 export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
 export type ApiKey = z.infer<typeof apiKeySchema>;
 export type NaturalLanguageInput = z.infer<typeof naturalLanguageInputSchema>;
+export type GeneratedApiListQuery = z.infer<typeof generatedApiListQuerySchema>;
+export type RollbackDeploymentInput = z.infer<typeof rollbackDeploymentSchema>;
+export type CanaryDeploymentInput = z.infer<typeof canaryDeploymentSchema>;
+export type RevisionCompareQuery = z.infer<typeof revisionCompareQuerySchema>;
+export type CodeSearchQuery = z.infer<typeof codeSearchQuerySchema>;
+export type ApiTestCase = z.infer<typeof apiTestCaseSchema>;
+export type PromptTemplateVariable = z.infer<
+  typeof promptTemplateVariableSchema
+>;
+export type PromptTemplateInput = z.infer<typeof promptTemplateInputSchema>;
+export type PromptTemplateUpdate = z.infer<typeof promptTemplateUpdateSchema>;
+export type GenerateFromTemplateInput = z.infer<
+  typeof generateFromTemplateSchema
+>;
 export type GeneratedApiSpec = z.infer<typeof generatedApiSpecSchema>;
 export type UsageStats = z.infer<typeof usageStatsSchema>;
 export type BillingRecord = z.infer<typeof billingRecordSchema>;
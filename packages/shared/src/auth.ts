@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { LLMProvider } from "./schemas/llm-integration";
 
 // パスワード強度バリデーション
 const passwordSchema = z
@@ -47,10 +48,32 @@ export const passwordResetRequestSchema = z.object({
 });
 
 export const passwordResetSchema = z.object({
+  // 試行回数の制限はメールアドレス単位で行う
+  email: emailSchema,
   token: z.string().min(1, 'リセットトークンが必要です'),
   password: passwordSchema,
 });
 
+// メールアドレス確認スキーマ
+export const emailVerificationConfirmSchema = z.object({
+  token: z.string().min(1, '確認トークンが必要です'),
+});
+
+// 二要素認証（TOTPの6桁コード、またはリカバリーコード）
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, '認証コードが必要です').max(32),
+});
+
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, 'チャレンジトークンが必要です'),
+});
+
+// Sign-In With Ethereum（EIP-4361）
+export const siweVerifySchema = z.object({
+  message: z.string().min(1, 'SIWEメッセージが必要です').max(4096),
+  signature: z.string().regex(/^0x[a-fA-F0-9]{130}$/, '署名の形式が正しくありません'),
+});
+
 export const userSchema = z.object({
   id: z.string().uuid(),
   email: z.string().email(),
@@ -68,10 +91,66 @@ export const organizationSchema = z.object({
   updatedAt: z.date(),
 });
 
+// 組織内ロール（owner > admin > member > viewer の順に権限が強い）
+export const organizationRoleSchema = z.enum([
+  "owner",
+  "admin",
+  "member",
+  "viewer",
+]);
+
+// 組織管理スキーマ
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .min(1, '組織名を入力してください')
+    .max(200, '組織名は200文字以内で入力してください'),
+  domain: z
+    .string()
+    .max(255, 'ドメインは255文字以内で入力してください')
+    .optional(),
+});
+
+export const inviteMemberSchema = z.object({
+  email: emailSchema,
+  role: organizationRoleSchema.default("member"),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, '招待トークンが必要です'),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: organizationRoleSchema,
+});
+
+// 組織設定（nullで既定のLLMプロバイダーに戻す）
+export const updateOrganizationSettingsSchema = z.object({
+  llmProvider: LLMProvider.nullable(),
+});
+
+// 権限スコープ（APIキー・JWTに付与し、ルート単位で要求する）
+export const apiScopeSchema = z.enum([
+  "generator:read",
+  "generator:create",
+  "generator:deploy",
+  "generator:delete",
+  "profile:read",
+  "profile:write",
+  "organization:read",
+  "organization:write",
+  "billing:read",
+  "analytics:read",
+]);
+
+// ログインユーザーに付与される全スコープ
+export const ALL_API_SCOPES = apiScopeSchema.options;
+
 export const jwtPayloadSchema = z.object({
   userId: z.string().uuid(),
   email: z.string().email(),
   organizationId: z.string().uuid().nullable(),
+  scopes: z.array(apiScopeSchema).optional(),
   iat: z.number(),
   exp: z.number(),
 });
@@ -81,6 +160,21 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type PasswordResetRequestInput = z.infer<typeof passwordResetRequestSchema>;
 export type PasswordResetInput = z.infer<typeof passwordResetSchema>;
+export type EmailVerificationConfirmInput = z.infer<
+  typeof emailVerificationConfirmSchema
+>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type SiweVerifyInput = z.infer<typeof siweVerifySchema>;
 export type User = z.infer<typeof userSchema>;
 export type Organization = z.infer<typeof organizationSchema>;
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type InviteMemberInput = z.input<typeof inviteMemberSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
+export type UpdateOrganizationSettingsInput = z.infer<
+  typeof updateOrganizationSettingsSchema
+>;
+export type ApiScope = z.infer<typeof apiScopeSchema>;
 export type JwtPayload = z.infer<typeof jwtPayloadSchema>;
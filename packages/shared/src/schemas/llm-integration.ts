@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
-// LLMプロバイダー定義
-export const LLMProvider = z.enum(['gemini-pro', 'gpt-4', 'gpt-3.5-turbo', 'claude-3'] as const);
+// LLMプロバイダー定義（recordedは記録済みレスポンスを再生するオフライン用）
+export const LLMProvider = z.enum(['gemini-pro', 'gpt-4', 'gpt-3.5-turbo', 'claude-3', 'recorded'] as const);
 export type LLMProvider = z.infer<typeof LLMProvider>;
 
 // プログラミング言語定義
@@ -74,6 +74,7 @@ describe('Schema Integration Tests', () => {
 
     it('should validate password reset with token', () => {
       const validReset = {
+        email: 'test@example.com',
         token: 'reset-token-123',
         password: 'NewSecurePass123!',
       };